@@ -1,88 +1,310 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useInit } from '../hooks/useInit';
-
-interface Asset {
-    id: string;
-    name: string;
-    category: string;
-    imageUrl: string;
-    sizeScale: number;
-}
-
-interface PlacedAsset {
+import { useEditorHistory, HistoryDirection } from '../hooks/useEditorHistory';
+import { useDraftAutosave, readLocalDrafts } from '../hooks/useDraftAutosave';
+import { useTimelapseRecorder, TimelapseFrame } from '../hooks/useTimelapseRecorder';
+import { useTimelapseReplay } from '../hooks/useTimelapseReplay';
+import { clampScale, normalizeRotation, DESIGN_SCHEMA_VERSION, CANVAS_WIDTH, CANVAS_HEIGHT, Design, PlacedAsset, LayerMode, LayerOverride, GallerySort, GALLERY_SORTS, MAX_DESIGN_NAME_LENGTH, DesignRevision, Timelapse, RoomColors, FloorPattern, FLOOR_PATTERNS } from '../../types/models';
+import { sortByDepth } from '../../utils/depthSort';
+import { offsetToCanvas, canvasToOffset } from '../../utils/designMigrations';
+import { ASSET_CATALOG, CatalogAsset, getCatalogAsset } from '../../utils/assetCatalog';
+import { layoutDesign, getAssetTransform, getRoomTransform } from '../../utils/designLayout';
+import { ROOM_BASES, DEFAULT_ROOM_ID, getRoomBase } from '../../utils/roomBases';
+import { getSurfaceLayers, getFloorPatternLayer, getFloorGridLines, snapToFloorGrid, getRoomGuides, toSvgPoints, RoomSurface } from '../../utils/roomSurfaces';
+import { addRecentColor } from '../../utils/colors';
+import { getNudge, describePosition, describeSelection } from '../../utils/accessibility';
+import { Offset, ArrangeItem, AlignMode, DistributeAxis, AssetGroup, AssetGroupItem, GuideSnap, intersectsRect, alignItems, distributeItems, clampDelta, getGuideTargets, snapToGuides, toAssetGroupItem, offsetCopies, createAssetGroup, placeAssetGroup, isAssetGroup, isAssetGroupItem } from '../../utils/arrange';
+import { INITIAL_RATING } from '../../utils/elo';
+import { DraftDesign, findLatestLocalDraft, isLocalDraftNewer } from '../../utils/drafts';
+import { REPLAY_SPEEDS, getBuildAssets } from '../../utils/timelapse';
+import { toSharedDesign, encodeShareCode, formatDesignFile, readDesignImport } from '../../utils/designSharing';
+import { getAvailableAssets, getThemeRuleViolations, describeThemeRules } from '../../utils/themeRules';
+import { renderDesignPng, downloadBlob, EXPORT_SCALES, ExportScale, ExportableDesign } from './exportImage';
+import { ColorWheel } from './ColorWheel';
+import { SaveStatusBadge } from './SaveStatusBadge';
+
+// Editor-local view of a placed asset; saved as the shared PlacedAsset schema
+interface EditorAsset {
     id: string;
     assetId: string;
     // Position as offset from center in percentage (-50 to +50)
     xOffset: number; // negative = left of center, positive = right of center
     yOffset: number; // negative = above center, positive = below center
     scale: number;
+    rotation: number; // degrees clockwise, 0 <= rotation < 360
     flipped: boolean; // horizontal flip
+    layerOverride?: LayerOverride; // pinned in front of / behind everything else
+}
+
+type AssetPosition = Pick<EditorAsset, 'xOffset' | 'yOffset'>;
+
+// Ordering and filters of a gallery listing, sent to /api/gallery
+interface GalleryQuery {
+    sort: GallerySort;
+    assetId?: string;
+    user?: { id: string; username: string };
+}
+
+const GALLERY_PAGE_SIZE = 20;
+
+const GALLERY_SORT_LABELS: Record<GallerySort, string> = {
+    newest: 'Newest',
+    top: 'Top',
+    hot: 'Hot',
+    rating: 'Rating',
+    random: 'Random',
+};
+
+// In-progress resize/rotate gesture on the selected asset's handles
+interface TransformDrag {
+    type: 'scale' | 'rotate';
+    asset: EditorAsset; // asset as it was when the gesture started
+    centerX: number; // asset center in client pixels
+    centerY: number;
+    startDistance: number; // pointer distance from the center at the start
 }
 
-const ASSETS: Asset[] = [
-    // Furniture
-    { id: 'desk', name: 'Desk', category: 'furniture', imageUrl: 'desk.png', sizeScale: 1.4 },
-    { id: 'desk_2', name: 'Desk 2', category: 'furniture', imageUrl: 'desk_2.PNG', sizeScale: 1.4 },
-    { id: 'chair_1', name: 'Chair 1', category: 'furniture', imageUrl: 'chair_1.png', sizeScale: 1.0 },
-    { id: 'chair_2', name: 'Chair 2', category: 'furniture', imageUrl: 'chair_2.png', sizeScale: 1.0 },
-    { id: 'chair_3', name: 'Chair 3', category: 'furniture', imageUrl: 'chair_3.PNG', sizeScale: 1.0 },
-    { id: 'chair_4', name: 'Chair 4', category: 'furniture', imageUrl: 'chair_4.PNG', sizeScale: 1.0 },
-    { id: 'chair_5', name: 'Chair 5', category: 'furniture', imageUrl: 'chair_5.PNG', sizeScale: 1.0 },
-    { id: 'bookshelf_1', name: 'Bookshelf 1', category: 'furniture', imageUrl: 'bookshelf_1.png', sizeScale: 1.3 },
-    { id: 'bookshelf_2', name: 'Bookshelf 2', category: 'furniture', imageUrl: 'bookshelf_2.png', sizeScale: 1.3 },
-    { id: 'bookshelf_3', name: 'Bookshelf 3', category: 'furniture', imageUrl: 'bookshelf_3.png', sizeScale: 1.3 },
-    { id: 'shelf_1', name: 'Shelf', category: 'furniture', imageUrl: 'shelf_1.PNG', sizeScale: 1.2 },
-    { id: 'curtain_1', name: 'Curtain', category: 'furniture', imageUrl: 'curtain_1.png', sizeScale: 1.3 },
-    { id: 'rug_1', name: 'Rug 1', category: 'furniture', imageUrl: 'rug_1.png', sizeScale: 1.3 },
-    { id: 'rug_2', name: 'Rug 2', category: 'furniture', imageUrl: 'rug_2.png', sizeScale: 1.3 },
-    { id: 'rug_3', name: 'Rug 3', category: 'furniture', imageUrl: 'rug_3.png', sizeScale: 1.3 },
-    // Electronics
-    { id: 'laptop', name: 'Laptop', category: 'electronics', imageUrl: 'laptop.png', sizeScale: 0.7 },
-    { id: 'mouse', name: 'Mouse', category: 'electronics', imageUrl: 'mouse.png', sizeScale: 0.45 },
-    { id: 'coffee_machine', name: 'Coffee Machine', category: 'electronics', imageUrl: 'coffee_machine.PNG', sizeScale: 0.8 },
-    { id: 'printer', name: 'Printer', category: 'electronics', imageUrl: 'printer.PNG', sizeScale: 0.9 },
-    { id: 'light_switch', name: 'Light Switch', category: 'electronics', imageUrl: 'light_switch.PNG', sizeScale: 0.4 },
-    // Lighting
-    { id: 'lamp', name: 'Lamp', category: 'lighting', imageUrl: 'lamp.png', sizeScale: 1.0 },
-    // Decor
-    { id: 'clock', name: 'Clock', category: 'decor', imageUrl: 'clock.png', sizeScale: 0.6 },
-    { id: 'cup', name: 'Cup', category: 'decor', imageUrl: 'cup.png', sizeScale: 0.5 },
-    { id: 'plant', name: 'Plant', category: 'decor', imageUrl: 'plant.png', sizeScale: 0.8 },
-    { id: 'plant_1', name: 'Plant 1', category: 'decor', imageUrl: 'plant_1.PNG', sizeScale: 0.8 },
-    { id: 'plant_2', name: 'Plant 2', category: 'decor', imageUrl: 'plant_2.PNG', sizeScale: 0.8 },
-    { id: 'plant_3', name: 'Plant 3', category: 'decor', imageUrl: 'plant_3.PNG', sizeScale: 0.8 },
-    { id: 'plant_4', name: 'Plant 4', category: 'decor', imageUrl: 'plant_4.PNG', sizeScale: 0.8 },
-    { id: 'plant_5', name: 'Plant 5', category: 'decor', imageUrl: 'plant_5.PNG', sizeScale: 0.8 },
-    { id: 'plant_6', name: 'Plant 6', category: 'decor', imageUrl: 'plant_6.PNG', sizeScale: 0.8 },
-    { id: 'plant_7', name: 'Plant 7', category: 'decor', imageUrl: 'plant_7.PNG', sizeScale: 0.8 },
-    { id: 'plant_8', name: 'Plant 8', category: 'decor', imageUrl: 'plant_8.PNG', sizeScale: 0.8 },
-    { id: 'poster_1', name: 'Poster', category: 'decor', imageUrl: 'poster_1.PNG', sizeScale: 0.9 },
-    { id: 'calendar', name: 'Calendar', category: 'decor', imageUrl: 'calendar.PNG', sizeScale: 0.7 },
-    { id: 'to_do', name: 'To Do List', category: 'decor', imageUrl: 'to_do.PNG', sizeScale: 0.7 },
-    { id: 'cube', name: 'Cube', category: 'decor', imageUrl: 'cube.PNG', sizeScale: 0.6 },
-    { id: 'cube_2', name: 'Cube 2', category: 'decor', imageUrl: 'cube_2.PNG', sizeScale: 0.6 },
-    // Classroom
-    { id: 'chalkboard', name: 'Chalkboard', category: 'furniture', imageUrl: 'chalkboard.PNG', sizeScale: 1.5 },
-    { id: 'book', name: 'Book', category: 'decor', imageUrl: 'book.PNG', sizeScale: 0.5 },
-    { id: 'backpack_1', name: 'Backpack 1', category: 'decor', imageUrl: 'backpack_1.png', sizeScale: 0.7 },
-    { id: 'backpack_2', name: 'Backpack 2', category: 'decor', imageUrl: 'backpack_2.png', sizeScale: 0.7 },
-    { id: 'trash', name: 'Trash', category: 'decor', imageUrl: 'trash.png', sizeScale: 0.6 },
-    { id: 'trashcan', name: 'Trashcan', category: 'decor', imageUrl: 'trashcan.PNG', sizeScale: 0.7 },
-    // People
-    { id: 'student_1', name: 'Student 1', category: 'people', imageUrl: 'student_1.png', sizeScale: 1.0 },
-    { id: 'student_2', name: 'Student 2', category: 'people', imageUrl: 'student_2.png', sizeScale: 1.0 },
-    { id: 'teacher', name: 'Teacher', category: 'people', imageUrl: 'teacher.png', sizeScale: 1.1 },
-];
+// Reversible editor operations recorded for undo/redo
+type EditorCommand =
+    | { type: 'place'; asset: EditorAsset }
+    | { type: 'delete'; asset: EditorAsset; index: number }
+    | { type: 'move'; id: string; from: AssetPosition; to: AssetPosition }
+    | { type: 'flip'; id: string }
+    | { type: 'scale'; id: string; from: number; to: number }
+    | { type: 'rotate'; id: string; from: number; to: number }
+    | { type: 'override'; id: string; from?: LayerOverride; to?: LayerOverride }
+    | { type: 'layerMode'; from: LayerMode; to: LayerMode }
+    | { type: 'recolor'; from: string; to: string }
+    | { type: 'paint'; from: RoomColors; to: RoomColors }
+    // Several commands applied as one undo step, e.g. moving a whole selection
+    | { type: 'batch'; commands: EditorCommand[] };
+
+// Kept out of sight but still read by screen readers
+const VISUALLY_HIDDEN: React.CSSProperties = {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    padding: 0,
+    margin: '-1px',
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0,
+};
+
+const assetName = (placed: EditorAsset): string => getCatalogAsset(placed.assetId)?.name ?? placed.assetId;
+
+// A single command as itself, several as one batch
+const batch = (commands: EditorCommand[]): EditorCommand =>
+    commands.length === 1 ? commands[0] : { type: 'batch', commands };
+
+// An editor asset's box for the arrange tools; the size is a share of the room
+// width, so the height in room-height percent is stretched by the aspect ratio
+const toArrangeItem = (placed: EditorAsset): ArrangeItem => {
+    const halfWidth = 5 * (getCatalogAsset(placed.assetId)?.sizeScale ?? 1) * placed.scale;
+    return { id: placed.id, xOffset: placed.xOffset, yOffset: placed.yOffset, halfWidth, halfHeight: halfWidth * CANVAS_WIDTH / CANVAS_HEIGHT };
+};
+
+
+// Editor assets in draw order; list position is the manual stacking order
+const inDrawOrder = (assets: EditorAsset[], layerMode: LayerMode): EditorAsset[] =>
+    sortByDepth(assets, (placed, index) => ({
+        assetId: placed.assetId,
+        floorY: placed.yOffset,
+        order: index,
+        layerOverride: placed.layerOverride,
+    }), layerMode);
+
+// Convert an editor asset to the shared design schema
+const toDesignAsset = (placed: EditorAsset, zIndex: number): PlacedAsset => ({
+    assetId: placed.assetId,
+    ...offsetToCanvas(placed.xOffset, placed.yOffset),
+    rotation: placed.rotation,
+    zIndex,
+    scale: placed.scale,
+    flipped: placed.flipped,
+    ...(placed.layerOverride ? { layerOverride: placed.layerOverride } : {}),
+});
+
+// The editor's room in the shared design schema
+const toExportableDesign = ({ placedAssets, backgroundColor, layerMode, roomId, roomColors }: {
+    placedAssets: EditorAsset[];
+    backgroundColor: string;
+    layerMode: LayerMode;
+    roomId: string;
+    roomColors: RoomColors;
+}): ExportableDesign => ({
+    assets: placedAssets.map(toDesignAsset),
+    backgroundColor,
+    layerMode,
+    roomId,
+    ...(Object.keys(roomColors).length > 0 ? { roomColors } : {}),
+});
+
+// A design as exported and shared; a saved design's name goes with it
+type ShareableDesign = ExportableDesign & { name?: string };
+
+// A design name made safe for a download's file name
+const toFileName = (name: string) => name.replace(/[^a-z0-9_-]+/gi, '_');
+
+// The editor's room as the timelapse recorder sees it
+const toTimelapseFrame = (placedAssets: EditorAsset[], backgroundColor: string, roomColors: RoomColors): TimelapseFrame => ({
+    assets: placedAssets.map((placed, index) => ({ key: placed.id, asset: toDesignAsset(placed, index) })),
+    backgroundColor,
+    ...(Object.keys(roomColors).length > 0 ? { roomColors } : {}),
+});
+
+// Convert saved design assets back to editor assets, in stacking order
+const toEditorAssets = (assets: PlacedAsset[]): EditorAsset[] => {
+    const stamp = Date.now();
+    return [...assets].sort((a, b) => a.zIndex - b.zIndex).map((asset, index) => ({
+        id: `${asset.assetId}-${stamp}-${index}`,
+        assetId: asset.assetId,
+        ...canvasToOffset(asset.x, asset.y),
+        scale: asset.scale,
+        rotation: asset.rotation,
+        flipped: asset.flipped,
+        ...(asset.layerOverride ? { layerOverride: asset.layerOverride } : {}),
+    }));
+};
+
+// Room color tints, multiplied onto the room image's walls, floor and trim
+const RoomTints = ({ roomColors, transform }: { roomColors?: RoomColors; transform?: string }) => (
+    <g transform={transform} style={{ mixBlendMode: 'multiply' }}>
+        {getSurfaceLayers(roomColors).flatMap(layer => layer.polygons.map((points, index) => (
+            <polygon key={`${layer.surface}-${index}`} points={toSvgPoints(points)} fill={layer.color} />
+        )))}
+    </g>
+);
+
+const FloorPatternLines = ({ pattern, transform }: { pattern?: FloorPattern; transform?: string }) => {
+    const layer = getFloorPatternLayer(pattern);
+    if (!layer) return null;
+    return (
+        <g transform={transform} stroke={layer.stroke} strokeWidth={layer.strokeWidth}>
+            {layer.lines.map(([[x1, y1], [x2, y2]], index) => (
+                <line key={index} x1={x1} y1={y1} x2={x2} y2={y2} />
+            ))}
+        </g>
+    );
+};
+
+// Live render of a saved design for the viewer, drawn from the same layout as PNG exports and thumbnails
+const RoomPreview = ({ design, style }: { design: Pick<Design, 'assets' | 'layerMode' | 'roomId' | 'roomColors'>; style?: React.CSSProperties }) => {
+    const room = getRoomBase(design.roomId);
+    const roomTransform = getRoomTransform(room);
+    return (
+        <svg
+            viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+            preserveAspectRatio="xMidYMid meet"
+            role="img"
+            aria-label="Room design"
+            style={{ width: '100%', height: '100%', display: 'block', ...style }}
+        >
+            <image href={room.imageUrl} width={CANVAS_WIDTH} height={CANVAS_HEIGHT} transform={roomTransform} preserveAspectRatio="xMidYMid meet" />
+            <RoomTints roomColors={design.roomColors} transform={roomTransform} />
+            <FloorPatternLines pattern={design.roomColors?.floorPattern} transform={roomTransform} />
+            {layoutDesign(design, (assetId) => getCatalogAsset(assetId)?.sizeScale ?? 1).map((box, index) => {
+                const asset = getCatalogAsset(box.asset.assetId);
+                if (!asset) return null;
+                return (
+                    <image
+                        key={index}
+                        href={asset.imageUrl}
+                        x={-box.size / 2}
+                        y={-box.size / 2}
+                        width={box.size}
+                        height={box.size}
+                        transform={getAssetTransform(box)}
+                        preserveAspectRatio="xMidYMid meet"
+                    />
+                );
+            })}
+        </svg>
+    );
+};
+
+// Server-rendered SVG thumbnail of a saved design. An <object> rather than an
+// <img> so the SVG can load the room and asset images it references.
+const DesignThumbnail = ({ design }: { design: Pick<Design, 'id' | 'updatedAt'> }) => (
+    <object
+        data={`/api/design/${encodeURIComponent(design.id)}/thumbnail?v=${design.updatedAt}`}
+        type="image/svg+xml"
+        aria-label="Room design"
+        style={{ width: '100%', height: '100%', display: 'block', pointerEvents: 'none' }}
+    />
+);
+
+// A draft's name, or when it was started if the player has not named it
+const draftName = (design: Pick<Design, 'name' | 'createdAt'>): string =>
+    design.name ?? `Draft from ${new Date(design.createdAt).toLocaleDateString()}`;
+
+// Calls onVisible when scrolled into view. Remount it (via key) after each page
+// so a sentinel that is still visible asks for the next page too.
+const LoadMoreSentinel = ({ onVisible }: { onVisible: () => void }) => {
+    const ref = useRef<HTMLDivElement>(null);
+    const onVisibleRef = useRef(onVisible);
+    onVisibleRef.current = onVisible;
+
+    useEffect(() => {
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some(entry => entry.isIntersecting)) onVisibleRef.current();
+        }, { rootMargin: '200px' });
+        if (ref.current) observer.observe(ref.current);
+        return () => observer.disconnect();
+    }, []);
+
+    return <div ref={ref} style={{ height: '1px' }} />;
+};
+
+// Editor preferences remembered between sessions in this browser, and the
+// clipboard, kept for this session so copies can be pasted into another design
+const RECENT_COLORS_KEY = 'recentColors';
+const ASSET_GROUPS_KEY = 'assetGroups';
+const CLIPBOARD_KEY = 'editorClipboard';
+
+const loadStoredList = <T,>(key: string, isItem: (value: unknown) => value is T, storage: Storage = localStorage): T[] => {
+    try {
+        const stored = JSON.parse(storage.getItem(key) ?? '[]');
+        return Array.isArray(stored) ? stored.filter(isItem) : [];
+    } catch {
+        return [];
+    }
+};
+
+const saveStoredList = (key: string, list: unknown[], storage: Storage = localStorage) => {
+    try {
+        storage.setItem(key, JSON.stringify(list));
+    } catch (error) {
+        console.error(`Failed to save ${key}:`, error);
+    }
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// What the color controls paint: the backdrop behind the room or one of its surfaces
+type ColorTarget = 'background' | RoomSurface;
+const COLOR_TARGETS: Array<[ColorTarget, string]> = [['background', 'Background'], ['wall', 'Wall'], ['floor', 'Floor'], ['trim', 'Trim']];
 
 const COLORS = ['#f1e1d6', '#FFFFFF', '#FFA500', '#4169E1', '#228B22', '#FF1493', '#8B4513', '#FFD700', '#9370DB', '#FF6347'];
 
 export const App = () => {
-    const { postId, username, theme, loading } = useInit();
+    const { postId, username, theme, draft, draftTimelapse, loading } = useInit();
     const [mode, setMode] = useState<'preview' | 'edit'>('preview');
-    const [currentView, setCurrentView] = useState<'design' | 'gallery' | 'viewing' | 'leaderboard' | 'saved'>('design');
+    const [currentView, setCurrentView] = useState<'design' | 'gallery' | 'viewing' | 'leaderboard' | 'saved' | 'versus'>('design');
     const [searchQuery, setSearchQuery] = useState('');
-    const [placedAssets, setPlacedAssets] = useState<PlacedAsset[]>([]);
-    const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
+    const [placedAssets, setPlacedAssets] = useState<EditorAsset[]>([]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    // Handles and per-asset shortcuts apply when exactly one asset is selected
+    const selectedAssetId = selectedIds.length === 1 ? selectedIds[0] : null;
+    // Rubber-band selection in progress, in room offsets; shift adds to the selection
+    const [marquee, setMarquee] = useState<{ start: Offset; end: Offset; additive: boolean } | null>(null);
+    // Placement aids: the floor grid (shown and snapped to) and smart guides to other items and the room
+    const [snapToGrid, setSnapToGrid] = useState(false);
+    const [smartGuides, setSmartGuides] = useState(true);
+    const [activeGuides, setActiveGuides] = useState<GuideSnap['guides']>({});
+    // Latest editor change for screen readers, read from a polite live region
+    const [announcement, setAnnouncement] = useState('');
     const [isBottomSheetOpen, setIsBottomSheetOpen] = useState(false);
     const [bottomSheetHeight, setBottomSheetHeight] = useState(35);
     const [isMobile, setIsMobile] = useState(false);
@@ -90,9 +312,18 @@ export const App = () => {
     const [isDragging, setIsDragging] = useState(false);
     const [isResizingSheet, setIsResizingSheet] = useState(false);
     const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+    const [transformDrag, setTransformDrag] = useState<TransformDrag | null>(null);
     const [isOverTrash, setIsOverTrash] = useState(false);
-    const [isClipping, setIsClipping] = useState(false);
+    const [layerMode, setLayerMode] = useState<LayerMode>('depth');
+    const [exportScale, setExportScale] = useState<ExportScale>(2);
+    const [isExporting, setIsExporting] = useState(false);
     const [backgroundColor, setBackgroundColor] = useState('#f1e1d6');
+    const [roomId, setRoomId] = useState(DEFAULT_ROOM_ID);
+    const [roomColors, setRoomColors] = useState<RoomColors>({});
+    const [colorTarget, setColorTarget] = useState<ColorTarget>('background');
+    const [recentColors, setRecentColors] = useState(() => loadStoredList(RECENT_COLORS_KEY, isString));
+    const [assetGroups, setAssetGroups] = useState(() => loadStoredList(ASSET_GROUPS_KEY, isAssetGroup));
+    const [groupName, setGroupName] = useState('');
     const [showSubmitModal, setShowSubmitModal] = useState(false);
     const [isSubmitted, setIsSubmitted] = useState(false);
     const [isLiked, setIsLiked] = useState(false);
@@ -104,23 +335,104 @@ export const App = () => {
     const [wasUpdate, setWasUpdate] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
-    const [galleryDesigns, setGalleryDesigns] = useState<any[]>([]);
+    const [galleryDesigns, setGalleryDesigns] = useState<Design[]>([]);
     const [loadingGallery, setLoadingGallery] = useState(false);
-    const [viewingDesign, setViewingDesign] = useState<any | null>(null);
+    const [galleryQuery, setGalleryQuery] = useState<GalleryQuery>({ sort: 'newest' });
+    const [leaderboardSort, setLeaderboardSort] = useState<'top' | 'hot' | 'rating'>('top');
+    // Pending "which room is better?" pair, null when there is nothing to compare
+    const [matchup, setMatchup] = useState<{ id: string; designs: Design[] } | null>(null);
+    const [loadingMatchup, setLoadingMatchup] = useState(false);
+    const [lastPick, setLastPick] = useState<{ username: string; change: number } | null>(null);
+    const [galleryCursor, setGalleryCursor] = useState<string | null>(null);
+    const [loadingMoreGallery, setLoadingMoreGallery] = useState(false);
+    const [viewingDesign, setViewingDesign] = useState<Design | null>(null);
+    // Earlier submissions of the design being viewed, oldest first, and the one shown
+    const [revisions, setRevisions] = useState<DesignRevision[] | null>(null);
+    const [revisionIndex, setRevisionIndex] = useState(0);
+    // How the design being viewed was built, for its replay
+    const [viewingTimelapse, setViewingTimelapse] = useState<{ designId: string; timelapse: Timelapse } | null>(null);
+    const [remixError, setRemixError] = useState<string | null>(null);
     const [userVotes, setUserVotes] = useState<Record<string, boolean>>({});
-    const [savedDesigns, setSavedDesigns] = useState<any[]>([]);
+    const [savedDesigns, setSavedDesigns] = useState<Design[]>([]);
+    const [designId, setDesignId] = useState<string | undefined>(undefined);
+    // The player's drafts for this theme, listed in the saved view
+    const [drafts, setDrafts] = useState<Design[]>([]);
+    const [loadingDrafts, setLoadingDrafts] = useState(false);
+    const [draftError, setDraftError] = useState<string | null>(null);
+    const [renamingDraft, setRenamingDraft] = useState<{ id: string; name: string } | null>(null);
+    // Text in the draft manager's import box, null while it is closed
+    const [importText, setImportText] = useState<string | null>(null);
+    const [importErrors, setImportErrors] = useState<string[]>([]);
+    const [shareCodeCopied, setShareCodeCopied] = useState(false);
     const canvasRef = useRef<HTMLDivElement>(null);
     const trashRef = useRef<HTMLDivElement>(null);
     const roomImageRef = useRef<HTMLImageElement>(null);
+    // Query behind the loaded gallery list, and a counter that discards responses to replaced queries
+    const listedQueryRef = useRef<GalleryQuery>({ sort: 'newest' });
+    const galleryRequestRef = useRef(0);
+    // Assets as they were when the current drag started, for the undo entry;
+    // the grabbed asset follows the pointer and the rest move with it
+    const dragStartRef = useRef<{ grabbed: EditorAsset; assets: Array<{ asset: EditorAsset; index: number }> } | null>(null);
+
+    const applyCommand = useCallback(function apply(command: EditorCommand, direction: HistoryDirection) {
+        const forward = direction === 'redo';
+        switch (command.type) {
+            case 'place':
+                setPlacedAssets(prev => forward ? [...prev, command.asset] : prev.filter(p => p.id !== command.asset.id));
+                break;
+            case 'delete':
+                setPlacedAssets(prev => forward
+                    ? prev.filter(p => p.id !== command.asset.id)
+                    : [...prev.slice(0, command.index), command.asset, ...prev.slice(command.index)]);
+                break;
+            case 'move': {
+                const position = forward ? command.to : command.from;
+                setPlacedAssets(prev => prev.map(p => p.id === command.id ? { ...p, ...position } : p));
+                break;
+            }
+            case 'flip':
+                setPlacedAssets(prev => prev.map(p => p.id === command.id ? { ...p, flipped: !p.flipped } : p));
+                break;
+            case 'scale': {
+                const scale = forward ? command.to : command.from;
+                setPlacedAssets(prev => prev.map(p => p.id === command.id ? { ...p, scale } : p));
+                break;
+            }
+            case 'rotate': {
+                const rotation = forward ? command.to : command.from;
+                setPlacedAssets(prev => prev.map(p => p.id === command.id ? { ...p, rotation } : p));
+                break;
+            }
+            case 'override': {
+                const layerOverride = forward ? command.to : command.from;
+                setPlacedAssets(prev => prev.map(p => p.id === command.id ? { ...p, layerOverride } : p));
+                break;
+            }
+            case 'layerMode':
+                setLayerMode(forward ? command.to : command.from);
+                break;
+            case 'recolor':
+                setBackgroundColor(forward ? command.to : command.from);
+                break;
+            case 'paint':
+                setRoomColors(forward ? command.to : command.from);
+                break;
+            case 'batch':
+                (forward ? command.commands : [...command.commands].reverse()).forEach(part => apply(part, direction));
+                break;
+        }
+    }, []);
+    const history = useEditorHistory<EditorCommand>(applyCommand);
 
-    // 24-hour countdown timer
+    // Countdown to the end of the current theme (or midnight before it has loaded)
     const [timeLeft, setTimeLeft] = useState('');
+    const themeEndTime = theme?.endTime;
     useEffect(() => {
         const updateTimer = () => {
             const now = new Date();
             const tomorrow = new Date(now);
             tomorrow.setHours(24, 0, 0, 0);
-            const diff = tomorrow.getTime() - now.getTime();
+            const diff = Math.max(0, (themeEndTime ?? tomorrow.getTime()) - now.getTime());
             const hours = Math.floor(diff / (1000 * 60 * 60));
             const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
             const seconds = Math.floor((diff % (1000 * 60)) / 1000);
@@ -129,7 +441,7 @@ export const App = () => {
         updateTimer();
         const interval = setInterval(updateTimer, 1000);
         return () => clearInterval(interval);
-    }, []);
+    }, [themeEndTime]);
 
     // Detect mobile
     useEffect(() => {
@@ -139,30 +451,127 @@ export const App = () => {
         return () => window.removeEventListener('resize', checkMobile);
     }, []);
 
-    // Keyboard handler - R to flip, C to clip underneath
+    // Pin an asset in front of / behind everything else; pinning it the same way again unpins it
+    const toggleLayerOverride = (id: string, override: LayerOverride) => {
+        const placed = placedAssets.find(p => p.id === id);
+        if (!placed) return;
+        const to = placed.layerOverride === override ? undefined : override;
+        history.execute({ type: 'override', id, from: placed.layerOverride, to });
+        setAnnouncement(`${assetName(placed)} ${to === 'front' ? 'brought to front' : to === 'back' ? 'sent to back' : 'back in depth order'}`);
+    };
+
+    // Switch between automatic depth sorting and manual (placement order) stacking
+    const toggleLayerMode = () => {
+        history.execute({ type: 'layerMode', from: layerMode, to: layerMode === 'depth' ? 'manual' : 'depth' });
+    };
+
+    const selectedAssets = placedAssets.filter(p => selectedIds.includes(p.id));
+
+    // Move selected assets to new positions as one undo step
+    const moveSelection = (positions: Record<string, Offset>) => {
+        const commands: EditorCommand[] = selectedAssets
+            .filter(p => positions[p.id] && (positions[p.id].xOffset !== p.xOffset || positions[p.id].yOffset !== p.yOffset))
+            .map(p => ({ type: 'move', id: p.id, from: { xOffset: p.xOffset, yOffset: p.yOffset }, to: positions[p.id] }));
+        if (commands.length > 0) history.execute(batch(commands));
+    };
+
+    const alignSelection = (mode: AlignMode) => moveSelection(alignItems(selectedAssets.map(toArrangeItem), mode));
+
+    const distributeSelection = (axis: DistributeAxis) => moveSelection(distributeItems(selectedAssets.map(toArrangeItem), axis));
+
+    const flipSelection = () => {
+        if (selectedIds.length === 0) return;
+        history.execute(batch(selectedIds.map(id => ({ type: 'flip', id }))));
+        setAnnouncement(selectedIds.length === 1 ? 'Flipped' : `Flipped ${selectedIds.length} items`);
+    };
+
+    // Move the selection with the arrow keys, as far as the room allows
+    const nudgeSelection = (nudge: Offset) => {
+        if (selectedAssets.length === 0) return;
+        const delta = clampDelta(selectedAssets, nudge.xOffset, nudge.yOffset);
+        const positions = Object.fromEntries(selectedAssets.map(p => [p.id, { xOffset: p.xOffset + delta.xOffset, yOffset: p.yOffset + delta.yOffset }]));
+        moveSelection(positions);
+        setAnnouncement(selectedAssets.length === 1
+            ? `${assetName(selectedAssets[0])} moved to ${describePosition(positions[selectedAssets[0].id])}`
+            : `Moved ${selectedAssets.length} items`);
+    };
+
+    // Delete commands for the given assets, last first so undo re-inserts each at its old index
+    const deleteCommands = (targets: Array<{ asset: EditorAsset; index: number }>): EditorCommand[] =>
+        [...targets].sort((a, b) => b.index - a.index).map(({ asset, index }) => ({ type: 'delete', asset, index }));
+
+    const deleteSelection = () => {
+        const targets = placedAssets.map((asset, index) => ({ asset, index })).filter(({ asset }) => selectedIds.includes(asset.id));
+        if (targets.length === 0) return;
+        history.execute(batch(deleteCommands(targets)));
+        setSelectedIds([]);
+        setAnnouncement(targets.length === 1 ? `Deleted ${assetName(targets[0].asset)}` : `Deleted ${targets.length} items`);
+    };
+
+    const updateAssetGroups = (groups: AssetGroup[]) => {
+        setAssetGroups(groups);
+        saveStoredList(ASSET_GROUPS_KEY, groups);
+    };
+
+    // Save the selection as a named group that can be placed again later
+    const saveSelectionAsGroup = () => {
+        const name = groupName.trim();
+        if (!name || selectedAssets.length < 2) return;
+        updateAssetGroups([...assetGroups, createAssetGroup(`group-${Date.now()}`, name, selectedAssets)]);
+        setGroupName('');
+    };
+
+    // Keyboard handler - arrows to move (Shift for bigger steps), R to flip, ] / [ to bring to front /
+    // send to back, Delete to remove, Escape to deselect, Ctrl+Z / Ctrl+Shift+Z to undo/redo,
+    // Ctrl+C / Ctrl+V / Ctrl+D to copy, paste and duplicate
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key.toLowerCase() === 'r' && selectedAssetId && mode === 'edit') {
-                setPlacedAssets(prev => prev.map(p =>
-                    p.id === selectedAssetId ? { ...p, flipped: !p.flipped } : p
-                ));
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return;
+            const key = e.key.toLowerCase();
+            if ((e.ctrlKey || e.metaKey) && mode === 'edit') {
+                if (key === 'z') {
+                    e.preventDefault();
+                    if (e.shiftKey) history.redo(); else history.undo();
+                    setAnnouncement(e.shiftKey ? 'Redone' : 'Undone');
+                } else if (key === 'y') {
+                    e.preventDefault();
+                    history.redo();
+                    setAnnouncement('Redone');
+                } else if (key === 'c' && selectedIds.length > 0) {
+                    e.preventDefault();
+                    copySelection();
+                } else if (key === 'v') {
+                    e.preventDefault();
+                    pasteClipboard();
+                } else if (key === 'd') {
+                    e.preventDefault();
+                    duplicateSelection();
+                }
+                return;
             }
-            if (e.key.toLowerCase() === 'c') {
-                setIsClipping(true);
+            if (mode !== 'edit') return;
+            const nudge = getNudge(e.key, e.shiftKey);
+            if (nudge && selectedIds.length > 0) {
+                e.preventDefault();
+                nudgeSelection(nudge);
             }
-        };
-        const handleKeyUp = (e: KeyboardEvent) => {
-            if (e.key.toLowerCase() === 'c') {
-                setIsClipping(false);
+            if (key === 'r') {
+                flipSelection();
+            }
+            if ((key === ']' || key === '[') && selectedAssetId) {
+                toggleLayerOverride(selectedAssetId, key === ']' ? 'front' : 'back');
+            }
+            if (key === 'delete' || key === 'backspace') {
+                deleteSelection();
+            }
+            if (key === 'escape' && selectedIds.length > 0) {
+                setSelectedIds([]);
+                setAnnouncement(describeSelection([]));
             }
         };
         window.addEventListener('keydown', handleKeyDown);
-        window.addEventListener('keyup', handleKeyUp);
-        return () => {
-            window.removeEventListener('keydown', handleKeyDown);
-            window.removeEventListener('keyup', handleKeyUp);
-        };
-    }, [selectedAssetId, mode]);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedIds, mode, placedAssets, history.execute, history.undo, history.redo]);
 
     // Handle resizing bottom sheet
     useEffect(() => {
@@ -186,6 +595,154 @@ export const App = () => {
         };
     }, [isResizingSheet]);
 
+    // The room being edited, in the shared design schema
+    const getEditorDesign = (): ExportableDesign =>
+        toExportableDesign({ placedAssets, backgroundColor, layerMode, roomId: room.id, roomColors });
+
+    // Drafts autosave while the design is unsubmitted; a submitted design
+    // changes only through "Update Design"
+    const autosave = useDraftAutosave(designId, (saved) => setDesignId(saved.id));
+    // The last design saved or restored, so unchanged state is not saved again;
+    // null until the player's draft has been restored
+    const lastDraftRef = useRef<string | null>(null);
+    // Every change to the room is recorded for the design's timelapse replay
+    const recorder = useTimelapseRecorder();
+
+    const getDraftDesign = (): DraftDesign => ({
+        ...getEditorDesign(),
+        id: designId,
+        themeId: theme?.id || 'default',
+        schemaVersion: DESIGN_SCHEMA_VERSION,
+        timelapse: recorder.getTimelapse(),
+    });
+
+    // Load a saved draft into the editor, replacing its state and history;
+    // `localKey` is its key among this device's drafts if it came from there
+    const restoreDraft = (restored: DraftDesign, submitted: boolean, localKey?: string) => {
+        const restoredAssets = toEditorAssets(restored.assets);
+        lastDraftRef.current = JSON.stringify(toExportableDesign({
+            placedAssets: restoredAssets,
+            backgroundColor: restored.backgroundColor,
+            layerMode: restored.layerMode,
+            roomId: getRoomBase(theme?.roomId ?? restored.roomId).id,
+            roomColors: restored.roomColors ?? {},
+        }));
+        recorder.resume(restored.timelapse, toTimelapseFrame(restoredAssets, restored.backgroundColor, restored.roomColors ?? {}));
+        setPlacedAssets(restoredAssets);
+        setBackgroundColor(restored.backgroundColor);
+        setRoomId(restored.roomId);
+        setRoomColors(restored.roomColors ?? {});
+        setLayerMode(restored.layerMode);
+        autosave.open(localKey ?? restored.id);
+        setDesignId(restored.id);
+        setIsSubmitted(submitted);
+        setSelectedIds([]);
+        history.clear();
+    };
+
+    // Resume the player's draft once the theme has loaded: the server's copy,
+    // or this device's latest if it has edits that never reached the server.
+    // Every draft edited offline is synced.
+    useEffect(() => {
+        if (loading || !theme || lastDraftRef.current !== null) return;
+        const local = findLatestLocalDraft(readLocalDrafts(theme.id));
+        if (local && isLocalDraftNewer(local.draft, draft)) {
+            const { design } = local.draft;
+            restoreDraft(design, !!draft && draft.id === design.id && draft.submitted, local.key);
+        } else if (draft) {
+            restoreDraft({ ...draft, timelapse: draftTimelapse ?? undefined }, draft.submitted);
+        } else {
+            lastDraftRef.current = JSON.stringify(getEditorDesign());
+            recorder.resume(null, toTimelapseFrame(placedAssets, backgroundColor, roomColors));
+        }
+        autosave.syncLocalDrafts(theme.id);
+    }, [loading, theme, draft]);
+
+    // Schedule an autosave whenever the design changes
+    useEffect(() => {
+        if (lastDraftRef.current === null) return;
+        const serialized = JSON.stringify(getEditorDesign());
+        if (serialized === lastDraftRef.current) return;
+        lastDraftRef.current = serialized;
+        recorder.record(toTimelapseFrame(placedAssets, backgroundColor, roomColors));
+        if (!isSubmitted) autosave.schedule(getDraftDesign());
+    }, [placedAssets, backgroundColor, roomColors, roomId, layerMode]);
+
+    // Sync drafts made offline once the connection is back
+    useEffect(() => {
+        if (!theme) return;
+        const handleOnline = () => autosave.syncLocalDrafts(theme.id);
+        window.addEventListener('online', handleOnline);
+        return () => window.removeEventListener('online', handleOnline);
+    }, [theme, autosave.syncLocalDrafts]);
+
+    // Render a design to PNG at the selected resolution and download it
+    const exportImage = async (design: ExportableDesign, name: string) => {
+        if (isExporting) return;
+        setIsExporting(true);
+        try {
+            const blob = await renderDesignPng(design, getCatalogAsset, exportScale);
+            downloadBlob(blob, `${toFileName(name)}.png`);
+        } catch (error) {
+            console.error('Export failed:', error);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    // Copy a design's share code, or show it to copy by hand where the clipboard is blocked
+    const copyShareCode = async (design: ShareableDesign) => {
+        const code = encodeShareCode(toSharedDesign(design));
+        try {
+            await navigator.clipboard.writeText(code);
+            setShareCodeCopied(true);
+            setTimeout(() => setShareCodeCopied(false), 2000);
+        } catch (error) {
+            console.error('Copy failed:', error);
+            window.prompt('Copy this share code', code);
+        }
+    };
+
+    const downloadDesignFile = (design: ShareableDesign, name: string) => downloadBlob(
+        new Blob([formatDesignFile(toSharedDesign(design))], { type: 'application/json' }),
+        `${toFileName(name)}.json`
+    );
+
+    // Resolution picker, export button and sharing, shared by the editor and the viewer
+    const renderExportControl = (design: ShareableDesign, name: string) => (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px', backgroundColor: 'rgba(255, 255, 255, 0.9)', borderRadius: '8px', padding: '4px', boxShadow: '0 2px 4px rgba(0,0,0,0.1)' }}>
+            <select
+                aria-label="Export resolution"
+                value={exportScale}
+                onChange={(e) => setExportScale(Number(e.target.value) as ExportScale)}
+                style={{ border: 'none', backgroundColor: 'transparent', color: 'rgba(139, 115, 85, 1)', fontSize: '11px', cursor: 'pointer' }}
+            >
+                {EXPORT_SCALES.map(scale => (
+                    <option key={scale} value={scale}>{CANVAS_WIDTH * scale}×{CANVAS_HEIGHT * scale}</option>
+                ))}
+            </select>
+            <button
+                disabled={isExporting}
+                onClick={() => exportImage(design, name)}
+                style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '11px', fontWeight: '600', cursor: isExporting ? 'wait' : 'pointer', opacity: isExporting ? 0.7 : 1 }}
+            >
+                {isExporting ? 'Exporting...' : 'Export image'}
+            </button>
+            <button
+                onClick={() => copyShareCode(design)}
+                style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '11px', fontWeight: '600', cursor: 'pointer' }}
+            >
+                {shareCodeCopied ? 'Copied!' : 'Copy code'}
+            </button>
+            <button
+                onClick={() => downloadDesignFile(design, name)}
+                style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '11px', fontWeight: '600', cursor: 'pointer' }}
+            >
+                JSON
+            </button>
+        </div>
+    );
+
     // Submit design to server
     const submitDesign = async () => {
         if (isSubmitting) return;
@@ -197,40 +754,51 @@ export const App = () => {
         try {
             const themeId = theme?.id || 'default';
 
-            // Create the design object
+            const violations = getThemeRuleViolations(getEditorDesign().assets, theme?.rules);
+            if (violations.length > 0) {
+                throw new Error(`This design breaks the theme rules: ${violations.join('; ')}`);
+            }
+
+            // Create the design object; the server assigns the id and owner on first save.
+            // Finish autosaving first, since the first autosave may be creating it.
             const design = {
-                id: `design-${Date.now()}`,
-                userId: username,
-                username: username,
+                ...getEditorDesign(),
+                id: (await autosave.flush()) ?? designId,
                 themeId: themeId,
-                assets: placedAssets,
-                backgroundColor: backgroundColor,
-                submitted: false,
-                createdAt: Date.now(),
-                updatedAt: Date.now(),
-                voteCount: 0,
+                schemaVersion: DESIGN_SCHEMA_VERSION,
+                timelapse: recorder.getTimelapse(),
             };
 
-            // First, save the design
-            const saveResponse = await fetch('/api/design/save', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ design }),
-            });
-
-            if (!saveResponse.ok) {
-                throw new Error('Failed to save design');
+            // A draft is saved first, then submitted. A submitted design's changes
+            // go with its resubmission, so the gallery keeps the last submission
+            // if this one is rejected.
+            let submittedId = design.id;
+            if (!isSubmitted) {
+                const saveResponse = await fetch('/api/design/save', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ design }),
+                });
+
+                if (!saveResponse.ok) {
+                    throw new Error('Failed to save design');
+                }
+
+                const { design: savedDesign } = await saveResponse.json();
+                submittedId = savedDesign.id;
+                setDesignId(savedDesign.id);
             }
 
-            // Then submit the design
             const submitResponse = await fetch('/api/design/submit', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ designId: themeId }),
+                body: JSON.stringify({ designId: submittedId, ...(isSubmitted ? { design } : {}) }),
             });
 
             if (!submitResponse.ok) {
-                throw new Error('Failed to submit design');
+                const data = await submitResponse.json().catch(() => null);
+                const violations: string[] = data?.violations ?? [];
+                throw new Error(violations.length > 0 ? `${data.message}: ${violations.join('; ')}` : data?.message || 'Failed to submit design');
             }
 
             setIsSubmitted(true);
@@ -255,33 +823,467 @@ export const App = () => {
         }
     };
 
-    // Fetch gallery designs
-    const fetchGallery = async () => {
-        setLoadingGallery(true);
+    // Load the player's drafts for the theme, after saving any pending edits
+    const fetchDrafts = async () => {
+        setLoadingDrafts(true);
+        setDraftError(null);
         try {
-            const themeId = theme?.id || 'default';
-            const response = await fetch(`/api/gallery?themeId=${themeId}`);
-            if (response.ok) {
-                const data = await response.json();
-                setGalleryDesigns(data.designs || []);
+            await autosave.flush();
+            const response = await fetch(`/api/drafts?themeId=${encodeURIComponent(theme?.id || 'default')}`);
+            if (!response.ok) {
+                throw new Error('Failed to load drafts');
             }
+            const data = await response.json();
+            setDrafts(data.drafts || []);
+        } catch (error) {
+            console.error('Failed to load drafts:', error);
+            setDraftError(error instanceof Error ? error.message : 'Failed to load drafts');
+        } finally {
+            setLoadingDrafts(false);
+        }
+    };
+
+    const requestDraftAction = async (action: 'rename' | 'duplicate' | 'delete' | 'remix', body: Record<string, unknown>) => {
+        const response = await fetch(`/api/design/${action}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok) {
+            throw new Error(data?.message || `Failed to ${action} draft`);
+        }
+        return data as { design?: Design };
+    };
+
+    // Run a draft manager action, showing its error above the drafts
+    const withDraftError = async (action: () => Promise<void>) => {
+        setDraftError(null);
+        try {
+            await action();
+        } catch (error) {
+            console.error('Draft action failed:', error);
+            setDraftError(error instanceof Error ? error.message : 'Something went wrong');
+        }
+    };
+
+    // An empty room for the theme, not saved until the player changes it
+    const startBlankDraft = () => restoreDraft({
+        themeId: theme?.id || 'default',
+        roomId: theme?.roomId ?? DEFAULT_ROOM_ID,
+        backgroundColor: '#f1e1d6',
+        assets: [],
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION,
+    }, false);
+
+    const openDraft = (design: Design) => withDraftError(async () => {
+        await autosave.flush();
+        restoreDraft({ ...design, timelapse: (await fetchTimelapse(design.id)) ?? undefined }, design.submitted);
+        setCurrentView('design');
+    });
+
+    // Copy the gallery design being viewed into a new draft and edit it
+    const remixDesign = async (design: Design) => {
+        setRemixError(null);
+        try {
+            await autosave.flush();
+            const { design: remix } = await requestDraftAction('remix', { designId: design.id });
+            if (!remix) return;
+            restoreDraft(remix, false);
+            setViewingDesign(null);
+            setCurrentView('design');
+            setMode('edit');
+        } catch (error) {
+            console.error('Remix failed:', error);
+            setRemixError(error instanceof Error ? error.message : 'Something went wrong');
+        }
+    };
+
+    const newDraft = () => withDraftError(async () => {
+        await autosave.flush();
+        startBlankDraft();
+        setCurrentView('design');
+        setMode('edit');
+    });
+
+    // Check a pasted share code or design file, then save it as a new draft and edit it
+    const importDesign = (text: string) => withDraftError(async () => {
+        const { design, errors } = readDesignImport(text);
+        setImportErrors(errors);
+        if (!design) return;
+        await autosave.flush();
+        const response = await fetch('/api/design/save', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ design: { ...design, themeId: theme?.id || 'default' } }),
+        });
+        const data = await response.json().catch(() => null);
+        if (!response.ok || !data?.design) {
+            throw new Error(data?.message || 'Failed to import design');
+        }
+        setImportText(null);
+        restoreDraft(data.design, false);
+        setCurrentView('design');
+        setMode('edit');
+    });
+
+    const loadImportFile = async (file: File | undefined) => {
+        if (!file) return;
+        setImportErrors([]);
+        setImportText(await file.text());
+    };
+
+    const closeImport = () => {
+        setImportText(null);
+        setImportErrors([]);
+    };
+
+    const renameDraft = (id: string, name: string) => withDraftError(async () => {
+        const { design } = await requestDraftAction('rename', { designId: id, name });
+        if (design) setDrafts(prev => prev.map(d => d.id === id ? design : d));
+        setRenamingDraft(null);
+    });
+
+    const duplicateDraft = (id: string) => withDraftError(async () => {
+        await autosave.flush();
+        const { design } = await requestDraftAction('duplicate', { designId: id });
+        if (design) setDrafts(prev => [design, ...prev]);
+    });
+
+    const deleteDraft = (design: Design) => withDraftError(async () => {
+        if (!window.confirm(`Delete "${draftName(design)}"? This cannot be undone.`)) return;
+        await autosave.flush();
+        await requestDraftAction('delete', { designId: design.id });
+        setDrafts(prev => prev.filter(d => d.id !== design.id));
+        if (design.id === designId) startBlankDraft();
+    });
+
+    // Draft manager at the top of the saved view: open one to edit or submit it,
+    // or rename, copy and delete drafts
+    const renderDraftManager = () => (
+        <section aria-label="Drafts" style={{ marginBottom: '24px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
+                <h2 style={{ margin: 0, fontSize: '13px', color: 'rgba(139, 115, 85, 1)' }}>Drafts{theme ? ` for ${theme.name}` : ''}</h2>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                        onClick={() => importText === null ? setImportText('') : closeImport()}
+                        aria-expanded={importText !== null}
+                        style={{ padding: '8px 14px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', border: 'none', borderRadius: '8px', cursor: 'pointer', fontSize: '10px' }}
+                    >
+                        Import
+                    </button>
+                    <button
+                        onClick={newDraft}
+                        style={{ padding: '8px 14px', backgroundColor: '#2A2A30', color: '#FFFFFF', border: 'none', borderRadius: '8px', cursor: 'pointer', fontSize: '10px' }}
+                    >
+                        + New draft
+                    </button>
+                </div>
+            </div>
+
+            {importText !== null && (
+                <form
+                    aria-label="Import a design"
+                    onSubmit={(e) => { e.preventDefault(); importDesign(importText); }}
+                    style={{ marginBottom: '12px', padding: '12px', backgroundColor: '#2A2A30', borderRadius: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}
+                >
+                    <textarea
+                        autoFocus
+                        aria-label="Share code or design file"
+                        placeholder="Paste a share code or design JSON"
+                        value={importText}
+                        rows={4}
+                        onChange={(e) => { setImportText(e.target.value); setImportErrors([]); }}
+                        style={{ padding: '6px 8px', borderRadius: '6px', border: 'none', fontSize: '11px', fontFamily: 'monospace', resize: 'vertical' }}
+                    />
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                        <label style={{ padding: '4px 8px', borderRadius: '6px', backgroundColor: 'rgba(255, 255, 255, 0.15)', color: '#FFFFFF', fontSize: '10px', cursor: 'pointer' }}>
+                            Open file
+                            <input
+                                type="file"
+                                accept=".json,application/json"
+                                onChange={(e) => { loadImportFile(e.target.files?.[0]); e.target.value = ''; }}
+                                style={{ display: 'none' }}
+                            />
+                        </label>
+                        <button
+                            type="submit"
+                            disabled={!importText.trim()}
+                            style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '10px', cursor: importText.trim() ? 'pointer' : 'not-allowed' }}
+                        >
+                            Import as new draft
+                        </button>
+                        <button
+                            type="button"
+                            onClick={closeImport}
+                            style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(255, 255, 255, 0.15)', color: '#FFFFFF', fontSize: '10px', cursor: 'pointer' }}
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                    {importErrors.length > 0 && (
+                        <div role="alert" style={{ padding: '8px 12px', backgroundColor: '#FEE2E2', color: '#991B1B', borderRadius: '8px', fontSize: '12px' }}>
+                            This design can't be imported:
+                            <ul style={{ margin: '4px 0 0', paddingLeft: '18px' }}>
+                                {importErrors.map((error, index) => <li key={index}>{error}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </form>
+            )}
+
+            {draftError && (
+                <div role="alert" style={{ marginBottom: '12px', padding: '8px 12px', backgroundColor: '#FEE2E2', color: '#991B1B', borderRadius: '8px', fontSize: '12px' }}>
+                    {draftError}
+                </div>
+            )}
+
+            {loadingDrafts ? (
+                <div style={{ color: '#9CA3AF', fontSize: '12px' }}>Loading drafts...</div>
+            ) : drafts.length === 0 ? (
+                <div style={{ color: '#9CA3AF', fontSize: '12px' }}>No drafts yet. Start one and it saves as you go.</div>
+            ) : (
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '16px' }}>
+                    {drafts.map(design => (
+                        <div key={design.id} style={{ backgroundColor: '#2A2A30', borderRadius: '12px', overflow: 'hidden', position: 'relative' }}>
+                            <div style={{
+                                position: 'absolute',
+                                top: '8px',
+                                left: '8px',
+                                padding: '4px 10px',
+                                borderRadius: '12px',
+                                backgroundColor: design.submitted ? '#4CAF50' : design.id === designId ? '#4D96FF' : '#6B7280',
+                                color: '#FFFFFF',
+                                fontSize: '11px',
+                                fontWeight: '600',
+                                zIndex: 5,
+                            }}>
+                                {design.submitted ? 'In Gallery' : design.id === designId ? 'Editing' : 'Draft'}
+                            </div>
+
+                            <button
+                                aria-label={`Open ${draftName(design)}`}
+                                onClick={() => openDraft(design)}
+                                style={{ display: 'block', width: '100%', height: '160px', padding: 0, border: 'none', cursor: 'pointer', backgroundColor: design.backgroundColor || '#f1e1d6' }}
+                            >
+                                <DesignThumbnail design={design} />
+                            </button>
+
+                            <div style={{ padding: '12px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                                {renamingDraft?.id === design.id ? (
+                                    <form
+                                        onSubmit={(e) => { e.preventDefault(); renameDraft(design.id, renamingDraft.name); }}
+                                        style={{ display: 'flex', gap: '4px' }}
+                                    >
+                                        <input
+                                            autoFocus
+                                            aria-label="Draft name"
+                                            value={renamingDraft.name}
+                                            maxLength={MAX_DESIGN_NAME_LENGTH}
+                                            onChange={(e) => setRenamingDraft({ id: design.id, name: e.target.value })}
+                                            onKeyDown={(e) => { if (e.key === 'Escape') setRenamingDraft(null); }}
+                                            style={{ flex: 1, minWidth: 0, padding: '4px 6px', borderRadius: '6px', border: 'none', fontSize: '11px' }}
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={!renamingDraft.name.trim()}
+                                            style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '10px', cursor: 'pointer' }}
+                                        >
+                                            Save
+                                        </button>
+                                    </form>
+                                ) : (
+                                    <div style={{ color: '#FFFFFF', fontSize: '11px', fontWeight: '600', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                        {draftName(design)}
+                                    </div>
+                                )}
+                                <div style={{ color: '#9CA3AF', fontSize: '10px' }}>
+                                    Edited {new Date(design.updatedAt).toLocaleString()} · {design.assets.length} item{design.assets.length === 1 ? '' : 's'}
+                                    {!!design.remixCount && ` · Remixed ${design.remixCount} time${design.remixCount === 1 ? '' : 's'}`}
+                                </div>
+                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                                    {([
+                                        ['Open', () => openDraft(design), true],
+                                        ['Rename', () => setRenamingDraft({ id: design.id, name: design.name ?? '' }), true],
+                                        ['Duplicate', () => duplicateDraft(design.id), true],
+                                        // Submitted designs stay in the gallery
+                                        ['Delete', () => deleteDraft(design), !design.submitted],
+                                    ] as const).filter(([, , shown]) => shown).map(([label, action]) => (
+                                        <button
+                                            key={label}
+                                            onClick={action}
+                                            style={{ padding: '4px 8px', border: 'none', borderRadius: '6px', backgroundColor: label === 'Delete' ? 'rgba(239, 68, 68, 0.85)' : 'rgba(255, 255, 255, 0.15)', color: '#FFFFFF', fontSize: '10px', cursor: 'pointer' }}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </section>
+    );
+
+    const requestGalleryPage = async (query: GalleryQuery, cursor?: string) => {
+        const params = new URLSearchParams({
+            themeId: theme?.id || 'default',
+            sort: query.sort,
+            limit: String(GALLERY_PAGE_SIZE),
+        });
+        if (query.assetId) params.set('assetId', query.assetId);
+        if (query.user) params.set('userId', query.user.id);
+        if (cursor) params.set('cursor', cursor);
+
+        const response = await fetch(`/api/gallery?${params}`);
+        if (!response.ok) {
+            throw new Error('Failed to load gallery');
+        }
+        return response.json() as Promise<{ designs: Design[]; nextCursor: string | null; userVotes: Record<string, boolean> }>;
+    };
+
+    // Fetch the first page of gallery designs, replacing the loaded list
+    const fetchGallery = async (query: GalleryQuery = listedQueryRef.current) => {
+        const request = ++galleryRequestRef.current;
+        listedQueryRef.current = query;
+        setLoadingGallery(true);
+        try {
+            const data = await requestGalleryPage(query);
+            if (request !== galleryRequestRef.current) return;
+            setGalleryDesigns(data.designs || []);
+            setGalleryCursor(data.nextCursor ?? null);
+            setUserVotes(data.userVotes || {});
         } catch (error) {
             console.error('Failed to load gallery:', error);
         } finally {
-            setLoadingGallery(false);
+            if (request === galleryRequestRef.current) setLoadingGallery(false);
+        }
+    };
+
+    // Append the next page of the loaded list (infinite scroll)
+    const loadMoreGallery = async () => {
+        if (!galleryCursor || loadingGallery || loadingMoreGallery) return;
+        const request = galleryRequestRef.current;
+        setLoadingMoreGallery(true);
+        try {
+            const data = await requestGalleryPage(listedQueryRef.current, galleryCursor);
+            if (request !== galleryRequestRef.current) return;
+            setGalleryDesigns(prev => [...prev, ...data.designs.filter(d => !prev.some(p => p.id === d.id))]);
+            setGalleryCursor(data.nextCursor ?? null);
+            setUserVotes(prev => ({ ...prev, ...data.userVotes }));
+        } catch (error) {
+            console.error('Failed to load more designs:', error);
+        } finally {
+            setLoadingMoreGallery(false);
         }
     };
 
+    const updateGalleryQuery = (query: GalleryQuery) => {
+        setGalleryQuery(query);
+        fetchGallery(query);
+    };
+
     // Navigate to gallery
     const goToGallery = () => {
         setCurrentView('gallery');
-        fetchGallery();
+        fetchGallery(galleryQuery);
+    };
+
+    const renderLoadMore = () => galleryCursor && (
+        <>
+            <LoadMoreSentinel key={galleryDesigns.length} onVisible={loadMoreGallery} />
+            {loadingMoreGallery && (
+                <div style={{ textAlign: 'center', padding: '16px', color: '#9CA3AF', fontSize: '10px' }}>
+                    Loading more...
+                </div>
+            )}
+        </>
+    );
+
+    // Draw the next head-to-head matchup
+    const fetchMatchup = async () => {
+        setLoadingMatchup(true);
+        try {
+            const response = await fetch(`/api/matchup?themeId=${encodeURIComponent(theme?.id || 'default')}`);
+            if (!response.ok) {
+                throw new Error('Failed to load matchup');
+            }
+            const data = await response.json();
+            setMatchup(data.matchup);
+        } catch (error) {
+            console.error('Failed to load matchup:', error);
+            setMatchup(null);
+        } finally {
+            setLoadingMatchup(false);
+        }
+    };
+
+    // Record which room of the matchup the user prefers, then move on to the next pair
+    const pickMatchup = async (winner: Design) => {
+        if (!matchup || loadingMatchup) return;
+        setLoadingMatchup(true);
+        try {
+            const response = await fetch('/api/matchup/pick', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ matchupId: matchup.id, winnerId: winner.id }),
+            });
+            if (response.ok) {
+                const { ratings } = await response.json();
+                setLastPick({ username: winner.username, change: ratings[winner.id] - (winner.rating ?? INITIAL_RATING) });
+            }
+        } catch (error) {
+            console.error('Failed to record pick:', error);
+        }
+        await fetchMatchup();
+    };
+
+    const goToMatchups = () => {
+        setCurrentView('versus');
+        setLastPick(null);
+        fetchMatchup();
     };
 
     // View a design from gallery
-    const viewDesign = (design: any) => {
+    const viewDesign = (design: Design) => {
         setViewingDesign(design);
+        setRevisions(null);
+        setRemixError(null);
         setCurrentView('viewing');
+        if ((design.revision ?? 1) > 1) {
+            fetchRevisions(design.id);
+        }
+        fetchTimelapse(design.id).then(timelapse => {
+            setViewingTimelapse(timelapse && timelapse.steps.length > 0 ? { designId: design.id, timelapse } : null);
+        });
+    };
+
+    // Load how a design was built; null if it was never recorded
+    const fetchTimelapse = async (id: string): Promise<Timelapse | null> => {
+        try {
+            const response = await fetch(`/api/design/${id}/timelapse`);
+            if (!response.ok) return null;
+            const data = await response.json() as { timelapse: Timelapse | null };
+            return data.timelapse;
+        } catch (error) {
+            console.error('Failed to load timelapse:', error);
+            return null;
+        }
+    };
+
+    // Load a resubmitted design's revisions, showing the latest
+    const fetchRevisions = async (id: string) => {
+        try {
+            const response = await fetch(`/api/design/${id}/revisions`);
+            if (!response.ok) return;
+            const data = await response.json() as { revisions: DesignRevision[] };
+            setRevisions(data.revisions);
+            setRevisionIndex(data.revisions.length - 1);
+        } catch (error) {
+            console.error('Failed to load revisions:', error);
+        }
     };
 
     // Vote on a design
@@ -303,94 +1305,401 @@ export const App = () => {
 
         // Also update viewingDesign if currently viewing this design
         if (viewingDesign?.id === designId) {
-            setViewingDesign((prev: any) => ({
+            setViewingDesign(prev => prev && ({
                 ...prev,
-                voteCount: (prev.voteCount || 0) + (alreadyVoted ? -1 : 1)
+                voteCount: prev.voteCount + (alreadyVoted ? -1 : 1)
             }));
         }
 
         // Send to server
         try {
-            await fetch('/api/design/vote', {
+            const response = await fetch('/api/design/vote', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ designId, vote: !alreadyVoted }),
             });
+            if (!response.ok) {
+                const data = await response.json().catch(() => null);
+                throw new Error(data?.message || 'Failed to vote');
+            }
         } catch (error) {
             console.error('Vote failed:', error);
             // Revert on error
             setUserVotes(prev => ({ ...prev, [designId]: alreadyVoted }));
+            const revert = (d: Design): Design => d.id === designId
+                ? { ...d, voteCount: d.voteCount + (alreadyVoted ? 1 : -1) }
+                : d;
+            setGalleryDesigns(prev => prev.map(revert));
+            if (viewingDesign?.id === designId) {
+                setViewingDesign(prev => prev && revert(prev));
+            }
         }
     };
 
+    // The theme's asset pack and limits
+    const availableAssets = getAvailableAssets(theme?.rules);
+    const themeRuleNotes = describeThemeRules(theme?.rules);
+    const maxItems = theme?.rules?.maxItems;
+    const atItemLimit = maxItems !== undefined && placedAssets.length >= maxItems;
+
+    const renderThemeRuleNotes = () => themeRuleNotes.length > 0 && (
+        <div style={{ padding: '6px 8px', borderRadius: '6px', backgroundColor: 'rgba(255, 255, 255, 0.5)', fontSize: '10px', color: 'rgba(139, 115, 85, 1)', marginBottom: '8px' }}>
+            {themeRuleNotes.map(note => (
+                <p key={note} style={{ margin: '2px 0' }}>• {note}</p>
+            ))}
+            {maxItems !== undefined && (
+                <p style={{ margin: '2px 0', fontWeight: 600, color: atItemLimit ? '#C75B5B' : undefined }}>{placedAssets.length} / {maxItems} items placed</p>
+            )}
+        </div>
+    );
+
+    // The theme's pinned room, otherwise the player's pick; the room can be
+    // picked until the first asset is placed or the design is saved
+    const room = getRoomBase(theme?.roomId ?? roomId);
+    const canPickRoom = !theme?.roomId && placedAssets.length === 0 && !designId;
+
+    const renderRoomPicker = (columns: number) => canPickRoom && (
+        <div style={{ marginBottom: '8px' }}>
+            <p style={{ margin: '0 0 6px', fontSize: '10px', fontWeight: 600, color: 'rgba(139, 115, 85, 1)' }}>Choose your room</p>
+            <div style={{ display: 'grid', gridTemplateColumns: `repeat(${columns}, 1fr)`, gap: '6px' }}>
+                {ROOM_BASES.map(base => (
+                    <button
+                        key={base.id}
+                        title={base.description}
+                        aria-pressed={base.id === room.id}
+                        onClick={() => setRoomId(base.id)}
+                        style={{ padding: '4px', border: base.id === room.id ? '2px solid rgba(139, 115, 85, 1)' : '1px solid rgba(139, 115, 85, 0.3)', borderRadius: '6px', backgroundColor: 'rgba(255, 255, 255, 0.5)', cursor: 'pointer', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '2px' }}
+                    >
+                        <img src={base.imageUrl} alt="" style={{ width: '100%', aspectRatio: '1', objectFit: 'contain', transform: base.mirrored ? 'scaleX(-1)' : undefined }} draggable={false} />
+                        <span style={{ fontSize: '9px', color: 'rgba(139, 115, 85, 1)' }}>{base.name}</span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+
+    // Keyboard focus selects an item, keeping any selection it is already part of
+    const handleAssetFocus = (placed: EditorAsset) => {
+        if (mode !== 'edit' || selectedIds.includes(placed.id)) return;
+        setSelectedIds([placed.id]);
+        setAnnouncement(describeSelection([assetName(placed)]));
+    };
+
+    // Palette entries work as buttons: Enter or Space adds the focused asset
+    const paletteItemProps = (asset: CatalogAsset) => ({
+        role: 'button',
+        tabIndex: 0,
+        'aria-label': `Add ${asset.name}`,
+        'aria-disabled': atItemLimit,
+        onClick: () => handleAssetClick(asset),
+        onKeyDown: (e: React.KeyboardEvent) => {
+            if (e.key !== 'Enter' && e.key !== ' ') return;
+            e.preventDefault();
+            handleAssetClick(asset);
+        },
+    });
+
     // Add asset - position as offset from center
-    const handleAssetClick = (asset: Asset) => {
-        const newAsset: PlacedAsset = {
+    const handleAssetClick = (asset: CatalogAsset) => {
+        if (atItemLimit) return;
+        const newAsset: EditorAsset = {
             id: `${asset.id}-${Date.now()}`,
             assetId: asset.id,
             // Start near center with slight offset for each new asset
             xOffset: -5 + (placedAssets.length * 3) % 15,
             yOffset: -5 + (placedAssets.length * 4) % 15,
             scale: 1,
+            rotation: 0,
             flipped: false,
         };
-        setPlacedAssets(prev => [...prev, newAsset]);
-        setSelectedAssetId(newAsset.id);
+        history.execute({ type: 'place', asset: newAsset });
+        setSelectedIds([newAsset.id]);
+        setAnnouncement(`Added ${asset.name} at ${describePosition(newAsset)}`);
         if (isMobile) { }
     };
 
-    // Start dragging
-    const handleMouseDown = (e: React.MouseEvent, placedId: string) => {
-        if (mode !== 'edit') return;
-        e.preventDefault();
-        e.stopPropagation();
+    // Assets can be added if all of them are in the theme's pack and they fit under the item limit
+    const canPlaceAssets = (items: AssetGroupItem[]) =>
+        items.length > 0 &&
+        items.every(item => availableAssets.some(asset => asset.id === item.assetId)) &&
+        (maxItems === undefined || placedAssets.length + items.length <= maxItems);
+
+    const canPlaceGroup = (group: AssetGroup) => canPlaceAssets(group.items);
+
+    // Add assets as one undo step and select them
+    const placeItems = (items: AssetGroupItem[]): boolean => {
+        if (!canPlaceAssets(items)) return false;
+        const stamp = Date.now();
+        const placed: EditorAsset[] = items.map((item, index) => ({ ...item, id: `${item.assetId}-${stamp}-${index}` }));
+        history.execute(batch(placed.map(asset => ({ type: 'place', asset }))));
+        setSelectedIds(placed.map(p => p.id));
+        return true;
+    };
+
+    // Place a saved group near the center and select it
+    const handleGroupClick = (group: AssetGroup) => {
+        if (placeItems(placeAssetGroup(group, { xOffset: -5 + (placedAssets.length * 3) % 15, yOffset: -5 + (placedAssets.length * 4) % 15 }))) {
+            setAnnouncement(`Added group ${group.name}, ${group.items.length} items`);
+        }
+    };
+
+    const copySelection = () => {
+        if (selectedAssets.length === 0) return;
+        saveStoredList(CLIPBOARD_KEY, selectedAssets.map(toAssetGroupItem), sessionStorage);
+        setAnnouncement(selectedAssets.length === 1 ? `Copied ${assetName(selectedAssets[0])}` : `Copied ${selectedAssets.length} items`);
+    };
+
+    // Paste the clipboard just off where it was copied; the clipboard follows the
+    // pasted copies so repeated pastes step across the room
+    const pasteClipboard = () => {
+        const copies = offsetCopies(loadStoredList(CLIPBOARD_KEY, isAssetGroupItem, sessionStorage));
+        if (!placeItems(copies)) {
+            if (copies.length > 0) setAnnouncement('Cannot paste here: not allowed by the theme rules');
+            return;
+        }
+        saveStoredList(CLIPBOARD_KEY, copies, sessionStorage);
+        setAnnouncement(copies.length === 1 ? 'Pasted 1 item' : `Pasted ${copies.length} items`);
+    };
+
+    // Copy the selection in place, without touching the clipboard
+    const duplicateSelection = () => {
+        if (selectedAssets.length === 0) return;
+        if (!placeItems(offsetCopies(selectedAssets))) {
+            setAnnouncement('Cannot duplicate: not allowed by the theme rules');
+            return;
+        }
+        setAnnouncement(selectedAssets.length === 1 ? `Duplicated ${assetName(selectedAssets[0])}` : `Duplicated ${selectedAssets.length} items`);
+    };
+
+    const renderAssetGroups = () => assetGroups.length > 0 && (
+        <div style={{ marginBottom: '8px' }}>
+            <p style={{ margin: '0 0 6px', fontSize: '10px', fontWeight: 600, color: 'rgba(139, 115, 85, 1)' }}>Groups</p>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                {assetGroups.map(group => (
+                    <div key={group.id} style={{ display: 'flex', alignItems: 'center', borderRadius: '6px', backgroundColor: 'rgba(255, 255, 255, 0.5)', border: '1px solid rgba(139, 115, 85, 0.3)', opacity: canPlaceGroup(group) ? 1 : 0.4 }}>
+                        <button
+                            title={`Place ${group.items.length} items`}
+                            disabled={!canPlaceGroup(group)}
+                            onClick={() => handleGroupClick(group)}
+                            style={{ padding: '4px 6px', border: 'none', background: 'none', color: 'rgba(139, 115, 85, 1)', fontSize: '10px', cursor: canPlaceGroup(group) ? 'pointer' : 'not-allowed' }}
+                        >
+                            {group.name} ({group.items.length})
+                        </button>
+                        <button
+                            aria-label={`Delete group ${group.name}`}
+                            onClick={() => updateAssetGroups(assetGroups.filter(g => g.id !== group.id))}
+                            style={{ padding: '4px 6px 4px 0', border: 'none', background: 'none', color: 'rgba(139, 115, 85, 0.7)', fontSize: '11px', lineHeight: '1', cursor: 'pointer' }}
+                        >×</button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+
+    // Replace the room colors as one undoable step; unset entries are dropped
+    const paintRoom = (changes: Partial<RoomColors>) => {
+        const to = { ...roomColors, ...changes };
+        (Object.keys(to) as Array<keyof RoomColors>).forEach(key => to[key] === undefined && delete to[key]);
+        if (JSON.stringify(to) === JSON.stringify(roomColors)) return;
+        history.execute({ type: 'paint', from: roomColors, to });
+    };
+
+    // Paint the selected color target
+    const handleColorClick = (color: string) => {
+        setRecentColors(prev => {
+            const next = addRecentColor(prev, color);
+            saveStoredList(RECENT_COLORS_KEY, next);
+            return next;
+        });
+        if (colorTarget !== 'background') {
+            paintRoom({ [colorTarget]: color });
+            return;
+        }
+        if (color === backgroundColor) return;
+        history.execute({ type: 'recolor', from: backgroundColor, to: color });
+    };
+
+    const targetColor = colorTarget === 'background' ? backgroundColor : roomColors[colorTarget];
+
+    const renderColorControls = (swatchSize: number) => (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '8px' }}>
+            <div role="tablist" aria-label="Color target" style={{ display: 'flex', gap: '4px' }}>
+                {COLOR_TARGETS.map(([target, label]) => (
+                    <button
+                        key={target}
+                        role="tab"
+                        aria-selected={target === colorTarget}
+                        onClick={() => setColorTarget(target)}
+                        style={{ flex: 1, padding: '4px 0', border: 'none', borderRadius: '6px', backgroundColor: target === colorTarget ? 'rgba(190, 160, 130, 0.9)' : 'rgba(255, 255, 255, 0.5)', color: target === colorTarget ? '#FFFFFF' : 'rgba(139, 115, 85, 1)', fontSize: '10px', fontWeight: 600, cursor: 'pointer' }}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                {COLORS.map((color) => (
+                    <button
+                        key={color}
+                        aria-label={`${colorTarget} ${color}`}
+                        onClick={() => handleColorClick(color)}
+                        style={{ width: `${swatchSize}px`, height: `${swatchSize}px`, borderRadius: '50%', backgroundColor: color, border: color.toUpperCase() === targetColor?.toUpperCase() ? '2px solid rgba(139, 115, 85, 1)' : '1px solid rgba(139, 115, 85, 0.3)', cursor: 'pointer', padding: 0 }}
+                    />
+                ))}
+                {colorTarget !== 'background' && (
+                    <button
+                        aria-label={`Clear ${colorTarget} color`}
+                        title="Keep the room's own color"
+                        onClick={() => paintRoom({ [colorTarget]: undefined })}
+                        style={{ width: `${swatchSize}px`, height: `${swatchSize}px`, borderRadius: '50%', backgroundColor: '#FFFFFF', border: targetColor ? '1px solid rgba(139, 115, 85, 0.3)' : '2px solid rgba(139, 115, 85, 1)', color: 'rgba(139, 115, 85, 1)', fontSize: '11px', lineHeight: '1', cursor: 'pointer', padding: 0 }}
+                    >
+                        ∅
+                    </button>
+                )}
+            </div>
+            <ColorWheel color={targetColor} recentColors={recentColors} onPick={handleColorClick} />
+            {colorTarget === 'floor' && (
+                <div style={{ display: 'flex', gap: '4px' }}>
+                    {([undefined, ...FLOOR_PATTERNS] as Array<FloorPattern | undefined>).map(pattern => (
+                        <button
+                            key={pattern ?? 'none'}
+                            aria-pressed={pattern === roomColors.floorPattern}
+                            onClick={() => paintRoom({ floorPattern: pattern })}
+                            style={{ flex: 1, padding: '4px 0', border: pattern === roomColors.floorPattern ? '2px solid rgba(139, 115, 85, 1)' : '1px solid rgba(139, 115, 85, 0.3)', borderRadius: '6px', backgroundColor: 'rgba(255, 255, 255, 0.5)', color: 'rgba(139, 115, 85, 1)', fontSize: '10px', textTransform: 'capitalize', cursor: 'pointer' }}
+                        >
+                            {pattern ?? 'Plain'}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    // Remember where the dragged assets started so the drag can be undone;
+    // dragging a selected asset moves the whole selection
+    const beginDrag = (placed: EditorAsset, ids: string[]) => {
+        const assets = placedAssets.map((asset, index) => ({ asset, index })).filter(({ asset }) => ids.includes(asset.id));
+        dragStartRef.current = { grabbed: placed, assets };
+    };
+
+    // Finish a drag: drop on the trash deletes, otherwise record the move
+    const endDrag = () => {
+        const start = dragStartRef.current;
+        dragStartRef.current = null;
+        if (!start) return;
+        if (isOverTrash) {
+            const ids = start.assets.map(({ asset }) => asset.id);
+            setPlacedAssets(prev => prev.filter(p => !ids.includes(p.id)));
+            setSelectedIds([]);
+            history.record(batch(deleteCommands(start.assets)));
+            return;
+        }
+        const commands: EditorCommand[] = start.assets.flatMap(({ asset }) => {
+            const current = placedAssets.find(p => p.id === asset.id);
+            if (!current || (current.xOffset === asset.xOffset && current.yOffset === asset.yOffset)) return [];
+            return [{
+                type: 'move',
+                id: current.id,
+                from: { xOffset: asset.xOffset, yOffset: asset.yOffset },
+                to: { xOffset: current.xOffset, yOffset: current.yOffset },
+            }];
+        });
+        if (commands.length > 0) history.record(batch(commands));
+    };
+
+    // Pointer position as an offset from the room image center, in percent of its size
+    const toRoomOffset = (clientX: number, clientY: number): Offset => {
+        const rect = roomImageRef.current!.getBoundingClientRect();
+        return {
+            xOffset: ((clientX - rect.left) / rect.width - 0.5) * 100,
+            yOffset: ((clientY - rect.top) / rect.height - 0.5) * 100,
+        };
+    };
+
+    // Select the pressed asset (shift toggles it instead) and start dragging the selection
+    const startAssetDrag = (placedId: string, clientX: number, clientY: number, toggle: boolean) => {
         const placed = placedAssets.find(p => p.id === placedId);
         if (!placed || !canvasRef.current || !roomImageRef.current) return;
-        setSelectedAssetId(placedId);
+        if (toggle) {
+            setSelectedIds(prev => prev.includes(placedId) ? prev.filter(id => id !== placedId) : [...prev, placedId]);
+            return;
+        }
+        const ids = selectedIds.includes(placedId) ? selectedIds : [placedId];
+        setSelectedIds(ids);
         setIsDragging(true);
-        const canvasRect = canvasRef.current.getBoundingClientRect();
-        const imgRect = roomImageRef.current.getBoundingClientRect();
-        const imgCenterX = imgRect.left - canvasRect.left + imgRect.width / 2;
-        const imgCenterY = imgRect.top - canvasRect.top + imgRect.height / 2;
-        // Current position in pixels from canvas top-left, relative to room image center
-        const currentX = imgCenterX + (placed.xOffset / 100) * imgRect.width;
-        const currentY = imgCenterY + (placed.yOffset / 100) * imgRect.height;
-        setDragOffset({ x: e.clientX - canvasRect.left - currentX, y: e.clientY - canvasRect.top - currentY });
+        beginDrag(placed, ids);
+        const pointer = toRoomOffset(clientX, clientY);
+        setDragOffset({ x: pointer.xOffset - placed.xOffset, y: pointer.yOffset - placed.yOffset });
     };
 
-    // Mouse move - convert to offset from center
-    const handleMouseMove = useCallback((e: MouseEvent) => {
-        if (!isDragging || !selectedAssetId || !canvasRef.current || !roomImageRef.current) return;
-        const canvasRect = canvasRef.current.getBoundingClientRect();
-        const imgRect = roomImageRef.current.getBoundingClientRect();
-        const imgCenterX = imgRect.left - canvasRect.left + imgRect.width / 2;
-        const imgCenterY = imgRect.top - canvasRect.top + imgRect.height / 2;
-        const x = e.clientX - canvasRect.left - dragOffset.x;
-        const y = e.clientY - canvasRect.top - dragOffset.y;
-        // Convert to offset from room image center as percentage of room image size
-        const xOffset = ((x - imgCenterX) / imgRect.width) * 100;
-        const yOffset = ((y - imgCenterY) / imgRect.height) * 100;
-        // Clamp to reasonable bounds
-        const clampedX = Math.max(-45, Math.min(45, xOffset));
-        const clampedY = Math.max(-45, Math.min(45, yOffset));
+    // Where the grabbed asset lands: on the nearest floor grid point, then pulled onto
+    // any smart guide (edges and centers of the other items, the room's corners) close by
+    const snapPosition = (grabbed: EditorAsset, position: Offset, movingIds: string[]): Offset => {
+        let snapped = position;
+        if (snapToGrid) {
+            const canvas = offsetToCanvas(position.xOffset, position.yOffset);
+            const [x, y] = snapToFloorGrid([canvas.x, canvas.y], room.mirrored);
+            snapped = canvasToOffset(x, y);
+        }
+        if (!smartGuides) return snapped;
+        const roomGuides = getRoomGuides(room.mirrored);
+        const itemGuides = getGuideTargets(placedAssets.filter(p => !movingIds.includes(p.id)).map(toArrangeItem));
+        const snap = snapToGuides({ ...toArrangeItem(grabbed), ...snapped }, {
+            x: [...itemGuides.x, ...roomGuides.x.map(x => canvasToOffset(x, 0).xOffset)],
+            y: [...itemGuides.y, ...roomGuides.y.map(y => canvasToOffset(0, y).yOffset)],
+        });
+        setActiveGuides(snap.guides);
+        return snap;
+    };
+
+    // Move the dragged assets so the grabbed one follows the pointer, keeping all of them inside the room
+    const dragSelection = (clientX: number, clientY: number) => {
+        const start = dragStartRef.current;
+        if (!start || !roomImageRef.current) return;
+        const pointer = toRoomOffset(clientX, clientY);
+        const target = snapPosition(
+            start.grabbed,
+            { xOffset: pointer.xOffset - dragOffset.x, yOffset: pointer.yOffset - dragOffset.y },
+            start.assets.map(({ asset }) => asset.id)
+        );
+        const delta = clampDelta(
+            start.assets.map(({ asset }) => asset),
+            target.xOffset - start.grabbed.xOffset,
+            target.yOffset - start.grabbed.yOffset
+        );
         if (trashRef.current) {
             const tr = trashRef.current.getBoundingClientRect();
-            setIsOverTrash(e.clientX >= tr.left && e.clientX <= tr.right && e.clientY >= tr.top && e.clientY <= tr.bottom);
+            setIsOverTrash(clientX >= tr.left && clientX <= tr.right && clientY >= tr.top && clientY <= tr.bottom);
         }
-        setPlacedAssets(prev => prev.map(p =>
-            p.id === selectedAssetId ? { ...p, xOffset: clampedX, yOffset: clampedY } : p
-        ));
-    }, [isDragging, selectedAssetId, dragOffset]);
+        setPlacedAssets(prev => prev.map(p => {
+            const moved = start.assets.find(({ asset }) => asset.id === p.id);
+            return moved
+                ? { ...p, xOffset: moved.asset.xOffset + delta.xOffset, yOffset: moved.asset.yOffset + delta.yOffset }
+                : p;
+        }));
+    };
+
+    // Start dragging
+    const handleMouseDown = (e: React.MouseEvent, placedId: string) => {
+        if (mode !== 'edit') return;
+        e.preventDefault();
+        e.stopPropagation();
+        startAssetDrag(placedId, e.clientX, e.clientY, e.shiftKey);
+    };
+
+    const handleMouseMove = useCallback((e: MouseEvent) => {
+        if (!isDragging) return;
+        dragSelection(e.clientX, e.clientY);
+    }, [isDragging, dragOffset, snapToGrid, smartGuides]);
 
     // Mouse up
     const handleMouseUp = useCallback(() => {
-        if (isDragging && isOverTrash && selectedAssetId) {
-            setPlacedAssets(prev => prev.filter(p => p.id !== selectedAssetId));
-            setSelectedAssetId(null);
+        if (isDragging) {
+            endDrag();
         }
         setIsDragging(false);
         setIsOverTrash(false);
-    }, [isDragging, isOverTrash, selectedAssetId]);
+        setActiveGuides({});
+    }, [isDragging, isOverTrash, placedAssets]);
 
     useEffect(() => {
         if (isDragging) {
@@ -408,51 +1717,146 @@ export const App = () => {
         if (mode !== 'edit') return;
         e.stopPropagation();
         const touch = e.touches[0];
-        const placed = placedAssets.find(p => p.id === placedId);
-        if (!placed || !canvasRef.current || !roomImageRef.current) return;
-        setSelectedAssetId(placedId);
-        setIsDragging(true);
-        const canvasRect = canvasRef.current.getBoundingClientRect();
-        const imgRect = roomImageRef.current.getBoundingClientRect();
-        const imgCenterX = imgRect.left - canvasRect.left + imgRect.width / 2;
-        const imgCenterY = imgRect.top - canvasRect.top + imgRect.height / 2;
-        const currentX = imgCenterX + (placed.xOffset / 100) * imgRect.width;
-        const currentY = imgCenterY + (placed.yOffset / 100) * imgRect.height;
-        setDragOffset({ x: touch.clientX - canvasRect.left - currentX, y: touch.clientY - canvasRect.top - currentY });
+        startAssetDrag(placedId, touch.clientX, touch.clientY, false);
     };
 
     const handleTouchMove = (e: React.TouchEvent) => {
-        if (!isDragging || !selectedAssetId || !canvasRef.current || !roomImageRef.current) return;
+        if (!isDragging) return;
         e.preventDefault();
         const touch = e.touches[0];
-        const canvasRect = canvasRef.current.getBoundingClientRect();
-        const imgRect = roomImageRef.current.getBoundingClientRect();
-        const imgCenterX = imgRect.left - canvasRect.left + imgRect.width / 2;
-        const imgCenterY = imgRect.top - canvasRect.top + imgRect.height / 2;
-        const x = touch.clientX - canvasRect.left - dragOffset.x;
-        const y = touch.clientY - canvasRect.top - dragOffset.y;
-        const xOffset = ((x - imgCenterX) / imgRect.width) * 100;
-        const yOffset = ((y - imgCenterY) / imgRect.height) * 100;
-        const clampedX = Math.max(-45, Math.min(45, xOffset));
-        const clampedY = Math.max(-45, Math.min(45, yOffset));
-        if (trashRef.current) {
-            const tr = trashRef.current.getBoundingClientRect();
-            setIsOverTrash(touch.clientX >= tr.left && touch.clientX <= tr.right && touch.clientY >= tr.top && touch.clientY <= tr.bottom);
-        }
-        setPlacedAssets(prev => prev.map(p =>
-            p.id === selectedAssetId ? { ...p, xOffset: clampedX, yOffset: clampedY } : p
-        ));
+        dragSelection(touch.clientX, touch.clientY);
     };
 
     const handleTouchEnd = () => {
-        if (isDragging && isOverTrash && selectedAssetId) {
-            setPlacedAssets(prev => prev.filter(p => p.id !== selectedAssetId));
-            setSelectedAssetId(null);
+        if (isDragging) {
+            endDrag();
         }
         setIsDragging(false);
         setIsOverTrash(false);
+        setActiveGuides({});
+    };
+
+    // Rubber-band selection: drag across empty room space to select every asset it touches
+    const handleMarqueeStart = (e: React.MouseEvent) => {
+        if (mode !== 'edit' || e.button !== 0 || !roomImageRef.current) return;
+        if (e.target !== canvasRef.current && !roomImageRef.current.contains(e.target as Node)) return;
+        const point = toRoomOffset(e.clientX, e.clientY);
+        setMarquee({ start: point, end: point, additive: e.shiftKey });
+    };
+
+    const marqueeStart = marquee?.start;
+    useEffect(() => {
+        if (!marquee || !marqueeStart) return;
+        const { additive } = marquee;
+        let end = marqueeStart;
+
+        const handleMove = (e: MouseEvent) => {
+            end = toRoomOffset(e.clientX, e.clientY);
+            setMarquee(prev => prev && { ...prev, end });
+        };
+
+        // A click without a drag clears the selection (unless adding with shift)
+        const finish = () => {
+            setMarquee(null);
+            const rect = {
+                left: Math.min(marqueeStart.xOffset, end.xOffset),
+                right: Math.max(marqueeStart.xOffset, end.xOffset),
+                top: Math.min(marqueeStart.yOffset, end.yOffset),
+                bottom: Math.max(marqueeStart.yOffset, end.yOffset),
+            };
+            const dragged = rect.right - rect.left + rect.bottom - rect.top > 1;
+            const hits = dragged ? placedAssets.filter(p => intersectsRect(toArrangeItem(p), rect)).map(p => p.id) : [];
+            const next = additive ? [...selectedIds, ...hits.filter(id => !selectedIds.includes(id))] : hits;
+            setSelectedIds(next);
+            setAnnouncement(describeSelection(placedAssets.filter(p => next.includes(p.id)).map(assetName)));
+        };
+
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', finish);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', finish);
+        };
+    }, [marqueeStart]);
+
+    // Start a resize or rotate gesture from one of the selected asset's handles
+    const handleTransformStart = (e: React.MouseEvent | React.TouchEvent, placed: EditorAsset, type: TransformDrag['type']) => {
+        if (mode !== 'edit') return;
+        e.preventDefault();
+        e.stopPropagation();
+        const container = e.currentTarget.parentElement;
+        if (!container) return;
+        // The bounding box of a rotated element still shares its center
+        const rect = container.getBoundingClientRect();
+        const centerX = rect.left + rect.width / 2;
+        const centerY = rect.top + rect.height / 2;
+        const point = 'touches' in e ? e.touches[0] : e;
+        const startDistance = Math.hypot(point.clientX - centerX, point.clientY - centerY) || 1;
+        setSelectedIds([placed.id]);
+        setTransformDrag({ type, asset: placed, centerX, centerY, startDistance });
     };
 
+    useEffect(() => {
+        if (!transformDrag) return;
+        const { type, asset, centerX, centerY, startDistance } = transformDrag;
+        const from = type === 'scale' ? asset.scale : asset.rotation;
+        let to = from;
+
+        const update = (clientX: number, clientY: number, snap: boolean) => {
+            const dx = clientX - centerX;
+            const dy = clientY - centerY;
+            if (type === 'scale') {
+                const scale = clampScale(asset.scale * Math.hypot(dx, dy) / startDistance);
+                to = scale;
+                setPlacedAssets(prev => prev.map(p => p.id === asset.id ? { ...p, scale } : p));
+            } else {
+                // The rotate handle sits above the asset, so pointing straight up is 0 degrees
+                let rotation = normalizeRotation(Math.atan2(dy, dx) * 180 / Math.PI + 90);
+                if (snap) {
+                    rotation = normalizeRotation(Math.round(rotation / 15) * 15);
+                }
+                to = rotation;
+                setPlacedAssets(prev => prev.map(p => p.id === asset.id ? { ...p, rotation } : p));
+            }
+        };
+
+        const finish = () => {
+            setTransformDrag(null);
+            if (to !== from) {
+                history.record({ type, id: asset.id, from, to });
+            }
+        };
+
+        const handleMove = (e: MouseEvent) => update(e.clientX, e.clientY, e.shiftKey);
+        const handleTouch = (e: TouchEvent) => {
+            e.preventDefault();
+            const touch = e.touches[0];
+            if (touch) update(touch.clientX, touch.clientY, false);
+        };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', finish);
+        window.addEventListener('touchmove', handleTouch, { passive: false });
+        window.addEventListener('touchend', finish);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', finish);
+            window.removeEventListener('touchmove', handleTouch);
+            window.removeEventListener('touchend', finish);
+        };
+    }, [transformDrag, history.record]);
+
+    // Revisions load after a design opens; a list left from another design is ignored
+    const viewingRevisions = viewingDesign && revisions?.[0]?.design.id === viewingDesign.id ? revisions : null;
+    const viewedRevision = viewingRevisions?.[revisionIndex]?.design ?? null;
+    const replay = useTimelapseReplay(viewingTimelapse && viewingTimelapse.designId === viewingDesign?.id ? viewingTimelapse.timelapse : null);
+    // The room as far as the replay has built it, ending on the design itself
+    const replayDesign = !replay.playing || !viewingDesign ? null : replay.state ? {
+        ...viewingDesign,
+        assets: getBuildAssets(replay.state),
+        backgroundColor: replay.state.backgroundColor,
+        roomColors: replay.state.roomColors,
+    } : viewingDesign;
+
     if (loading) {
         return (
             <div style={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', background: '#f1e1d6' }}>
@@ -465,7 +1869,7 @@ export const App = () => {
     }
 
     return (
-        <div style={{ minHeight: '100vh', height: '100vh', background: '#f1e1d6', display: 'flex', flexDirection: 'column', overflow: 'hidden', position: 'relative' }}>
+        <div style={{ minHeight: '100vh', height: '100vh', background: currentView === 'design' ? backgroundColor : '#f1e1d6', transition: 'background 0.3s ease', display: 'flex', flexDirection: 'column', overflow: 'hidden', position: 'relative' }}>
             {/* Blue background image - HIDDEN */}
             {/* {currentView === 'design' && (
                 <div style={{
@@ -500,7 +1904,8 @@ export const App = () => {
                                         alignItems: 'center',
                                         gap: '4px',
                                     }}>
-                                        <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: '12px', color: 'rgba(190, 160, 130, 1)', animation: 'subtleFloat 3s ease-in-out infinite' }}>Theme: Classroom</span>
+                                        {theme?.bannerUrl && <img src={theme.bannerUrl} alt="" style={{ height: '32px', maxWidth: '240px', objectFit: 'contain', borderRadius: '4px' }} />}
+                                        <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: '12px', color: 'rgba(190, 160, 130, 1)', animation: 'subtleFloat 3s ease-in-out infinite' }}>Theme: {theme?.name ?? 'Classroom'}</span>
                                         <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: '14px', color: '#C75B5B', animation: 'timerPulse 5s ease-in-out infinite' }}>{timeLeft}</span>
                                     </div>
                                 )}
@@ -514,7 +1919,7 @@ export const App = () => {
                                         alignItems: 'center',
                                         gap: '2px',
                                     }}>
-                                        <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: '8px', color: 'rgba(190, 160, 130, 1)' }}>Theme: Classroom</span>
+                                        <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: '8px', color: 'rgba(190, 160, 130, 1)' }}>Theme: {theme?.name ?? 'Classroom'}</span>
                                         <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: '10px', color: '#C75B5B', animation: 'timerPulse 5s ease-in-out infinite' }}>{timeLeft}</span>
                                     </div>
                                 )}
@@ -572,6 +1977,8 @@ export const App = () => {
                             <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: isMobile ? '11px' : '16px', fontWeight: 'bold', color: '#FFF', marginLeft: '4px', marginTop: '4px' }}>Leaderboard</span>
                         ) : currentView === 'saved' ? (
                             <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: isMobile ? '11px' : '16px', fontWeight: 'bold', color: '#FFF', marginLeft: '4px', marginTop: '4px' }}>My Saved Rooms</span>
+                        ) : currentView === 'versus' ? (
+                            <span style={{ fontFamily: 'PublicPixel, cursive, monospace', fontSize: isMobile ? '11px' : '16px', fontWeight: 'bold', color: '#FFF', marginLeft: '4px', marginTop: '4px' }}>Which is Better?</span>
                         ) : null}
                     </div>
                     {currentView === 'design' && (
@@ -648,7 +2055,35 @@ export const App = () => {
                                     <circle cx="8.5" cy="8.5" r="1.5" />
                                     <polyline points="21,15 16,10 5,21" />
                                 </svg>
-                                Gallery
+                                Gallery
+                            </a>
+                            <a style={{
+                                padding: '10px 12px',
+                                borderRadius: '8px',
+                                cursor: 'pointer',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '10px',
+                                color: '#FFFFFF',
+                                fontSize: '11px',
+                                fontWeight: '500',
+                                transition: 'background-color 0.2s',
+                                textDecoration: 'none',
+                                backgroundColor: currentView === 'leaderboard' ? 'rgba(255,255,255,0.15)' : 'transparent',
+                            }}
+                                onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'rgba(255,255,255,0.1)'}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = currentView === 'leaderboard' ? 'rgba(255,255,255,0.15)' : 'transparent'}
+                                onClick={() => { setCurrentView('leaderboard'); fetchGallery({ sort: leaderboardSort }); setIsMenuOpen(false); }}
+                            >
+                                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                                    <path d="M6 9H4.5a2.5 2.5 0 0 1 0-5H6" />
+                                    <path d="M18 9h1.5a2.5 2.5 0 0 0 0-5H18" />
+                                    <path d="M4 22h16" />
+                                    <path d="M10 14.66V17c0 .55-.47.98-.97 1.21C7.85 18.75 7 20.24 7 22" />
+                                    <path d="M14 14.66V17c0 .55.47.98.97 1.21C16.15 18.75 17 20.24 17 22" />
+                                    <path d="M18 2H6v7a6 6 0 0 0 12 0V2Z" />
+                                </svg>
+                                Leaderboard
                             </a>
                             <a style={{
                                 padding: '10px 12px',
@@ -662,21 +2097,17 @@ export const App = () => {
                                 fontWeight: '500',
                                 transition: 'background-color 0.2s',
                                 textDecoration: 'none',
-                                backgroundColor: currentView === 'leaderboard' ? 'rgba(255,255,255,0.15)' : 'transparent',
+                                backgroundColor: currentView === 'versus' ? 'rgba(255,255,255,0.15)' : 'transparent',
                             }}
                                 onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'rgba(255,255,255,0.1)'}
-                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = currentView === 'leaderboard' ? 'rgba(255,255,255,0.15)' : 'transparent'}
-                                onClick={() => { setCurrentView('leaderboard'); fetchGallery(); setIsMenuOpen(false); }}
+                                onMouseLeave={(e) => e.currentTarget.style.backgroundColor = currentView === 'versus' ? 'rgba(255,255,255,0.15)' : 'transparent'}
+                                onClick={() => { goToMatchups(); setIsMenuOpen(false); }}
                             >
                                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                                    <path d="M6 9H4.5a2.5 2.5 0 0 1 0-5H6" />
-                                    <path d="M18 9h1.5a2.5 2.5 0 0 0 0-5H18" />
-                                    <path d="M4 22h16" />
-                                    <path d="M10 14.66V17c0 .55-.47.98-.97 1.21C7.85 18.75 7 20.24 7 22" />
-                                    <path d="M14 14.66V17c0 .55.47.98.97 1.21C16.15 18.75 17 20.24 17 22" />
-                                    <path d="M18 2H6v7a6 6 0 0 0 12 0V2Z" />
+                                    <rect x="2" y="5" width="8" height="14" rx="1" />
+                                    <rect x="14" y="5" width="8" height="14" rx="1" />
                                 </svg>
-                                Leaderboard
+                                Which is Better?
                             </a>
                             <a style={{
                                 padding: '10px 12px',
@@ -694,7 +2125,7 @@ export const App = () => {
                             }}
                                 onMouseEnter={(e) => e.currentTarget.style.backgroundColor = 'rgba(255,255,255,0.1)'}
                                 onMouseLeave={(e) => e.currentTarget.style.backgroundColor = currentView === 'saved' ? 'rgba(255,255,255,0.15)' : 'transparent'}
-                                onClick={() => { setCurrentView('saved'); fetchGallery(); setIsMenuOpen(false); }}
+                                onClick={() => { setCurrentView('saved'); fetchGallery({ sort: 'newest' }); fetchDrafts(); setIsMenuOpen(false); }}
                             >
                                 <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                                     <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
@@ -713,6 +2144,38 @@ export const App = () => {
                     /* Gallery View */
                     <main style={{ flex: 1, display: 'flex', flexDirection: 'column', padding: '16px', overflow: 'auto', backgroundColor: '#f1e1d6' }}>
 
+                        {/* Sort and filters */}
+                        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginBottom: '16px' }}>
+                            <select
+                                aria-label="Sort gallery"
+                                value={galleryQuery.sort}
+                                onChange={(e) => updateGalleryQuery({ ...galleryQuery, sort: e.target.value as GallerySort })}
+                                style={{ padding: '6px 8px', border: 'none', borderRadius: '8px', backgroundColor: 'rgba(255, 255, 255, 0.9)', color: 'rgba(139, 115, 85, 1)', fontSize: '11px', cursor: 'pointer' }}
+                            >
+                                {GALLERY_SORTS.map(sort => (
+                                    <option key={sort} value={sort}>{GALLERY_SORT_LABELS[sort]}</option>
+                                ))}
+                            </select>
+                            <select
+                                aria-label="Filter by item"
+                                value={galleryQuery.assetId ?? ''}
+                                onChange={(e) => updateGalleryQuery({ ...galleryQuery, assetId: e.target.value || undefined })}
+                                style={{ padding: '6px 8px', border: 'none', borderRadius: '8px', backgroundColor: 'rgba(255, 255, 255, 0.9)', color: 'rgba(139, 115, 85, 1)', fontSize: '11px', cursor: 'pointer' }}
+                            >
+                                <option value="">All items</option>
+                                {ASSET_CATALOG.map(asset => (
+                                    <option key={asset.id} value={asset.id}>{asset.name}</option>
+                                ))}
+                            </select>
+                            {galleryQuery.user && (
+                                <button
+                                    onClick={() => updateGalleryQuery({ ...galleryQuery, user: undefined })}
+                                    style={{ padding: '6px 8px', border: 'none', borderRadius: '8px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '11px', cursor: 'pointer' }}
+                                >
+                                    by {galleryQuery.user.username} ✕
+                                </button>
+                            )}
+                        </div>
 
                         {loadingGallery && (
                             <div style={{ textAlign: 'center', padding: '40px', color: '#9CA3AF' }}>
@@ -728,8 +2191,8 @@ export const App = () => {
                                 color: '#9CA3AF',
                             }}>
                                 <div style={{ fontSize: '32px', marginBottom: '16px' }}>🎨</div>
-                                <h3 style={{ color: '#FFFFFF', fontSize: '14px', marginBottom: '8px' }}>No Designs Yet</h3>
-                                <p style={{ marginBottom: '20px' }}>Be the first to submit a design!</p>
+                                <h3 style={{ color: '#FFFFFF', fontSize: '14px', marginBottom: '8px' }}>{galleryQuery.assetId || galleryQuery.user ? 'No Matching Designs' : 'No Designs Yet'}</h3>
+                                <p style={{ marginBottom: '20px' }}>{galleryQuery.assetId || galleryQuery.user ? 'Try another filter, or make one yourself!' : 'Be the first to submit a design!'}</p>
                                 <button
                                     onClick={() => setCurrentView('design')}
                                     style={{
@@ -787,50 +2250,54 @@ export const App = () => {
                                                 position: 'relative',
                                                 overflow: 'hidden',
                                             }}>
-                                                {/* Room base image */}
-                                                <img
-                                                    src="room_2.png"
-                                                    alt="Room design"
-                                                    style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }}
-                                                />
-                                                {/* Render actual assets as mini thumbnails */}
-                                                {design.assets?.map((asset: any, assetIndex: number) => {
-                                                    const assetData = ASSETS.find(a => a.id === asset.assetId);
-                                                    if (!assetData) return null;
-                                                    return (
-                                                        <img
-                                                            key={assetIndex}
-                                                            src={assetData.imageUrl}
-                                                            alt="Asset"
-                                                            style={{
-                                                                position: 'absolute',
-                                                                left: `calc(50% + ${asset.xOffset * 0.8}%)`,
-                                                                top: `calc(50% + ${asset.yOffset * 0.8}%)`,
-                                                                transform: `translate(-50%, -50%) rotate(${asset.rotation || 0}deg) scale(${(asset.scale || 1) * 0.4})`,
-                                                                width: '30px',
-                                                                height: '30px',
-                                                                objectFit: 'contain',
-                                                                pointerEvents: 'none',
-                                                            }}
-                                                        />
-                                                    );
-                                                })}
+                                                <DesignThumbnail design={design} />
+                                                {/* Revision counter, once resubmitted */}
+                                                {(design.revision ?? 1) > 1 && (
+                                                    <div
+                                                        title={`Resubmitted ${design.revision! - 1} time${design.revision === 2 ? '' : 's'}`}
+                                                        style={{
+                                                            position: 'absolute',
+                                                            top: '8px',
+                                                            right: '8px',
+                                                            padding: '2px 6px',
+                                                            borderRadius: '8px',
+                                                            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                                                            color: '#FFFFFF',
+                                                            fontFamily: 'PublicPixel, cursive, monospace',
+                                                            fontSize: '8px',
+                                                        }}
+                                                    >
+                                                        v{design.revision}
+                                                    </div>
+                                                )}
                                             </div>
 
                                             {/* Info */}
                                             <div style={{ padding: '10px 12px' }}>
-                                                <div style={{
-                                                    color: '#FFFFFF',
-                                                    fontWeight: '600',
-                                                    fontSize: '10px',
-                                                    marginBottom: '8px',
-                                                    overflow: 'hidden',
-                                                    textOverflow: 'ellipsis',
-                                                    whiteSpace: 'nowrap',
-                                                    maxWidth: '100%',
-                                                }}>
+                                                <div
+                                                    title="Show this designer's rooms"
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        updateGalleryQuery({ ...galleryQuery, user: { id: design.userId, username: design.username } });
+                                                    }}
+                                                    style={{
+                                                        color: '#FFFFFF',
+                                                        fontWeight: '600',
+                                                        fontSize: '10px',
+                                                        marginBottom: '8px',
+                                                        overflow: 'hidden',
+                                                        textOverflow: 'ellipsis',
+                                                        whiteSpace: 'nowrap',
+                                                        maxWidth: '100%',
+                                                    }}
+                                                >
                                                     {design.username || 'Anonymous'}
                                                 </div>
+                                                {design.remixOf && (
+                                                    <div style={{ color: '#9CA3AF', fontSize: '8px', marginTop: '-4px', marginBottom: '8px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                        remixed from u/{design.remixOf.username}
+                                                    </div>
+                                                )}
                                                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                                                     {/* Vote button */}
                                                     <button
@@ -881,11 +2348,12 @@ export const App = () => {
                                     ))}
                             </div>
                         )}
+                        {!loadingGallery && renderLoadMore()}
 
                         {/* Refresh button fixed at bottom right */}
                         {!loadingGallery && (
                             <button
-                                onClick={fetchGallery}
+                                onClick={() => fetchGallery()}
                                 style={{
                                     position: 'fixed',
                                     bottom: '20px',
@@ -909,6 +2377,28 @@ export const App = () => {
                     /* Leaderboard View */
                     <main style={{ flex: 1, display: 'flex', flexDirection: 'column', padding: '16px', overflow: 'auto', backgroundColor: '#f1e1d6' }}>
 
+                        {/* Ranking toggle: raw likes, likes weighted by how recently the room was submitted, or head-to-head rating */}
+                        <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+                            {(['top', 'hot', 'rating'] as const).map(sort => (
+                                <button
+                                    key={sort}
+                                    onClick={() => { setLeaderboardSort(sort); fetchGallery({ sort }); }}
+                                    style={{
+                                        padding: '6px 12px',
+                                        border: 'none',
+                                        borderRadius: '8px',
+                                        backgroundColor: leaderboardSort === sort ? 'rgba(190, 160, 130, 0.9)' : 'rgba(255, 255, 255, 0.9)',
+                                        color: leaderboardSort === sort ? '#FFFFFF' : 'rgba(139, 115, 85, 1)',
+                                        fontSize: '11px',
+                                        fontWeight: '600',
+                                        cursor: 'pointer',
+                                    }}
+                                >
+                                    {sort === 'top' ? '🏆 Top' : sort === 'hot' ? '🔥 Hot' : '⚔️ Rating'}
+                                </button>
+                            ))}
+                        </div>
+
                         {/* Loading state */}
                         {loadingGallery && (
                             <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -930,11 +2420,10 @@ export const App = () => {
                             </div>
                         )}
 
-                        {/* Leaderboard list - sorted by votes */}
+                        {/* Leaderboard list - ranked on the server */}
                         {!loadingGallery && galleryDesigns.length > 0 && (
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-                                {[...galleryDesigns]
-                                    .sort((a, b) => (b.voteCount || 0) - (a.voteCount || 0))
+                                {galleryDesigns
                                     .map((design, index) => (
                                         <div
                                             key={design.id || index}
@@ -980,11 +2469,7 @@ export const App = () => {
                                                 overflow: 'hidden',
                                                 position: 'relative',
                                             }}>
-                                                <img
-                                                    src="room_2.png"
-                                                    alt="Room"
-                                                    style={{ width: '100%', height: '100%', objectFit: 'cover' }}
-                                                />
+                                                <DesignThumbnail design={design} />
                                             </div>
 
                                             {/* User info */}
@@ -1011,18 +2496,30 @@ export const App = () => {
                                                 fontWeight: 'bold',
                                                 flexShrink: 0,
                                             }}>
-                                                <span>♥</span>
-                                                <span>{design.voteCount || 0}</span>
+                                                {leaderboardSort === 'rating' ? (
+                                                    <>
+                                                        <span>⚔️</span>
+                                                        <span>{Math.round(design.rating ?? INITIAL_RATING)}</span>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <span>♥</span>
+                                                        <span>{design.voteCount || 0}</span>
+                                                    </>
+                                                )}
                                             </div>
                                         </div>
                                     ))}
                             </div>
                         )}
+                        {!loadingGallery && renderLoadMore()}
                     </main>
                 ) : currentView === 'saved' ? (
                     /* My Saved Rooms View */
                     <main style={{ flex: 1, display: 'flex', flexDirection: 'column', padding: '16px', overflow: 'auto', backgroundColor: '#f1e1d6' }}>
 
+                        {renderDraftManager()}
+
                         {/* Loading state */}
                         {loadingGallery && (
                             <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -1098,35 +2595,7 @@ export const App = () => {
                                                 position: 'relative',
                                                 overflow: 'hidden',
                                             }}>
-                                                <img
-                                                    src="room_2.png"
-                                                    alt="Room"
-                                                    style={{
-                                                        position: 'absolute',
-                                                        top: '50%',
-                                                        left: '50%',
-                                                        transform: 'translate(-50%, -50%)',
-                                                        maxWidth: '100%',
-                                                        maxHeight: '100%',
-                                                        objectFit: 'contain',
-                                                    }}
-                                                />
-                                                {design.assets?.slice(0, 5).map((asset: any, i: number) => (
-                                                    <img
-                                                        key={i}
-                                                        src={ASSETS.find(a => a.id === asset.assetId)?.imageUrl || ''}
-                                                        alt=""
-                                                        style={{
-                                                            position: 'absolute',
-                                                            left: `calc(50% + ${asset.xOffset * 0.6}%)`,
-                                                            top: `calc(50% + ${asset.yOffset * 0.6}%)`,
-                                                            transform: `translate(-50%, -50%) rotate(${asset.rotation || 0}deg) scale(${(asset.scale || 1) * 0.4})`,
-                                                            width: '30px',
-                                                            height: '30px',
-                                                            objectFit: 'contain',
-                                                        }}
-                                                    />
-                                                ))}
+                                                <DesignThumbnail design={design} />
                                             </div>
 
                                             {/* Card footer */}
@@ -1158,11 +2627,12 @@ export const App = () => {
                                     ))}
                             </div>
                         )}
+                        {!loadingGallery && renderLoadMore()}
 
                         {/* Refresh button fixed at bottom right */}
                         {!loadingGallery && (
                             <button
-                                onClick={fetchGallery}
+                                onClick={() => fetchGallery()}
                                 style={{
                                     position: 'fixed',
                                     bottom: '20px',
@@ -1182,47 +2652,223 @@ export const App = () => {
                             </button>
                         )}
                     </main>
+                ) : currentView === 'versus' ? (
+                    /* Head-to-head Matchup View */
+                    <main style={{ flex: 1, display: 'flex', flexDirection: 'column', padding: '16px', overflow: 'auto', backgroundColor: '#f1e1d6' }}>
+
+                        {/* Result of the previous pick */}
+                        {lastPick && (
+                            <div style={{ textAlign: 'center', color: 'rgba(139, 115, 85, 1)', fontSize: '11px', marginBottom: '12px' }}>
+                                You picked {lastPick.username}'s room ({lastPick.change >= 0 ? '+' : ''}{Math.round(lastPick.change)} rating)
+                            </div>
+                        )}
+
+                        {/* Loading state */}
+                        {loadingMatchup && !matchup && (
+                            <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                                <div style={{ textAlign: 'center', color: '#9CA3AF' }}>
+                                    <div style={{ fontSize: '32px', marginBottom: '12px' }}>⏳</div>
+                                    <div>Finding two rooms...</div>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Empty state */}
+                        {!loadingMatchup && !matchup && (
+                            <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                                <div style={{ textAlign: 'center', color: '#9CA3AF' }}>
+                                    <div style={{ fontSize: '48px', marginBottom: '12px' }}>⚔️</div>
+                                    <div style={{ fontSize: '16px' }}>Not enough rooms to compare yet!</div>
+                                    <div style={{ fontSize: '14px', marginTop: '4px' }}>Check back once more designs are submitted</div>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* The two rooms side by side; click the better one */}
+                        {matchup && (
+                            <div style={{
+                                display: 'flex',
+                                flexDirection: isMobile ? 'column' : 'row',
+                                gap: '16px',
+                                flex: 1,
+                                opacity: loadingMatchup ? 0.5 : 1,
+                            }}>
+                                {matchup.designs.map(design => (
+                                    <button
+                                        key={design.id}
+                                        onClick={() => pickMatchup(design)}
+                                        disabled={loadingMatchup}
+                                        aria-label={`Pick ${design.username}'s room`}
+                                        style={{
+                                            flex: 1,
+                                            display: 'flex',
+                                            flexDirection: 'column',
+                                            padding: 0,
+                                            border: 'none',
+                                            borderRadius: '12px',
+                                            overflow: 'hidden',
+                                            backgroundColor: '#2A2A30',
+                                            cursor: loadingMatchup ? 'default' : 'pointer',
+                                            transition: 'transform 0.2s, box-shadow 0.2s',
+                                        }}
+                                        onMouseEnter={(e) => {
+                                            e.currentTarget.style.transform = 'translateY(-4px)';
+                                            e.currentTarget.style.boxShadow = '0 8px 20px rgba(0,0,0,0.3)';
+                                        }}
+                                        onMouseLeave={(e) => {
+                                            e.currentTarget.style.transform = 'translateY(0)';
+                                            e.currentTarget.style.boxShadow = 'none';
+                                        }}
+                                    >
+                                        <div style={{
+                                            width: '100%',
+                                            flex: 1,
+                                            minHeight: '200px',
+                                            backgroundColor: design.backgroundColor || '#f1e1d6',
+                                        }}>
+                                            <RoomPreview design={design} />
+                                        </div>
+                                        <div style={{
+                                            padding: '12px',
+                                            color: '#FFFFFF',
+                                            fontSize: '11px',
+                                            fontWeight: '600',
+                                            overflow: 'hidden',
+                                            textOverflow: 'ellipsis',
+                                            whiteSpace: 'nowrap',
+                                        }}>
+                                            {design.username || 'Anonymous'}
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Skip draws a new pair without recording a pick */}
+                        {matchup && (
+                            <button
+                                onClick={fetchMatchup}
+                                disabled={loadingMatchup}
+                                style={{
+                                    alignSelf: 'center',
+                                    marginTop: '16px',
+                                    padding: '12px 24px',
+                                    backgroundColor: '#2A2A30',
+                                    color: '#FFFFFF',
+                                    border: 'none',
+                                    borderRadius: '8px',
+                                    cursor: loadingMatchup ? 'default' : 'pointer',
+                                    fontSize: '10px',
+                                }}
+                            >
+                                Skip
+                            </button>
+                        )}
+                    </main>
                 ) : currentView === 'viewing' && viewingDesign ? (
                     /* Viewing Someone's Design - Full Screen */
                     <main style={{
                         flex: 1,
                         position: 'relative',
                         overflow: 'hidden',
-                        backgroundColor: viewingDesign.backgroundColor || '#f1e1d6',
+                        backgroundColor: (replayDesign ?? viewedRevision ?? viewingDesign).backgroundColor || '#f1e1d6',
                     }}>
                         {/* Room fills entire space */}
-                        <img
-                            src="room_2.png"
-                            alt="Room"
-                            style={{
+                        <RoomPreview
+                            design={replayDesign ?? viewedRevision ?? viewingDesign}
+                            style={{ position: 'absolute', top: '1%', left: '1%', width: '98%', height: '98%' }}
+                        />
+
+                        {/* Replay progress and speed */}
+                        {replay.playing && (
+                            <div style={{
                                 position: 'absolute',
-                                top: '50%',
+                                bottom: '12px',
                                 left: '50%',
-                                transform: 'translate(-50%, -50%)',
-                                maxWidth: '98%',
-                                maxHeight: '98%',
-                                objectFit: 'contain',
-                            }}
-                        />
+                                transform: 'translateX(-50%)',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '8px',
+                                padding: '6px 10px',
+                                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                                borderRadius: '14px',
+                                color: '#FFFFFF',
+                                fontFamily: 'PublicPixel, cursive, monospace',
+                                fontSize: '8px',
+                                zIndex: 10,
+                            }}>
+                                <div
+                                    role="progressbar"
+                                    aria-label="Replay progress"
+                                    aria-valuemin={0}
+                                    aria-valuemax={100}
+                                    aria-valuenow={Math.round(replay.progress * 100)}
+                                    style={{ width: '80px', height: '4px', borderRadius: '2px', backgroundColor: 'rgba(255, 255, 255, 0.3)', overflow: 'hidden' }}
+                                >
+                                    <div style={{ width: `${replay.progress * 100}%`, height: '100%', backgroundColor: '#FFFFFF', transition: 'width 0.1s linear' }} />
+                                </div>
+                                {REPLAY_SPEEDS.map(speed => (
+                                    <button
+                                        key={speed}
+                                        onClick={() => replay.setSpeed(speed)}
+                                        aria-pressed={replay.speed === speed}
+                                        style={{
+                                            padding: '2px 4px',
+                                            background: 'none',
+                                            border: 'none',
+                                            borderBottom: replay.speed === speed ? '1px solid #FFFFFF' : '1px solid transparent',
+                                            color: '#FFFFFF',
+                                            opacity: replay.speed === speed ? 1 : 0.6,
+                                            cursor: 'pointer',
+                                            fontFamily: 'PublicPixel, cursive, monospace',
+                                            fontSize: '8px',
+                                        }}
+                                    >
+                                        {speed}x
+                                    </button>
+                                ))}
+                            </div>
+                        )}
 
-                        {/* Render placed assets */}
-                        {viewingDesign.assets?.map((asset: any) => (
-                            <img
-                                key={asset.id}
-                                src={ASSETS.find(a => a.id === asset.assetId)?.imageUrl || ''}
-                                alt="Asset"
-                                style={{
-                                    position: 'absolute',
-                                    left: `calc(50% + ${asset.xOffset}%)`,
-                                    top: `calc(50% + ${asset.yOffset}%)`,
-                                    transform: `translate(-50%, -50%) rotate(${asset.rotation || 0}deg) scale(${asset.scale || 1})`,
-                                    width: '50px',
-                                    height: '50px',
-                                    objectFit: 'contain',
-                                    pointerEvents: 'none',
-                                }}
-                            />
-                        ))}
+                        {/* Revision stepper, for designs resubmitted at least once */}
+                        {!replay.playing && viewingRevisions && viewingRevisions.length > 1 && (
+                            <div style={{
+                                position: 'absolute',
+                                bottom: '12px',
+                                left: '50%',
+                                transform: 'translateX(-50%)',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '8px',
+                                padding: '4px 8px',
+                                backgroundColor: 'rgba(0, 0, 0, 0.5)',
+                                borderRadius: '14px',
+                                color: '#FFFFFF',
+                                fontFamily: 'PublicPixel, cursive, monospace',
+                                fontSize: '8px',
+                                zIndex: 10,
+                            }}>
+                                <button
+                                    aria-label="Previous revision"
+                                    disabled={revisionIndex === 0}
+                                    onClick={() => setRevisionIndex(i => Math.max(0, i - 1))}
+                                    style={{ background: 'none', border: 'none', color: '#FFFFFF', fontSize: '14px', cursor: revisionIndex === 0 ? 'default' : 'pointer', opacity: revisionIndex === 0 ? 0.4 : 1 }}
+                                >
+                                    ‹
+                                </button>
+                                <span aria-live="polite">
+                                    v{viewingRevisions[revisionIndex]?.revision} · {revisionIndex + 1} of {viewingRevisions.length}
+                                </span>
+                                <button
+                                    aria-label="Next revision"
+                                    disabled={revisionIndex === viewingRevisions.length - 1}
+                                    onClick={() => setRevisionIndex(i => Math.min(viewingRevisions.length - 1, i + 1))}
+                                    style={{ background: 'none', border: 'none', color: '#FFFFFF', fontSize: '14px', cursor: revisionIndex === viewingRevisions.length - 1 ? 'default' : 'pointer', opacity: revisionIndex === viewingRevisions.length - 1 ? 0.4 : 1 }}
+                                >
+                                    ›
+                                </button>
+                            </div>
+                        )}
 
                         {/* Control bar overlay at top */}
                         <div style={{
@@ -1269,6 +2915,14 @@ export const App = () => {
                                 textAlign: 'center',
                             }}>
                                 {viewingDesign.username}'s Room
+                                {(viewingDesign.remixOf || !!viewingDesign.remixCount) && (
+                                    <div style={{ marginTop: '4px', fontSize: '7px', opacity: 0.8 }}>
+                                        {[
+                                            viewingDesign.remixOf && `remixed from u/${viewingDesign.remixOf.username}`,
+                                            viewingDesign.remixCount && `${viewingDesign.remixCount} remix${viewingDesign.remixCount === 1 ? '' : 'es'}`,
+                                        ].filter(Boolean).join(' · ')}
+                                    </div>
+                                )}
                             </div>
 
                             {/* Vote button */}
@@ -1311,7 +2965,58 @@ export const App = () => {
                             >
                                 {savedRooms[viewingDesign.id] ? '★' : '☆'}
                             </button>
+
+                            {/* Remix someone else's room into a new draft */}
+                            {viewingDesign.username !== username && (
+                                <button
+                                    onClick={() => remixDesign(viewingDesign)}
+                                    style={{
+                                        height: '28px',
+                                        padding: '0 8px',
+                                        backgroundColor: 'transparent',
+                                        color: '#FFFFFF',
+                                        border: '1px solid rgba(255, 255, 255, 0.6)',
+                                        borderRadius: '14px',
+                                        cursor: 'pointer',
+                                        fontFamily: 'PublicPixel, cursive, monospace',
+                                        fontSize: '8px',
+                                        whiteSpace: 'nowrap',
+                                    }}
+                                >
+                                    Remix
+                                </button>
+                            )}
+
+                            {/* Replay how the room was built */}
+                            {viewingTimelapse?.designId === viewingDesign.id && (
+                                <button
+                                    onClick={replay.playing ? replay.stop : replay.play}
+                                    aria-pressed={replay.playing}
+                                    style={{
+                                        height: '28px',
+                                        padding: '0 8px',
+                                        backgroundColor: 'transparent',
+                                        color: '#FFFFFF',
+                                        border: '1px solid rgba(255, 255, 255, 0.6)',
+                                        borderRadius: '14px',
+                                        cursor: 'pointer',
+                                        fontFamily: 'PublicPixel, cursive, monospace',
+                                        fontSize: '8px',
+                                        whiteSpace: 'nowrap',
+                                    }}
+                                >
+                                    {replay.playing ? '■ Stop' : '▶ Replay'}
+                                </button>
+                            )}
+
+                            {renderExportControl(viewedRevision ?? viewingDesign, `${viewingDesign.username}-room`)}
                         </div>
+
+                        {remixError && (
+                            <div role="alert" style={{ position: 'absolute', top: '52px', left: '12px', right: '12px', padding: '8px 12px', backgroundColor: '#FEE2E2', color: '#991B1B', borderRadius: '8px', fontSize: '12px', zIndex: 10 }}>
+                                {remixError}
+                            </div>
+                        )}
                     </main>
                 ) : (
                     /* Design View */
@@ -1328,13 +3033,16 @@ export const App = () => {
                                 flex: 1,
                                 minHeight: '250px',
                             }}
-                            onClick={(e) => { if (e.target === canvasRef.current) setSelectedAssetId(null); }}
+                            onMouseDown={handleMarqueeStart}
                             onTouchMove={handleTouchMove}
                             onTouchEnd={handleTouchEnd}
                         >
                             {/* Room wrapper - maintains consistent aspect ratio for positioning */}
                             <div
                                 ref={roomImageRef as any}
+                                role="group"
+                                aria-label={`Room, ${placedAssets.length} items`}
+                                aria-describedby={mode === 'edit' ? 'editor-keyboard-help' : undefined}
                                 style={{
                                     position: 'absolute',
                                     top: (isMobile && mode === 'edit' && isBottomSheetOpen)
@@ -1356,36 +3064,61 @@ export const App = () => {
                             >
                                 {/* Room image */}
                                 <img
-                                    src="room_2.png"
-                                    alt="Room"
+                                    src={room.imageUrl}
+                                    alt={room.name}
                                     style={{
                                         width: '100%',
                                         height: '100%',
                                         objectFit: 'contain',
+                                        transform: room.mirrored ? 'scaleX(-1)' : undefined,
                                     }}
                                     draggable={false}
                                 />
+                                {/* Room colors, in canvas coordinates over the room image; tints multiply onto it */}
+                                <svg viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`} preserveAspectRatio="xMidYMid meet" style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', mixBlendMode: 'multiply' }}>
+                                    <RoomTints roomColors={roomColors} transform={getRoomTransform(room)} />
+                                </svg>
+                                <svg viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`} preserveAspectRatio="xMidYMid meet" style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}>
+                                    <FloorPatternLines pattern={roomColors.floorPattern} transform={getRoomTransform(room)} />
+                                </svg>
+                                {/* Floor grid */}
+                                {mode === 'edit' && snapToGrid && (
+                                    <svg viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`} preserveAspectRatio="xMidYMid meet" style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}>
+                                        <g transform={getRoomTransform(room)} stroke="rgba(255, 255, 255, 0.7)" strokeWidth={1} strokeDasharray="4 3">
+                                            {getFloorGridLines().map(([[x1, y1], [x2, y2]], index) => (
+                                                <line key={index} x1={x1} y1={y1} x2={x2} y2={y2} />
+                                            ))}
+                                        </g>
+                                    </svg>
+                                )}
 
                                 {/* Placed Assets - positioned relative to room image */}
-                                {placedAssets.map((placed) => {
-                                    const asset = ASSETS.find(a => a.id === placed.assetId);
+                                {inDrawOrder(placedAssets, layerMode).map((placed, drawIndex) => {
+                                    const asset = getCatalogAsset(placed.assetId);
                                     if (!asset) return null;
-                                    const assetSize = `${10 * (asset.sizeScale || 1)}%`;
+                                    const assetSize = `${10 * (asset.sizeScale || 1) * placed.scale}%`;
+                                    const isSelected = mode === 'edit' && selectedIds.includes(placed.id);
+                                    const showHandles = mode === 'edit' && selectedAssetId === placed.id && !isDragging;
                                     return (
                                         <div
                                             key={placed.id}
+                                            role={mode === 'edit' ? 'button' : 'img'}
+                                            tabIndex={mode === 'edit' ? 0 : undefined}
+                                            aria-label={`${asset.name}, ${describePosition(placed)}${placed.flipped ? ', flipped' : ''}`}
+                                            aria-pressed={mode === 'edit' ? isSelected : undefined}
+                                            onFocus={() => handleAssetFocus(placed)}
                                             style={{
                                                 position: 'absolute',
                                                 // Position from center of room image
                                                 left: `calc(50% + ${placed.xOffset}%)`,
                                                 top: `calc(50% + ${placed.yOffset}%)`,
-                                                transform: `translate(-50%, -50%) ${placed.flipped ? 'scaleX(-1)' : ''}`,
+                                                transform: `translate(-50%, -50%) rotate(${placed.rotation}deg)`,
                                                 width: assetSize,
                                                 aspectRatio: '1',
-                                                border: isDragging && selectedAssetId === placed.id ? '3px solid #8B7355' : 'none',
-                                                boxShadow: isDragging && selectedAssetId === placed.id ? '0 0 15px rgba(74, 144, 217, 0.6)' : 'none',
+                                                border: isDragging && isSelected ? '3px solid #8B7355' : (isSelected ? '2px dashed rgba(139, 115, 85, 0.8)' : 'none'),
+                                                boxShadow: isDragging && isSelected ? '0 0 15px rgba(74, 144, 217, 0.6)' : 'none',
                                                 cursor: mode === 'edit' ? 'grab' : 'default',
-                                                zIndex: (isClipping && isDragging && selectedAssetId === placed.id) ? 1 : (selectedAssetId === placed.id ? 100 : 10),
+                                                zIndex: 10 + drawIndex,
                                                 display: 'flex',
                                                 alignItems: 'center',
                                                 justifyContent: 'center',
@@ -1396,15 +3129,153 @@ export const App = () => {
                                             onMouseDown={(e) => handleMouseDown(e, placed.id)}
                                             onTouchStart={(e) => handleTouchStart(e, placed.id)}
                                         >
-                                            <img src={asset.imageUrl} alt={asset.name} style={{ width: '100%', height: '100%', objectFit: 'contain', pointerEvents: 'none' }} draggable={false} />
+                                            {/* Flip only the image so the handles stay where they are */}
+                                            <img src={asset.imageUrl} alt={asset.name} style={{ width: '100%', height: '100%', objectFit: 'contain', pointerEvents: 'none', transform: placed.flipped ? 'scaleX(-1)' : 'none' }} draggable={false} />
+                                            {showHandles && (
+                                                <>
+                                                    {/* Rotate handle - top center */}
+                                                    <div
+                                                        aria-label="Rotate"
+                                                        style={{ position: 'absolute', top: '-22px', left: '50%', transform: 'translateX(-50%)', width: '14px', height: '14px', borderRadius: '50%', backgroundColor: '#FFFFFF', border: '2px solid #8B7355', cursor: 'grab', touchAction: 'none' }}
+                                                        onMouseDown={(e) => handleTransformStart(e, placed, 'rotate')}
+                                                        onTouchStart={(e) => handleTransformStart(e, placed, 'rotate')}
+                                                    />
+                                                    {/* Resize handle - bottom right corner */}
+                                                    <div
+                                                        aria-label="Resize"
+                                                        style={{ position: 'absolute', bottom: '-7px', right: '-7px', width: '14px', height: '14px', borderRadius: '3px', backgroundColor: '#FFFFFF', border: '2px solid #8B7355', cursor: 'nwse-resize', touchAction: 'none' }}
+                                                        onMouseDown={(e) => handleTransformStart(e, placed, 'scale')}
+                                                        onTouchStart={(e) => handleTransformStart(e, placed, 'scale')}
+                                                    />
+                                                    {/* Flip button - top left, for touch devices without a keyboard */}
+                                                    <button
+                                                        aria-label="Flip"
+                                                        style={{ position: 'absolute', top: '-10px', left: '-10px', width: '20px', height: '20px', padding: 0, borderRadius: '50%', backgroundColor: '#FFFFFF', border: '2px solid #8B7355', color: '#8B7355', fontSize: '11px', lineHeight: '1', cursor: 'pointer' }}
+                                                        onMouseDown={(e) => e.stopPropagation()}
+                                                        onTouchStart={(e) => e.stopPropagation()}
+                                                        onClick={(e) => { e.stopPropagation(); history.execute({ type: 'flip', id: placed.id }); }}
+                                                    >⇋</button>
+                                                    {/* Duplicate button - bottom center, for touch devices without a keyboard */}
+                                                    <button
+                                                        aria-label="Duplicate"
+                                                        style={{ position: 'absolute', bottom: '-10px', left: '50%', transform: 'translateX(-50%)', width: '20px', height: '20px', padding: 0, borderRadius: '50%', backgroundColor: '#FFFFFF', border: '2px solid #8B7355', color: '#8B7355', fontSize: '11px', lineHeight: '1', cursor: 'pointer' }}
+                                                        onMouseDown={(e) => e.stopPropagation()}
+                                                        onTouchStart={(e) => e.stopPropagation()}
+                                                        onClick={(e) => { e.stopPropagation(); duplicateSelection(); }}
+                                                    >⧉</button>
+                                                    {/* Bring to front (top right) / send to back (bottom left) */}
+                                                    {([['front', '⤒', { top: '-10px', right: '-10px' }], ['back', '⤓', { bottom: '-10px', left: '-10px' }]] as const).map(([override, icon, position]) => (
+                                                        <button
+                                                            key={override}
+                                                            aria-label={override === 'front' ? 'Bring to front' : 'Send to back'}
+                                                            aria-pressed={placed.layerOverride === override}
+                                                            style={{ position: 'absolute', ...position, width: '20px', height: '20px', padding: 0, borderRadius: '50%', backgroundColor: placed.layerOverride === override ? '#8B7355' : '#FFFFFF', border: '2px solid #8B7355', color: placed.layerOverride === override ? '#FFFFFF' : '#8B7355', fontSize: '11px', lineHeight: '1', cursor: 'pointer' }}
+                                                            onMouseDown={(e) => e.stopPropagation()}
+                                                            onTouchStart={(e) => e.stopPropagation()}
+                                                            onClick={(e) => { e.stopPropagation(); toggleLayerOverride(placed.id, override); }}
+                                                        >{icon}</button>
+                                                    ))}
+                                                </>
+                                            )}
                                         </div>
                                     );
                                 })}
+
+                                {/* Smart guides the dragged asset snapped to */}
+                                {isDragging && activeGuides.x !== undefined && (
+                                    <div style={{ position: 'absolute', left: `calc(50% + ${activeGuides.x}%)`, top: 0, bottom: 0, width: '1px', backgroundColor: 'rgba(74, 144, 217, 0.9)', pointerEvents: 'none', zIndex: 1000 }} />
+                                )}
+                                {isDragging && activeGuides.y !== undefined && (
+                                    <div style={{ position: 'absolute', top: `calc(50% + ${activeGuides.y}%)`, left: 0, right: 0, height: '1px', backgroundColor: 'rgba(74, 144, 217, 0.9)', pointerEvents: 'none', zIndex: 1000 }} />
+                                )}
+
+                                {/* Marquee selection */}
+                                {marquee && (
+                                    <div style={{
+                                        position: 'absolute',
+                                        left: `calc(50% + ${Math.min(marquee.start.xOffset, marquee.end.xOffset)}%)`,
+                                        top: `calc(50% + ${Math.min(marquee.start.yOffset, marquee.end.yOffset)}%)`,
+                                        width: `${Math.abs(marquee.end.xOffset - marquee.start.xOffset)}%`,
+                                        height: `${Math.abs(marquee.end.yOffset - marquee.start.yOffset)}%`,
+                                        border: '1px dashed rgba(139, 115, 85, 0.9)',
+                                        backgroundColor: 'rgba(139, 115, 85, 0.12)',
+                                        pointerEvents: 'none',
+                                        zIndex: 1000,
+                                    }} />
+                                )}
                             </div>
 
+                            {/* Screen reader help and announcements */}
+                            <p id="editor-keyboard-help" style={VISUALLY_HIDDEN}>
+                                Tab to an item to select it. Arrow keys move it, hold Shift for bigger steps.
+                                R flips, ] brings to front, [ sends to back, Delete removes, Escape deselects.
+                                Control C, V and D copy, paste and duplicate.
+                            </p>
+                            <div role="status" aria-live="polite" style={VISUALLY_HIDDEN}>{announcement}</div>
+
+                            {/* Selection tools - more than one asset selected */}
+                            {mode === 'edit' && selectedIds.length > 1 && (
+                                <div
+                                    role="toolbar"
+                                    aria-label="Selection"
+                                    style={{ position: 'absolute', top: isMobile ? '50px' : '8px', left: '50%', transform: 'translateX(-50%)', maxWidth: '90%', display: 'flex', flexWrap: 'wrap', alignItems: 'center', justifyContent: 'center', gap: '4px', padding: '4px 6px', borderRadius: '8px', backgroundColor: 'rgba(255, 255, 255, 0.9)', boxShadow: '0 2px 4px rgba(0,0,0,0.1)', zIndex: 60 }}
+                                >
+                                    <span style={{ fontSize: '10px', fontWeight: 600, color: 'rgba(139, 115, 85, 1)', padding: '0 4px' }}>{selectedIds.length} selected</span>
+                                    {([
+                                        ['Left', () => alignSelection('left')],
+                                        ['Center', () => alignSelection('center')],
+                                        ['Right', () => alignSelection('right')],
+                                        ['Top', () => alignSelection('top')],
+                                        ['Middle', () => alignSelection('middle')],
+                                        ['Bottom', () => alignSelection('bottom')],
+                                        ['Spread ↔', () => distributeSelection('horizontal')],
+                                        ['Spread ↕', () => distributeSelection('vertical')],
+                                        ['Flip', flipSelection],
+                                        ['Duplicate', duplicateSelection],
+                                        ['Delete', deleteSelection],
+                                    ] as const).map(([label, action]) => (
+                                        <button
+                                            key={label}
+                                            onClick={action}
+                                            disabled={label.startsWith('Spread') && selectedIds.length < 3}
+                                            style={{ padding: '4px 6px', border: 'none', borderRadius: '6px', backgroundColor: label === 'Delete' ? 'rgba(199, 91, 91, 0.15)' : 'rgba(139, 115, 85, 0.12)', color: label === 'Delete' ? '#C75B5B' : 'rgba(139, 115, 85, 1)', fontSize: '10px', fontWeight: 600, cursor: 'pointer', opacity: label.startsWith('Spread') && selectedIds.length < 3 ? 0.4 : 1 }}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                    <form
+                                        onSubmit={(e) => { e.preventDefault(); saveSelectionAsGroup(); }}
+                                        style={{ display: 'flex', gap: '4px' }}
+                                    >
+                                        <input
+                                            value={groupName}
+                                            onChange={(e) => setGroupName(e.target.value)}
+                                            placeholder="Group name"
+                                            aria-label="Group name"
+                                            maxLength={30}
+                                            style={{ width: '90px', padding: '3px 6px', border: '1px solid rgba(139, 115, 85, 0.3)', borderRadius: '6px', fontSize: '10px' }}
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={!groupName.trim()}
+                                            style={{ padding: '4px 6px', border: 'none', borderRadius: '6px', backgroundColor: 'rgba(190, 160, 130, 0.9)', color: '#FFFFFF', fontSize: '10px', fontWeight: 600, cursor: groupName.trim() ? 'pointer' : 'default', opacity: groupName.trim() ? 1 : 0.5 }}
+                                        >
+                                            Save group
+                                        </button>
+                                    </form>
+                                </div>
+                            )}
+
                             {/* Background Color Picker */}
 
 
+                            {/* Export Image - Preview Mode */}
+                            {mode === 'preview' && (
+                                <div style={{ position: 'absolute', top: '8px', right: '8px', zIndex: 10 }}>
+                                    {renderExportControl(getEditorDesign(), `${username || 'my'}-room`)}
+                                </div>
+                            )}
+
                             {/* Submit Button - Preview Mode (always visible) */}
                             {mode === 'preview' && (
                                 <>
@@ -1484,6 +3355,70 @@ export const App = () => {
                                 </div>
                             )}
 
+                            {/* Editor toolbar - layer mode and placement aids */}
+                            {mode === 'edit' && (
+                                <div style={{ position: 'absolute', top: '8px', left: '8px', display: 'flex', gap: '6px', zIndex: 60 }}>
+                                    {([
+                                        [layerMode === 'depth' ? 'Depth: Auto' : 'Depth: Manual', layerMode === 'depth', toggleLayerMode, false],
+                                        ['Grid', snapToGrid, () => setSnapToGrid(on => !on), true],
+                                        ['Guides', smartGuides, () => setSmartGuides(on => !on), true],
+                                    ] as const).map(([label, pressed, action, isToggle]) => (
+                                        <button
+                                            key={label}
+                                            aria-pressed={pressed}
+                                            onClick={action}
+                                            style={{
+                                                padding: '6px 10px',
+                                                border: 'none',
+                                                borderRadius: '8px',
+                                                // Placement aids show their state; the layer mode button shows it in its label
+                                                backgroundColor: isToggle && pressed ? 'rgba(190, 160, 130, 0.9)' : 'rgba(255, 255, 255, 0.9)',
+                                                color: isToggle && pressed ? '#FFFFFF' : 'rgba(139, 115, 85, 1)',
+                                                fontSize: '11px',
+                                                fontWeight: '600',
+                                                cursor: 'pointer',
+                                                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                                            }}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                    {!isSubmitted && (
+                                        <SaveStatusBadge status={autosave.status} lastSaveTime={autosave.lastSaveTime} error={autosave.error} pendingSync={autosave.pendingSync} />
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Undo / Redo - Mobile */}
+                            {mode === 'edit' && isMobile && (
+                                <div style={{ position: 'absolute', top: '8px', right: '8px', display: 'flex', gap: '6px', zIndex: 60 }}>
+                                    {([['undo', '↶', history.canUndo, history.undo], ['redo', '↷', history.canRedo, history.redo]] as const).map(([label, icon, enabled, action]) => (
+                                        <button
+                                            key={label}
+                                            aria-label={label === 'undo' ? 'Undo' : 'Redo'}
+                                            disabled={!enabled}
+                                            onClick={action}
+                                            style={{
+                                                width: '34px',
+                                                height: '34px',
+                                                border: 'none',
+                                                borderRadius: '8px',
+                                                backgroundColor: 'rgba(255, 255, 255, 0.9)',
+                                                color: 'rgba(139, 115, 85, 1)',
+                                                fontSize: '18px',
+                                                lineHeight: '1',
+                                                cursor: enabled ? 'pointer' : 'default',
+                                                opacity: enabled ? 1 : 0.4,
+                                                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                                                transition: 'opacity 0.2s',
+                                            }}
+                                        >
+                                            {icon}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
                             {/* Trash Zone */}
                             {mode === 'edit' && (!isMobile || isBottomSheetOpen) && (
                                 <div
@@ -1622,12 +3557,16 @@ export const App = () => {
                                         <button onClick={() => setMode('preview')} style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '26px', padding: '4px', color: 'rgba(139, 115, 85, 1)', lineHeight: '1', transition: 'transform 0.2s' }} onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.2)'} onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}>×</button>
                                     </div>
                                 </div>
+                                {renderColorControls(20)}
+                                {renderRoomPicker(3)}
+                                {renderThemeRuleNotes()}
+                                {renderAssetGroups()}
                                 <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
-                                    {ASSETS.map((asset) => (
+                                    {availableAssets.map((asset) => (
                                         <div
                                             key={asset.id}
-                                            onClick={() => handleAssetClick(asset)}
-                                            style={{ aspectRatio: '1', backgroundColor: 'transparent', border: 'none', borderRadius: '8px', display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: 'pointer', transition: 'all 0.15s' }}
+                                            {...paletteItemProps(asset)}
+                                            style={{ aspectRatio: '1', backgroundColor: 'transparent', border: 'none', borderRadius: '8px', display: 'flex', alignItems: 'center', justifyContent: 'center', cursor: atItemLimit ? 'not-allowed' : 'pointer', opacity: atItemLimit ? 0.4 : 1, transition: 'all 0.15s' }}
                                             onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = 'rgba(240, 240, 240, 0.5)'; e.currentTarget.style.transform = 'scale(1.05)'; }}
                                             onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'transparent'; e.currentTarget.style.transform = 'scale(1)'; }}
                                         >
@@ -1640,8 +3579,10 @@ export const App = () => {
                                     <p style={{ margin: '2px 0' }}>• Click asset to add</p>
                                     <p style={{ margin: '2px 0' }}>• Drag to move</p>
                                     <p style={{ margin: '2px 0' }}>• Press <strong>R</strong> to flip</p>
-                                    <p style={{ margin: '2px 0' }}>• Hold <strong>C</strong> while dragging to clip under</p>
+                                    <p style={{ margin: '2px 0' }}>• Press <strong>]</strong> / <strong>[</strong> to bring to front / send to back</p>
                                     <p style={{ margin: '2px 0' }}>• Drag to 🗑️ to delete</p>
+                                    <p style={{ margin: '2px 0' }}>• <strong>Ctrl+Z</strong> to undo, <strong>Ctrl+Shift+Z</strong> to redo</p>
+                                    <p style={{ margin: '2px 0' }}>• Drag the <strong>corner</strong> handle to resize, the <strong>top</strong> handle to rotate (hold Shift to snap)</p>
                                 </div>
                             </div>
                         )}
@@ -1719,9 +3660,13 @@ export const App = () => {
                                 </div>
                                 {/* Asset Grid */}
                                 <div style={{ flex: 1, overflow: 'auto', padding: '0 12px 12px', WebkitOverflowScrolling: 'touch' }}>
+                                    {renderColorControls(22)}
+                                    {renderRoomPicker(3)}
+                                    {renderThemeRuleNotes()}
+                                    {renderAssetGroups()}
                                     <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '6px' }}>
-                                        {ASSETS.map((asset) => (
-                                            <div key={asset.id} onClick={() => handleAssetClick(asset)} style={{ aspectRatio: '1', backgroundColor: 'rgba(255, 255, 255, 0.5)', borderRadius: '6px', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4px', cursor: 'pointer', border: '1px solid rgba(139, 115, 85, 0.2)' }}>
+                                        {availableAssets.map((asset) => (
+                                            <div key={asset.id} {...paletteItemProps(asset)} style={{ aspectRatio: '1', backgroundColor: 'rgba(255, 255, 255, 0.5)', borderRadius: '6px', display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4px', cursor: atItemLimit ? 'not-allowed' : 'pointer', opacity: atItemLimit ? 0.4 : 1, border: '1px solid rgba(139, 115, 85, 0.2)' }}>
                                                 <img src={asset.imageUrl} alt={asset.name} style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
                                             </div>
                                         ))}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { hexToHsl, hslToHex } from '../../utils/colors';
+
+const WHEEL_SIZE = 112;
+
+// Hue around the wheel (red at the top, clockwise), saturation from the center out
+const WHEEL_BACKGROUND = [
+    'radial-gradient(circle closest-side, hsl(0 0% 50%), hsl(0 0% 50% / 0))',
+    'conic-gradient(hsl(0 100% 50%), hsl(60 100% 50%), hsl(120 100% 50%), hsl(180 100% 50%), hsl(240 100% 50%), hsl(300 100% 50%), hsl(360 100% 50%))',
+].join(', ');
+
+interface ColorWheelProps {
+    color?: string;
+    recentColors: string[];
+    // Called once per pick, not while the lightness slider is moving
+    onPick: (color: string) => void;
+}
+
+/**
+ * Full color picker: a hue/saturation wheel, a lightness slider and the
+ * player's recent colors
+ */
+export const ColorWheel = ({ color, recentColors, onPick }: ColorWheelProps) => {
+    const current = (color && hexToHsl(color)) || { hue: 0, saturation: 0, lightness: 0.5 };
+    const [lightness, setLightness] = useState(current.lightness);
+    useEffect(() => setLightness(current.lightness), [color]);
+
+    const preview = hslToHex({ ...current, lightness });
+    const markerAngle = (current.hue * Math.PI) / 180;
+    const markerRadius = (current.saturation * WHEEL_SIZE) / 2;
+
+    const pickFromWheel = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const dx = e.clientX - (rect.left + rect.width / 2);
+        const dy = e.clientY - (rect.top + rect.height / 2);
+        const hue = ((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360;
+        const saturation = Math.min(1, Math.hypot(dx, dy) / (rect.width / 2));
+        onPick(hslToHex({ hue, saturation, lightness }));
+    };
+
+    const commitLightness = () => {
+        if (lightness !== current.lightness && preview !== color?.toUpperCase()) onPick(preview);
+    };
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <div
+                    role="slider"
+                    aria-label="Hue and saturation"
+                    aria-valuetext={preview}
+                    onPointerDown={pickFromWheel}
+                    style={{ position: 'relative', width: `${WHEEL_SIZE}px`, height: `${WHEEL_SIZE}px`, borderRadius: '50%', background: WHEEL_BACKGROUND, cursor: 'crosshair', flexShrink: 0, touchAction: 'none' }}
+                >
+                    {color && (
+                        <div style={{
+                            position: 'absolute',
+                            left: `${WHEEL_SIZE / 2 + Math.sin(markerAngle) * markerRadius - 5}px`,
+                            top: `${WHEEL_SIZE / 2 - Math.cos(markerAngle) * markerRadius - 5}px`,
+                            width: '10px',
+                            height: '10px',
+                            borderRadius: '50%',
+                            border: '2px solid #FFFFFF',
+                            boxShadow: '0 0 2px rgba(0,0,0,0.6)',
+                            pointerEvents: 'none',
+                        }} />
+                    )}
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', flex: 1 }}>
+                    <div style={{ height: '24px', borderRadius: '6px', backgroundColor: preview, border: '1px solid rgba(139, 115, 85, 0.3)' }} />
+                    <input
+                        type="range"
+                        aria-label="Lightness"
+                        min={0}
+                        max={100}
+                        value={Math.round(lightness * 100)}
+                        onChange={(e) => setLightness(Number(e.target.value) / 100)}
+                        onPointerUp={commitLightness}
+                        onKeyUp={commitLightness}
+                        style={{ width: '100%' }}
+                    />
+                </div>
+            </div>
+            {recentColors.length > 0 && (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+                    {recentColors.map(recent => (
+                        <button
+                            key={recent}
+                            aria-label={`Recent color ${recent}`}
+                            onClick={() => onPick(recent)}
+                            style={{ width: '18px', height: '18px', borderRadius: '4px', backgroundColor: recent, border: recent === color?.toUpperCase() ? '2px solid rgba(139, 115, 85, 1)' : '1px solid rgba(139, 115, 85, 0.3)', cursor: 'pointer', padding: 0 }}
+                        />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
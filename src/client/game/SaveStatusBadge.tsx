@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { SaveStatus } from '../../utils/AutoSaveManager';
+import { getSaveStatusIcon } from '../../utils/transitions';
+
+const BACKGROUNDS: Record<SaveStatus, string> = { idle: '#F3F4F6', saving: '#FEF3C7', saved: '#D1FAE5', error: '#FEE2E2' };
+const TEXT_COLORS: Record<SaveStatus, string> = { idle: '#6B7280', saving: '#92400E', saved: '#065F46', error: '#991B1B' };
+const MESSAGES: Record<SaveStatus, string> = { idle: 'Auto-save enabled', saving: 'Saving...', saved: 'Saved', error: 'Save Failed' };
+
+const formatLastSaveTime = (timestamp: number): string => {
+    const diffSeconds = Math.floor((Date.now() - timestamp) / 1000);
+    if (diffSeconds < 5) return 'just now';
+    if (diffSeconds < 60) return `${diffSeconds}s ago`;
+    const diffMinutes = Math.floor(diffSeconds / 60);
+    if (diffMinutes < 60) return `${diffMinutes}m ago`;
+    return `${Math.floor(diffMinutes / 60)}h ago`;
+};
+
+interface SaveStatusBadgeProps {
+    status: SaveStatus;
+    lastSaveTime?: number;
+    error?: string;
+    // The latest draft is only on this device, waiting for a connection
+    pendingSync?: boolean;
+}
+
+/**
+ * The editor's auto-save status, in the same states as the Blocks app's
+ * SaveStatusIndicator
+ */
+export const SaveStatusBadge = ({ status, lastSaveTime, error, pendingSync }: SaveStatusBadgeProps) => {
+    // Pulse while saving
+    const [pulse, setPulse] = useState(false);
+    useEffect(() => {
+        if (status !== 'saving') return;
+        const interval = setInterval(() => setPulse(p => !p), 500);
+        return () => clearInterval(interval);
+    }, [status]);
+
+    const message = pendingSync && status !== 'saving' && status !== 'error' ? 'Saved on this device' : MESSAGES[status];
+    const detail =
+        status === 'error' ? error :
+        status === 'saved' && !pendingSync && lastSaveTime ? formatLastSaveTime(lastSaveTime) :
+        undefined;
+
+    return (
+        <div
+            role="status"
+            title={pendingSync ? 'Will sync when you are back online' : undefined}
+            style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '4px 8px',
+                borderRadius: '8px',
+                backgroundColor: status === 'saving' && pulse ? '#FDE68A' : BACKGROUNDS[status],
+                border: `1px solid ${status === 'error' ? '#FCA5A5' : 'transparent'}`,
+                color: TEXT_COLORS[status],
+                fontSize: '11px',
+                fontWeight: '600',
+                whiteSpace: 'nowrap',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+            }}
+        >
+            <span>{getSaveStatusIcon(status)} {message}</span>
+            {detail && <span style={{ fontWeight: '400', color: status === 'error' ? '#DC2626' : '#059669' }}>{detail}</span>}
+        </div>
+    );
+};
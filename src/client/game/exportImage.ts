@@ -0,0 +1,113 @@
+import { Design, CANVAS_WIDTH, CANVAS_HEIGHT } from '../../types/models';
+import { layoutDesign, fitContain } from '../../utils/designLayout';
+import { getRoomBase } from '../../utils/roomBases';
+import { getSurfaceLayers, getFloorPatternLayer } from '../../utils/roomSurfaces';
+
+// Export resolutions as multiples of the 800x600 design canvas
+export const EXPORT_SCALES = [1, 2, 4] as const;
+export type ExportScale = (typeof EXPORT_SCALES)[number];
+
+export type ExportableDesign = Pick<Design, 'assets' | 'layerMode' | 'backgroundColor' | 'roomId' | 'roomColors'>;
+
+// Catalog lookup for a placed asset's image and size multiplier
+export type AssetResolver = (assetId: string) => { imageUrl: string; sizeScale: number } | undefined;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+        image.src = src;
+    });
+
+/**
+ * Draw a design onto an offscreen canvas using the shared layout rules and
+ * encode it as a PNG
+ */
+export const renderDesignPng = async (
+    design: ExportableDesign,
+    resolveAsset: AssetResolver,
+    scale: ExportScale = 1
+): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH * scale;
+    canvas.height = CANVAS_HEIGHT * scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.scale(scale, scale);
+    ctx.imageSmoothingQuality = 'high';
+
+    ctx.fillStyle = design.backgroundColor;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const roomBase = getRoomBase(design.roomId);
+    const boxes = layoutDesign(design, (assetId) => resolveAsset(assetId)?.sizeScale ?? 1);
+    const urls = [roomBase.imageUrl, ...boxes.map(box => resolveAsset(box.asset.assetId)?.imageUrl).filter((url): url is string => !!url)];
+    const images = new Map<string, HTMLImageElement>();
+    await Promise.all([...new Set(urls)].map(async (url) => images.set(url, await loadImage(url))));
+
+    const room = images.get(roomBase.imageUrl)!;
+    const roomRect = fitContain(room.naturalWidth, room.naturalHeight, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.save();
+    if (roomBase.mirrored) {
+        ctx.translate(CANVAS_WIDTH, 0);
+        ctx.scale(-1, 1);
+    }
+    ctx.drawImage(room, roomRect.x, roomRect.y, roomRect.width, roomRect.height);
+
+    // Room colors tint the surfaces they cover, then the floor pattern goes on top
+    ctx.globalCompositeOperation = 'multiply';
+    for (const layer of getSurfaceLayers(design.roomColors)) {
+        ctx.fillStyle = layer.color;
+        for (const points of layer.polygons) {
+            ctx.beginPath();
+            points.forEach(([x, y], index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+            ctx.closePath();
+            ctx.fill();
+        }
+    }
+    ctx.globalCompositeOperation = 'source-over';
+    const pattern = getFloorPatternLayer(design.roomColors?.floorPattern);
+    if (pattern) {
+        ctx.strokeStyle = pattern.stroke;
+        ctx.lineWidth = pattern.strokeWidth;
+        ctx.beginPath();
+        for (const [[x1, y1], [x2, y2]] of pattern.lines) {
+            ctx.moveTo(x1, y1);
+            ctx.lineTo(x2, y2);
+        }
+        ctx.stroke();
+    }
+    ctx.restore();
+
+    for (const box of boxes) {
+        const url = resolveAsset(box.asset.assetId)?.imageUrl;
+        const image = url ? images.get(url) : undefined;
+        if (!image) continue;
+        const rect = fitContain(image.naturalWidth, image.naturalHeight, box.size, box.size);
+        ctx.save();
+        ctx.translate(box.x, box.y);
+        ctx.rotate((box.rotation * Math.PI) / 180);
+        if (box.flipped) ctx.scale(-1, 1);
+        ctx.drawImage(image, rect.x - box.size / 2, rect.y - box.size / 2, rect.width, rect.height);
+        ctx.restore();
+    }
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+    });
+};
+
+/**
+ * Save a blob through a temporary download link
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
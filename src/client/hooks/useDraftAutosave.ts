@@ -0,0 +1,186 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Design } from '../../types/models';
+import { AutoSaveManager, DesignSaver, SaveStatus } from '../../utils/AutoSaveManager';
+import {
+  DraftDesign,
+  LocalDrafts,
+  getLocalDraftKey,
+  parseLocalDrafts,
+  createNewDraftKey,
+  isNewDraftKey,
+} from '../../utils/drafts';
+
+/**
+ * A theme's unsynced drafts from local storage, by draft key
+ */
+export const readLocalDrafts = (themeId: string): LocalDrafts => {
+  try {
+    return parseLocalDrafts(JSON.parse(localStorage.getItem(getLocalDraftKey(themeId)) ?? 'null'));
+  } catch {
+    return {};
+  }
+};
+
+const updateLocalDrafts = (themeId: string, update: (drafts: LocalDrafts) => LocalDrafts) => {
+  try {
+    const drafts = update(readLocalDrafts(themeId));
+    if (Object.keys(drafts).length > 0) {
+      localStorage.setItem(getLocalDraftKey(themeId), JSON.stringify(drafts));
+    } else {
+      localStorage.removeItem(getLocalDraftKey(themeId));
+    }
+  } catch (error) {
+    console.error('Failed to keep draft on this device:', error);
+  }
+};
+
+const writeLocalDraft = (key: string, design: DraftDesign) =>
+  updateLocalDrafts(design.themeId, drafts => ({ ...drafts, [key]: { design, savedAt: Date.now() } }));
+
+const clearLocalDraft = (themeId: string, key: string) =>
+  updateLocalDrafts(themeId, ({ [key]: _cleared, ...drafts }) => drafts);
+
+/**
+ * Send a draft to /api/design/save, clearing its local copy once the server
+ * has it or turns it down
+ * @returns The server's copy, or null if the connection is down and the local copy waits for it
+ */
+const postDraft = async (key: string, design: DraftDesign): Promise<Design | null> => {
+  if (!navigator.onLine) {
+    return null;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch('/api/design/save', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ design }),
+    });
+  } catch {
+    // Network failure: the local copy syncs when the connection is back
+    return null;
+  }
+  if (!response.ok) {
+    // The server turned the draft down, so it would be turned down
+    // again on every sync; server errors keep it for another try
+    if (response.status < 500) {
+      clearLocalDraft(design.themeId, key);
+    }
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.message || 'Failed to save draft');
+  }
+
+  const { design: savedDesign } = await response.json() as { design: Design };
+  clearLocalDraft(design.themeId, key);
+  return savedDesign;
+};
+
+/**
+ * Debounced autosave of the editor's draft to /api/design/save, with the
+ * AutoSaveManager's timing and statuses. Every draft is kept in local storage
+ * until the server has it or turns it down, so edits made offline to any of
+ * the player's drafts are synced on reconnect.
+ *
+ * `designId` is the design being edited; `onSaved` gets the server's copy
+ * after each successful save of it (its id on the first one).
+ */
+export const useDraftAutosave = (designId: string | undefined, onSaved: (design: Design) => void) => {
+  const [status, setStatus] = useState<SaveStatus>('idle');
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [lastSaveTime, setLastSaveTime] = useState(0);
+  const [pendingSync, setPendingSync] = useState(false);
+
+  // Read at save time, so a draft scheduled before its first save finished
+  // still updates the design that save created instead of making another
+  const designIdRef = useRef(designId);
+  // The local draft key of the design being edited
+  const draftKeyRef = useRef(designId ?? createNewDraftKey(Date.now()));
+  useEffect(() => {
+    designIdRef.current = designId;
+    if (designId) draftKeyRef.current = designId;
+  }, [designId]);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  // Saves run one at a time
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  // The draft waiting out the debounce, if any
+  const pendingRef = useRef<DraftDesign | null>(null);
+
+  // Send one of the theme's local drafts; the editor takes the server's copy
+  // when it is the draft being edited
+  const syncDraft = useCallback(async (key: string, design: DraftDesign) => {
+    const savedDesign = await postDraft(key, design).finally(() => {
+      setPendingSync(Object.keys(readLocalDrafts(design.themeId)).length > 0);
+    });
+    if (savedDesign && key === draftKeyRef.current) {
+      designIdRef.current = savedDesign.id;
+      draftKeyRef.current = savedDesign.id;
+      onSavedRef.current(savedDesign);
+    }
+  }, []);
+
+  const managerRef = useRef<AutoSaveManager<DraftDesign> | null>(null);
+  if (!managerRef.current) {
+    const saver: DesignSaver<DraftDesign> = {
+      saveDesign: (design) => {
+        pendingRef.current = null;
+        const run = queueRef.current.then(async () => {
+          const draft = { ...design, id: design.id ?? designIdRef.current };
+          const key = draft.id ?? draftKeyRef.current;
+          writeLocalDraft(key, draft);
+          await syncDraft(key, draft);
+        });
+        queueRef.current = run.catch(() => undefined);
+        return run;
+      },
+    };
+    managerRef.current = new AutoSaveManager(saver, {
+      onStatusChange: (next, message) => {
+        setStatus(next);
+        setError(message);
+        if (next === 'saved') setLastSaveTime(Date.now());
+      },
+    });
+  }
+
+  // Start autosaving another draft: a saved design's id, the key of a local
+  // draft, or nothing for a new draft
+  const open = useCallback((draftKey?: string) => {
+    designIdRef.current = draftKey && !isNewDraftKey(draftKey) ? draftKey : undefined;
+    draftKeyRef.current = draftKey ?? createNewDraftKey(Date.now());
+  }, []);
+
+  // Push every one of a theme's local drafts to the server
+  const syncLocalDrafts = useCallback((themeId: string) => {
+    const drafts = Object.entries(readLocalDrafts(themeId));
+    if (drafts.length === 0) return;
+    setPendingSync(true);
+    for (const [key, local] of drafts) {
+      queueRef.current = queueRef.current
+        .then(() => syncDraft(key, local.design))
+        .catch(error => console.error('Failed to sync draft:', error));
+    }
+  }, []);
+
+  // Save the pending draft now and wait for every save in flight, e.g. before
+  // submitting or switching drafts
+  // @returns The id of the design the drafts were saved to
+  const flush = useCallback(async (): Promise<string | undefined> => {
+    if (pendingRef.current) {
+      await managerRef.current?.forceSave(pendingRef.current);
+    }
+    await queueRef.current;
+    return designIdRef.current;
+  }, []);
+
+  useEffect(() => () => managerRef.current?.destroy(), []);
+
+  const schedule = useCallback((design: DraftDesign) => {
+    pendingRef.current = design;
+    managerRef.current?.scheduleAutoSave(design);
+  }, []);
+
+  return { status, error, lastSaveTime, pendingSync, schedule, open, syncLocalDrafts, flush };
+};
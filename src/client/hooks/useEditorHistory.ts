@@ -0,0 +1,60 @@
+import { useState, useRef, useCallback } from 'react';
+import { CommandHistory } from '../../utils/CommandHistory';
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/**
+ * Undo/redo over editor commands. `apply` performs a command forwards ('redo')
+ * or backwards ('undo') against the caller's state.
+ */
+export const useEditorHistory = <TCommand>(
+  apply: (command: TCommand, direction: HistoryDirection) => void,
+  maxSize: number = 50
+) => {
+  const historyRef = useRef(new CommandHistory<TCommand>({ maxSize }));
+  // Bumped on every change so canUndo/canRedo re-render
+  const [, setRevision] = useState(0);
+  const bump = () => setRevision((r) => r + 1);
+
+  // Apply a new command and record it
+  const execute = useCallback((command: TCommand) => {
+    apply(command, 'redo');
+    historyRef.current.push(command);
+    bump();
+  }, [apply]);
+
+  // Record a command whose effect is already in state (e.g. the end of a drag)
+  const record = useCallback((command: TCommand) => {
+    historyRef.current.push(command);
+    bump();
+  }, []);
+
+  const undo = useCallback(() => {
+    const command = historyRef.current.undo();
+    if (command === undefined) return;
+    apply(command, 'undo');
+    bump();
+  }, [apply]);
+
+  const redo = useCallback(() => {
+    const command = historyRef.current.redo();
+    if (command === undefined) return;
+    apply(command, 'redo');
+    bump();
+  }, [apply]);
+
+  const clear = useCallback(() => {
+    historyRef.current.clear();
+    bump();
+  }, []);
+
+  return {
+    execute,
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: historyRef.current.canUndo(),
+    canRedo: historyRef.current.canRedo(),
+  };
+};
@@ -1,17 +1,26 @@
 import { useState, useEffect } from 'react';
+import { Design, ThemeRules, Timelapse } from '../../types/models';
 
 interface Theme {
   id: string;
   name: string;
   description: string;
-  startDate: string;
-  endDate: string;
+  startTime: number;
+  endTime: number;
+  active: boolean;
+  bannerUrl?: string;
+  rules?: ThemeRules;
+  roomId?: string;
 }
 
 interface InitData {
   postId: string;
   username: string;
   theme: Theme;
+  // The player's latest design for the theme, if they have one
+  draft: Design | null;
+  // How that design was built so far
+  draftTimelapse: Timelapse | null;
 }
 
 export const useInit = () => {
@@ -42,6 +51,8 @@ export const useInit = () => {
     postId: data?.postId || '',
     username: data?.username || '',
     theme: data?.theme || null,
+    draft: data?.draft ?? null,
+    draftTimelapse: data?.draftTimelapse ?? null,
     loading,
     error,
   };
@@ -0,0 +1,79 @@
+import { useRef, useCallback } from 'react';
+import { PlacedAsset, RoomColors, Timelapse, validateTimelapse } from '../../types/models';
+import {
+  BuildState,
+  EMPTY_BUILD_STATE,
+  appendBuildSteps,
+  diffBuildStates,
+  getNextBuildItem,
+  matchBuildItems,
+  replayBuildSteps,
+} from '../../utils/timelapse';
+
+/**
+ * The editor's room as the recorder sees it; `key` is the editor's id for
+ * each placed asset
+ */
+export interface TimelapseFrame {
+  assets: Array<{ key: string; asset: PlacedAsset }>;
+  backgroundColor: string;
+  roomColors?: RoomColors;
+}
+
+/**
+ * Records the editor's changes as a timelapse of build steps. Each recorded
+ * frame is compared with the last, so undo, redo and every editing tool are
+ * recorded by their effect on the room.
+ */
+export const useTimelapseRecorder = () => {
+  const stepsRef = useRef<Timelapse['steps']>([]);
+  // Step times count from here
+  const originRef = useRef(Date.now());
+  // Recording item numbers by editor id
+  const itemsRef = useRef(new Map<string, number>());
+  const nextItemRef = useRef(0);
+  const stateRef = useRef<BuildState>(EMPTY_BUILD_STATE);
+
+  const record = useCallback((frame: TimelapseFrame) => {
+    const next: BuildState = {
+      items: frame.assets.map(({ key, asset }) => {
+        let item = itemsRef.current.get(key);
+        if (item === undefined) {
+          item = nextItemRef.current++;
+          itemsRef.current.set(key, item);
+        }
+        return { item, asset };
+      }),
+      backgroundColor: frame.backgroundColor,
+      ...(frame.roomColors ? { roomColors: frame.roomColors } : {}),
+    };
+    const steps = diffBuildStates(stateRef.current, next, Date.now() - originRef.current);
+    stateRef.current = next;
+    if (steps.length > 0) {
+      stepsRef.current = appendBuildSteps(stepsRef.current, steps);
+    }
+  }, []);
+
+  // Start recording a restored room, carrying on from its recording if it
+  // has one; anything the recording never saw is recorded as placed now
+  const resume = useCallback((timelapse: Timelapse | null | undefined, frame: TimelapseFrame) => {
+    const steps = timelapse && validateTimelapse(timelapse) ? timelapse.steps : [];
+    const recorded = replayBuildSteps(steps);
+    const matches = matchBuildItems(recorded.items, frame.assets.map(({ asset }) => asset));
+
+    stepsRef.current = steps;
+    originRef.current = Date.now() - (steps[steps.length - 1]?.t ?? 0);
+    itemsRef.current = new Map();
+    frame.assets.forEach(({ key }, index) => {
+      const item = matches[index];
+      if (item !== undefined) itemsRef.current.set(key, item);
+    });
+    nextItemRef.current = getNextBuildItem(steps);
+    stateRef.current = recorded;
+    record(frame);
+  }, [record]);
+
+  const getTimelapse = useCallback((): Timelapse => ({ steps: stepsRef.current }), []);
+
+  return { record, resume, getTimelapse };
+};
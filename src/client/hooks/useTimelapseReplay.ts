@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Timelapse } from '../../types/models';
+import { BuildState, ReplaySpeed, getReplayDelay, replayBuildSteps } from '../../utils/timelapse';
+
+// The finished room stays up this long before the replay closes
+const REPLAY_END_HOLD_MS = 1500;
+
+/**
+ * Plays a timelapse back step by step at an adjustable speed. `state` is the
+ * room so far while playing, and null otherwise; once every step is shown it
+ * is null again, so the replay ends on the finished design itself.
+ */
+export const useTimelapseReplay = (timelapse: Timelapse | null) => {
+  // Steps shown so far, null when not playing
+  const [shown, setShown] = useState<number | null>(null);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+
+  useEffect(() => {
+    if (shown === null || !timelapse) return;
+    const done = shown >= timelapse.steps.length;
+    const timer = setTimeout(
+      () => setShown(done ? null : shown + 1),
+      done ? REPLAY_END_HOLD_MS : getReplayDelay(timelapse.steps, shown, speed)
+    );
+    return () => clearTimeout(timer);
+  }, [timelapse, shown, speed]);
+
+  // A different design's recording stops the replay
+  useEffect(() => setShown(null), [timelapse]);
+
+  const state = useMemo<BuildState | null>(
+    () => (shown === null || !timelapse || shown >= timelapse.steps.length ? null : replayBuildSteps(timelapse.steps.slice(0, shown))),
+    [timelapse, shown]
+  );
+
+  const play = useCallback(() => setShown(0), []);
+  const stop = useCallback(() => setShown(null), []);
+
+  return {
+    playing: shown !== null,
+    state,
+    progress: shown === null || !timelapse ? 0 : shown / Math.max(timelapse.steps.length, 1),
+    speed,
+    setSpeed,
+    play,
+    stop,
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * Thumbnail Images
+ * Downscaled copies of the asset and room images for design thumbnails, made
+ * when the web client is built. A gallery card then loads images sized for
+ * the card instead of every full-size image in the room.
+ */
+
+import { PNG } from 'pngjs';
+
+/**
+ * Shrink a PNG so its longer side is at most `maxSize` pixels, averaging
+ * each block of source pixels into one. Images already that small are
+ * returned as they are.
+ */
+export function downscalePng(source: Buffer, maxSize: number): Buffer {
+  const image = PNG.sync.read(source);
+  const scale = maxSize / Math.max(image.width, image.height);
+  if (scale >= 1) {
+    return source;
+  }
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const output = new PNG({ width, height });
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor((y * image.height) / height);
+    const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor((x * image.width) / width);
+      const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+
+      // Colors are weighted by alpha, so transparent pixels don't darken edges
+      let red = 0, green = 0, blue = 0, alpha = 0;
+      for (let sy = top; sy < bottom; sy++) {
+        for (let sx = left; sx < right; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const a = image.data[i + 3];
+          red += image.data[i] * a;
+          green += image.data[i + 1] * a;
+          blue += image.data[i + 2] * a;
+          alpha += a;
+        }
+      }
+
+      const o = (y * width + x) * 4;
+      const count = (bottom - top) * (right - left);
+      output.data[o] = alpha ? Math.round(red / alpha) : 0;
+      output.data[o + 1] = alpha ? Math.round(green / alpha) : 0;
+      output.data[o + 2] = alpha ? Math.round(blue / alpha) : 0;
+      output.data[o + 3] = Math.round(alpha / count);
+    }
+  }
+
+  return PNG.sync.write(output);
+}
@@ -1,9 +1,37 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { ASSET_CATALOG } from '../utils/assetCatalog';
+import { ROOM_BASES } from '../utils/roomBases';
+import { THUMBNAIL_ASSET_IMAGE_SIZE, THUMBNAIL_ROOM_IMAGE_SIZE, getThumbnailImageUrl } from '../utils/designThumbnail';
+import { downscalePng } from './thumbnailImages';
+
+const ASSETS_DIR = fileURLToPath(new URL('../../assets/', import.meta.url));
+const PUBLIC_DIR = fileURLToPath(new URL('./public/', import.meta.url));
+
+// Serve the manifest's images from the client root, with the downscaled
+// copies design thumbnails draw; importing the catalog fails the build if a
+// manifest entry is invalid
+const assetManifest = (): Plugin => ({
+  name: 'asset-manifest',
+  generateBundle() {
+    for (const asset of ASSET_CATALOG) {
+      const source = readFileSync(ASSETS_DIR + asset.imageUrl);
+      this.emitFile({ type: 'asset', fileName: asset.imageUrl, source });
+      this.emitFile({ type: 'asset', fileName: getThumbnailImageUrl(asset.imageUrl), source: downscalePng(source, THUMBNAIL_ASSET_IMAGE_SIZE) });
+    }
+    // Several rooms can share an image
+    for (const imageUrl of new Set(ROOM_BASES.map(room => room.imageUrl))) {
+      const source = readFileSync(PUBLIC_DIR + imageUrl);
+      this.emitFile({ type: 'asset', fileName: getThumbnailImageUrl(imageUrl), source: downscalePng(source, THUMBNAIL_ROOM_IMAGE_SIZE) });
+    }
+  },
+});
 
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), assetManifest()],
   publicDir: 'public',
   build: {
     outDir: '../../dist/client',
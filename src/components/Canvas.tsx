@@ -5,6 +5,7 @@
 
 import { Devvit } from '@devvit/public-api';
 import { Design, PlacedAsset, Theme, Asset } from '../types/models.js';
+import { getDesignDrawOrder } from '../utils/depthSort.js';
 import { ThemeDisplay } from './ThemeDisplay.js';
 
 export interface CanvasProps {
@@ -55,10 +56,8 @@ export const Canvas = (props: CanvasProps): JSX.Element => {
   // Use pink background to match screenshot
   const backgroundColor = design.backgroundColor || '#f1e1d6';
 
-  // Sort assets by z-index for proper layering
-  const sortedAssets = [...design.assets]
-    .map((asset, index) => ({ asset, originalIndex: index }))
-    .sort((a, b) => a.asset.zIndex - b.asset.zIndex);
+  // Sort assets into draw order (depth-sorted or by z-index, per the design's layer mode)
+  const sortedAssets = getDesignDrawOrder(design);
 
   // Render a single asset with optional selection indicator and controls
   const renderAsset = (placedAsset: PlacedAsset, originalIndex: number, isSelected: boolean) => {
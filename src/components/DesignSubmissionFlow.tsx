@@ -55,6 +55,8 @@ export const DesignSubmissionFlow = (props: DesignSubmissionFlowProps): JSX.Elem
           context.redis.zRank(key, member, { reverse: true }),
         zIncrBy: (key: string, increment: number, member: string) => 
           context.redis.zIncrBy(key, member, increment),
+        zRem: (key: string, members: string[]) =>
+          context.redis.zRem(key, members),
       };
 
       // Initialize services
@@ -1,11 +1,12 @@
 /**
- * Leaderboard Component - Displays top designs ranked by vote count
+ * Leaderboard Component - Displays top designs ranked by vote count or hot score
  * Shows rank, username, vote count, and thumbnail for each design
  * Supports theme filtering and highlights current user's design
  */
 
 import { Devvit } from '@devvit/public-api';
 import { LeaderboardEntry, Theme } from '../types/models.js';
+import { LeaderboardRanking } from '../handlers/LeaderboardHandler.js';
 
 export interface LeaderboardProps {
   entries: LeaderboardEntry[];
@@ -14,6 +15,8 @@ export interface LeaderboardProps {
   availableThemes: Theme[];
   selectedThemeId: string;
   onThemeChange: (themeId: string) => void;
+  ranking: LeaderboardRanking;
+  onRankingChange: (ranking: LeaderboardRanking) => void;
   onRefresh: () => void;
   onDesignClick?: (designId: string) => void;
 }
@@ -53,10 +56,34 @@ export const Leaderboard = (props: LeaderboardProps): JSX.Element => {
     availableThemes,
     selectedThemeId,
     onThemeChange,
+    ranking,
+    onRankingChange,
     onRefresh,
     onDesignClick,
   } = props;
 
+  /**
+   * Render the Top / Hot ranking toggle
+   */
+  const renderRankingToggle = () => (
+    <hstack gap="small" alignment="start middle">
+      <button
+        appearance={ranking === 'top' ? 'primary' : 'secondary'}
+        size="small"
+        onPress={() => onRankingChange('top')}
+      >
+        🏆 Top
+      </button>
+      <button
+        appearance={ranking === 'hot' ? 'primary' : 'secondary'}
+        size="small"
+        onPress={() => onRankingChange('hot')}
+      >
+        🔥 Hot
+      </button>
+    </hstack>
+  );
+
   /**
    * Render theme filter dropdown
    */
@@ -254,7 +281,9 @@ export const Leaderboard = (props: LeaderboardProps): JSX.Element => {
               </text>
             </hstack>
             <text size="small" color="#6B7280">
-              Top designs ranked by community votes
+              {ranking === 'hot'
+                ? 'Rising designs: votes weighted by how recently they were submitted'
+                : 'Top designs ranked by community votes'}
             </text>
           </vstack>
           <button
@@ -281,6 +310,8 @@ export const Leaderboard = (props: LeaderboardProps): JSX.Element => {
           </text>
         </vstack>
 
+        {renderRankingToggle()}
+
         {/* Entry count */}
         <text size="small" color="#6B7280">
           {entries.length} design{entries.length !== 1 ? 's' : ''} ranked
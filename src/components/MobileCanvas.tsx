@@ -5,6 +5,7 @@
 
 import { Devvit } from '@devvit/public-api';
 import { Design, PlacedAsset, Asset } from '../types/models.js';
+import { getDesignDrawOrder } from '../utils/depthSort.js';
 
 export interface MobileCanvasProps {
   design: Design;
@@ -34,10 +35,8 @@ export const MobileCanvas = (props: MobileCanvasProps): JSX.Element => {
     onAssetDelete,
   } = props;
 
-  // Sort assets by z-index for proper layering
-  const sortedAssets = [...design.assets]
-    .map((asset, index) => ({ asset, originalIndex: index }))
-    .sort((a, b) => a.asset.zIndex - b.asset.zIndex);
+  // Sort assets into draw order (depth-sorted or by z-index, per the design's layer mode)
+  const sortedAssets = getDesignDrawOrder(design);
 
   // Render a single asset with touch-friendly controls
   const renderAsset = (placedAsset: PlacedAsset, originalIndex: number, isSelected: boolean) => {
@@ -4,6 +4,47 @@
 
 import { Design, LeaderboardEntry } from '../types/models.js';
 import { StorageService } from '../storage/StorageService.js';
+import { INITIAL_RATING } from '../utils/elo.js';
+
+export type LeaderboardRanking = 'top' | 'hot' | 'rating';
+
+/**
+ * Milliseconds of age that cost as much hot score as a tenfold difference in votes
+ */
+export const HOT_SCORE_DECAY_MS = 12.5 * 60 * 60 * 1000;
+
+/**
+ * Sorted set ranking a theme's submissions: `top` by vote count, `hot` by hot
+ * score, `rating` by head-to-head Elo rating
+ */
+export function getLeaderboardKey(themeId: string, ranking: LeaderboardRanking = 'top'): string {
+  return ranking === 'top' ? `leaderboard:${themeId}` : `leaderboard:${themeId}:${ranking}`;
+}
+
+/**
+ * Reddit-style hot score: the order of magnitude of the net votes plus a bonus
+ * that grows with submission time, so newer designs need fewer votes to rank.
+ * Scores never need recomputing as time passes; later submissions simply start higher.
+ */
+export function getHotScore(voteCount: number, submittedAt: number): number {
+  const order = Math.log10(Math.max(Math.abs(voteCount), 1));
+  return Math.sign(voteCount) * order + submittedAt / HOT_SCORE_DECAY_MS;
+}
+
+/**
+ * Sorted set entry for a design in its theme's hot ranking
+ * Designs submitted before submittedAt was recorded age from their creation
+ */
+function getHotEntry(design: Design, voteCount: number = design.voteCount): { member: string; score: number } {
+  return { member: design.id, score: getHotScore(voteCount, design.submittedAt ?? design.createdAt) };
+}
+
+/**
+ * Sorted set entry for a design in its theme's rating ranking
+ */
+export function getRatingEntry(design: Design): { member: string; score: number } {
+  return { member: design.id, score: design.rating ?? INITIAL_RATING };
+}
 
 export class LeaderboardHandler {
   private storage: StorageService;
@@ -13,14 +54,15 @@ export class LeaderboardHandler {
   }
 
   /**
-   * Get top designs for a theme sorted by vote count descending
+   * Get top designs for a theme sorted by vote count (or hot score or rating) descending
    * @param themeId - The theme ID to filter by
    * @param limit - Maximum number of designs to return
-   * @returns Array of designs sorted by vote count (highest first)
+   * @param ranking - Rank by vote count, hot score or head-to-head rating
+   * @returns Array of designs sorted by the chosen ranking's score (highest first)
    */
-  async getTopDesigns(themeId: string, limit: number = 10): Promise<Design[]> {
+  async getTopDesigns(themeId: string, limit: number = 10, ranking: LeaderboardRanking = 'top'): Promise<Design[]> {
     try {
-      const leaderboardKey = `leaderboard:${themeId}`;
+      const leaderboardKey = await this.getRankingKey(themeId, ranking);
       
       // Get top design IDs from sorted set (highest scores first)
       const designIds = await this.storage['redis'].zRevRange(leaderboardKey, 0, limit - 1);
@@ -62,8 +104,11 @@ export class LeaderboardHandler {
       }
 
       // Update the sorted set score
-      const leaderboardKey = `leaderboard:${design.themeId}`;
-      await this.storage['redis'].zIncrBy(leaderboardKey, delta, designId);
+      const leaderboardKey = getLeaderboardKey(design.themeId);
+      const voteCount = await this.storage['redis'].zIncrBy(leaderboardKey, delta, designId);
+
+      // Hot scores are not additive, so recompute from the new vote count
+      await this.storage['redis'].zAdd(getLeaderboardKey(design.themeId, 'hot'), [getHotEntry(design, voteCount)]);
 
       console.log(`Updated leaderboard for design ${designId}: ${delta > 0 ? '+' : ''}${delta}`);
     } catch (error) {
@@ -72,13 +117,32 @@ export class LeaderboardHandler {
     }
   }
 
+  /**
+   * Add a submitted design to its theme's leaderboard, scored by its current vote count
+   * @param design - The submitted design
+   */
+  async addDesign(design: Design): Promise<void> {
+    try {
+      const leaderboardKey = getLeaderboardKey(design.themeId);
+      await this.storage['redis'].zAdd(leaderboardKey, [{ member: design.id, score: design.voteCount }]);
+      await this.storage['redis'].zAdd(getLeaderboardKey(design.themeId, 'hot'), [getHotEntry(design)]);
+      await this.storage['redis'].zAdd(getLeaderboardKey(design.themeId, 'rating'), [getRatingEntry(design)]);
+
+      console.log(`Added design ${design.id} to leaderboard for theme ${design.themeId}`);
+    } catch (error) {
+      console.error(`Failed to add design ${design.id} to leaderboard:`, error);
+      throw new Error(`Failed to add design to leaderboard: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get a user's rank for a specific theme
    * @param userId - The user ID
    * @param themeId - The theme ID
+   * @param ranking - Rank by vote count, hot score or head-to-head rating
    * @returns The user's rank (1-based), or -1 if not found
    */
-  async getUserRank(userId: string, themeId: string): Promise<number> {
+  async getUserRank(userId: string, themeId: string, ranking: LeaderboardRanking = 'top'): Promise<number> {
     try {
       // Get all user's designs
       const userDesigns = await this.storage.getUserDesigns(userId);
@@ -92,7 +156,7 @@ export class LeaderboardHandler {
       }
 
       // Get rank from sorted set (0-based, so add 1)
-      const leaderboardKey = `leaderboard:${themeId}`;
+      const leaderboardKey = await this.getRankingKey(themeId, ranking);
       const rank = await this.storage['redis'].zRevRank(leaderboardKey, userDesign.id);
 
       if (rank === undefined) {
@@ -112,11 +176,12 @@ export class LeaderboardHandler {
   /**
    * Get full leaderboard entries for a theme
    * @param themeId - The theme ID
+   * @param ranking - Rank by vote count, hot score or head-to-head rating
    * @returns Array of leaderboard entries with rank, design, username, and vote count
    */
-  async getLeaderboardByTheme(themeId: string): Promise<LeaderboardEntry[]> {
+  async getLeaderboardByTheme(themeId: string, ranking: LeaderboardRanking = 'top'): Promise<LeaderboardEntry[]> {
     try {
-      const leaderboardKey = `leaderboard:${themeId}`;
+      const leaderboardKey = await this.getRankingKey(themeId, ranking);
       
       // Get all design IDs from sorted set (highest scores first)
       const designIds = await this.storage['redis'].zRevRange(leaderboardKey, 0, -1);
@@ -151,4 +216,26 @@ export class LeaderboardHandler {
       throw new Error(`Failed to get leaderboard: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Key of the sorted set for a ranking, scoring hot and rating entries for
+   * designs submitted before those rankings existed on first use
+   */
+  async getRankingKey(themeId: string, ranking: LeaderboardRanking): Promise<string> {
+    const rankingKey = getLeaderboardKey(themeId, ranking);
+    if (ranking === 'top' || (await this.storage['redis'].zRevRange(rankingKey, 0, 0)).length > 0) {
+      return rankingKey;
+    }
+
+    const designIds = await this.storage['redis'].zRevRange(getLeaderboardKey(themeId), 0, -1);
+    const designs = await Promise.all(designIds.map(designId => this.storage.loadDesign(designId)));
+    const entries = designs
+      .filter((design): design is Design => !!design)
+      .map(design => ranking === 'hot' ? getHotEntry(design) : getRatingEntry(design));
+    if (entries.length > 0) {
+      await this.storage['redis'].zAdd(rankingKey, entries);
+      console.log(`Backfilled ${ranking} ranking for theme ${themeId} with ${entries.length} designs`);
+    }
+    return rankingKey;
+  }
 }
@@ -2,22 +2,94 @@
  * SubmissionHandler - Manages design submissions and retrieval
  */
 
-import { Design } from '../types/models.js';
+import { Design, DesignRevision, GalleryPage, GallerySort } from '../types/models.js';
 import { StorageService } from '../storage/StorageService.js';
 import { AuthService } from '../services/AuthService.js';
+import { LeaderboardHandler } from './LeaderboardHandler.js';
+import { getThemeRuleViolations } from '../utils/themeRules.js';
+import { getNextRevision, carryOverVotes, createRevision } from '../utils/revisions.js';
+
+export const DEFAULT_GALLERY_PAGE_SIZE = 20;
+export const MAX_GALLERY_PAGE_SIZE = 50;
+
+export interface GalleryQuery {
+  sort?: GallerySort;
+  // Only designs submitted by this user
+  userId?: string;
+  // Only designs that place this asset
+  assetId?: string;
+  cursor?: GalleryCursor;
+  limit?: number;
+}
+
+/**
+ * Position in a gallery listing. `after` is the last design served, so pages
+ * stay stable while new submissions arrive; `offset` is the fallback when that
+ * design has since left the listing. `seed` fixes the order of a random listing.
+ */
+export interface GalleryCursor {
+  after?: string;
+  offset: number;
+  seed?: number;
+}
+
+export function encodeGalleryCursor(cursor: GalleryCursor): string {
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor from a client
+ * @returns The cursor, or null if the token is malformed
+ */
+export function decodeGalleryCursor(token: string): GalleryCursor | null {
+  try {
+    const cursor = JSON.parse(atob(token.replace(/-/g, '+').replace(/_/g, '/')));
+    if (!Number.isInteger(cursor.offset) || cursor.offset < 0) return null;
+    if (cursor.after !== undefined && typeof cursor.after !== 'string') return null;
+    if (cursor.seed !== undefined && !Number.isInteger(cursor.seed)) return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Deterministic Fisher-Yates shuffle (mulberry32), so every page of a random
+// listing is cut from the same order
+function shuffleWithSeed<T>(items: T[], seed: number): T[] {
+  const shuffled = [...items];
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
 
 export class SubmissionHandler {
   private storage: StorageService;
   private authService: AuthService;
+  // Top and hot gallery listings page through the leaderboard's sorted sets
+  private leaderboard: LeaderboardHandler;
 
   constructor(storage: StorageService, authService: AuthService) {
     this.storage = storage;
     this.authService = authService;
+    this.leaderboard = new LeaderboardHandler(storage);
   }
 
   /**
    * Submit a design - saves it and marks as submitted
+   * Each submission is kept as a revision; a resubmission carries the likes
+   * over by the theme's policy
    * Requires authentication
+   * @throws Error listing every theme rule the design breaks
    */
   async submitDesign(design: Design): Promise<string> {
     try {
@@ -29,16 +101,29 @@ export class SubmissionHandler {
         throw new Error('Cannot submit a design that does not belong to you');
       }
 
+      const violations = await this.getRuleViolations(design);
+      if (violations.length > 0) {
+        throw new Error(`Design breaks the theme rules: ${violations.join('; ')}`);
+      }
+
+      const previous = await this.storage.loadDesign(design.id);
+      const now = Date.now();
+      const theme = previous?.submitted ? await this.storage.loadTheme(design.themeId) : null;
+
       // Mark design as submitted
       const submittedDesign: Design = {
         ...design,
         username: user.username, // Ensure username is from authenticated user
         submitted: true,
-        updatedAt: Date.now()
+        submittedAt: previous?.submittedAt ?? design.submittedAt ?? now,
+        updatedAt: now,
+        revision: getNextRevision(previous),
+        ...(previous?.submitted ? carryOverVotes(previous, theme?.resubmitVotes, now) : {}),
       };
 
-      // Save the design
+      // Save the design, and this submission as its newest revision
       await this.storage.saveDesign(submittedDesign);
+      await this.storage.saveDesignRevision(createRevision(submittedDesign));
 
       // Track submission for duplicate prevention
       const submissionKey = `submission:${design.userId}:${design.themeId}`;
@@ -48,6 +133,8 @@ export class SubmissionHandler {
       const themeSubmissionsKey = `theme:${design.themeId}:submissions`;
       await this.storage['redis'].sAdd(themeSubmissionsKey, [design.id]);
 
+      await this.indexSubmission(submittedDesign, previous?.submitted ? previous : null, now);
+
       console.log(`Design ${design.id} submitted successfully by user ${design.userId}`);
       return design.id;
     } catch (error) {
@@ -56,6 +143,27 @@ export class SubmissionHandler {
     }
   }
 
+  /**
+   * A submitted design's revisions, oldest first
+   * @returns The revisions, or null if the design does not exist or was never submitted
+   */
+  async getRevisions(designId: string): Promise<DesignRevision[] | null> {
+    const design = await this.storage.loadDesign(designId);
+    if (!design?.submitted) {
+      return null;
+    }
+    return this.storage.loadDesignRevisions(designId, design.revision ?? 1);
+  }
+
+  /**
+   * Check a design against its theme's asset rules
+   * @returns Messages for each broken rule, empty if the design may be submitted
+   */
+  async getRuleViolations(design: Design): Promise<string[]> {
+    const theme = await this.storage.loadTheme(design.themeId);
+    return getThemeRuleViolations(design.assets, theme?.rules);
+  }
+
   /**
    * Check if a user has already submitted for a specific theme
    */
@@ -71,38 +179,91 @@ export class SubmissionHandler {
   }
 
   /**
-   * Get submitted designs for a theme with pagination
+   * Get submitted designs for a theme with pagination, newest first
    */
   async getSubmittedDesigns(themeId: string, limit: number = 10, offset: number = 0): Promise<Design[]> {
     try {
-      const themeSubmissionsKey = `theme:${themeId}:submissions`;
-      const designIds = await this.storage['redis'].sMembers(themeSubmissionsKey);
+      await this.backfillGalleryIndex(themeId);
 
+      const designIds = await this.storage['redis'].zRevRange(this.getGalleryKey(themeId), offset, offset + limit - 1);
       if (designIds.length === 0) {
         console.log(`No submitted designs found for theme ${themeId}`);
         return [];
       }
 
-      // Load all designs
-      const designs: Design[] = [];
-      for (const designId of designIds) {
-        const design = await this.storage.loadDesign(designId);
-        if (design && design.submitted) {
-          designs.push(design);
+      const designs = await this.loadSubmittedDesigns(designIds);
+
+      console.log(`Retrieved ${designs.length} submitted designs for theme ${themeId}`);
+      return designs;
+    } catch (error) {
+      console.error(`Failed to get submitted designs for theme ${themeId}:`, error);
+      throw new Error(`Failed to get submitted designs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get one page of a theme's gallery
+   * Unfiltered newest/top/hot/rating listings page straight off their sorted set;
+   * filtered and random listings are ordered from member ids before any design is loaded
+   */
+  async getGalleryPage(themeId: string, query: GalleryQuery = {}): Promise<GalleryPage> {
+    try {
+      const redis = this.storage['redis'];
+      const sort = query.sort ?? 'newest';
+      const limit = Math.min(Math.max(Math.floor(query.limit ?? DEFAULT_GALLERY_PAGE_SIZE), 1), MAX_GALLERY_PAGE_SIZE);
+      const cursor: GalleryCursor = query.cursor ?? { offset: 0 };
+      const seed = sort === 'random' ? cursor.seed ?? Math.floor(Math.random() * 0x100000000) : undefined;
+
+      await this.backfillGalleryIndex(themeId);
+
+      const sortKey = sort === 'top' || sort === 'hot' || sort === 'rating'
+        ? await this.leaderboard.getRankingKey(themeId, sort)
+        : this.getGalleryKey(themeId);
+      const filterKeys = [
+        ...(query.userId ? [this.getGalleryKey(themeId, 'user', query.userId)] : []),
+        ...(query.assetId ? [this.getGalleryKey(themeId, 'asset', query.assetId)] : []),
+      ];
+
+      let start = cursor.offset;
+      let pageIds: string[];
+      let hasMore: boolean;
+
+      if (filterKeys.length === 0 && seed === undefined) {
+        if (cursor.after) {
+          const rank = await redis.zRevRank(sortKey, cursor.after);
+          if (rank !== undefined) start = rank + 1;
+        }
+        // One extra id tells us whether another page exists
+        const ids = await redis.zRevRange(sortKey, start, start + limit);
+        pageIds = ids.slice(0, limit);
+        hasMore = ids.length > limit;
+      } else {
+        let ids = await redis.zRevRange(sortKey, 0, -1);
+        for (const key of filterKeys) {
+          const members = new Set(await redis.zRevRange(key, 0, -1));
+          ids = ids.filter(id => members.has(id));
+        }
+        if (seed !== undefined) {
+          ids = shuffleWithSeed(ids, seed);
+        }
+        if (cursor.after) {
+          const index = ids.indexOf(cursor.after);
+          if (index !== -1) start = index + 1;
         }
+        pageIds = ids.slice(start, start + limit);
+        hasMore = start + limit < ids.length;
       }
 
-      // Sort by creation time (newest first)
-      designs.sort((a, b) => b.createdAt - a.createdAt);
+      const designs = await this.loadSubmittedDesigns(pageIds);
+      const nextCursor = hasMore && pageIds.length > 0
+        ? encodeGalleryCursor({ after: pageIds[pageIds.length - 1], offset: start + pageIds.length, seed })
+        : null;
 
-      // Apply pagination
-      const paginatedDesigns = designs.slice(offset, offset + limit);
-
-      console.log(`Retrieved ${paginatedDesigns.length} submitted designs for theme ${themeId}`);
-      return paginatedDesigns;
+      console.log(`Retrieved gallery page of ${designs.length} designs for theme ${themeId} (${sort})`);
+      return { designs, nextCursor };
     } catch (error) {
-      console.error(`Failed to get submitted designs for theme ${themeId}:`, error);
-      throw new Error(`Failed to get submitted designs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error(`Failed to get gallery page for theme ${themeId}:`, error);
+      throw new Error(`Failed to get gallery page: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -137,4 +298,65 @@ export class SubmissionHandler {
       throw new Error(`Failed to get design: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  /**
+   * Sorted set of a theme's submissions by when they were last submitted,
+   * optionally narrowed to a user or an asset
+   */
+  private getGalleryKey(themeId: string, filter?: 'user' | 'asset', value?: string): string {
+    return filter ? `gallery:${themeId}:${filter}:${value}` : `gallery:${themeId}:newest`;
+  }
+
+  /**
+   * Add a submitted design to the gallery indexes, dropping asset entries a
+   * resubmission no longer uses. `submittedAt` is when this submission was
+   * made, so a resubmission moves back to the top of newest.
+   */
+  private async indexSubmission(design: Design, previous: Design | null, submittedAt: number): Promise<void> {
+    const redis = this.storage['redis'];
+    const entry = [{ member: design.id, score: submittedAt }];
+    const assetIds = new Set(design.assets.map(asset => asset.assetId));
+
+    await redis.zAdd(this.getGalleryKey(design.themeId), entry);
+    await redis.zAdd(this.getGalleryKey(design.themeId, 'user', design.userId), entry);
+    for (const assetId of assetIds) {
+      await redis.zAdd(this.getGalleryKey(design.themeId, 'asset', assetId), entry);
+    }
+
+    for (const asset of previous?.assets ?? []) {
+      if (!assetIds.has(asset.assetId)) {
+        await redis.zRem(this.getGalleryKey(design.themeId, 'asset', asset.assetId), [design.id]);
+      }
+    }
+  }
+
+  /**
+   * Index submissions made before the gallery indexes existed
+   * Runs once per theme, the first time its gallery index is found empty
+   */
+  private async backfillGalleryIndex(themeId: string): Promise<void> {
+    const redis = this.storage['redis'];
+    const indexed = await redis.zRevRange(this.getGalleryKey(themeId), 0, 0);
+    if (indexed.length > 0) {
+      return;
+    }
+
+    const designIds = await redis.sMembers(`theme:${themeId}:submissions`);
+    if (designIds.length === 0) {
+      return;
+    }
+
+    for (const design of await this.loadSubmittedDesigns(designIds)) {
+      await this.indexSubmission(design, null, design.submittedAt ?? design.createdAt);
+    }
+    console.log(`Backfilled gallery index for theme ${themeId} with ${designIds.length} submissions`);
+  }
+
+  /**
+   * Load designs in parallel, keeping the given order and skipping any that are missing or unsubmitted
+   */
+  private async loadSubmittedDesigns(designIds: string[]): Promise<Design[]> {
+    const designs = await Promise.all(designIds.map(designId => this.storage.loadDesign(designId)));
+    return designs.filter((design): design is Design => !!design && design.submitted);
+  }
 }
@@ -6,9 +6,11 @@ import { AssetManager } from './managers/AssetManager.js';
 import { DesignManager } from './managers/DesignManager.js';
 import { ThemeManager } from './managers/ThemeManager.js';
 import { SubmissionHandler } from './handlers/SubmissionHandler.js';
-import { LeaderboardHandler } from './handlers/LeaderboardHandler.js';
+import { LeaderboardHandler, LeaderboardRanking } from './handlers/LeaderboardHandler.js';
 import { VotingService, VoteType } from './services/VotingService.js';
 import { AuthService } from './services/AuthService.js';
+import { getCatalogAsset } from './utils/assetCatalog.js';
+import { isAssetAllowed } from './utils/themeRules.js';
 import { ResponsiveLayout } from './components/ResponsiveLayout.js';
 import { NavigationMenu } from './components/NavigationMenu.js';
 import { DesignGallery } from './components/DesignGallery.js';
@@ -24,7 +26,7 @@ Devvit.configure({
   media: true,
 });
 
-// Add scheduler job for daily theme rotation
+// Add scheduler job for theme rotation
 Devvit.addSchedulerJob({
   name: 'theme_rotation',
   onRun: async (event, context) => {
@@ -37,10 +39,10 @@ Devvit.addTrigger({
   event: 'AppInstall',
   onEvent: async (_, context) => {
     try {
-      // Schedule the theme rotation job to run daily at midnight UTC
+      // Schedule the theme rotation job to run hourly so scheduled themes start on time
       await context.scheduler.runJob({
         name: 'theme_rotation',
-        cron: '0 0 * * *', // Run at midnight UTC every day
+        cron: '0 * * * *', // Run at the top of every hour
       });
       console.log('Theme rotation scheduler initialized');
 
@@ -124,7 +126,7 @@ Devvit.addCustomPostType({
         }
 
         // Create new design
-        return designManager.createDesign(currentUser.id, currentTheme.id, currentUser.username);
+        return designManager.createDesign(currentUser.id, currentTheme.id, currentUser.username, currentTheme.roomId);
       } catch (err) {
         console.error('Failed to load/create design:', err);
         setError('Failed to load design');
@@ -219,6 +221,12 @@ Devvit.addCustomPostType({
             );
           }
 
+          // Only offer the theme's asset pack
+          const themeAssets = assets.filter(asset => {
+            const catalogAsset = getCatalogAsset(asset.id);
+            return !catalogAsset || isAssetAllowed(catalogAsset, currentTheme.rules);
+          });
+
           return (
             <vstack width="100%" height="100%" gap="none">
               <ThemeDisplay theme={currentTheme} />
@@ -226,7 +234,7 @@ Devvit.addCustomPostType({
                 design={currentDesign}
                 mode={mode}
                 context={context}
-                assets={assets}
+                assets={themeAssets}
                 selectedCategory={selectedCategory}
                 searchQuery={searchQuery}
                 onDesignUpdate={handleDesignUpdate}
@@ -401,16 +409,17 @@ function LeaderboardView(props: {
 }): JSX.Element {
   const { currentUser, currentTheme, leaderboardHandler, themeManager } = props;
   const [selectedThemeId, setSelectedThemeId] = useState(currentTheme.id);
+  const [ranking, setRanking] = useState<LeaderboardRanking>('top');
   const [refreshKey, setRefreshKey] = useState(0);
 
   const { data: entries, loading } = useAsync(async () => {
     try {
-      return await leaderboardHandler.getLeaderboardByTheme(selectedThemeId);
+      return await leaderboardHandler.getLeaderboardByTheme(selectedThemeId, ranking);
     } catch (err) {
       console.error('Failed to load leaderboard:', err);
       return [];
     }
-  }, { depends: [selectedThemeId, refreshKey] });
+  }, { depends: [selectedThemeId, ranking, refreshKey] });
 
   if (loading) {
     return (
@@ -428,6 +437,8 @@ function LeaderboardView(props: {
       availableThemes={[currentTheme]}
       selectedThemeId={selectedThemeId}
       onThemeChange={setSelectedThemeId}
+      ranking={ranking}
+      onRankingChange={setRanking}
       onRefresh={() => setRefreshKey(k => k + 1)}
     />
   );
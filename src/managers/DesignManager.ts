@@ -2,35 +2,59 @@
  * DesignManager - Manages design state, CRUD operations, and asset manipulation
  */
 
-import { Design, PlacedAsset, isValidCoordinate, isValidHexColor } from '../types/models.js';
+import { Design, PlacedAsset, LayerMode, DESIGN_SCHEMA_VERSION, LayerOverride, isValidCoordinate, isValidHexColor, clampScale, normalizeRotation } from '../types/models.js';
+import { CommandHistory } from '../utils/CommandHistory.js';
+import { DEFAULT_ROOM_ID } from '../utils/roomBases.js';
 
 export interface DesignManagerConfig {
   canvasWidth?: number;
   canvasHeight?: number;
+  historySize?: number;
 }
 
+/**
+ * A reversible edit to a design, recorded for undo/redo
+ */
+export type DesignCommand =
+  | { type: 'place'; index: number; asset: PlacedAsset }
+  | { type: 'delete'; index: number; asset: PlacedAsset }
+  | { type: 'move'; index: number; from: { x: number; y: number }; to: { x: number; y: number } }
+  | { type: 'rotate'; index: number; from: number; to: number }
+  | { type: 'scale'; index: number; from: number; to: number }
+  | { type: 'flip'; index: number }
+  | { type: 'layer'; index: number; from: number; to: number }
+  | { type: 'override'; index: number; from?: LayerOverride; to?: LayerOverride }
+  | { type: 'layerMode'; from: LayerMode; to: LayerMode }
+  | { type: 'recolor'; from: string; to: string };
+
 export class DesignManager {
   private designs: Map<string, Design> = new Map();
+  private histories: Map<string, CommandHistory<DesignCommand>> = new Map();
   private canvasWidth: number;
   private canvasHeight: number;
+  private historySize: number;
 
   constructor(config: DesignManagerConfig = {}) {
     this.canvasWidth = config.canvasWidth || 800;
     this.canvasHeight = config.canvasHeight || 600;
+    this.historySize = config.historySize || 50;
   }
 
   /**
    * Create a new design
    */
-  createDesign(userId: string, themeId: string, username: string = 'user'): Design {
+  createDesign(userId: string, themeId: string, username: string = 'user', roomId: string = DEFAULT_ROOM_ID): Design {
     const now = Date.now();
     const design: Design = {
       id: `design_${userId}_${themeId}_${now}`,
       userId,
       username,
       themeId,
+      roomId,
       backgroundColor: '#FFFFFF',
       assets: [],
+      layerMode: 'depth',
+      schemaVersion: DESIGN_SCHEMA_VERSION,
       createdAt: now,
       updatedAt: now,
       submitted: false,
@@ -54,6 +78,7 @@ export class DesignManager {
       throw new Error(`Invalid hex color: ${color}`);
     }
 
+    this.record(designId, { type: 'recolor', from: design.backgroundColor, to: color });
     design.backgroundColor = color;
     design.updatedAt = Date.now();
   }
@@ -82,10 +107,13 @@ export class DesignManager {
       y: clampedY,
       rotation: 0,
       zIndex: maxZIndex + 1,
+      scale: 1,
+      flipped: false,
     };
 
     design.assets.push(placedAsset);
     design.updatedAt = Date.now();
+    this.record(designId, { type: 'place', index: design.assets.length - 1, asset: { ...placedAsset } });
   }
 
   /**
@@ -105,8 +133,15 @@ export class DesignManager {
     const clampedX = Math.max(0, Math.min(x, this.canvasWidth));
     const clampedY = Math.max(0, Math.min(y, this.canvasHeight));
 
-    design.assets[assetIndex].x = clampedX;
-    design.assets[assetIndex].y = clampedY;
+    const asset = design.assets[assetIndex];
+    this.record(designId, {
+      type: 'move',
+      index: assetIndex,
+      from: { x: asset.x, y: asset.y },
+      to: { x: clampedX, y: clampedY },
+    });
+    asset.x = clampedX;
+    asset.y = clampedY;
     design.updatedAt = Date.now();
   }
 
@@ -124,10 +159,79 @@ export class DesignManager {
     }
 
     const asset = design.assets[assetIndex];
-    asset.rotation = (asset.rotation + 90) % 360;
+    const rotation = (asset.rotation + 90) % 360;
+    this.record(designId, { type: 'rotate', index: assetIndex, from: asset.rotation, to: rotation });
+    asset.rotation = rotation;
+    design.updatedAt = Date.now();
+  }
+
+  /**
+   * Set an asset's rotation to any angle (wrapped into 0-360)
+   */
+  setRotation(designId: string, assetIndex: number, degrees: number): void {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    if (assetIndex < 0 || assetIndex >= design.assets.length) {
+      throw new Error(`Invalid asset index: ${assetIndex}`);
+    }
+
+    if (!Number.isFinite(degrees)) {
+      throw new Error(`Invalid rotation: ${degrees}`);
+    }
+
+    const asset = design.assets[assetIndex];
+    const rotation = normalizeRotation(degrees);
+    this.record(designId, { type: 'rotate', index: assetIndex, from: asset.rotation, to: rotation });
+    asset.rotation = rotation;
+    design.updatedAt = Date.now();
+  }
+
+  /**
+   * Resize an asset, clamped to the allowed scale range
+   */
+  scaleAsset(designId: string, assetIndex: number, scale: number): void {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    if (assetIndex < 0 || assetIndex >= design.assets.length) {
+      throw new Error(`Invalid asset index: ${assetIndex}`);
+    }
+
+    if (!Number.isFinite(scale)) {
+      throw new Error(`Invalid scale: ${scale}`);
+    }
+
+    const asset = design.assets[assetIndex];
+    const clampedScale = clampScale(scale);
+    this.record(designId, { type: 'scale', index: assetIndex, from: asset.scale ?? 1, to: clampedScale });
+    asset.scale = clampedScale;
     design.updatedAt = Date.now();
   }
 
+  /**
+   * Mirror an asset horizontally
+   */
+  flipAsset(designId: string, assetIndex: number): void {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    if (assetIndex < 0 || assetIndex >= design.assets.length) {
+      throw new Error(`Invalid asset index: ${assetIndex}`);
+    }
+
+    const asset = design.assets[assetIndex];
+    asset.flipped = !asset.flipped;
+    design.updatedAt = Date.now();
+    this.record(designId, { type: 'flip', index: assetIndex });
+  }
+
   /**
    * Remove an asset from the canvas
    */
@@ -141,12 +245,14 @@ export class DesignManager {
       throw new Error(`Invalid asset index: ${assetIndex}`);
     }
 
-    design.assets.splice(assetIndex, 1);
+    const [removed] = design.assets.splice(assetIndex, 1);
     design.updatedAt = Date.now();
+    this.record(designId, { type: 'delete', index: assetIndex, asset: { ...removed } });
   }
 
   /**
    * Adjust z-index of an asset (layering)
+   * Steps past the nearest asset above/below so the stacking order actually changes
    */
   adjustZIndex(designId: string, assetIndex: number, direction: 'up' | 'down'): void {
     const design = this.designs.get(designId);
@@ -159,11 +265,190 @@ export class DesignManager {
     }
 
     const asset = design.assets[assetIndex];
-    
+    const previousZIndex = asset.zIndex;
+    const others = design.assets.filter((_, index) => index !== assetIndex).map(a => a.zIndex);
+
     if (direction === 'up') {
-      asset.zIndex += 1;
+      const above = others.filter(z => z >= previousZIndex);
+      asset.zIndex = (above.length > 0 ? Math.min(...above) : previousZIndex) + 1;
     } else if (direction === 'down') {
-      asset.zIndex = Math.max(0, asset.zIndex - 1);
+      const below = others.filter(z => z <= previousZIndex);
+      asset.zIndex = Math.max(0, (below.length > 0 ? Math.max(...below) : previousZIndex) - 1);
+    }
+
+    if (asset.zIndex !== previousZIndex) {
+      this.record(designId, { type: 'layer', index: assetIndex, from: previousZIndex, to: asset.zIndex });
+    }
+    design.updatedAt = Date.now();
+  }
+
+  /**
+   * Pin an asset above (or below) everything else, or clear the pin with undefined
+   */
+  setLayerOverride(designId: string, assetIndex: number, override: LayerOverride | undefined): void {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    if (assetIndex < 0 || assetIndex >= design.assets.length) {
+      throw new Error(`Invalid asset index: ${assetIndex}`);
+    }
+
+    const asset = design.assets[assetIndex];
+    if (asset.layerOverride === override) {
+      return;
+    }
+
+    this.record(designId, { type: 'override', index: assetIndex, from: asset.layerOverride, to: override });
+    this.applyLayerOverride(asset, override);
+    design.updatedAt = Date.now();
+  }
+
+  bringToFront(designId: string, assetIndex: number): void {
+    this.setLayerOverride(designId, assetIndex, 'front');
+  }
+
+  sendToBack(designId: string, assetIndex: number): void {
+    this.setLayerOverride(designId, assetIndex, 'back');
+  }
+
+  /**
+   * Switch between isometric depth sorting and manual z-index stacking
+   */
+  setLayerMode(designId: string, mode: LayerMode): void {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    const previousMode = design.layerMode ?? 'manual';
+    if (previousMode === mode) {
+      return;
+    }
+
+    this.record(designId, { type: 'layerMode', from: previousMode, to: mode });
+    design.layerMode = mode;
+    design.updatedAt = Date.now();
+  }
+
+  /**
+   * Undo the most recent edit to a design
+   * @returns true if an edit was undone
+   */
+  undo(designId: string): boolean {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    const command = this.histories.get(designId)?.undo();
+    if (!command) {
+      return false;
+    }
+
+    this.applyCommand(design, command, 'undo');
+    return true;
+  }
+
+  /**
+   * Re-apply the most recently undone edit to a design
+   * @returns true if an edit was redone
+   */
+  redo(designId: string): boolean {
+    const design = this.designs.get(designId);
+    if (!design) {
+      throw new Error(`Design not found: ${designId}`);
+    }
+
+    const command = this.histories.get(designId)?.redo();
+    if (!command) {
+      return false;
+    }
+
+    this.applyCommand(design, command, 'redo');
+    return true;
+  }
+
+  canUndo(designId: string): boolean {
+    return this.histories.get(designId)?.canUndo() ?? false;
+  }
+
+  canRedo(designId: string): boolean {
+    return this.histories.get(designId)?.canRedo() ?? false;
+  }
+
+  /**
+   * Set or remove an asset's layer override (absent rather than undefined when cleared)
+   */
+  private applyLayerOverride(asset: PlacedAsset, override: LayerOverride | undefined): void {
+    if (override) {
+      asset.layerOverride = override;
+    } else {
+      delete asset.layerOverride;
+    }
+  }
+
+  /**
+   * Record an applied edit in the design's history
+   */
+  private record(designId: string, command: DesignCommand): void {
+    let history = this.histories.get(designId);
+    if (!history) {
+      history = new CommandHistory<DesignCommand>({ maxSize: this.historySize });
+      this.histories.set(designId, history);
+    }
+    history.push(command);
+  }
+
+  /**
+   * Apply a recorded command forwards (redo) or backwards (undo)
+   */
+  private applyCommand(design: Design, command: DesignCommand, direction: 'undo' | 'redo'): void {
+    const forward = direction === 'redo';
+
+    switch (command.type) {
+      case 'place':
+        if (forward) {
+          design.assets.splice(command.index, 0, { ...command.asset });
+        } else {
+          design.assets.splice(command.index, 1);
+        }
+        break;
+      case 'delete':
+        if (forward) {
+          design.assets.splice(command.index, 1);
+        } else {
+          design.assets.splice(command.index, 0, { ...command.asset });
+        }
+        break;
+      case 'move': {
+        const position = forward ? command.to : command.from;
+        design.assets[command.index].x = position.x;
+        design.assets[command.index].y = position.y;
+        break;
+      }
+      case 'rotate':
+        design.assets[command.index].rotation = forward ? command.to : command.from;
+        break;
+      case 'scale':
+        design.assets[command.index].scale = forward ? command.to : command.from;
+        break;
+      case 'flip':
+        design.assets[command.index].flipped = !design.assets[command.index].flipped;
+        break;
+      case 'layer':
+        design.assets[command.index].zIndex = forward ? command.to : command.from;
+        break;
+      case 'override':
+        this.applyLayerOverride(design.assets[command.index], forward ? command.to : command.from);
+        break;
+      case 'layerMode':
+        design.layerMode = forward ? command.to : command.from;
+        break;
+      case 'recolor':
+        design.backgroundColor = forward ? command.to : command.from;
+        break;
     }
 
     design.updatedAt = Date.now();
@@ -187,6 +472,7 @@ export class DesignManager {
    * Delete a design
    */
   deleteDesign(designId: string): boolean {
+    this.histories.delete(designId);
     return this.designs.delete(designId);
   }
 }
@@ -2,8 +2,28 @@
  * ThemeManager - Manages theme rotation, scheduling, and retrieval
  */
 
-import { Theme } from '../types/models.js';
+import { Theme, ThemeRules, ResubmitVotePolicy, validateTheme } from '../types/models.js';
 import { StorageService } from '../storage/StorageService.js';
+import { isRoomBaseId } from '../utils/roomBases.js';
+
+/**
+ * Sorted set of upcoming moderator-scheduled theme IDs, scored by start time
+ */
+const THEME_SCHEDULE_KEY = 'theme:schedule';
+
+/**
+ * The parts of a theme a moderator fills in when scheduling it
+ */
+export interface ThemeDetails {
+  name: string;
+  description: string;
+  startTime: number;
+  endTime: number;
+  bannerUrl?: string;
+  rules?: ThemeRules;
+  roomId?: string;
+  resubmitVotes?: ResubmitVotePolicy;
+}
 
 export interface RedditContext {
   reddit?: {
@@ -112,6 +132,107 @@ export class ThemeManager {
     }
   }
 
+  /**
+   * Get the upcoming moderator-scheduled themes, earliest first
+   */
+  async getScheduledThemes(): Promise<Theme[]> {
+    try {
+      const themeIds = await this.storage.redis.zRevRange(THEME_SCHEDULE_KEY, 0, -1);
+      const themes = await Promise.all(themeIds.reverse().map(themeId => this.storage.loadTheme(themeId)));
+      return themes.filter((theme): theme is Theme => !!theme);
+    } catch (error) {
+      console.error('Failed to get scheduled themes:', error);
+      throw new Error(`Failed to get scheduled themes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add a theme to the calendar
+   * @throws Error if the details are invalid or overlap another scheduled theme
+   */
+  async scheduleTheme(details: ThemeDetails): Promise<Theme> {
+    const theme: Theme = {
+      id: `theme_${details.name.trim().toLowerCase().replace(/\W+/g, '_')}_${Date.now()}`,
+      ...this.normalizeDetails(details),
+      active: false,
+    };
+    await this.checkSchedule(theme);
+
+    await this.storage.saveTheme(theme);
+    await this.storage.redis.zAdd(THEME_SCHEDULE_KEY, [{ member: theme.id, score: theme.startTime }]);
+    console.log(`Scheduled theme ${theme.id} for ${new Date(theme.startTime).toISOString()}`);
+    return theme;
+  }
+
+  /**
+   * Change a scheduled theme's details
+   * @throws Error if the theme is not scheduled, or the new details are invalid or overlap another scheduled theme
+   */
+  async updateScheduledTheme(themeId: string, details: ThemeDetails): Promise<Theme> {
+    const existing = await this.getScheduledTheme(themeId);
+    // Banner, rules, room and like policy left out of the new details are removed
+    const theme: Theme = { id: existing.id, ...this.normalizeDetails(details), active: existing.active };
+    await this.checkSchedule(theme);
+
+    await this.storage.saveTheme(theme);
+    await this.storage.redis.zAdd(THEME_SCHEDULE_KEY, [{ member: theme.id, score: theme.startTime }]);
+    console.log(`Updated scheduled theme ${theme.id}`);
+    return theme;
+  }
+
+  /**
+   * Remove a theme from the calendar
+   */
+  async unscheduleTheme(themeId: string): Promise<void> {
+    await this.storage.redis.zRem(THEME_SCHEDULE_KEY, [themeId]);
+    console.log(`Unscheduled theme ${themeId}`);
+  }
+
+  /**
+   * Swap a scheduled theme's time slot with the theme before or after it
+   * @param direction - -1 to move the theme earlier, 1 to move it later
+   * @returns The calendar in its new order, unchanged if the theme is already first or last
+   */
+  async moveScheduledTheme(themeId: string, direction: -1 | 1): Promise<Theme[]> {
+    const themes = await this.getScheduledThemes();
+    const index = themes.findIndex(theme => theme.id === themeId);
+    if (index === -1) {
+      throw new Error(`Theme ${themeId} is not scheduled`);
+    }
+    const neighbour = themes[index + direction];
+    if (!neighbour) {
+      return themes;
+    }
+
+    const theme = themes[index];
+    const moved: Theme = { ...theme, startTime: neighbour.startTime, endTime: neighbour.endTime };
+    const swapped: Theme = { ...neighbour, startTime: theme.startTime, endTime: theme.endTime };
+    await this.storage.saveTheme(moved);
+    await this.storage.saveTheme(swapped);
+    await this.storage.redis.zAdd(THEME_SCHEDULE_KEY, [
+      { member: moved.id, score: moved.startTime },
+      { member: swapped.id, score: swapped.startTime },
+    ]);
+    console.log(`Moved scheduled theme ${themeId} ${direction < 0 ? 'earlier' : 'later'}`);
+    return this.getScheduledThemes();
+  }
+
+  /**
+   * Get the scheduled theme that should be running now, if any
+   * Themes whose whole slot has passed without being activated are dropped
+   */
+  async getDueTheme(now: number = Date.now()): Promise<Theme | null> {
+    for (const theme of await this.getScheduledThemes()) {
+      if (theme.endTime <= now) {
+        console.log(`Scheduled theme ${theme.id} ended before it could start`);
+        await this.unscheduleTheme(theme.id);
+        continue;
+      }
+      return theme.startTime <= now ? theme : null;
+    }
+    return null;
+  }
+
   /**
    * Archive designs from a completed theme
    * Marks designs as archived in storage for historical access
@@ -157,4 +278,47 @@ export class ThemeManager {
       // Don't throw - notifications are non-critical
     }
   }
+
+  private async getScheduledTheme(themeId: string): Promise<Theme> {
+    const theme = (await this.getScheduledThemes()).find(scheduled => scheduled.id === themeId);
+    if (!theme) {
+      throw new Error(`Theme ${themeId} is not scheduled`);
+    }
+    return theme;
+  }
+
+  private normalizeDetails(details: ThemeDetails): ThemeDetails {
+    const bannerUrl = details.bannerUrl?.trim();
+    return {
+      name: details.name.trim(),
+      description: details.description.trim(),
+      startTime: details.startTime,
+      endTime: details.endTime,
+      ...(bannerUrl ? { bannerUrl } : {}),
+      ...(details.rules ? { rules: details.rules } : {}),
+      ...(details.roomId ? { roomId: details.roomId } : {}),
+      ...(details.resubmitVotes ? { resubmitVotes: details.resubmitVotes } : {}),
+    };
+  }
+
+  /**
+   * Reject themes that are invalid, already over, or share time with another scheduled theme
+   */
+  private async checkSchedule(theme: Theme): Promise<void> {
+    if (!validateTheme(theme)) {
+      throw new Error('Theme needs a name, a description, an end time after its start time and valid asset rules');
+    }
+    if (theme.roomId !== undefined && !isRoomBaseId(theme.roomId)) {
+      throw new Error(`Unknown room: ${theme.roomId}`);
+    }
+    if (theme.endTime <= Date.now()) {
+      throw new Error('Theme must end in the future');
+    }
+    const overlapping = (await this.getScheduledThemes()).find(other =>
+      other.id !== theme.id && other.startTime < theme.endTime && theme.startTime < other.endTime
+    );
+    if (overlapping) {
+      throw new Error(`Theme overlaps "${overlapping.name}"`);
+    }
+  }
 }
@@ -0,0 +1,82 @@
+/**
+ * Theme rotation rules, shared by the Blocks scheduler job and the web server's
+ * scheduler task
+ */
+
+import { ThemeManager } from '../managers/ThemeManager.js';
+import { Theme } from '../types/models.js';
+
+/**
+ * Bring the current theme up to date with the calendar
+ * A moderator-scheduled theme takes over as soon as its start time arrives.
+ * When the current theme expires with nothing scheduled, the next theme of the
+ * predefined rotation runs until the next scheduled theme (or for a day).
+ * @returns The theme that is current after rotation
+ */
+export async function rotateTheme(themeManager: ThemeManager, now: number = Date.now()): Promise<Theme> {
+  // Get current theme
+  const currentTheme = await themeManager.getCurrentTheme();
+
+  const dueTheme = await themeManager.getDueTheme(now);
+  if (dueTheme && dueTheme.id !== currentTheme?.id) {
+    await themeManager.unscheduleTheme(dueTheme.id);
+    await themeManager.scheduleNextTheme(dueTheme);
+    console.log(`Theme rotation complete: ${currentTheme?.name ?? 'none'} -> ${dueTheme.name} (scheduled)`);
+    return dueTheme;
+  }
+
+  if (!currentTheme) {
+    console.log('No current theme found, initializing default theme');
+    return themeManager.initializeDefaultTheme();
+  }
+
+  // Check if current theme has expired
+  if (now < currentTheme.endTime) {
+    console.log(`Current theme ${currentTheme.name} is still active`);
+    return currentTheme;
+  }
+
+  // Fill the gap until the next scheduled theme from the rotation
+  const [nextScheduled] = await themeManager.getScheduledThemes();
+  const nextTheme = await generateNextTheme(currentTheme, now, nextScheduled?.startTime);
+
+  // Activate the next theme (this also archives the previous theme)
+  await themeManager.scheduleNextTheme(nextTheme);
+
+  console.log(`Theme rotation complete: ${currentTheme.name} -> ${nextTheme.name}`);
+  return nextTheme;
+}
+
+/**
+ * Generate the next theme based on a predefined rotation
+ * @param until - Start of the next scheduled theme, which cuts this one short
+ */
+async function generateNextTheme(currentTheme: Theme, now: number, until?: number): Promise<Theme> {
+  const themeRotation = [
+    { name: 'School', description: 'Design a classroom or study space' },
+    { name: 'Office', description: 'Create a professional workspace' },
+    { name: 'Bedroom', description: 'Design a cozy sleeping area' },
+    { name: 'Kitchen', description: 'Build a functional cooking space' },
+    { name: 'Living Room', description: 'Create a comfortable gathering space' },
+    { name: 'Library', description: 'Design a quiet reading room' },
+  ];
+
+  // Find current theme in rotation
+  const currentIndex = themeRotation.findIndex(t => t.name === currentTheme.name);
+  const nextIndex = (currentIndex + 1) % themeRotation.length;
+  const nextThemeData = themeRotation[nextIndex];
+
+  // Create new theme with 24-hour duration
+  const oneDayInMs = 24 * 60 * 60 * 1000;
+
+  const nextTheme: Theme = {
+    id: `theme_${nextThemeData.name.toLowerCase().replace(/\s+/g, '_')}_${now}`,
+    name: nextThemeData.name,
+    description: nextThemeData.description,
+    startTime: now,
+    endTime: until !== undefined && until > now ? Math.min(until, now + oneDayInMs) : now + oneDayInMs,
+    active: false, // Will be set to true by scheduleNextTheme
+  };
+
+  return nextTheme;
+}
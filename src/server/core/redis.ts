@@ -0,0 +1,45 @@
+import { redis } from '@devvit/web/server';
+import type { RedisClient } from '../../storage/StorageService.js';
+
+type DevvitRedis = Pick<
+  typeof redis,
+  'get' | 'set' | 'del' | 'incrBy' | 'hSet' | 'hKeys' | 'hDel' | 'zAdd' | 'zRange' | 'zRank' | 'zCard' | 'zIncrBy' | 'zRem'
+>;
+
+/**
+ * Exposes the Devvit web Redis client through the `RedisClient` interface the
+ * domain services are written against.
+ *
+ * Devvit Redis has no set commands, so sets are stored as hashes whose field
+ * names are the members.
+ */
+export const createRedisClient = (client: DevvitRedis = redis): RedisClient => ({
+  get: (key) => client.get(key),
+  set: async (key, value) => {
+    await client.set(key, value);
+  },
+  del: (key) => client.del(key),
+  sAdd: (key, members) => {
+    if (members.length === 0) return Promise.resolve(0);
+    return client.hSet(key, Object.fromEntries(members.map((member) => [member, '1'])));
+  },
+  sMembers: (key) => client.hKeys(key),
+  sRem: (key, members) => {
+    if (members.length === 0) return Promise.resolve(0);
+    return client.hDel(key, members);
+  },
+  incrBy: (key, increment) => client.incrBy(key, increment),
+  zAdd: (key, members) => client.zAdd(key, ...members),
+  zRevRange: async (key, start, stop) => {
+    const entries = await client.zRange(key, start, stop, { by: 'rank', reverse: true });
+    return entries.map((entry) => entry.member);
+  },
+  zRevRank: async (key, member) => {
+    const rank = await client.zRank(key, member);
+    if (rank === undefined) return undefined;
+    const size = await client.zCard(key);
+    return size - 1 - rank;
+  },
+  zIncrBy: (key, increment, member) => client.zIncrBy(key, member, increment),
+  zRem: (key, members) => client.zRem(key, members),
+});
@@ -0,0 +1,246 @@
+import type { Form, FormField } from '@devvit/web/shared';
+import { Theme, ThemeRules, ResubmitVotePolicy, RESUBMIT_VOTE_POLICIES } from '../../types/models.js';
+import { ThemeDetails } from '../../managers/ThemeManager.js';
+import { ASSET_CATALOG } from '../../utils/assetCatalog.js';
+import { ROOM_BASES } from '../../utils/roomBases.js';
+
+// Form names, mapped to their submit endpoints in devvit.json
+export const THEME_CALENDAR_FORM = 'themeCalendar';
+export const THEME_DETAILS_FORM = 'themeDetails';
+
+export type ThemeCalendarAction = 'edit' | 'earlier' | 'later' | 'remove';
+
+const NEW_THEME = 'new';
+
+// Which theme a moderator is editing between the calendar form and the details form
+export const getEditingThemeKey = (userId: string) => `theme:calendar:editing:${userId}`;
+
+/**
+ * Format a timestamp as the `YYYY-MM-DD HH:MM` (UTC) text the forms use
+ */
+export const formatCalendarDate = (time: number): string => new Date(time).toISOString().slice(0, 16).replace('T', ' ');
+
+/**
+ * Parse `YYYY-MM-DD` or `YYYY-MM-DD HH:MM` as UTC
+ * @returns The timestamp, or null if the text is not a real date
+ */
+export const parseCalendarDate = (value: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0'] = match;
+  const time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  // Date.UTC rolls over out-of-range parts, so a round trip catches e.g. Feb 30 or 25:00
+  return formatCalendarDate(time) === `${year}-${month}-${day} ${hours.padStart(2, '0')}:${minutes.padStart(2, '0')}` ? time : null;
+};
+
+const ASSET_OPTIONS = ASSET_CATALOG.map(asset => ({ label: asset.name, value: asset.id }));
+
+const CATEGORY_OPTIONS = [...new Set(ASSET_CATALOG.map(asset => asset.category))]
+  .map(category => ({ label: category.charAt(0).toUpperCase() + category.slice(1), value: category }));
+
+const ANY_ROOM = 'any';
+
+const ROOM_OPTIONS = [
+  { label: 'Any room (players choose)', value: ANY_ROOM },
+  ...ROOM_BASES.map(room => ({ label: room.name, value: room.id })),
+];
+
+const RESUBMIT_VOTE_OPTIONS: { label: string; value: ResubmitVotePolicy }[] = [
+  { label: 'Keep likes', value: 'keep' },
+  { label: 'Reset likes to zero', value: 'reset' },
+  { label: 'Halve likes', value: 'decay' },
+];
+
+const describeTheme = (theme: Theme) =>
+  `${theme.name} (${formatCalendarDate(theme.startTime)} → ${formatCalendarDate(theme.endTime)} UTC)`;
+
+/**
+ * First step: pick a scheduled theme (or a new one) and what to do with it
+ */
+export const getThemeCalendarForm = (themes: Theme[]): Form => ({
+  title: 'Theme Calendar',
+  description: themes.length > 0
+    ? `Upcoming themes:\n${themes.map((theme, index) => `${index + 1}. ${describeTheme(theme)}`).join('\n')}`
+    : 'No themes are scheduled. The built-in rotation runs until you add one.',
+  fields: [
+    {
+      type: 'select',
+      name: 'themeId',
+      label: 'Theme',
+      options: [
+        { label: 'New theme', value: NEW_THEME },
+        ...themes.map(theme => ({ label: describeTheme(theme), value: theme.id })),
+      ],
+      defaultValue: [NEW_THEME],
+      required: true,
+    },
+    {
+      type: 'select',
+      name: 'action',
+      label: 'Action',
+      options: [
+        { label: 'Create / edit', value: 'edit' },
+        { label: 'Move earlier', value: 'earlier' },
+        { label: 'Move later', value: 'later' },
+        { label: 'Remove', value: 'remove' },
+      ],
+      defaultValue: ['edit'],
+      required: true,
+    },
+  ],
+  acceptLabel: 'Continue',
+});
+
+/**
+ * Read the calendar form's selections
+ * @returns The picked theme ID (null for a new theme) and action
+ */
+export const parseThemeCalendarValues = (values: Record<string, unknown>): { themeId: string | null; action: ThemeCalendarAction } => {
+  const [themeId] = Array.isArray(values.themeId) ? values.themeId : [];
+  const [action] = Array.isArray(values.action) ? values.action : [];
+  return {
+    themeId: typeof themeId === 'string' && themeId !== NEW_THEME ? themeId : null,
+    action: action === 'earlier' || action === 'later' || action === 'remove' ? action : 'edit',
+  };
+};
+
+/**
+ * Second step: the theme's details, prefilled when editing
+ */
+export const getThemeDetailsForm = (theme?: Theme): Form => {
+  const fields: FormField[] = [
+    { type: 'string', name: 'name', label: 'Name', defaultValue: theme?.name, required: true },
+    { type: 'paragraph', name: 'description', label: 'Description', defaultValue: theme?.description, required: true },
+    {
+      type: 'string',
+      name: 'startTime',
+      label: 'Starts (UTC)',
+      helpText: 'YYYY-MM-DD HH:MM',
+      defaultValue: theme && formatCalendarDate(theme.startTime),
+      required: true,
+    },
+    {
+      type: 'string',
+      name: 'endTime',
+      label: 'Ends (UTC)',
+      helpText: 'YYYY-MM-DD HH:MM',
+      defaultValue: theme && formatCalendarDate(theme.endTime),
+      required: true,
+    },
+    {
+      type: 'image',
+      name: 'bannerUrl',
+      label: 'Banner (optional)',
+      helpText: theme?.bannerUrl ? 'Leave empty to keep the current banner' : undefined,
+    },
+    {
+      type: 'select',
+      name: 'roomId',
+      label: 'Room',
+      options: ROOM_OPTIONS,
+      defaultValue: [theme?.roomId ?? ANY_ROOM],
+    },
+    {
+      type: 'select',
+      name: 'resubmitVotes',
+      label: 'Likes when a design is resubmitted',
+      options: RESUBMIT_VOTE_OPTIONS,
+      defaultValue: [theme?.resubmitVotes ?? 'keep'],
+    },
+    {
+      type: 'group',
+      label: 'Asset rules (optional)',
+      fields: [
+        {
+          type: 'select',
+          name: 'allowedAssetIds',
+          label: 'Asset pack',
+          helpText: 'Leave empty to offer every asset',
+          options: ASSET_OPTIONS,
+          multiSelect: true,
+          defaultValue: theme?.rules?.allowedAssetIds,
+        },
+        {
+          type: 'select',
+          name: 'requiredAssetIds',
+          label: 'Required items',
+          options: ASSET_OPTIONS,
+          multiSelect: true,
+          defaultValue: theme?.rules?.requiredAssetIds,
+        },
+        {
+          type: 'select',
+          name: 'bannedCategories',
+          label: 'Banned categories',
+          options: CATEGORY_OPTIONS,
+          multiSelect: true,
+          defaultValue: theme?.rules?.bannedCategories,
+        },
+        {
+          type: 'number',
+          name: 'maxItems',
+          label: 'Max items',
+          helpText: 'Leave empty for no limit',
+          defaultValue: theme?.rules?.maxItems,
+        },
+      ],
+    },
+  ];
+  return {
+    title: theme ? `Edit ${theme.name}` : 'New Theme',
+    fields,
+    acceptLabel: 'Save',
+  };
+};
+
+/**
+ * Read the details form into theme details
+ * @param existing - The theme being edited, whose banner is kept when none is uploaded
+ * @throws Error naming the field that could not be read
+ */
+export const parseThemeDetailsValues = (values: Record<string, unknown>, existing?: Theme): ThemeDetails => {
+  const text = (key: string) => (typeof values[key] === 'string' ? (values[key] as string) : '');
+  const startTime = parseCalendarDate(text('startTime'));
+  if (startTime === null) {
+    throw new Error('Start must be a date like 2025-01-31 18:00');
+  }
+  const endTime = parseCalendarDate(text('endTime'));
+  if (endTime === null) {
+    throw new Error('End must be a date like 2025-01-31 18:00');
+  }
+  const bannerUrl = text('bannerUrl') || existing?.bannerUrl;
+  const [roomId] = Array.isArray(values.roomId) ? values.roomId : [];
+  const [resubmitVotes] = Array.isArray(values.resubmitVotes) ? values.resubmitVotes : [];
+  const rules = parseThemeRulesValues(values);
+  return {
+    name: text('name'),
+    description: text('description'),
+    startTime,
+    endTime,
+    ...(bannerUrl ? { bannerUrl } : {}),
+    ...(typeof roomId === 'string' && roomId !== ANY_ROOM ? { roomId } : {}),
+    // Keeping likes is the default, so only the other policies are stored
+    ...(RESUBMIT_VOTE_POLICIES.includes(resubmitVotes) && resubmitVotes !== 'keep' ? { resubmitVotes } : {}),
+    ...(rules ? { rules } : {}),
+  };
+};
+
+/**
+ * Read the asset rule fields; empty fields set no rule
+ * @returns The rules, or undefined if none were set
+ */
+const parseThemeRulesValues = (values: Record<string, unknown>): ThemeRules | undefined => {
+  const list = (key: string) => (Array.isArray(values[key]) ? (values[key] as unknown[]).filter((item): item is string => typeof item === 'string') : []);
+  const allowedAssetIds = list('allowedAssetIds');
+  const requiredAssetIds = list('requiredAssetIds');
+  const bannedCategories = list('bannedCategories');
+  const maxItems = typeof values.maxItems === 'number' && values.maxItems > 0 ? values.maxItems : undefined;
+
+  const rules: ThemeRules = {
+    ...(allowedAssetIds.length > 0 ? { allowedAssetIds } : {}),
+    ...(requiredAssetIds.length > 0 ? { requiredAssetIds } : {}),
+    ...(bannedCategories.length > 0 ? { bannedCategories } : {}),
+    ...(maxItems !== undefined ? { maxItems } : {}),
+  };
+  return Object.keys(rules).length > 0 ? rules : undefined;
+};
@@ -1,6 +1,30 @@
 import express from 'express';
-import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
+import { reddit, createServer, context, getServerPort } from '@devvit/web/server';
 import { createPost } from './core/post.js';
+import { createRedisClient } from './core/redis.js';
+import {
+  THEME_CALENDAR_FORM,
+  THEME_DETAILS_FORM,
+  getEditingThemeKey,
+  getThemeCalendarForm,
+  getThemeDetailsForm,
+  parseThemeCalendarValues,
+  parseThemeDetailsValues,
+} from './core/themeCalendar.js';
+import { Design, DESIGN_SCHEMA_VERSION, GALLERY_SORTS, GallerySort, validateDesign, validateTimelapse } from '../types/models.js';
+import { migrateDesign, StoredDesign } from '../utils/designMigrations.js';
+import { isRoomBaseId } from '../utils/roomBases.js';
+import { getCatalogAsset } from '../utils/assetCatalog.js';
+import { findLatestDesign, listThemeDesigns, normalizeDesignName, duplicateDesign, createRemix } from '../utils/drafts.js';
+import { StorageService } from '../storage/StorageService.js';
+import { AuthService } from '../services/AuthService.js';
+import { ThumbnailService } from '../services/ThumbnailService.js';
+import { MatchupService } from '../services/MatchupService.js';
+import { VotingService, VoteType } from '../services/VotingService.js';
+import { SubmissionHandler, GalleryCursor, decodeGalleryCursor } from '../handlers/SubmissionHandler.js';
+import { LeaderboardHandler } from '../handlers/LeaderboardHandler.js';
+import { ThemeManager } from '../managers/ThemeManager.js';
+import { rotateTheme } from '../schedulers/themeRotation.js';
 
 const app = express();
 
@@ -11,6 +35,17 @@ app.use(express.text());
 
 const router = express.Router();
 
+// Domain services, backed by Devvit Redis
+const redisClient = createRedisClient();
+const storage = new StorageService(redisClient);
+const authService = new AuthService({ reddit });
+const themeManager = new ThemeManager(storage);
+const submissionHandler = new SubmissionHandler(storage, authService);
+const leaderboardHandler = new LeaderboardHandler(storage);
+const votingService = new VotingService(redisClient, authService);
+const thumbnailService = new ThumbnailService(storage);
+const matchupService = new MatchupService(storage, authService);
+
 // Initialize game state
 router.get('/api/init', async (_req, res): Promise<void> => {
   const { postId } = context;
@@ -23,31 +58,21 @@ router.get('/api/init', async (_req, res): Promise<void> => {
   try {
     const username = await reddit.getCurrentUsername();
 
-    // Default theme
-    const defaultTheme = {
-      id: 'default',
-      name: 'Cozy Home Office',
-      description: 'Create a comfortable and productive workspace',
-      startDate: new Date().toISOString(),
-      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-    };
+    const theme = (await themeManager.getCurrentTheme()) ?? (await rotateTheme(themeManager));
 
-    // Get current theme with safe JSON parsing
-    let theme = defaultTheme;
-    try {
-      const themeData = await redis.get(`theme:current`);
-      if (themeData && themeData.startsWith('{')) {
-        theme = JSON.parse(themeData);
-      }
-    } catch (parseError) {
-      console.warn('Failed to parse theme data, using default:', parseError);
-    }
+    // The player's latest design for this theme, so the editor picks up where they left off
+    const user = await authService.getCurrentUser();
+    const draft = user ? findLatestDesign(await storage.getUserDesigns(user.id), theme.id) : null;
+    // Its build recording, so the editor keeps recording where it stopped
+    const draftTimelapse = draft ? await storage.loadTimelapse(draft.id) : null;
 
     res.json({
       type: 'init',
       postId,
       username: username ?? 'anonymous',
-      theme
+      theme,
+      draft,
+      draftTimelapse
     });
   } catch (error) {
     console.error(`API Init Error:`, error);
@@ -55,27 +80,117 @@ router.get('/api/init', async (_req, res): Promise<void> => {
   }
 });
 
+/**
+ * Upgrade and check the room an editor sent for a design of `themeId`. A
+ * theme that pins a room overrides the player's choice.
+ * @returns The room's content, or why it was rejected
+ */
+async function readDesignContent(
+  design: StoredDesign,
+  themeId: string
+): Promise<Pick<Design, 'roomId' | 'backgroundColor' | 'roomColors' | 'assets' | 'layerMode'> | string> {
+  // Clients on an older schema are upgraded the same way stored designs are;
+  // one from a newer or unknown schema is the client's mistake
+  let incoming: Design;
+  try {
+    incoming = migrateDesign(design);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const theme = await storage.loadTheme(themeId);
+  const roomId = theme?.roomId ?? incoming.roomId;
+  if (!isRoomBaseId(roomId)) {
+    return 'Unknown room';
+  }
+
+  // Theme rules only know catalog assets
+  const assetIds = Array.isArray(incoming.assets) ? incoming.assets.map(asset => asset?.assetId) : [];
+  const unknownAssetIds = [...new Set(assetIds)].filter(assetId => typeof assetId === 'string' && !getCatalogAsset(assetId));
+  if (unknownAssetIds.length > 0) {
+    return `Unknown assets: ${unknownAssetIds.join(', ')}`;
+  }
+
+  return {
+    roomId,
+    backgroundColor: incoming.backgroundColor,
+    ...(incoming.roomColors ? { roomColors: incoming.roomColors } : {}),
+    assets: incoming.assets,
+    layerMode: incoming.layerMode,
+  };
+}
+
 // Save design
 router.post('/api/design/save', async (req, res): Promise<void> => {
-  const { postId } = context;
   const { design } = req.body;
 
-  if (!postId || !design) {
+  if (!design || !design.themeId) {
     res.status(400).json({ status: 'error', message: 'Missing required fields' });
     return;
   }
 
   try {
-    const username = await reddit.getCurrentUsername();
-    if (!username) {
+    const user = await authService.getCurrentUser();
+    if (!user) {
       res.status(401).json({ status: 'error', message: 'Not authenticated' });
       return;
     }
 
-    const designKey = `design:${username}:${design.themeId}`;
-    await redis.set(designKey, JSON.stringify(design));
+    const existing = design.id ? await storage.loadDesign(design.id) : null;
+    if (existing && existing.userId !== user.id) {
+      res.status(403).json({ status: 'error', message: 'Cannot modify a design that does not belong to you' });
+      return;
+    }
 
-    res.json({ status: 'success', design });
+    // The gallery copy changes only by resubmitting, which keeps the last
+    // submission as a revision and checks the theme rules first
+    if (existing?.submitted) {
+      res.status(409).json({ status: 'error', message: 'Submitted designs are changed by resubmitting them' });
+      return;
+    }
+
+    const themeId = existing?.themeId ?? design.themeId;
+    const content = await readDesignContent(design, themeId);
+    if (typeof content === 'string') {
+      res.status(400).json({ status: 'error', message: content });
+      return;
+    }
+
+    const now = Date.now();
+    const name = normalizeDesignName(design.name) ?? existing?.name;
+    const savedDesign: Design = {
+      id: existing?.id ?? `design_${user.id}_${design.themeId}_${now}`,
+      userId: user.id,
+      username: user.username,
+      themeId,
+      ...(name ? { name } : {}),
+      ...content,
+      schemaVersion: DESIGN_SCHEMA_VERSION,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      submitted: existing?.submitted ?? false,
+      submittedAt: existing?.submittedAt,
+      voteCount: existing?.voteCount ?? 0,
+      rating: existing?.rating,
+      revision: existing?.revision,
+      votesResetAt: existing?.votesResetAt,
+      remixOf: existing?.remixOf,
+      remixCount: existing?.remixCount,
+    };
+
+    if (!validateDesign(savedDesign)) {
+      res.status(400).json({ status: 'error', message: 'Invalid design' });
+      return;
+    }
+
+    await storage.saveDesign(savedDesign);
+    await thumbnailService.generateThumbnail(savedDesign);
+    // A broken recording is dropped rather than failing the save
+    if (design.timelapse !== undefined && validateTimelapse(design.timelapse)) {
+      await storage.saveTimelapse(savedDesign.id, design.timelapse);
+    }
+
+    res.json({ status: 'success', design: savedDesign });
   } catch (error) {
     console.error('Save design error:', error);
     res.status(500).json({ status: 'error', message: 'Failed to save design' });
@@ -83,162 +198,501 @@ router.post('/api/design/save', async (req, res): Promise<void> => {
 });
 
 // Submit design
+// Body: designId, and the editor's design when resubmitting changes
 router.post('/api/design/submit', async (req, res): Promise<void> => {
-  const { postId } = context;
-  const { designId } = req.body;
+  const { designId, design: changes } = req.body;
 
-  if (!postId || !designId) {
+  if (!designId) {
     res.status(400).json({ status: 'error', message: 'Missing required fields' });
     return;
   }
 
   try {
-    const username = await reddit.getCurrentUsername();
-    if (!username) {
+    const user = await authService.getCurrentUser();
+    if (!user) {
       res.status(401).json({ status: 'error', message: 'Not authenticated' });
       return;
     }
 
-    // Mark design as submitted
-    const designKey = `design:${username}:${designId}`;
-    const designData = await redis.get(designKey);
-
-    if (!designData) {
+    const design = await submissionHandler.getDesignById(designId);
+    if (!design) {
       res.status(404).json({ status: 'error', message: 'Design not found' });
       return;
     }
 
-    const design = JSON.parse(designData);
-    design.submitted = true;
-    design.submittedAt = new Date().toISOString();
+    if (design.userId !== user.id) {
+      res.status(403).json({ status: 'error', message: 'Cannot submit a design that does not belong to you' });
+      return;
+    }
 
-    await redis.set(designKey, JSON.stringify(design));
+    // One submission per theme; resubmitting the same design updates it
+    if (!design.submitted && (await submissionHandler.hasUserSubmitted(user.id, design.themeId))) {
+      res.status(409).json({ status: 'error', message: 'You have already submitted a design for this theme' });
+      return;
+    }
 
-    // Add to submissions list for this specific post (using JSON array since sAdd is not available)
-    const { postId } = context;
-    const submissionsKey = `submissions:${postId}:${design.themeId}`;
-    const existingSubmissions = await redis.get(submissionsKey);
-    let submissionsList: string[] = [];
-    try {
-      submissionsList = existingSubmissions ? JSON.parse(existingSubmissions) : [];
-    } catch {
-      submissionsList = [];
+    // Changes go straight into the submission, so the stored copy stays the
+    // last submission until this one passes
+    let submission = design;
+    if (changes) {
+      const content = await readDesignContent(changes, design.themeId);
+      if (typeof content === 'string') {
+        res.status(400).json({ status: 'error', message: content });
+        return;
+      }
+      const { roomColors: _roomColors, ...rest } = design;
+      submission = { ...rest, ...content, updatedAt: Date.now() };
+      if (!validateDesign(submission)) {
+        res.status(400).json({ status: 'error', message: 'Invalid design' });
+        return;
+      }
     }
-    if (!submissionsList.includes(designKey)) {
-      submissionsList.push(designKey);
-      await redis.set(submissionsKey, JSON.stringify(submissionsList));
+
+    const violations = await submissionHandler.getRuleViolations(submission);
+    if (violations.length > 0) {
+      res.status(422).json({ status: 'error', message: 'This design breaks the theme rules', violations });
+      return;
     }
 
-    res.json({ status: 'success', design });
+    await submissionHandler.submitDesign(submission);
+    // A broken recording is dropped rather than failing the submission
+    if (changes?.timelapse !== undefined && validateTimelapse(changes.timelapse)) {
+      await storage.saveTimelapse(designId, changes.timelapse);
+    }
+
+    // Rank the stored copy, which carries the submission time
+    const submittedDesign = (await submissionHandler.getDesignById(designId)) ?? design;
+    await leaderboardHandler.addDesign(submittedDesign);
+    await thumbnailService.generateThumbnail(submittedDesign);
+
+    res.json({ status: 'success', design: submittedDesign });
   } catch (error) {
     console.error('Submit design error:', error);
     res.status(500).json({ status: 'error', message: 'Failed to submit design' });
   }
 });
 
-// Get gallery designs
-router.get('/api/gallery', async (req, res): Promise<void> => {
+// List the current user's drafts and submission for a theme, most recently edited first
+router.get('/api/drafts', async (req, res): Promise<void> => {
   const { themeId } = req.query;
 
-  if (!themeId) {
+  if (!themeId || typeof themeId !== 'string') {
     res.status(400).json({ status: 'error', message: 'themeId is required' });
     return;
   }
 
   try {
-    // Get submissions list for this specific post (using JSON array since sMembers is not available)
-    const { postId } = context;
-    const submissionsData = await redis.get(`submissions:${postId}:${themeId}`);
-    let submissionKeys: string[] = [];
-    try {
-      submissionKeys = submissionsData ? JSON.parse(submissionsData) : [];
-    } catch {
-      submissionKeys = [];
-    }
-
-    const designs = [];
-
-    for (const key of submissionKeys) {
-      const designData = await redis.get(key);
-      if (designData) {
-        designs.push(JSON.parse(designData));
-      }
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    const drafts = listThemeDesigns(await storage.getUserDesigns(user.id), themeId);
+
+    res.json({ status: 'success', drafts });
+  } catch (error) {
+    console.error('List drafts error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to load drafts' });
+  }
+});
+
+// Rename one of the current user's designs
+router.post('/api/design/rename', async (req, res): Promise<void> => {
+  const { designId } = req.body;
+  const name = normalizeDesignName(req.body.name);
+
+  if (!designId || !name) {
+    res.status(400).json({ status: 'error', message: 'designId and name are required' });
+    return;
+  }
+
+  try {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    const design = await storage.loadDesign(designId);
+    if (!design) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    if (design.userId !== user.id) {
+      res.status(403).json({ status: 'error', message: 'Cannot rename a design that does not belong to you' });
+      return;
+    }
+
+    // Renaming is not an edit, so the draft keeps its place in the list
+    const renamedDesign: Design = { ...design, name };
+    await storage.saveDesign(renamedDesign);
+
+    res.json({ status: 'success', design: renamedDesign });
+  } catch (error) {
+    console.error('Rename design error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to rename design' });
+  }
+});
+
+// Copy one of the current user's designs into a new draft
+router.post('/api/design/duplicate', async (req, res): Promise<void> => {
+  const { designId } = req.body;
+
+  if (!designId) {
+    res.status(400).json({ status: 'error', message: 'designId is required' });
+    return;
+  }
+
+  try {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
     }
 
-    res.json({ status: 'success', designs });
+    const design = await storage.loadDesign(designId);
+    if (!design) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    if (design.userId !== user.id) {
+      res.status(403).json({ status: 'error', message: 'Cannot copy a design that does not belong to you' });
+      return;
+    }
+
+    const now = Date.now();
+    const copy = duplicateDesign(design, `design_${user.id}_${design.themeId}_${now}`, now);
+    await storage.saveDesign(copy);
+    await thumbnailService.generateThumbnail(copy);
+    // A copy of a remix is one more remix of the original
+    if (copy.remixOf) {
+      await storage.adjustRemixCount(copy.remixOf.designId, 1);
+    }
+
+    res.json({ status: 'success', design: copy });
+  } catch (error) {
+    console.error('Duplicate design error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to duplicate design' });
+  }
+});
+
+// Delete one of the current user's drafts; submitted designs stay in the gallery
+router.post('/api/design/delete', async (req, res): Promise<void> => {
+  const { designId } = req.body;
+
+  if (!designId) {
+    res.status(400).json({ status: 'error', message: 'designId is required' });
+    return;
+  }
+
+  try {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    const design = await storage.loadDesign(designId);
+    if (!design) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    if (design.userId !== user.id) {
+      res.status(403).json({ status: 'error', message: 'Cannot delete a design that does not belong to you' });
+      return;
+    }
+
+    if (design.submitted) {
+      res.status(409).json({ status: 'error', message: 'Submitted designs cannot be deleted' });
+      return;
+    }
+
+    await storage.deleteDesign(designId);
+    if (design.remixOf) {
+      await storage.adjustRemixCount(design.remixOf.designId, -1);
+    }
+
+    res.json({ status: 'success' });
+  } catch (error) {
+    console.error('Delete design error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to delete design' });
+  }
+});
+
+// Copy someone else's gallery design into a new draft for the current user
+router.post('/api/design/remix', async (req, res): Promise<void> => {
+  const { designId } = req.body;
+
+  if (!designId) {
+    res.status(400).json({ status: 'error', message: 'designId is required' });
+    return;
+  }
+
+  try {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    const original = await storage.loadDesign(designId);
+    if (!original || !original.submitted) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    if (original.userId === user.id) {
+      res.status(403).json({ status: 'error', message: 'Cannot remix your own design; duplicate it instead' });
+      return;
+    }
+
+    const now = Date.now();
+    const remix = createRemix(original, `design_${user.id}_${original.themeId}_${now}`, user, now);
+    await storage.saveDesign(remix);
+    await thumbnailService.generateThumbnail(remix);
+    await storage.adjustRemixCount(original.id, 1);
+
+    res.json({ status: 'success', design: remix });
+  } catch (error) {
+    console.error('Remix design error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to remix design' });
+  }
+});
+
+// Get a page of gallery designs
+// Query: themeId, sort (newest|top|hot|random), userId, assetId, cursor, limit
+router.get('/api/gallery', async (req, res): Promise<void> => {
+  const { themeId, sort = 'newest', userId, assetId, cursor } = req.query;
+
+  if (!themeId || typeof themeId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'themeId is required' });
+    return;
+  }
+
+  if (!GALLERY_SORTS.includes(sort as GallerySort)) {
+    res.status(400).json({ status: 'error', message: `sort must be one of ${GALLERY_SORTS.join(', ')}` });
+    return;
+  }
+
+  let galleryCursor: GalleryCursor | undefined;
+  if (cursor !== undefined) {
+    galleryCursor = (typeof cursor === 'string' && decodeGalleryCursor(cursor)) || undefined;
+    if (!galleryCursor) {
+      res.status(400).json({ status: 'error', message: 'Invalid cursor' });
+      return;
+    }
+  }
+
+  try {
+    const { designs, nextCursor } = await submissionHandler.getGalleryPage(themeId, {
+      sort: sort as GallerySort,
+      userId: typeof userId === 'string' && userId ? userId : undefined,
+      assetId: typeof assetId === 'string' && assetId ? assetId : undefined,
+      cursor: galleryCursor,
+      limit: Number(req.query.limit) || undefined,
+    });
+
+    // Report which of these designs the current user has liked
+    const userVotes: Record<string, boolean> = {};
+    const user = await authService.getCurrentUser();
+    if (user) {
+      const votes = await Promise.all(designs.map(design => votingService.getUserVote(user.id, design.id)));
+      votes.forEach((vote, index) => {
+        if (vote?.voteType === VoteType.UPVOTE) {
+          userVotes[designs[index].id] = true;
+        }
+      });
+    }
+
+    res.json({ status: 'success', designs, nextCursor, userVotes });
   } catch (error) {
     console.error('Get gallery error:', error);
     res.status(500).json({ status: 'error', message: 'Failed to load gallery' });
   }
 });
 
+// Get a design's SVG thumbnail; drafts only to their owner
+router.get('/api/design/:id/thumbnail', async (req, res): Promise<void> => {
+  try {
+    const design = await storage.loadDesign(req.params.id);
+    const user = design && !design.submitted ? await authService.getCurrentUser() : null;
+    if (!design || (!design.submitted && design.userId !== user?.id)) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    const svg = await thumbnailService.getThumbnail(design.id);
+    if (!svg) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    // Thumbnails are regenerated on save, so the client busts the cache with ?v=updatedAt.
+    // Shared caches keep only gallery thumbnails.
+    res.set('Content-Type', 'image/svg+xml');
+    res.set('Cache-Control', `${design.submitted ? 'public' : 'private'}, max-age=86400`);
+    res.send(svg);
+  } catch (error) {
+    console.error('Get thumbnail error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to load thumbnail' });
+  }
+});
+
+// Get every submission of a design, oldest first
+router.get('/api/design/:id/revisions', async (req, res): Promise<void> => {
+  try {
+    const revisions = await submissionHandler.getRevisions(req.params.id);
+    if (!revisions) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    res.json({ status: 'success', revisions });
+  } catch (error) {
+    console.error('Get revisions error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to load revisions' });
+  }
+});
+
+// Get how a design was built, for the viewer's replay; drafts only to their owner
+router.get('/api/design/:id/timelapse', async (req, res): Promise<void> => {
+  try {
+    const design = await storage.loadDesign(req.params.id);
+    const user = design && !design.submitted ? await authService.getCurrentUser() : null;
+    if (!design || (!design.submitted && design.userId !== user?.id)) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
+    }
+
+    const timelapse = await storage.loadTimelapse(design.id);
+
+    res.json({ status: 'success', timelapse });
+  } catch (error) {
+    console.error('Get timelapse error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to load timelapse' });
+  }
+});
+
 // Vote on a design
 router.post('/api/design/vote', async (req, res): Promise<void> => {
+  const { designId, vote } = req.body;
+
+  if (!designId) {
+    res.status(400).json({ status: 'error', message: 'designId is required' });
+    return;
+  }
+
   try {
-    const username = await reddit.getCurrentUsername();
-    const { designId, vote } = req.body;
-
-    if (!designId) {
-      res.status(400).json({ status: 'error', message: 'designId is required' });
-      return;
-    }
-
-    // Get user's votes
-    const userVotesKey = `votes:${username}`;
-    const userVotesData = await redis.get(userVotesKey);
-    let userVotes: string[] = [];
-    try {
-      userVotes = userVotesData ? JSON.parse(userVotesData) : [];
-    } catch {
-      userVotes = [];
-    }
-
-    // Find the design to update its vote count
-    // We need to search through all designs to find the one with this id
-    const themeId = 'default'; // Use default theme for now
-    const submissionsData = await redis.get(`submissions:${themeId}`);
-    let submissionKeys: string[] = [];
-    try {
-      submissionKeys = submissionsData ? JSON.parse(submissionsData) : [];
-    } catch {
-      submissionKeys = [];
-    }
-
-    // Find and update the design
-    for (const key of submissionKeys) {
-      const designData = await redis.get(key);
-      if (designData) {
-        const design = JSON.parse(designData);
-        if (design.id === designId) {
-          // Update vote count
-          const currentVotes = design.voteCount || 0;
-          if (vote && !userVotes.includes(designId)) {
-            // Add vote
-            design.voteCount = currentVotes + 1;
-            userVotes.push(designId);
-          } else if (!vote && userVotes.includes(designId)) {
-            // Remove vote
-            design.voteCount = Math.max(0, currentVotes - 1);
-            userVotes = userVotes.filter(id => id !== designId);
-          }
-
-          // Save updated design
-          await redis.set(key, JSON.stringify(design));
-          break;
-        }
-      }
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    const design = await submissionHandler.getDesignById(designId);
+    if (!design || !design.submitted) {
+      res.status(404).json({ status: 'error', message: 'Design not found' });
+      return;
     }
 
-    // Save user's votes
-    await redis.set(userVotesKey, JSON.stringify(userVotes));
+    if (design.userId === user.id) {
+      res.status(403).json({ status: 'error', message: 'Users cannot vote on their own designs' });
+      return;
+    }
 
-    res.json({ status: 'success' });
+    // The web client only has likes: vote=true upvotes, vote=false clears the vote
+    const existingVote = await votingService.getUserVote(user.id, designId);
+    let delta = 0;
+    if (vote && !existingVote) {
+      await votingService.castVote(user.id, designId, VoteType.UPVOTE);
+      delta = 1;
+    } else if (vote && existingVote?.voteType === VoteType.DOWNVOTE) {
+      await votingService.changeVote(user.id, designId, VoteType.UPVOTE);
+      delta = 2;
+    } else if (!vote && existingVote) {
+      await votingService.removeVote(user.id, designId);
+      delta = existingVote.voteType === VoteType.UPVOTE ? -1 : 1;
+    }
+
+    if (delta !== 0) {
+      await leaderboardHandler.updateVoteCount(designId, delta);
+    }
+
+    const updatedDesign = await submissionHandler.getDesignById(designId);
+
+    res.json({ status: 'success', voteCount: updatedDesign?.voteCount ?? design.voteCount });
   } catch (error) {
     console.error('Vote error:', error);
     res.status(500).json({ status: 'error', message: 'Failed to vote' });
   }
 });
 
+// Draw a "which room is better?" matchup from the theme's submissions
+router.get('/api/matchup', async (req, res): Promise<void> => {
+  const { themeId } = req.query;
+
+  if (!themeId || typeof themeId !== 'string') {
+    res.status(400).json({ status: 'error', message: 'themeId is required' });
+    return;
+  }
+
+  try {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    // null when the theme has fewer than two designs the user can judge
+    const result = await matchupService.createMatchup(user.id, themeId);
+
+    res.json({ status: 'success', matchup: result && { id: result.matchup.id, designs: result.designs } });
+  } catch (error) {
+    console.error('Create matchup error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to create matchup' });
+  }
+});
+
+// Record the pick in the user's pending matchup
+router.post('/api/matchup/pick', async (req, res): Promise<void> => {
+  const { matchupId, winnerId } = req.body;
+
+  if (!matchupId || !winnerId) {
+    res.status(400).json({ status: 'error', message: 'Missing required fields' });
+    return;
+  }
+
+  try {
+    const user = await authService.getCurrentUser();
+    if (!user) {
+      res.status(401).json({ status: 'error', message: 'Not authenticated' });
+      return;
+    }
+
+    const pending = await matchupService.getPendingMatchup(user.id);
+    if (!pending || pending.id !== matchupId) {
+      res.status(409).json({ status: 'error', message: 'This matchup has expired' });
+      return;
+    }
+
+    if (!pending.designIds.includes(winnerId)) {
+      res.status(400).json({ status: 'error', message: 'Design is not part of this matchup' });
+      return;
+    }
+
+    const { winner, loser } = await matchupService.recordPick(user.id, matchupId, winnerId);
+
+    res.json({ status: 'success', ratings: { [winner.id]: winner.rating, [loser.id]: loser.rating } });
+  } catch (error) {
+    console.error('Matchup pick error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to record pick' });
+  }
+});
+
 // Post creation endpoints
 router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   try {
@@ -265,6 +719,87 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
+// Theme rotation, run hourly by the scheduler task in devvit.json
+router.post('/internal/scheduler/theme-rotation', async (_req, res): Promise<void> => {
+  try {
+    const theme = await rotateTheme(themeManager);
+    res.json({ status: 'success', themeId: theme.id });
+  } catch (error) {
+    console.error('Theme rotation error:', error);
+    res.status(500).json({ status: 'error', message: 'Failed to rotate theme' });
+  }
+});
+
+// Moderator theme calendar. The menu item is moderator-only; its forms are the
+// only way to reach the form endpoints below.
+router.post('/internal/menu/theme-calendar', async (_req, res): Promise<void> => {
+  try {
+    const themes = await themeManager.getScheduledThemes();
+    res.json({ showForm: { name: THEME_CALENDAR_FORM, form: getThemeCalendarForm(themes) } });
+  } catch (error) {
+    console.error('Theme calendar error:', error);
+    res.json({ showToast: 'Failed to load the theme calendar' });
+  }
+});
+
+router.post('/internal/form/theme-calendar', async (req, res): Promise<void> => {
+  const { themeId, action } = parseThemeCalendarValues(req.body ?? {});
+
+  try {
+    if (action === 'edit') {
+      const theme = themeId ? (await themeManager.getScheduledThemes()).find(scheduled => scheduled.id === themeId) : undefined;
+      if (themeId && !theme) {
+        res.json({ showToast: 'That theme is no longer scheduled' });
+        return;
+      }
+      // Remember the theme being edited for the details form; none means a new theme
+      if (theme) {
+        await redisClient.set(getEditingThemeKey(context.userId ?? ''), theme.id);
+      } else {
+        await redisClient.del(getEditingThemeKey(context.userId ?? ''));
+      }
+      res.json({ showForm: { name: THEME_DETAILS_FORM, form: getThemeDetailsForm(theme) } });
+      return;
+    }
+
+    if (!themeId) {
+      res.json({ showToast: 'Pick a scheduled theme first' });
+      return;
+    }
+
+    if (action === 'remove') {
+      await themeManager.unscheduleTheme(themeId);
+      res.json({ showToast: { text: 'Theme removed from the calendar', appearance: 'success' } });
+      return;
+    }
+
+    const themes = await themeManager.moveScheduledTheme(themeId, action === 'earlier' ? -1 : 1);
+    res.json({ showForm: { name: THEME_CALENDAR_FORM, form: getThemeCalendarForm(themes) } });
+  } catch (error) {
+    console.error('Theme calendar error:', error);
+    res.json({ showToast: error instanceof Error ? error.message : 'Failed to update the theme calendar' });
+  }
+});
+
+router.post('/internal/form/theme-details', async (req, res): Promise<void> => {
+  try {
+    const editingKey = getEditingThemeKey(context.userId ?? '');
+    const editingId = await redisClient.get(editingKey);
+    const existing = editingId ? (await themeManager.getScheduledThemes()).find(theme => theme.id === editingId) : undefined;
+    const details = parseThemeDetailsValues(req.body ?? {}, existing);
+
+    const theme = existing
+      ? await themeManager.updateScheduledTheme(existing.id, details)
+      : await themeManager.scheduleTheme(details);
+    await redisClient.del(editingKey);
+
+    res.json({ showToast: { text: `${theme.name} is scheduled`, appearance: 'success' } });
+  } catch (error) {
+    console.error('Theme details error:', error);
+    res.json({ showToast: error instanceof Error ? error.message : 'Failed to save the theme' });
+  }
+});
+
 // Manual post creation endpoint for testing
 router.get('/api/create-test-post', async (_req, res): Promise<void> => {
   try {
@@ -2,17 +2,25 @@
  * AuthService - Handles Reddit authentication and user context
  */
 
-import { Context } from '@devvit/public-api';
-
 export interface AuthenticatedUser {
   id: string;
   username: string;
 }
 
+/**
+ * The subset of a Devvit context AuthService needs. Satisfied by both the
+ * Blocks `Context` and the `@devvit/web/server` exports.
+ */
+export interface AuthContext {
+  reddit: {
+    getCurrentUser(): Promise<{ id: string; username: string } | undefined>;
+  };
+}
+
 export class AuthService {
-  private context: Context;
+  private context: AuthContext;
 
-  constructor(context: Context) {
+  constructor(context: AuthContext) {
     this.context = context;
   }
 
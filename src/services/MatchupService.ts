@@ -0,0 +1,176 @@
+/**
+ * MatchupService - Head-to-head design comparisons and the Elo ratings they produce
+ */
+
+import { Design } from '../types/models.js';
+import { StorageService } from '../storage/StorageService.js';
+import { AuthService } from './AuthService.js';
+import { getLeaderboardKey, getRatingEntry } from '../handlers/LeaderboardHandler.js';
+import { INITIAL_RATING, getEloRatings } from '../utils/elo.js';
+
+/**
+ * Number of least-seen designs a matchup is drawn from
+ */
+export const MATCHUP_POOL_SIZE = 6;
+
+/**
+ * A pair of designs shown to one user. Each user has at most one pending
+ * matchup; drawing a new one replaces it.
+ */
+export interface Matchup {
+  id: string;
+  userId: string;
+  themeId: string;
+  designIds: [string, string];
+  createdAt: number;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export class MatchupService {
+  private storage: StorageService;
+  private authService: AuthService;
+
+  constructor(storage: StorageService, authService: AuthService) {
+    this.storage = storage;
+    this.authService = authService;
+  }
+
+  /**
+   * Draw two of a theme's submissions for a user to compare
+   * The least-shown eligible design is always included, against a random
+   * opponent from the next least-shown ones. The user's own designs are never shown.
+   * @returns The matchup and its designs, or null if fewer than two designs are eligible
+   */
+  async createMatchup(userId: string, themeId: string): Promise<{ matchup: Matchup; designs: [Design, Design] } | null> {
+    const user = await this.authService.requireAuth();
+    if (userId !== user.id) {
+      throw new Error('Cannot create a matchup for another user');
+    }
+
+    try {
+      const redis = this.storage['redis'];
+      const seenKey = this.getSeenKey(themeId);
+      const submissionIds = await redis.sMembers(`theme:${themeId}:submissions`);
+      const submitted = new Set(submissionIds);
+
+      // The seen set lists designs most-shown first; designs never shown are not in it
+      const seen = await redis.zRevRange(seenKey, 0, -1);
+      const seenIds = new Set(seen);
+      const candidates = [
+        ...shuffle(submissionIds.filter(id => !seenIds.has(id))),
+        ...seen.filter(id => submitted.has(id)).reverse(),
+      ];
+
+      const pool: Design[] = [];
+      for (const designId of candidates) {
+        if (pool.length >= MATCHUP_POOL_SIZE) break;
+        const design = await this.storage.loadDesign(designId);
+        if (design && design.submitted && design.themeId === themeId && design.userId !== userId) {
+          pool.push(design);
+        }
+      }
+
+      if (pool.length < 2) {
+        console.log(`Not enough designs for a matchup in theme ${themeId}`);
+        return null;
+      }
+
+      const [leastSeen, ...rest] = pool;
+      const opponent = rest[Math.floor(Math.random() * rest.length)];
+      const designs: [Design, Design] = Math.random() < 0.5 ? [leastSeen, opponent] : [opponent, leastSeen];
+
+      const now = Date.now();
+      const matchup: Matchup = {
+        id: `matchup_${userId}_${now}`,
+        userId,
+        themeId,
+        designIds: [designs[0].id, designs[1].id],
+        createdAt: now,
+      };
+      await redis.set(this.getMatchupKey(userId), JSON.stringify(matchup));
+      for (const design of designs) {
+        await redis.zIncrBy(seenKey, 1, design.id);
+      }
+
+      console.log(`Matchup ${matchup.id}: ${matchup.designIds.join(' vs ')}`);
+      return { matchup, designs };
+    } catch (error) {
+      console.error(`Failed to create matchup for user ${userId} in theme ${themeId}:`, error);
+      throw new Error(`Failed to create matchup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get the matchup a user was last shown and has not picked yet
+   */
+  async getPendingMatchup(userId: string): Promise<Matchup | null> {
+    const data = await this.storage['redis'].get(this.getMatchupKey(userId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Record a user's pick in their pending matchup and update both designs' ratings
+   * Requires authentication
+   * @param userId - The ID of the user picking
+   * @param matchupId - The matchup being answered; stale matchups are rejected
+   * @param winnerId - The design the user picked
+   * @returns Both designs with their new ratings
+   */
+  async recordPick(userId: string, matchupId: string, winnerId: string): Promise<{ winner: Design; loser: Design }> {
+    const user = await this.authService.requireAuth();
+    if (userId !== user.id) {
+      throw new Error('Cannot pick for another user');
+    }
+
+    const matchup = await this.getPendingMatchup(userId);
+    if (!matchup || matchup.id !== matchupId) {
+      throw new Error('Matchup has expired');
+    }
+    if (!matchup.designIds.includes(winnerId)) {
+      throw new Error('Design is not part of this matchup');
+    }
+
+    // Each matchup counts once
+    await this.storage['redis'].del(this.getMatchupKey(userId));
+
+    const loserId = matchup.designIds[0] === winnerId ? matchup.designIds[1] : matchup.designIds[0];
+    const [winner, loser] = await Promise.all([this.storage.loadDesign(winnerId), this.storage.loadDesign(loserId)]);
+    if (!winner || !loser) {
+      throw new Error('Design not found');
+    }
+
+    // Only the ratings are written, over the latest copies, so votes and
+    // saves made in the meantime are not lost
+    const ratings = getEloRatings(winner.rating ?? INITIAL_RATING, loser.rating ?? INITIAL_RATING);
+    const updatedWinner = await this.storage.updateDesignFields(winnerId, { rating: ratings.winner });
+    const updatedLoser = await this.storage.updateDesignFields(loserId, { rating: ratings.loser });
+    if (!updatedWinner || !updatedLoser) {
+      throw new Error('Design not found');
+    }
+
+    await this.storage['redis'].zAdd(getLeaderboardKey(matchup.themeId, 'rating'), [
+      getRatingEntry(updatedWinner),
+      getRatingEntry(updatedLoser),
+    ]);
+
+    console.log(`Matchup ${matchupId}: ${winnerId} beat ${loserId}`);
+    return { winner: updatedWinner, loser: updatedLoser };
+  }
+
+  private getMatchupKey(userId: string): string {
+    return `matchup:${userId}`;
+  }
+
+  // Sorted set counting how often each design has been shown in a matchup
+  private getSeenKey(themeId: string): string {
+    return `matchups:${themeId}:seen`;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * ThumbnailService - Generates and caches SVG thumbnails for designs
+ */
+
+import { Design } from '../types/models.js';
+import { StorageService } from '../storage/StorageService.js';
+import { renderThumbnailSvg, THUMBNAIL_IMAGE_DIR } from '../utils/designThumbnail.js';
+
+export class ThumbnailService {
+  private storage: StorageService;
+
+  constructor(storage: StorageService) {
+    this.storage = storage;
+  }
+
+  /**
+   * Render a design's thumbnail and store it alongside the design
+   * Call whenever a design is saved or submitted
+   */
+  async generateThumbnail(design: Design): Promise<string> {
+    try {
+      const svg = renderThumbnailSvg(design);
+      await this.storage.saveThumbnail(design.id, svg);
+      return svg;
+    } catch (error) {
+      console.error(`Failed to generate thumbnail for design ${design.id}:`, error);
+      throw new Error(`Failed to generate thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a design's thumbnail, generating it for designs saved before thumbnails
+   * existed, and again for those stored before thumbnails drew downscaled images
+   * @returns The SVG markup, or null if the design does not exist
+   */
+  async getThumbnail(designId: string): Promise<string | null> {
+    const cached = await this.storage.loadThumbnail(designId);
+    if (cached?.includes(`href="/${THUMBNAIL_IMAGE_DIR}/`)) {
+      return cached;
+    }
+
+    const design = await this.storage.loadDesign(designId);
+    if (!design) {
+      return null;
+    }
+
+    return this.generateThumbnail(design);
+  }
+}
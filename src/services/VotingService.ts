@@ -118,7 +118,8 @@ export class VotingService {
    * Get a user's vote on a specific design
    * @param userId - The ID of the user
    * @param designId - The ID of the design
-   * @returns The user's vote, or null if they haven't voted
+   * @returns The user's vote, or null if they haven't voted since a
+   * resubmission last reset the design's likes
    */
   async getUserVote(userId: string, designId: string): Promise<Vote | null> {
     const voteKey = `votes:${designId}:${userId}`;
@@ -128,7 +129,10 @@ export class VotingService {
       return null;
     }
 
-    return JSON.parse(voteData) as Vote;
+    const vote = JSON.parse(voteData) as Vote;
+    const designData = await this.redis.get(`design:${designId}`);
+    const votesResetAt = designData ? JSON.parse(designData).votesResetAt : undefined;
+    return typeof votesResetAt === 'number' && vote.timestamp < votesResetAt ? null : vote;
   }
 
   /**
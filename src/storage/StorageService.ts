@@ -2,7 +2,8 @@
  * StorageService - Wraps Devvit Redis operations for design and theme persistence
  */
 
-import { Design, Theme } from '../types/models.js';
+import { Design, DesignRevision, Theme, Timelapse } from '../types/models.js';
+import { migrateDesign, StoredDesign } from '../utils/designMigrations.js';
 
 export interface RedisClient {
   get(key: string): Promise<string | undefined>;
@@ -10,11 +11,13 @@ export interface RedisClient {
   del(key: string): Promise<void>;
   sAdd(key: string, members: string[]): Promise<number>;
   sMembers(key: string): Promise<string[]>;
+  sRem(key: string, members: string[]): Promise<number>;
   incrBy?(key: string, increment: number): Promise<number>;
   zAdd(key: string, members: { member: string; score: number }[]): Promise<number>;
   zRevRange(key: string, start: number, stop: number): Promise<string[]>;
   zRevRank(key: string, member: string): Promise<number | undefined>;
   zIncrBy(key: string, increment: number, member: string): Promise<number>;
+  zRem(key: string, members: string[]): Promise<number>;
 }
 
 export class StorageService {
@@ -57,7 +60,8 @@ export class StorageService {
         return null;
       }
 
-      const design = JSON.parse(value) as Design;
+      // Older documents are upgraded to the current schema on read
+      const design = migrateDesign(JSON.parse(value));
       console.log(`Design ${designId} loaded successfully`);
       return design;
     } catch (error) {
@@ -96,6 +100,93 @@ export class StorageService {
     }
   }
 
+  /**
+   * Save a design's thumbnail with key pattern: design:{designId}:thumbnail
+   */
+  async saveThumbnail(designId: string, svg: string): Promise<void> {
+    try {
+      await this.redis.set(`design:${designId}:thumbnail`, svg);
+    } catch (error) {
+      console.error(`Failed to save thumbnail for design ${designId}:`, error);
+      throw new Error(`Failed to save thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Save a design's build recording with key pattern: design:{designId}:timelapse
+   */
+  async saveTimelapse(designId: string, timelapse: Timelapse): Promise<void> {
+    try {
+      await this.redis.set(`design:${designId}:timelapse`, JSON.stringify(timelapse));
+    } catch (error) {
+      console.error(`Failed to save timelapse for design ${designId}:`, error);
+      throw new Error(`Failed to save timelapse: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Save a design revision with key pattern: design:{designId}:revision:{revision}
+   * Revisions are written once and never changed
+   */
+  async saveDesignRevision(revision: DesignRevision): Promise<void> {
+    try {
+      const key = `design:${revision.design.id}:revision:${revision.revision}`;
+      if (await this.redis.get(key)) {
+        throw new Error(`Revision ${revision.revision} already exists`);
+      }
+      await this.redis.set(key, JSON.stringify(revision));
+    } catch (error) {
+      console.error(`Failed to save revision ${revision.revision} of design ${revision.design.id}:`, error);
+      throw new Error(`Failed to save design revision: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load a design's revisions, oldest first, skipping any that were never kept
+   */
+  async loadDesignRevisions(designId: string, count: number): Promise<DesignRevision[]> {
+    try {
+      const revisions: DesignRevision[] = [];
+      for (let revision = 1; revision <= count; revision++) {
+        const data = await this.redis.get(`design:${designId}:revision:${revision}`);
+        if (data) {
+          const { design, ...stored } = JSON.parse(data) as Omit<DesignRevision, 'design'> & { design: StoredDesign };
+          revisions.push({ ...stored, design: migrateDesign(design) });
+        }
+      }
+      return revisions;
+    } catch (error) {
+      console.error(`Failed to load revisions of design ${designId}:`, error);
+      throw new Error(`Failed to load design revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load a design's stored thumbnail
+   */
+  async loadThumbnail(designId: string): Promise<string | null> {
+    try {
+      const value = await this.redis.get(`design:${designId}:thumbnail`);
+      return value ?? null;
+    } catch (error) {
+      console.error(`Failed to load thumbnail for design ${designId}:`, error);
+      throw new Error(`Failed to load thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Load a design's build recording
+   */
+  async loadTimelapse(designId: string): Promise<Timelapse | null> {
+    try {
+      const value = await this.redis.get(`design:${designId}:timelapse`);
+      return value ? JSON.parse(value) as Timelapse : null;
+    } catch (error) {
+      console.error(`Failed to load timelapse for design ${designId}:`, error);
+      throw new Error(`Failed to load timelapse: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Save a theme to Redis with key pattern: theme:{themeId}
    */
@@ -169,12 +260,55 @@ export class StorageService {
   }
 
   /**
-   * Delete a design from Redis
+   * Write some fields of a design over its latest stored copy, so a vote or
+   * save made since the caller loaded it is kept
+   * @returns The updated design, or null if it no longer exists
+   */
+  async updateDesignFields(designId: string, fields: Partial<Omit<Design, 'id' | 'userId'>>): Promise<Design | null> {
+    try {
+      const design = await this.loadDesign(designId);
+      if (!design) {
+        return null;
+      }
+      const updated: Design = { ...design, ...fields };
+      await this.redis.set(`design:${designId}`, JSON.stringify(updated));
+      return updated;
+    } catch (error) {
+      console.error(`Failed to update design ${designId}:`, error);
+      throw new Error(`Failed to update design: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Add to a design's remix count, never going below zero
+   * Designs deleted since they were remixed are left alone
+   */
+  async adjustRemixCount(designId: string, delta: number): Promise<void> {
+    try {
+      const design = await this.loadDesign(designId);
+      if (!design) {
+        return;
+      }
+      await this.updateDesignFields(designId, { remixCount: Math.max(0, (design.remixCount ?? 0) + delta) });
+    } catch (error) {
+      console.error(`Failed to update remix count for design ${designId}:`, error);
+      throw new Error(`Failed to update remix count: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delete a design from Redis, and from its owner's designs
    */
   async deleteDesign(designId: string): Promise<void> {
     try {
       const key = `design:${designId}`;
+      const design = await this.loadDesign(designId);
       await this.redis.del(key);
+      await this.redis.del(`${key}:thumbnail`);
+      await this.redis.del(`${key}:timelapse`);
+      if (design) {
+        await this.redis.sRem(`user:${design.userId}:designs`, [designId]);
+      }
       console.log(`Design ${designId} deleted successfully`);
     } catch (error) {
       console.error(`Failed to delete design ${designId}:`, error);
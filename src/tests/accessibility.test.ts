@@ -0,0 +1,41 @@
+/**
+ * Unit tests for keyboard nudging and screen-reader descriptions
+ */
+
+import { describe, test, expect } from 'vitest';
+import { getNudge, describePosition, describeSelection, NUDGE_STEP, LARGE_NUDGE_STEP } from '../utils/accessibility.js';
+
+describe('Accessibility Unit Tests', () => {
+  describe('getNudge', () => {
+    test('should move one step in the arrow direction', () => {
+      expect(getNudge('ArrowLeft')).toEqual({ xOffset: -NUDGE_STEP, yOffset: 0 });
+      expect(getNudge('ArrowRight')).toEqual({ xOffset: NUDGE_STEP, yOffset: 0 });
+      expect(getNudge('ArrowUp')).toEqual({ xOffset: 0, yOffset: -NUDGE_STEP });
+      expect(getNudge('ArrowDown')).toEqual({ xOffset: 0, yOffset: NUDGE_STEP });
+    });
+
+    test('should take larger steps with Shift', () => {
+      expect(getNudge('ArrowDown', true)).toEqual({ xOffset: 0, yOffset: LARGE_NUDGE_STEP });
+    });
+
+    test('should ignore other keys', () => {
+      expect(getNudge('r')).toBeNull();
+      expect(getNudge('Enter', true)).toBeNull();
+    });
+  });
+
+  describe('describePosition', () => {
+    test('should describe offsets from the room center as percent across and down', () => {
+      expect(describePosition({ xOffset: 0, yOffset: 0 })).toBe('50% across, 50% down');
+      expect(describePosition({ xOffset: -10.4, yOffset: 12.6 })).toBe('40% across, 63% down');
+    });
+  });
+
+  describe('describeSelection', () => {
+    test('should name single items and count several', () => {
+      expect(describeSelection([])).toBe('Nothing selected');
+      expect(describeSelection(['Desk'])).toBe('Desk selected');
+      expect(describeSelection(['Desk', 'Chair', 'Chair'])).toBe('3 items selected');
+    });
+  });
+});
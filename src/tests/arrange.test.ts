@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the editor's multi-asset arrange tools
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  ArrangeItem,
+  AssetGroupItem,
+  MAX_OFFSET,
+  alignItems,
+  distributeItems,
+  intersectsRect,
+  clampDelta,
+  getGuideTargets,
+  snapToGuides,
+  PASTE_OFFSET,
+  toAssetGroupItem,
+  offsetCopies,
+  createAssetGroup,
+  placeAssetGroup,
+  isAssetGroup,
+  isAssetGroupItem,
+} from '../utils/arrange.js';
+
+describe('Arrange Unit Tests', () => {
+  const createItem = (id: string, xOffset: number, yOffset: number, halfWidth = 5, halfHeight = 5): ArrangeItem => ({
+    id, xOffset, yOffset, halfWidth, halfHeight,
+  });
+
+  const createGroupItem = (assetId: string, xOffset: number, yOffset: number): AssetGroupItem => ({
+    assetId, xOffset, yOffset, scale: 1, rotation: 0, flipped: false,
+  });
+
+  describe('intersectsRect', () => {
+    test('should hit items overlapping the rectangle', () => {
+      const rect = { left: 0, top: 0, right: 10, bottom: 10 };
+
+      expect(intersectsRect(createItem('inside', 5, 5), rect)).toBe(true);
+      expect(intersectsRect(createItem('edge', 14, 5), rect)).toBe(true);
+      expect(intersectsRect(createItem('outside', 20, 5), rect)).toBe(false);
+      expect(intersectsRect(createItem('below', 5, 16), rect)).toBe(false);
+    });
+  });
+
+  describe('alignItems', () => {
+    const items = [createItem('a', -20, 0, 5, 5), createItem('b', 10, 8, 10, 4)];
+
+    test('should align edges to the selection bounds', () => {
+      expect(alignItems(items, 'left')).toEqual({ a: { xOffset: -20, yOffset: 0 }, b: { xOffset: -15, yOffset: 8 } });
+      expect(alignItems(items, 'right')).toEqual({ a: { xOffset: 15, yOffset: 0 }, b: { xOffset: 10, yOffset: 8 } });
+      expect(alignItems(items, 'bottom')).toEqual({ a: { xOffset: -20, yOffset: 7 }, b: { xOffset: 10, yOffset: 8 } });
+    });
+
+    test('should center items on the middle of the bounds', () => {
+      expect(alignItems(items, 'center')).toEqual({ a: { xOffset: -2.5, yOffset: 0 }, b: { xOffset: -2.5, yOffset: 8 } });
+      expect(alignItems(items, 'middle')).toEqual({ a: { xOffset: -20, yOffset: 3.5 }, b: { xOffset: 10, yOffset: 3.5 } });
+    });
+  });
+
+  describe('distributeItems', () => {
+    test('should spread items evenly between the outermost ones', () => {
+      const items = [createItem('c', 30, 0), createItem('a', -30, 5), createItem('b', 20, 10), createItem('d', 40, 0)];
+      const positions = distributeItems(items, 'horizontal');
+
+      expect(positions.a).toEqual({ xOffset: -30, yOffset: 5 });
+      expect(positions.b.xOffset).toBeCloseTo(-6.667);
+      expect(positions.c.xOffset).toBeCloseTo(16.667);
+      expect(positions.d).toEqual({ xOffset: 40, yOffset: 0 });
+    });
+
+    test('should only move items along the axis', () => {
+      const positions = distributeItems([createItem('a', 0, -10), createItem('b', 5, 0), createItem('c', 10, 30)], 'vertical');
+
+      expect(positions.b).toEqual({ xOffset: 5, yOffset: 10 });
+    });
+  });
+
+  describe('clampDelta', () => {
+    test('should keep every item inside the room', () => {
+      const starts = [{ xOffset: 40, yOffset: 0 }, { xOffset: -10, yOffset: -44 }];
+
+      expect(clampDelta(starts, 20, -20)).toEqual({ xOffset: MAX_OFFSET - 40, yOffset: -1 });
+      expect(clampDelta(starts, -3, 4)).toEqual({ xOffset: -3, yOffset: 4 });
+    });
+  });
+
+  describe('smart guides', () => {
+    test('should guide to the edges and centers of items', () => {
+      expect(getGuideTargets([createItem('a', 10, 20, 5, 4)])).toEqual({ x: [5, 10, 15], y: [16, 20, 24] });
+    });
+
+    test('should snap the closest edge or center within the threshold', () => {
+      const targets = { x: [0, 30], y: [-10] };
+
+      expect(snapToGuides(createItem('a', 6, -4.2), targets)).toEqual({ xOffset: 5, yOffset: -5, guides: { x: 0, y: -10 } });
+      expect(snapToGuides(createItem('a', 29, 0), targets)).toEqual({ xOffset: 30, yOffset: 0, guides: { x: 30 } });
+    });
+
+    test('should leave items far from every guide where they are', () => {
+      expect(snapToGuides(createItem('a', 15, 15), { x: [0, 30], y: [-10] })).toEqual({ xOffset: 15, yOffset: 15, guides: {} });
+    });
+  });
+
+  describe('copies', () => {
+    test('should copy only the group fields', () => {
+      const placed = { id: 'plant-1', ...createGroupItem('plant', 5, 5), layerOverride: 'back' as const };
+
+      expect(toAssetGroupItem(placed)).toEqual({ ...createGroupItem('plant', 5, 5), layerOverride: 'back' });
+    });
+
+    test('should offset copies and keep flip, scale and layer', () => {
+      const original = { ...createGroupItem('plant', 0, 10), scale: 1.5, rotation: 90, flipped: true, layerOverride: 'front' as const };
+
+      expect(offsetCopies([original])).toEqual([
+        { ...original, xOffset: PASTE_OFFSET.xOffset, yOffset: 10 + PASTE_OFFSET.yOffset },
+      ]);
+    });
+
+    test('should keep copies of a selection together at the room edge', () => {
+      const copies = offsetCopies([createGroupItem('chair_1', 44, 0), createGroupItem('chair_1', 30, 0)]);
+
+      expect(copies.map(copy => copy.xOffset)).toEqual([MAX_OFFSET, 31]);
+      expect(copies.map(copy => copy.yOffset)).toEqual([PASTE_OFFSET.yOffset, PASTE_OFFSET.yOffset]);
+    });
+  });
+
+  describe('asset groups', () => {
+    test('should save groups relative to their center', () => {
+      const group = createAssetGroup('group-1', '  Row of chairs ', [
+        { ...createGroupItem('chair_1', 10, 20), layerOverride: 'front' },
+        createGroupItem('chair_1', 30, 20),
+      ]);
+
+      expect(group.name).toBe('Row of chairs');
+      expect(group.items).toEqual([
+        { ...createGroupItem('chair_1', -10, 0), layerOverride: 'front' },
+        createGroupItem('chair_1', 10, 0),
+      ]);
+    });
+
+    test('should place groups as a whole inside the room', () => {
+      const group = createAssetGroup('group-1', 'Desks', [createGroupItem('desk', -20, 0), createGroupItem('desk', 20, 0)]);
+
+      expect(placeAssetGroup(group, { xOffset: 0, yOffset: 5 }).map(item => item.xOffset)).toEqual([-20, 20]);
+      expect(placeAssetGroup(group, { xOffset: 40, yOffset: 0 }).map(item => item.xOffset)).toEqual([5, MAX_OFFSET]);
+    });
+
+    test('should validate stored groups', () => {
+      const group = createAssetGroup('group-1', 'Desks', [createGroupItem('desk', 0, 0)]);
+
+      expect(isAssetGroup(group)).toBe(true);
+      expect(isAssetGroup({ ...group, name: ' ' })).toBe(false);
+      expect(isAssetGroup({ ...group, items: [] })).toBe(false);
+      expect(isAssetGroup({ ...group, items: [{ ...group.items[0], scale: 'big' }] })).toBe(false);
+      expect(isAssetGroup(null)).toBe(false);
+    });
+
+    test('should validate stored items', () => {
+      expect(isAssetGroupItem(createGroupItem('desk', 0, 0))).toBe(true);
+      expect(isAssetGroupItem({ ...createGroupItem('desk', 0, 0), flipped: 'yes' })).toBe(false);
+      expect(isAssetGroupItem({ ...createGroupItem('desk', 0, 0), layerOverride: 'middle' })).toBe(false);
+      expect(isAssetGroupItem('desk')).toBe(false);
+    });
+  });
+});
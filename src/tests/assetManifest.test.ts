@@ -0,0 +1,48 @@
+/**
+ * Unit tests for the asset manifest and the catalog built from it
+ */
+
+import { describe, test, expect } from 'vitest';
+import { readdirSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { AssetCategory, validateAsset } from '../types/models.js';
+import { ASSET_CATALOG, parseAssetManifest, toAsset } from '../utils/assetCatalog.js';
+import manifest from '../utils/assetManifest.json';
+
+const ASSET_FILES = readdirSync(fileURLToPath(new URL('../../assets/', import.meta.url)));
+
+describe('Asset Manifest', () => {
+  test('every manifest entry should have a matching file in assets/', () => {
+    const missing = ASSET_CATALOG.filter(asset => !ASSET_FILES.includes(asset.imageUrl)).map(asset => asset.imageUrl);
+    expect(missing).toEqual([]);
+  });
+
+  test('every manifest entry should be a valid asset', () => {
+    expect(ASSET_CATALOG.length).toBe(manifest.length);
+    for (const asset of ASSET_CATALOG) {
+      expect(validateAsset(toAsset(asset))).toBe(true);
+    }
+  });
+
+  test('should have unique ids', () => {
+    expect(new Set(ASSET_CATALOG.map(asset => asset.id)).size).toBe(ASSET_CATALOG.length);
+  });
+
+  test('should reject malformed entries', () => {
+    const entry = { id: 'lamp', name: 'Lamp', category: 'lighting', file: 'lamp.png', sizeScale: 1, layer: 'standing', tags: [] };
+
+    expect(parseAssetManifest([entry])[0]).toEqual({
+      id: 'lamp', name: 'Lamp', category: 'lighting', imageUrl: 'lamp.png', sizeScale: 1, layer: 'standing', tags: [],
+    });
+    expect(() => parseAssetManifest([{ ...entry, category: 'decor' }])).toThrow('Invalid asset manifest entry 0 (lamp)');
+    expect(() => parseAssetManifest([{ ...entry, sizeScale: 0 }])).toThrow('Invalid asset manifest entry 0 (lamp)');
+    expect(() => parseAssetManifest([{ ...entry, layer: 'ceiling' }])).toThrow('Invalid asset manifest entry 0 (lamp)');
+    expect(() => parseAssetManifest([entry, entry])).toThrow('Invalid asset manifest entry 1 (lamp): duplicate id');
+  });
+
+  test('should size Devvit assets from the size scale', () => {
+    const asset = toAsset(ASSET_CATALOG.find(a => a.id === 'desk')!, 'https://cdn.example/desk.png');
+
+    expect(asset).toMatchObject({ category: AssetCategory.FURNITURE, imageUrl: 'https://cdn.example/desk.png', width: 280, height: 280 });
+  });
+});
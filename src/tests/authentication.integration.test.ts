@@ -38,10 +38,14 @@ describe('Authentication Integration Tests', () => {
       sMembers: vi.fn(async (key: string) => {
         return Array.from(redisSetStore.get(key) || []);
       }),
+      sRem: vi.fn(async (key: string, members: string[]) => {
+        return members.filter(m => redisSetStore.get(key)?.delete(m)).length;
+      }),
       zAdd: vi.fn(),
       zRevRange: vi.fn(),
       zRevRank: vi.fn(),
       zIncrBy: vi.fn(),
+      zRem: vi.fn(),
     };
 
     // Create mock context
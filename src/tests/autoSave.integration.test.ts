@@ -5,7 +5,7 @@
  */
 
 import { describe, test, expect, beforeEach, vi, afterEach } from 'vitest';
-import { AutoSaveManager, SaveStatus } from '../utils/AutoSaveManager.js';
+import { AutoSaveManager, DesignSaver, SaveStatus } from '../utils/AutoSaveManager.js';
 import { StorageService, RedisClient } from '../storage/StorageService.js';
 import { Design } from '../types/models.js';
 
@@ -50,6 +50,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -449,4 +454,21 @@ describe('AutoSave Integration Tests', () => {
     expect(savedDesign!.assets[0].rotation).toBe(90);
     expect(savedDesign!.backgroundColor).toBe('#00FF00');
   });
+
+  test('saves through any DesignSaver and forceSave waits for it', async () => {
+    const saved: string[] = [];
+    const saver: DesignSaver<{ id: string }> = {
+      saveDesign: async (design) => {
+        saved.push(design.id);
+      },
+    };
+    const draftManager = new AutoSaveManager(saver, { debounceMs: 2000 });
+
+    draftManager.scheduleAutoSave({ id: 'draft-1' });
+    await draftManager.forceSave({ id: 'draft-2' });
+
+    expect(saved).toEqual(['draft-2']);
+    expect(draftManager.getStatus()).toBe('saved');
+    draftManager.destroy();
+  });
 });
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for color conversions and the recent colors list
+ */
+
+import { describe, test, expect } from 'vitest';
+import { hslToHex, hexToHsl, addRecentColor, MAX_RECENT_COLORS } from '../utils/colors.js';
+
+describe('Color Utilities', () => {
+  describe('hslToHex', () => {
+    test('should convert primary and grey colors', () => {
+      expect(hslToHex({ hue: 0, saturation: 1, lightness: 0.5 })).toBe('#FF0000');
+      expect(hslToHex({ hue: 120, saturation: 1, lightness: 0.5 })).toBe('#00FF00');
+      expect(hslToHex({ hue: 240, saturation: 1, lightness: 0.5 })).toBe('#0000FF');
+      expect(hslToHex({ hue: 200, saturation: 0, lightness: 1 })).toBe('#FFFFFF');
+      expect(hslToHex({ hue: 0, saturation: 0, lightness: 0 })).toBe('#000000');
+    });
+
+    test('should wrap hue and clamp saturation and lightness', () => {
+      expect(hslToHex({ hue: 360, saturation: 1, lightness: 0.5 })).toBe('#FF0000');
+      expect(hslToHex({ hue: -120, saturation: 2, lightness: 0.5 })).toBe('#0000FF');
+      expect(hslToHex({ hue: 60, saturation: 1, lightness: 1.5 })).toBe('#FFFFFF');
+    });
+  });
+
+  describe('hexToHsl', () => {
+    test('should round trip hex colors', () => {
+      for (const color of ['#F1E1D6', '#4169E1', '#228B22', '#FF1493', '#8B4513', '#808080']) {
+        expect(hslToHex(hexToHsl(color)!)).toBe(color);
+      }
+    });
+
+    test('should accept lowercase colors', () => {
+      expect(hexToHsl('#ff0000')).toEqual({ hue: 0, saturation: 1, lightness: 0.5 });
+    });
+
+    test('should return null for invalid colors', () => {
+      expect(hexToHsl('red')).toBeNull();
+      expect(hexToHsl('#FFF')).toBeNull();
+    });
+  });
+
+  describe('addRecentColor', () => {
+    test('should put the color first without duplicates', () => {
+      expect(addRecentColor(['#AAAAAA', '#BBBBBB'], '#bbbbbb')).toEqual(['#BBBBBB', '#AAAAAA']);
+    });
+
+    test('should keep at most the limit', () => {
+      const recent = Array.from({ length: MAX_RECENT_COLORS }, (_, i) => `#00000${i}`);
+
+      const next = addRecentColor(recent, '#FFFFFF');
+      expect(next).toHaveLength(MAX_RECENT_COLORS);
+      expect(next[0]).toBe('#FFFFFF');
+      expect(next).not.toContain(recent[MAX_RECENT_COLORS - 1]);
+    });
+
+    test('should ignore invalid colors', () => {
+      const recent = ['#AAAAAA'];
+
+      expect(addRecentColor(recent, 'not-a-color')).toBe(recent);
+    });
+  });
+});
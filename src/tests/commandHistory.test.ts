@@ -0,0 +1,65 @@
+/**
+ * Unit tests for CommandHistory
+ */
+
+import { describe, test, expect } from 'vitest';
+import { CommandHistory } from '../utils/CommandHistory.js';
+
+describe('CommandHistory', () => {
+  test('undo returns commands most recent first', () => {
+    const history = new CommandHistory<string>();
+    history.push('a');
+    history.push('b');
+
+    expect(history.undo()).toBe('b');
+    expect(history.undo()).toBe('a');
+    expect(history.undo()).toBeUndefined();
+  });
+
+  test('redo re-applies undone commands in order', () => {
+    const history = new CommandHistory<string>();
+    history.push('a');
+    history.push('b');
+    history.undo();
+    history.undo();
+
+    expect(history.redo()).toBe('a');
+    expect(history.redo()).toBe('b');
+    expect(history.redo()).toBeUndefined();
+    expect(history.canUndo()).toBe(true);
+  });
+
+  test('pushing a new command clears the redo stack', () => {
+    const history = new CommandHistory<string>();
+    history.push('a');
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+
+    history.push('b');
+    expect(history.canRedo()).toBe(false);
+  });
+
+  test('drops the oldest commands beyond maxSize', () => {
+    const history = new CommandHistory<number>({ maxSize: 3 });
+    for (let i = 1; i <= 5; i++) {
+      history.push(i);
+    }
+
+    expect(history.size()).toBe(3);
+    expect(history.undo()).toBe(5);
+    expect(history.undo()).toBe(4);
+    expect(history.undo()).toBe(3);
+    expect(history.undo()).toBeUndefined();
+  });
+
+  test('clear empties both stacks', () => {
+    const history = new CommandHistory<string>();
+    history.push('a');
+    history.push('b');
+    history.undo();
+    history.clear();
+
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for isometric depth sorting
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Design, PlacedAsset } from '../types/models.js';
+import { getDepthLayer, sortByDepth, getDesignDrawOrder, DepthSortItem } from '../utils/depthSort.js';
+import { DesignManager } from '../managers/DesignManager.js';
+
+describe('Depth Sorting Unit Tests', () => {
+  const createAsset = (assetId: string, y: number, zIndex: number, extra: Partial<PlacedAsset> = {}): PlacedAsset => ({
+    assetId,
+    x: 100,
+    y,
+    rotation: 0,
+    zIndex,
+    ...extra,
+  });
+
+  const createTestDesign = (assets: PlacedAsset[], layerMode?: Design['layerMode']): Design => ({
+    id: 'test_design_1',
+    userId: 'user_123',
+    username: 'testuser',
+    themeId: 'theme_school_001',
+    backgroundColor: '#FFFFFF',
+    assets,
+    layerMode,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    submitted: false,
+    voteCount: 0,
+  });
+
+  const drawOrderIds = (design: Design) => getDesignDrawOrder(design).map(({ asset }) => asset.assetId);
+
+  describe('Layer Rules', () => {
+    test('should put rugs on the floor layer', () => {
+      expect(getDepthLayer('rug_1')).toBe('floor');
+      expect(getDepthLayer('carpet', 'rug')).toBe('floor');
+    });
+
+    test('should put wall items on the wall layer', () => {
+      expect(getDepthLayer('poster_1')).toBe('wall');
+      expect(getDepthLayer('clock')).toBe('wall');
+      expect(getDepthLayer('calendar')).toBe('wall');
+    });
+
+    test('should treat everything else as standing in the room', () => {
+      expect(getDepthLayer('desk')).toBe('standing');
+      expect(getDepthLayer('chair_1')).toBe('standing');
+    });
+  });
+
+  describe('Depth Mode', () => {
+    test('should draw items lower on the floor in front of items further back', () => {
+      const design = createTestDesign([
+        createAsset('chair_1', 400, 0),
+        createAsset('desk', 200, 1),
+        createAsset('lamp', 300, 2),
+      ], 'depth');
+
+      expect(drawOrderIds(design)).toEqual(['desk', 'lamp', 'chair_1']);
+    });
+
+    test('should keep rugs under and wall items behind standing items', () => {
+      const design = createTestDesign([
+        createAsset('desk', 100, 0),
+        createAsset('clock', 500, 1),
+        createAsset('rug_1', 550, 2),
+      ], 'depth');
+
+      expect(drawOrderIds(design)).toEqual(['rug_1', 'clock', 'desk']);
+    });
+
+    test('should break ties on position by z-index', () => {
+      const design = createTestDesign([
+        createAsset('chair_1', 300, 5),
+        createAsset('chair_2', 300, 2),
+      ], 'depth');
+
+      expect(drawOrderIds(design)).toEqual(['chair_2', 'chair_1']);
+    });
+
+    test('should let overrides win over depth', () => {
+      const design = createTestDesign([
+        createAsset('desk', 100, 0, { layerOverride: 'front' }),
+        createAsset('chair_1', 500, 1),
+        createAsset('rug_1', 300, 2, { layerOverride: 'back' }),
+        createAsset('plant', 50, 3, { layerOverride: 'back' }),
+      ], 'depth');
+
+      expect(drawOrderIds(design)).toEqual(['rug_1', 'plant', 'chair_1', 'desk']);
+    });
+  });
+
+  describe('Manual Mode', () => {
+    test('should stack by z-index only for designs without a layer mode', () => {
+      const design = createTestDesign([
+        createAsset('chair_1', 400, 2),
+        createAsset('rug_1', 500, 1),
+        createAsset('clock', 100, 0),
+      ]);
+
+      expect(drawOrderIds(design)).toEqual(['clock', 'rug_1', 'chair_1']);
+    });
+
+    test('should still apply overrides', () => {
+      const design = createTestDesign([
+        createAsset('chair_1', 400, 0, { layerOverride: 'front' }),
+        createAsset('desk', 500, 1),
+      ], 'manual');
+
+      expect(drawOrderIds(design)).toEqual(['desk', 'chair_1']);
+    });
+
+    test('should keep original indices and not mutate the design', () => {
+      const design = createTestDesign([
+        createAsset('chair_1', 400, 1),
+        createAsset('desk', 500, 0),
+      ], 'manual');
+
+      expect(getDesignDrawOrder(design).map(({ originalIndex }) => originalIndex)).toEqual([1, 0]);
+      expect(design.assets.map(a => a.assetId)).toEqual(['chair_1', 'desk']);
+    });
+  });
+
+  test('sortByDepth should work with any item shape', () => {
+    const items = [{ name: 'b', top: 20 }, { name: 'a', top: 10 }];
+    const toSortItem = (item: { name: string; top: number }, index: number): DepthSortItem => ({
+      assetId: item.name,
+      floorY: item.top,
+      order: index,
+    });
+
+    expect(sortByDepth(items, toSortItem).map(i => i.name)).toEqual(['a', 'b']);
+    expect(sortByDepth(items, toSortItem, 'manual').map(i => i.name)).toEqual(['b', 'a']);
+  });
+
+  describe('DesignManager Layering', () => {
+    test('should create designs in depth mode', () => {
+      const manager = new DesignManager();
+      const design = manager.createDesign('user_1', 'theme_1');
+
+      expect(design.layerMode).toBe('depth');
+    });
+
+    test('should persist bring-to-front and send-to-back overrides and undo them', () => {
+      const manager = new DesignManager();
+      const design = manager.createDesign('user_1', 'theme_1');
+      manager.placeAsset(design.id, 'desk', 100, 100);
+      manager.placeAsset(design.id, 'chair_1', 100, 300);
+
+      manager.bringToFront(design.id, 0);
+      expect(design.assets[0].layerOverride).toBe('front');
+      expect(drawOrderIds(design)).toEqual(['chair_1', 'desk']);
+
+      manager.sendToBack(design.id, 0);
+      expect(design.assets[0].layerOverride).toBe('back');
+
+      manager.undo(design.id);
+      expect(design.assets[0].layerOverride).toBe('front');
+      manager.undo(design.id);
+      expect(design.assets[0]).not.toHaveProperty('layerOverride');
+    });
+
+    test('should step z-index past the neighbouring asset', () => {
+      const manager = new DesignManager();
+      const design = manager.createDesign('user_1', 'theme_1');
+      manager.setLayerMode(design.id, 'manual');
+      manager.placeAsset(design.id, 'desk', 100, 100);
+      manager.placeAsset(design.id, 'chair_1', 100, 100);
+      design.assets[1].zIndex = 5;
+
+      manager.adjustZIndex(design.id, 0, 'up');
+      expect(design.assets[0].zIndex).toBe(6);
+      expect(drawOrderIds(design)).toEqual(['chair_1', 'desk']);
+
+      manager.adjustZIndex(design.id, 0, 'down');
+      expect(design.assets[0].zIndex).toBe(4);
+      expect(drawOrderIds(design)).toEqual(['desk', 'chair_1']);
+    });
+  });
+});
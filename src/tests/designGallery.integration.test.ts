@@ -4,7 +4,7 @@
  * Tests Requirements: 5.4, 5.5, 14.2
  */
 
-import { describe, test, expect, beforeEach } from 'vitest';
+import { describe, test, expect, beforeEach, vi } from 'vitest';
 import { SubmissionHandler } from '../handlers/SubmissionHandler.js';
 import { VotingService, VoteType } from '../services/VotingService.js';
 import { StorageService, RedisClient } from '../storage/StorageService.js';
@@ -49,6 +49,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
     if (!this.sortedSets.has(key)) {
       this.sortedSets.set(key, new Map());
@@ -96,6 +101,11 @@ class MockRedisClient implements RedisClient {
     return newScore;
   }
 
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -226,12 +236,15 @@ describe('DesignGallery Integration Tests', () => {
       });
     }
 
-    // Submit all designs
-    for (const design of designs) {
+    // Submit all designs, oldest first, a minute apart
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (const design of [...designs].reverse()) {
+      vi.setSystemTime(design.createdAt);
       // Set auth to match the design's user
       authService.setMockUser({ id: design.userId, username: design.username });
       await submissionHandler.submitDesign(design);
     }
+    vi.useRealTimers();
 
     // Load first page
     const page1 = await submissionHandler.getSubmittedDesigns(themeId, pageSize, 0);
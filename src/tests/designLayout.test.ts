@@ -0,0 +1,57 @@
+/**
+ * Unit tests for the shared design layout rules
+ */
+
+import { describe, test, expect } from 'vitest';
+import { PlacedAsset } from '../types/models.js';
+import { layoutDesign, getAssetTransform, fitContain, BASE_ASSET_SIZE } from '../utils/designLayout.js';
+
+describe('Design Layout Unit Tests', () => {
+  const createAsset = (assetId: string, y: number, extra: Partial<PlacedAsset> = {}): PlacedAsset => ({
+    assetId,
+    x: 400,
+    y,
+    rotation: 0,
+    zIndex: 0,
+    scale: 1,
+    flipped: false,
+    ...extra,
+  });
+
+  const sizeScales: Record<string, number> = { desk: 1.4, mouse: 0.5 };
+  const getSizeScale = (assetId: string) => sizeScales[assetId] ?? 1;
+
+  test('should size assets from the catalog size and the asset scale', () => {
+    const boxes = layoutDesign({
+      assets: [createAsset('desk', 300, { scale: 2 }), createAsset('unknown', 300, { zIndex: 1 })],
+      layerMode: 'manual',
+    }, getSizeScale);
+
+    expect(boxes[0].size).toBeCloseTo(BASE_ASSET_SIZE * 1.4 * 2);
+    expect(boxes[1].size).toBeCloseTo(BASE_ASSET_SIZE);
+  });
+
+  test('should return boxes in draw order', () => {
+    const boxes = layoutDesign({
+      assets: [createAsset('desk', 500), createAsset('rug_1', 550), createAsset('mouse', 100)],
+      layerMode: 'depth',
+    }, getSizeScale);
+
+    expect(boxes.map(box => box.asset.assetId)).toEqual(['rug_1', 'mouse', 'desk']);
+  });
+
+  test('should build an SVG transform that rotates and flips about the center', () => {
+    const [box] = layoutDesign({
+      assets: [createAsset('desk', 250, { x: 100, rotation: 45, flipped: true })],
+      layerMode: 'depth',
+    }, getSizeScale);
+
+    expect(getAssetTransform(box)).toBe('translate(100 250) rotate(45) scale(-1 1)');
+    expect(getAssetTransform({ ...box, flipped: false })).toBe('translate(100 250) rotate(45)');
+  });
+
+  test('should fit images inside their box keeping the aspect ratio', () => {
+    expect(fitContain(200, 100, 100, 100)).toEqual({ x: 0, y: 25, width: 100, height: 50 });
+    expect(fitContain(100, 200, 100, 100)).toEqual({ x: 25, y: 0, width: 50, height: 100 });
+  });
+});
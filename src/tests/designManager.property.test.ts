@@ -6,6 +6,7 @@
 import { describe, test, expect } from 'vitest';
 import fc from 'fast-check';
 import { DesignManager } from '../managers/DesignManager.js';
+import { validatePlacedAsset, MIN_ASSET_SCALE, MAX_ASSET_SCALE } from '../types/models.js';
 
 // Generators
 const hexColorGen = fc.hexaString({ minLength: 6, maxLength: 6 }).map(s => `#${s.toUpperCase()}`);
@@ -187,4 +188,123 @@ describe('DesignManager Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  // Feature: reddit-room-design-game, Property: Undo/Redo Round Trip
+  test('Property: Undo/Redo Round Trip - undoing every edit restores the original design, redoing restores the edited one', () => {
+    const editGen = fc.oneof(
+      fc.record({ op: fc.constant('place' as const), x: fc.integer({ min: 0, max: 800 }), y: fc.integer({ min: 0, max: 600 }) }),
+      fc.record({ op: fc.constant('move' as const), x: fc.integer({ min: -100, max: 900 }), y: fc.integer({ min: -100, max: 700 }) }),
+      fc.record({ op: fc.constant('rotate' as const) }),
+      fc.record({ op: fc.constant('turn' as const), degrees: fc.double({ min: -720, max: 720, noNaN: true }) }),
+      fc.record({ op: fc.constant('scale' as const), scale: fc.double({ min: 0.01, max: 5, noNaN: true }) }),
+      fc.record({ op: fc.constant('flip' as const) }),
+      fc.record({ op: fc.constant('remove' as const) }),
+      fc.record({ op: fc.constantFrom('up' as const, 'down' as const) }),
+      fc.record({ op: fc.constant('recolor' as const), color: hexColorGen })
+    );
+
+    fc.assert(
+      fc.property(fc.array(editGen, { maxLength: 30 }), (edits) => {
+        const manager = new DesignManager({ historySize: 100 });
+        const design = manager.createDesign('user_1', 'theme_1', 'user');
+        const snapshot = () => JSON.stringify({ assets: design.assets, backgroundColor: design.backgroundColor });
+        const original = snapshot();
+
+        let applied = 0;
+        for (const edit of edits) {
+          const last = design.assets.length - 1;
+          if (edit.op === 'place') {
+            manager.placeAsset(design.id, 'chair_1', edit.x, edit.y);
+          } else if (edit.op === 'recolor') {
+            manager.updateBackgroundColor(design.id, edit.color);
+          } else if (last < 0) {
+            continue;
+          } else if (edit.op === 'move') {
+            manager.moveAsset(design.id, last, edit.x, edit.y);
+          } else if (edit.op === 'rotate') {
+            manager.rotateAsset(design.id, last);
+          } else if (edit.op === 'turn') {
+            manager.setRotation(design.id, last, edit.degrees);
+          } else if (edit.op === 'scale') {
+            manager.scaleAsset(design.id, last, edit.scale);
+          } else if (edit.op === 'flip') {
+            manager.flipAsset(design.id, last);
+          } else if (edit.op === 'remove') {
+            manager.removeAsset(design.id, last);
+          } else if (edit.op === 'down' && design.assets[last].zIndex === 0) {
+            continue;
+          } else {
+            manager.adjustZIndex(design.id, last, edit.op);
+          }
+          applied++;
+        }
+        const edited = snapshot();
+
+        for (let i = 0; i < applied; i++) {
+          expect(manager.undo(design.id)).toBe(true);
+        }
+        expect(manager.canUndo(design.id)).toBe(false);
+        expect(snapshot()).toBe(original);
+
+        for (let i = 0; i < applied; i++) {
+          expect(manager.redo(design.id)).toBe(true);
+        }
+        expect(manager.canRedo(design.id)).toBe(false);
+        expect(snapshot()).toBe(edited);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: reddit-room-design-game, Property: Bounded History
+  test('Property: Bounded History - only the most recent historySize edits can be undone', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 10 }), fc.integer({ min: 0, max: 30 }), (historySize, placements) => {
+        const manager = new DesignManager({ historySize });
+        const design = manager.createDesign('user_1', 'theme_1', 'user');
+
+        for (let i = 0; i < placements; i++) {
+          manager.placeAsset(design.id, 'chair_1', 100, 100);
+        }
+
+        let undone = 0;
+        while (manager.undo(design.id)) {
+          undone++;
+        }
+
+        expect(undone).toBe(Math.min(historySize, placements));
+        expect(design.assets.length).toBe(placements - undone);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  // Feature: reddit-room-design-game, Property: Scale Bounds
+  test('Property: Scale Bounds - scaled and rotated assets always stay valid', () => {
+    fc.assert(
+      fc.property(
+        fc.double({ min: -10, max: 10, noNaN: true }),
+        fc.double({ min: -1000, max: 1000, noNaN: true }),
+        fc.boolean(),
+        (scale, degrees, flip) => {
+          const manager = new DesignManager();
+          const design = manager.createDesign('user_1', 'theme_1', 'user');
+          manager.placeAsset(design.id, 'desk', 100, 100);
+
+          manager.scaleAsset(design.id, 0, scale);
+          manager.setRotation(design.id, 0, degrees);
+          if (flip) {
+            manager.flipAsset(design.id, 0);
+          }
+
+          const asset = design.assets[0];
+          expect(validatePlacedAsset(asset)).toBe(true);
+          expect(asset.scale).toBeGreaterThanOrEqual(MIN_ASSET_SCALE);
+          expect(asset.scale).toBeLessThanOrEqual(MAX_ASSET_SCALE);
+          expect(asset.flipped).toBe(flip);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
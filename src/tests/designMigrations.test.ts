@@ -0,0 +1,209 @@
+/**
+ * Unit tests for design schema migrations
+ */
+
+import { describe, test, expect } from 'vitest';
+import { DESIGN_SCHEMA_VERSION, validateDesign } from '../types/models.js';
+import { migrateDesign, offsetToCanvas, canvasToOffset, DESIGN_MIGRATIONS } from '../utils/designMigrations.js';
+import { DEFAULT_ROOM_ID } from '../utils/roomBases.js';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+
+// Mock Redis client for testing
+class MockRedisClient implements RedisClient {
+  private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async sAdd(key: string, members: string[]): Promise<number> {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    const sizeBefore = set.size;
+    members.forEach(member => set.add(member));
+    return set.size - sizeBefore;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) ?? []);
+  }
+
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(): Promise<number> {
+    return 0;
+  }
+
+  async zRevRange(): Promise<string[]> {
+    return [];
+  }
+
+  async zRevRank(): Promise<number | undefined> {
+    return undefined;
+  }
+
+  async zIncrBy(): Promise<number> {
+    return 0;
+  }
+
+  async zRem(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('Design Migrations Unit Tests', () => {
+  const baseDocument = {
+    id: 'design_123',
+    userId: 'user_456',
+    username: 'testuser',
+    themeId: 'theme_789',
+    backgroundColor: '#E8F4F8',
+    createdAt: 1704067200000,
+    updatedAt: 1704070800000,
+    submitted: true,
+    voteCount: 3,
+  };
+
+  describe('Coordinate Conversion', () => {
+    test('should map the room center to the canvas center', () => {
+      expect(offsetToCanvas(0, 0)).toEqual({ x: 400, y: 300 });
+      expect(canvasToOffset(400, 300)).toEqual({ xOffset: 0, yOffset: 0 });
+    });
+
+    test('should round trip editor offsets', () => {
+      const { x, y } = offsetToCanvas(-25, 40);
+      const offset = canvasToOffset(x, y);
+      expect(offset.xOffset).toBeCloseTo(-25);
+      expect(offset.yOffset).toBeCloseTo(40);
+    });
+  });
+
+  describe('Unversioned Documents', () => {
+    test('should fill defaults on Blocks app documents', () => {
+      const design = migrateDesign({
+        ...baseDocument,
+        assets: [{ assetId: 'desk', x: 150, y: 200, rotation: 90, zIndex: 2 }],
+      });
+
+      expect(design.schemaVersion).toBe(DESIGN_SCHEMA_VERSION);
+      expect(design.layerMode).toBe('manual');
+      expect(design.assets).toEqual([
+        { assetId: 'desk', x: 150, y: 200, rotation: 90, zIndex: 2, scale: 1, flipped: false },
+      ]);
+      expect(validateDesign(design)).toBe(true);
+    });
+
+    test('should convert web editor offsets and use list order as z-index', () => {
+      const design = migrateDesign({
+        ...baseDocument,
+        layerMode: 'depth',
+        assets: [
+          { id: 'desk-1', assetId: 'desk', xOffset: 0, yOffset: 0, scale: 1.5, flipped: true },
+          { id: 'rug_1-2', assetId: 'rug_1', xOffset: 25, yOffset: -50, rotation: -90, layerOverride: 'back' },
+        ],
+      });
+
+      expect(design.layerMode).toBe('depth');
+      expect(design.assets).toEqual([
+        { assetId: 'desk', x: 400, y: 300, rotation: 0, zIndex: 0, scale: 1.5, flipped: true },
+        { assetId: 'rug_1', x: 600, y: 0, rotation: 270, zIndex: 1, scale: 1, flipped: false, layerOverride: 'back' },
+      ]);
+      expect(validateDesign(design)).toBe(true);
+    });
+
+    test('should clamp out-of-range values into the schema', () => {
+      const design = migrateDesign({
+        ...baseDocument,
+        assets: [{ assetId: 'lamp', xOffset: 80, yOffset: -80, scale: 20, rotation: NaN }],
+      });
+
+      expect(design.assets[0]).toMatchObject({ x: 800, y: 0, scale: 3, rotation: 0 });
+      expect(validateDesign(design)).toBe(true);
+    });
+
+    test('should turn malformed assets into invalid ones rather than throw', () => {
+      const design = migrateDesign({ ...baseDocument, assets: [null, { assetId: 7, x: '10' }] });
+
+      expect(design.assets).toEqual([
+        { assetId: '', x: 0, y: 0, rotation: 0, zIndex: 0, scale: 1, flipped: false },
+        { assetId: '', x: 0, y: 0, rotation: 0, zIndex: 1, scale: 1, flipped: false },
+      ]);
+      expect(validateDesign(design)).toBe(false);
+    });
+
+    test('should keep unrelated fields', () => {
+      const design = migrateDesign({ ...baseDocument, assets: [] });
+
+      expect(design.id).toBe('design_123');
+      expect(design.voteCount).toBe(3);
+      expect(design.submitted).toBe(true);
+    });
+  });
+
+  describe('Room Bases', () => {
+    test('should put version 1 documents in the default room', () => {
+      const design = migrateDesign({ ...baseDocument, assets: [], layerMode: 'depth', schemaVersion: 1 });
+
+      expect(design.roomId).toBe(DEFAULT_ROOM_ID);
+      expect(design.schemaVersion).toBe(DESIGN_SCHEMA_VERSION);
+      expect(validateDesign(design)).toBe(true);
+    });
+
+    test('should keep a room a client already sent', () => {
+      const design = migrateDesign({ ...baseDocument, roomId: 'classroom', assets: [], schemaVersion: 1 });
+
+      expect(design.roomId).toBe('classroom');
+    });
+  });
+
+  describe('Versioned Documents', () => {
+    test('should leave current documents unchanged', () => {
+      const current = {
+        ...baseDocument,
+        assets: [{ assetId: 'desk', x: 150, y: 200, rotation: 45, zIndex: 0, scale: 2, flipped: false }],
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION,
+      };
+
+      expect(migrateDesign(current)).toEqual(current);
+    });
+
+    test('should reject documents from a newer schema', () => {
+      expect(() => migrateDesign({ ...baseDocument, schemaVersion: DESIGN_SCHEMA_VERSION + 1 }))
+        .toThrow('Unsupported design schema version');
+    });
+
+    test('should have a migration for every older version', () => {
+      for (let version = 0; version < DESIGN_SCHEMA_VERSION; version++) {
+        expect(DESIGN_MIGRATIONS[version]).toBeDefined();
+      }
+    });
+  });
+
+  test('StorageService should migrate designs on read', async () => {
+    const redis = new MockRedisClient();
+    await redis.set('design:design_123', JSON.stringify({
+      ...baseDocument,
+      assets: [{ id: 'desk-1', assetId: 'desk', xOffset: 10, yOffset: 10, scale: 1, flipped: false }],
+    }));
+
+    const design = await new StorageService(redis).loadDesign('design_123');
+
+    expect(design?.schemaVersion).toBe(DESIGN_SCHEMA_VERSION);
+    expect(design?.assets[0]).toMatchObject({ x: 480, y: 360, zIndex: 0 });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for design share codes and design file import/export
+ */
+
+import { describe, test, expect } from 'vitest';
+import { PlacedAsset, DESIGN_SCHEMA_VERSION } from '../types/models.js';
+import {
+  SharedDesign,
+  DESIGN_FILE_FORMAT,
+  toSharedDesign,
+  encodeShareCode,
+  decodeShareCode,
+  formatDesignFile,
+  readDesignImport,
+} from '../utils/designSharing.js';
+import { DEFAULT_ROOM_ID } from '../utils/roomBases.js';
+
+describe('Design Sharing', () => {
+  const createAsset = (assetId: string, x: number, y: number, zIndex: number): PlacedAsset => ({
+    assetId,
+    x,
+    y,
+    rotation: 0,
+    zIndex,
+    scale: 1,
+    flipped: false,
+  });
+
+  const design: SharedDesign = {
+    name: 'Café corner ☕',
+    roomId: DEFAULT_ROOM_ID,
+    backgroundColor: '#F1E1D6',
+    roomColors: { wall: '#AABBCC', floorPattern: 'tile' },
+    layerMode: 'depth',
+    assets: [
+      createAsset('desk', 120.5, 300.25, 0),
+      { ...createAsset('chair_1', 200, 310, 1), rotation: 90, scale: 1.5, flipped: true, layerOverride: 'front' },
+    ],
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+  };
+
+  describe('toSharedDesign', () => {
+    test('should keep only the room, dropping owner, theme and votes', () => {
+      const shared = toSharedDesign({
+        ...design,
+        id: 'design-1',
+        userId: 'user-1',
+        username: 'player',
+        themeId: 'theme-1',
+        createdAt: 1,
+        updatedAt: 1,
+        submitted: true,
+        voteCount: 12,
+      });
+
+      expect(shared).toEqual(design);
+    });
+  });
+
+  describe('share codes', () => {
+    test('should round trip a design using URL-safe characters only', () => {
+      const code = encodeShareCode(design);
+
+      expect(code).toMatch(/^room1\.[A-Za-z0-9_-]+$/);
+      expect(readDesignImport(code)).toEqual({ design, errors: [] });
+    });
+
+    test('should round positions and keep rotations in range', () => {
+      const code = encodeShareCode({ ...design, assets: [{ ...createAsset('desk', 100.123456, 50.005, 0), rotation: 359.999 }] });
+
+      expect(decodeShareCode(code).assets).toEqual([{ ...createAsset('desk', 100.12, 50.01, 0), rotation: 0 }]);
+    });
+
+    test('should reject text that is not a share code', () => {
+      expect(() => decodeShareCode('hello')).toThrow('Not a share code');
+      expect(() => decodeShareCode('room1.!!!')).toThrow();
+    });
+  });
+
+  describe('design files', () => {
+    test('should format a readable file that imports back', () => {
+      const file = formatDesignFile(design);
+
+      expect(JSON.parse(file).format).toBe(DESIGN_FILE_FORMAT);
+      expect(file).toContain('\n  "roomId"');
+      expect(readDesignImport(file)).toEqual({ design, errors: [] });
+    });
+
+    test('should upgrade older design documents', () => {
+      const { design: imported, errors } = readDesignImport(JSON.stringify({
+        backgroundColor: '#FFFFFF',
+        assets: [{ assetId: 'desk', xOffset: 0, yOffset: 0 }],
+      }));
+
+      expect(errors).toEqual([]);
+      expect(imported).toMatchObject({ roomId: DEFAULT_ROOM_ID, layerMode: 'manual', schemaVersion: DESIGN_SCHEMA_VERSION });
+      expect(imported!.assets[0]).toMatchObject({ assetId: 'desk', x: 400, y: 300 });
+    });
+  });
+
+  describe('readDesignImport', () => {
+    test('should report every unknown or invalid item by position', () => {
+      const { design: imported, errors } = readDesignImport(formatDesignFile({
+        ...design,
+        assets: [
+          createAsset('desk', 100, 100, 0),
+          createAsset('spaceship', 100, 100, 1),
+          { ...createAsset('chair_1', 100, 100, 2), scale: 10 },
+          { ...createAsset('', 100, 100, 3) },
+        ],
+      }));
+
+      expect(imported).toBeNull();
+      expect(errors).toEqual([
+        'Item 2 is an unknown asset "spaceship"',
+        'Item 3 ("chair_1") has an invalid position, rotation, size or flip',
+        'Item 4 has no asset id',
+      ]);
+    });
+
+    test('should report an unknown room and bad colors', () => {
+      const { errors } = readDesignImport(formatDesignFile({
+        ...design,
+        roomId: 'castle',
+        backgroundColor: 'red',
+        roomColors: { floorPattern: 'marble' as never },
+        layerMode: 'stacked' as never,
+      }));
+
+      expect(errors).toEqual([
+        'Unknown room "castle"',
+        'The background color is not a hex color like #F1E1D6',
+        'The room colors must be hex colors, with a wood, tile or carpet floor',
+        'The layer mode must be "depth" or "manual"',
+      ]);
+    });
+
+    test('should reject other text and newer schema versions', () => {
+      expect(readDesignImport('not a design').errors).toEqual(['This is not a design share code or design file']);
+      expect(readDesignImport('{"format": "spreadsheet", "assets": []}').errors).toEqual(['This is not a design file']);
+      expect(readDesignImport('{"name": "empty"}').errors).toEqual(['The design has no list of items']);
+      expect(readDesignImport(formatDesignFile({ ...design, schemaVersion: DESIGN_SCHEMA_VERSION + 1 })).errors)
+        .toEqual([`Unsupported design schema version: ${DESIGN_SCHEMA_VERSION + 1}`]);
+    });
+
+    test('should tidy up the imported name', () => {
+      const { design: imported } = readDesignImport(formatDesignFile({ ...design, name: '   ' }));
+
+      expect(imported).not.toBeNull();
+      expect(imported!.name).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Unit tests for server-side design thumbnails
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Design, PlacedAsset, DESIGN_SCHEMA_VERSION } from '../types/models.js';
+import { renderThumbnailSvg } from '../utils/designThumbnail.js';
+import { ThumbnailService } from '../services/ThumbnailService.js';
+import { downscalePng } from '../client/thumbnailImages.js';
+import { PNG } from 'pngjs';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+
+// Mock Redis client for testing
+class MockRedisClient implements RedisClient {
+  private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async sAdd(key: string, members: string[]): Promise<number> {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    const sizeBefore = set.size;
+    members.forEach(member => set.add(member));
+    return set.size - sizeBefore;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) ?? []);
+  }
+
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(): Promise<number> {
+    return 0;
+  }
+
+  async zRevRange(): Promise<string[]> {
+    return [];
+  }
+
+  async zRevRank(): Promise<number | undefined> {
+    return undefined;
+  }
+
+  async zIncrBy(): Promise<number> {
+    return 0;
+  }
+
+  async zRem(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('Design Thumbnail Unit Tests', () => {
+  const createAsset = (assetId: string, y: number, extra: Partial<PlacedAsset> = {}): PlacedAsset => ({
+    assetId,
+    x: 400,
+    y,
+    rotation: 0,
+    zIndex: 0,
+    scale: 1,
+    flipped: false,
+    ...extra,
+  });
+
+  const createDesign = (assets: PlacedAsset[]): Design => ({
+    id: 'design_123',
+    userId: 'user_456',
+    username: 'testuser',
+    themeId: 'theme_789',
+    roomId: 'window_left',
+    assets,
+    backgroundColor: '#E8F4F8',
+    createdAt: 1704067200000,
+    updatedAt: 1704070800000,
+    submitted: false,
+    voteCount: 0,
+    layerMode: 'depth',
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+  });
+
+  describe('renderThumbnailSvg', () => {
+    test('should draw the background and room before the assets', () => {
+      const svg = renderThumbnailSvg(createDesign([createAsset('desk', 300)]));
+
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+      expect(svg).toContain('viewBox="0 0 800 600"');
+      expect(svg.indexOf('fill="#E8F4F8"')).toBeLessThan(svg.indexOf('href="/thumbnails/room_2.png"'));
+      expect(svg.indexOf('href="/thumbnails/room_2.png"')).toBeLessThan(svg.indexOf('href="/thumbnails/desk.png"'));
+    });
+
+    test('should draw the chosen room base', () => {
+      const classroom = renderThumbnailSvg({ ...createDesign([]), roomId: 'classroom' });
+      const mirrored = renderThumbnailSvg({ ...createDesign([]), roomId: 'window_right' });
+
+      expect(classroom).toContain('<image href="/thumbnails/room_1.png" width="800" height="600" preserveAspectRatio');
+      expect(mirrored).toContain('<image href="/thumbnails/room_2.png" width="800" height="600" transform="translate(800 0) scale(-1 1)"');
+    });
+
+    test('should draw the default room for unknown room ids', () => {
+      const svg = renderThumbnailSvg({ ...createDesign([]), roomId: 'retired_room' });
+
+      expect(svg).toContain('href="/thumbnails/room_2.png"');
+      expect(svg).not.toContain('scale(-1 1)');
+    });
+
+    test('should multiply room colors onto the room, in front of it and behind the assets', () => {
+      const svg = renderThumbnailSvg({ ...createDesign([createAsset('desk', 300)]), roomColors: { wall: '#AABBCC', trim: '#112233' } });
+
+      expect(svg).toContain('<g style="mix-blend-mode:multiply"><polygon');
+      expect(svg.match(/fill="#AABBCC"/g)).toHaveLength(2);
+      expect(svg.match(/fill="#112233"/g)).toHaveLength(2);
+      expect(svg.indexOf('fill="#AABBCC"')).toBeLessThan(svg.indexOf('fill="#112233"'));
+      expect(svg.indexOf('href="/thumbnails/room_2.png"')).toBeLessThan(svg.indexOf('mix-blend-mode:multiply'));
+      expect(svg.indexOf('mix-blend-mode:multiply')).toBeLessThan(svg.indexOf('href="/thumbnails/desk.png"'));
+    });
+
+    test('should draw floor patterns and mirror surfaces with the room', () => {
+      const plain = renderThumbnailSvg(createDesign([]));
+      const tiled = renderThumbnailSvg({ ...createDesign([]), roomId: 'window_right', roomColors: { floor: '#8B4513', floorPattern: 'tile' } });
+
+      expect(plain).not.toContain('<polygon');
+      expect(plain).not.toContain('<line');
+      expect(tiled.match(/<line /g)).toHaveLength(14);
+      expect(tiled).toContain('<g transform="translate(800 0) scale(-1 1)" style="mix-blend-mode:multiply">');
+    });
+
+    test('should draw assets in depth order', () => {
+      const svg = renderThumbnailSvg(createDesign([createAsset('desk', 500), createAsset('chair_1', 100)]));
+
+      expect(svg.indexOf('href="/thumbnails/chair_1.png"')).toBeLessThan(svg.indexOf('href="/thumbnails/desk.png"'));
+    });
+
+    test('should rotate and flip assets about their center', () => {
+      const svg = renderThumbnailSvg(createDesign([createAsset('chair_1', 250, { x: 100, rotation: 45, flipped: true })]));
+
+      expect(svg).toContain('x="-40" y="-40" width="80" height="80" transform="translate(100 250) rotate(45) scale(-1 1)"');
+    });
+
+    test('should skip assets missing from the catalog', () => {
+      const svg = renderThumbnailSvg(createDesign([createAsset('retired_asset', 300)]));
+
+      expect(svg.match(/<image /g)).toHaveLength(1);
+    });
+
+    test('should escape the background color', () => {
+      const svg = renderThumbnailSvg({ ...createDesign([]), backgroundColor: '"/><script>' });
+
+      expect(svg).not.toContain('<script>');
+    });
+  });
+
+  describe('ThumbnailService', () => {
+    test('should store the thumbnail when generating it', async () => {
+      const storage = new StorageService(new MockRedisClient());
+      const service = new ThumbnailService(storage);
+
+      const svg = await service.generateThumbnail(createDesign([createAsset('desk', 300)]));
+
+      expect(await storage.loadThumbnail('design_123')).toBe(svg);
+    });
+
+    test('should generate thumbnails for designs saved without one', async () => {
+      const storage = new StorageService(new MockRedisClient());
+      const service = new ThumbnailService(storage);
+      await storage.saveDesign(createDesign([createAsset('desk', 300)]));
+
+      const svg = await service.getThumbnail('design_123');
+
+      expect(svg).toContain('href="/thumbnails/desk.png"');
+      expect(await storage.loadThumbnail('design_123')).toBe(svg);
+    });
+
+    test('should render again thumbnails stored before they used downscaled images', async () => {
+      const storage = new StorageService(new MockRedisClient());
+      const service = new ThumbnailService(storage);
+      await storage.saveDesign(createDesign([createAsset('desk', 300)]));
+      await storage.saveThumbnail('design_123', '<svg><image href="/desk.png"/></svg>');
+
+      expect(await service.getThumbnail('design_123')).toContain('href="/thumbnails/desk.png"');
+    });
+
+    test('should return null for unknown designs', async () => {
+      const service = new ThumbnailService(new StorageService(new MockRedisClient()));
+
+      expect(await service.getThumbnail('missing')).toBeNull();
+    });
+
+    test('should remove the thumbnail with the design', async () => {
+      const storage = new StorageService(new MockRedisClient());
+      const service = new ThumbnailService(storage);
+      const design = createDesign([]);
+      await storage.saveDesign(design);
+      await service.generateThumbnail(design);
+
+      await storage.deleteDesign('design_123');
+
+      expect(await storage.loadThumbnail('design_123')).toBeNull();
+    });
+  });
+
+  describe('downscalePng', () => {
+    // A width x height image, each pixel colored by `fill`
+    const createPng = (width: number, height: number, fill: (x: number, y: number) => number[]): Buffer => {
+      const png = new PNG({ width, height });
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          png.data.set(fill(x, y), (y * width + x) * 4);
+        }
+      }
+      return PNG.sync.write(png);
+    };
+
+    test('should shrink the longer side to the limit, averaging blocks of pixels', () => {
+      const source = createPng(4, 2, (x, y) => (x < 2 ? [255, 0, 0, 255] : x === 3 && y === 0 ? [0, 0, 255, 255] : [0, 0, 0, 0]));
+      const image = PNG.sync.read(downscalePng(source, 2));
+
+      expect([image.width, image.height]).toEqual([2, 1]);
+      expect([...image.data]).toEqual([255, 0, 0, 255, 0, 0, 255, 64]);
+    });
+
+    test('should leave small images as they are', () => {
+      const source = createPng(2, 2, () => [1, 2, 3, 255]);
+
+      expect(downscalePng(source, 2)).toBe(source);
+    });
+  });
+});
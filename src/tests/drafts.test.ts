@@ -0,0 +1,224 @@
+/**
+ * Unit tests for resuming drafts and the local draft kept while offline
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Design, DESIGN_SCHEMA_VERSION, MAX_DESIGN_NAME_LENGTH, validateDesign } from '../types/models.js';
+import {
+  DraftDesign,
+  LocalDraft,
+  LocalDrafts,
+  getLocalDraftKey,
+  createNewDraftKey,
+  isNewDraftKey,
+  isLocalDraft,
+  parseLocalDrafts,
+  findLatestLocalDraft,
+  listThemeDesigns,
+  findLatestDesign,
+  normalizeDesignName,
+  duplicateDesign,
+  createRemix,
+  isLocalDraftNewer,
+} from '../utils/drafts.js';
+
+describe('Draft Utilities', () => {
+  const createDesign = (id: string, themeId: string, updatedAt: number): Design => ({
+    id,
+    userId: 'user-1',
+    username: 'player',
+    themeId,
+    roomId: 'room_1',
+    backgroundColor: '#FFFFFF',
+    assets: [],
+    layerMode: 'depth',
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+    createdAt: 1000,
+    updatedAt,
+    submitted: false,
+    voteCount: 0,
+  });
+
+  const createDraft = (savedAt: number, id?: string): LocalDraft => {
+    const design: DraftDesign = {
+      ...(id ? { id } : {}),
+      themeId: 'theme-1',
+      roomId: 'room_1',
+      backgroundColor: '#FFFFFF',
+      assets: [],
+      layerMode: 'depth',
+      schemaVersion: DESIGN_SCHEMA_VERSION,
+    };
+    return { design, savedAt };
+  };
+
+  describe('listThemeDesigns', () => {
+    test('should list a theme\'s designs most recently edited first', () => {
+      const designs = [
+        createDesign('first', 'theme-1', 2000),
+        createDesign('other-theme', 'theme-2', 9000),
+        createDesign('second', 'theme-1', 5000),
+      ];
+
+      expect(listThemeDesigns(designs, 'theme-1').map(design => design.id)).toEqual(['second', 'first']);
+    });
+  });
+
+  describe('findLatestDesign', () => {
+    test('should pick the most recently updated design for the theme', () => {
+      const designs = [
+        createDesign('old', 'theme-1', 2000),
+        createDesign('other-theme', 'theme-2', 9000),
+        createDesign('latest', 'theme-1', 5000),
+      ];
+
+      expect(findLatestDesign(designs, 'theme-1')?.id).toBe('latest');
+      expect(findLatestDesign(designs, 'theme-3')).toBeNull();
+    });
+  });
+
+  describe('normalizeDesignName', () => {
+    test('should trim names and cut them to the maximum length', () => {
+      expect(normalizeDesignName('  Cozy corner ')).toBe('Cozy corner');
+      expect(normalizeDesignName('x'.repeat(MAX_DESIGN_NAME_LENGTH + 5))).toHaveLength(MAX_DESIGN_NAME_LENGTH);
+    });
+
+    test('should drop blank and non-string names', () => {
+      expect(normalizeDesignName('   ')).toBeUndefined();
+      expect(normalizeDesignName(42)).toBeUndefined();
+      expect(normalizeDesignName(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('duplicateDesign', () => {
+    test('should copy the room into a new unsubmitted draft', () => {
+      const submitted: Design = {
+        ...createDesign('design-1', 'theme-1', 5000),
+        name: 'Cozy corner',
+        backgroundColor: '#AABBCC',
+        submitted: true,
+        submittedAt: 4000,
+        voteCount: 12,
+        rating: 1234,
+      };
+
+      const copy = duplicateDesign(submitted, 'design-2', 8000);
+
+      expect(copy).toEqual({
+        ...createDesign('design-2', 'theme-1', 8000),
+        name: 'Cozy corner copy',
+        backgroundColor: '#AABBCC',
+        createdAt: 8000,
+      });
+      expect(validateDesign(copy)).toBe(true);
+    });
+
+    test('should leave unnamed drafts unnamed', () => {
+      expect(duplicateDesign(createDesign('design-1', 'theme-1', 5000), 'design-2', 8000).name).toBeUndefined();
+    });
+
+    test('should keep remix credit but not the remix count', () => {
+      const remixOf = { designId: 'design-0', userId: 'user-0', username: 'maker' };
+      const copy = duplicateDesign({ ...createDesign('design-1', 'theme-1', 5000), remixOf, remixCount: 3 }, 'design-2', 8000);
+
+      expect(copy.remixOf).toEqual(remixOf);
+      expect(copy.remixCount).toBeUndefined();
+    });
+  });
+
+  describe('createRemix', () => {
+    test('should copy the room into a new draft crediting the original', () => {
+      const original: Design = {
+        ...createDesign('design-1', 'theme-1', 5000),
+        userId: 'user-9',
+        username: 'maker',
+        name: 'Sunroom',
+        backgroundColor: '#AABBCC',
+        roomColors: { wall: '#112233' },
+        assets: [{ assetId: 'chair', x: 10, y: 20, rotation: 0, zIndex: 0, scale: 1, flipped: false }],
+        submitted: true,
+        submittedAt: 4000,
+        voteCount: 12,
+        rating: 1234,
+        revision: 2,
+        remixCount: 1,
+      };
+
+      const remix = createRemix(original, 'design-2', { id: 'user-1', username: 'player' }, 8000);
+
+      expect(remix).toEqual({
+        ...createDesign('design-2', 'theme-1', 8000),
+        name: 'Remix of u/maker',
+        backgroundColor: '#AABBCC',
+        roomColors: { wall: '#112233' },
+        assets: original.assets,
+        createdAt: 8000,
+        remixOf: { designId: 'design-1', userId: 'user-9', username: 'maker' },
+      });
+      expect(validateDesign(remix)).toBe(true);
+    });
+  });
+
+  describe('isLocalDraftNewer', () => {
+    test('should prefer local edits made after the last server save', () => {
+      const saved = createDesign('design-1', 'theme-1', 5000);
+
+      expect(isLocalDraftNewer(createDraft(6000, 'design-1'), saved)).toBe(true);
+      expect(isLocalDraftNewer(createDraft(4000, 'design-1'), saved)).toBe(false);
+      expect(isLocalDraftNewer(createDraft(4000), null)).toBe(true);
+    });
+
+    test('should prefer newer local edits to another of the player\'s drafts', () => {
+      expect(isLocalDraftNewer(createDraft(6000, 'design-0'), createDesign('design-1', 'theme-1', 5000))).toBe(true);
+      expect(isLocalDraftNewer(createDraft(4000, 'design-0'), createDesign('design-1', 'theme-1', 5000))).toBe(false);
+    });
+
+    test('should let a first draft that never reached the server win', () => {
+      expect(isLocalDraftNewer(createDraft(6000), createDesign('design-1', 'theme-1', 5000))).toBe(true);
+    });
+  });
+
+  describe('local drafts', () => {
+    test('should key drafts by theme', () => {
+      expect(getLocalDraftKey('theme-1')).toBe('draft:theme-1');
+    });
+
+    test('should key new drafts apart from design ids', () => {
+      expect(isNewDraftKey(createNewDraftKey(1000))).toBe(true);
+      expect(isNewDraftKey('design_user-1_theme-1_1000')).toBe(false);
+    });
+
+    test('should keep every draft edited offline', () => {
+      // Draft A is edited offline, then a new draft is started before A syncs
+      const drafts: LocalDrafts = {
+        'design-1': createDraft(5000, 'design-1'),
+        [createNewDraftKey(6000)]: createDraft(7000),
+      };
+
+      const stored = parseLocalDrafts(JSON.parse(JSON.stringify(drafts)));
+
+      expect(stored).toEqual(drafts);
+      expect(findLatestLocalDraft(stored)).toEqual({ key: 'new:6000', draft: createDraft(7000) });
+    });
+
+    test('should read a single draft stored by an older client as one entry', () => {
+      expect(parseLocalDrafts(createDraft(5000, 'design-1'))).toEqual({ 'design-1': createDraft(5000, 'design-1') });
+      expect(parseLocalDrafts(createDraft(5000))).toEqual({ 'new:5000': createDraft(5000) });
+    });
+
+    test('should drop stored drafts that are not valid', () => {
+      expect(parseLocalDrafts({ 'design-1': createDraft(5000, 'design-1'), 'design-2': { savedAt: 'now' } }))
+        .toEqual({ 'design-1': createDraft(5000, 'design-1') });
+      expect(parseLocalDrafts(null)).toEqual({});
+      expect(parseLocalDrafts([createDraft(5000)])).toEqual({});
+      expect(findLatestLocalDraft({})).toBeNull();
+    });
+
+    test('should validate stored drafts', () => {
+      expect(isLocalDraft(createDraft(1000, 'design-1'))).toBe(true);
+      expect(isLocalDraft({ ...createDraft(1000), savedAt: 'now' })).toBe(false);
+      expect(isLocalDraft({ savedAt: 1000, design: { themeId: 'theme-1' } })).toBe(false);
+      expect(isLocalDraft(null)).toBe(false);
+    });
+  });
+});
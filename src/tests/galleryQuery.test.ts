@@ -0,0 +1,334 @@
+/**
+ * Unit tests for paginated, sorted and filtered gallery listings
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SubmissionHandler, encodeGalleryCursor, decodeGalleryCursor } from '../handlers/SubmissionHandler.js';
+import { LeaderboardHandler, getHotScore, HOT_SCORE_DECAY_MS } from '../handlers/LeaderboardHandler.js';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+import { MockAuthService } from './mocks/MockAuthService.js';
+import { Design, DESIGN_SCHEMA_VERSION, GallerySort, PlacedAsset } from '../types/models.js';
+
+// Mock Redis client for testing
+class MockRedisClient implements RedisClient {
+  private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async sAdd(key: string, members: string[]): Promise<number> {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    const sizeBefore = set.size;
+    members.forEach(member => set.add(member));
+    return set.size - sizeBefore;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) ?? []);
+  }
+
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!sortedSet.has(member)) {
+        added++;
+      }
+      sortedSet.set(member, score);
+    }
+    return added;
+  }
+
+  async zRevRange(key: string, start: number, stop: number): Promise<string[]> {
+    const end = stop === -1 ? undefined : stop + 1;
+    return this.sortedMembers(key).slice(start, end);
+  }
+
+  async zRevRank(key: string, member: string): Promise<number | undefined> {
+    const rank = this.sortedMembers(key).indexOf(member);
+    return rank === -1 ? undefined : rank;
+  }
+
+  async zIncrBy(key: string, increment: number, member: string): Promise<number> {
+    const score = (this.sortedSets.get(key)?.get(member) ?? 0) + increment;
+    await this.zAdd(key, [{ member, score }]);
+    return score;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
+  // Highest score first, ties in reverse member order like Redis ZREVRANGE
+  private sortedMembers(key: string): string[] {
+    return Array.from(this.sortedSets.get(key)?.entries() ?? [])
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? 1 : a[0] > b[0] ? -1 : 0))
+      .map(([member]) => member);
+  }
+}
+
+describe('Gallery Query Unit Tests', () => {
+  const themeId = 'theme_gallery';
+  const baseTime = 1704067200000;
+
+  let redis: MockRedisClient;
+  let storage: StorageService;
+  let authService: MockAuthService;
+  let submissionHandler: SubmissionHandler;
+  let leaderboardHandler: LeaderboardHandler;
+
+  const createAsset = (assetId: string): PlacedAsset => ({
+    assetId,
+    x: 400,
+    y: 300,
+    rotation: 0,
+    zIndex: 0,
+    scale: 1,
+    flipped: false,
+  });
+
+  const createDesign = (index: number, extra: Partial<Design> = {}): Design => ({
+    id: `design_${index.toString().padStart(3, '0')}`,
+    userId: `user_${index}`,
+    username: `user${index}`,
+    themeId,
+    backgroundColor: '#FFFFFF',
+    assets: [],
+    createdAt: baseTime + index * 60000,
+    updatedAt: baseTime + index * 60000,
+    submitted: false,
+    voteCount: 0,
+    layerMode: 'depth',
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+    ...extra,
+  });
+
+  // Submit the way the server does: submission, then leaderboard entry for the stored copy
+  const submit = async (design: Design) => {
+    authService.setMockUser({ id: design.userId, username: design.username });
+    await submissionHandler.submitDesign(design);
+    await leaderboardHandler.addDesign((await storage.loadDesign(design.id))!);
+  };
+
+  const collectAllPages = async (sort: GallerySort, limit: number) => {
+    const ids: string[] = [];
+    let cursor = undefined;
+    do {
+      const page = await submissionHandler.getGalleryPage(themeId, { sort, limit, cursor });
+      ids.push(...page.designs.map(design => design.id));
+      cursor = page.nextCursor ? decodeGalleryCursor(page.nextCursor)! : undefined;
+    } while (cursor);
+    return ids;
+  };
+
+  beforeEach(() => {
+    redis = new MockRedisClient();
+    storage = new StorageService(redis);
+    authService = new MockAuthService();
+    submissionHandler = new SubmissionHandler(storage, authService);
+    leaderboardHandler = new LeaderboardHandler(storage);
+  });
+
+  describe('Pagination', () => {
+    test('should page through every design newest first', async () => {
+      for (let i = 0; i < 7; i++) {
+        await submit(createDesign(i));
+      }
+
+      const first = await submissionHandler.getGalleryPage(themeId, { limit: 3 });
+      expect(first.designs.map(d => d.id)).toEqual(['design_006', 'design_005', 'design_004']);
+      expect(first.nextCursor).not.toBeNull();
+
+      expect(await collectAllPages('newest', 3)).toEqual([
+        'design_006', 'design_005', 'design_004', 'design_003', 'design_002', 'design_001', 'design_000',
+      ]);
+    });
+
+    test('should not repeat designs when new ones arrive between pages', async () => {
+      for (let i = 0; i < 4; i++) {
+        await submit(createDesign(i));
+      }
+
+      const first = await submissionHandler.getGalleryPage(themeId, { limit: 2 });
+      await submit(createDesign(10));
+      const second = await submissionHandler.getGalleryPage(themeId, {
+        limit: 2,
+        cursor: decodeGalleryCursor(first.nextCursor!)!,
+      });
+
+      expect(second.designs.map(d => d.id)).toEqual(['design_001', 'design_000']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    test('should clamp the page size', async () => {
+      await submit(createDesign(0));
+      await submit(createDesign(1));
+
+      const page = await submissionHandler.getGalleryPage(themeId, { limit: 0 });
+
+      expect(page.designs).toHaveLength(1);
+    });
+
+    test('should reject malformed cursors', () => {
+      expect(decodeGalleryCursor('not a cursor')).toBeNull();
+      expect(decodeGalleryCursor(encodeGalleryCursor({ offset: -1 }))).toBeNull();
+      expect(decodeGalleryCursor(encodeGalleryCursor({ after: 'design_001', offset: 2, seed: 7 })))
+        .toEqual({ after: 'design_001', offset: 2, seed: 7 });
+    });
+  });
+
+  describe('Sorting', () => {
+    test('should sort by vote count for top', async () => {
+      await submit(createDesign(0, { voteCount: 5 }));
+      await submit(createDesign(1, { voteCount: 1 }));
+      await submit(createDesign(2, { voteCount: 3 }));
+
+      const page = await submissionHandler.getGalleryPage(themeId, { sort: 'top' });
+
+      expect(page.designs.map(d => d.id)).toEqual(['design_000', 'design_002', 'design_001']);
+    });
+
+    test('should favor newer designs with similar votes for hot', async () => {
+      await submit(createDesign(0, { voteCount: 10, submittedAt: baseTime }));
+      await submit(createDesign(1, { voteCount: 2, submittedAt: baseTime + 2 * HOT_SCORE_DECAY_MS }));
+
+      const page = await submissionHandler.getGalleryPage(themeId, { sort: 'hot' });
+
+      expect(page.designs.map(d => d.id)).toEqual(['design_001', 'design_000']);
+    });
+
+    test('should keep hot scores current as votes change', async () => {
+      await submit(createDesign(0));
+      await submit(createDesign(1));
+
+      await leaderboardHandler.updateVoteCount('design_000', 3);
+      const page = await submissionHandler.getGalleryPage(themeId, { sort: 'hot' });
+
+      expect(page.designs[0].id).toBe('design_000');
+    });
+
+    test('should shuffle consistently across pages of a random listing', async () => {
+      for (let i = 0; i < 9; i++) {
+        await submit(createDesign(i));
+      }
+
+      const ids = await collectAllPages('random', 4);
+
+      expect(new Set(ids).size).toBe(9);
+      const first = await submissionHandler.getGalleryPage(themeId, { sort: 'random', limit: 4 });
+      const seed = decodeGalleryCursor(first.nextCursor!)!.seed;
+      const replay = await submissionHandler.getGalleryPage(themeId, { sort: 'random', limit: 4, cursor: { offset: 0, seed } });
+      expect(replay.designs.map(d => d.id)).toEqual(first.designs.map(d => d.id));
+    });
+  });
+
+  describe('Filtering', () => {
+    test('should filter by user', async () => {
+      await submit(createDesign(0));
+      await submit(createDesign(1));
+
+      const page = await submissionHandler.getGalleryPage(themeId, { userId: 'user_1' });
+
+      expect(page.designs.map(d => d.id)).toEqual(['design_001']);
+    });
+
+    test('should filter by asset and combine with a sort', async () => {
+      await submit(createDesign(0, { assets: [createAsset('desk')], voteCount: 1 }));
+      await submit(createDesign(1, { assets: [createAsset('lamp')], voteCount: 9 }));
+      await submit(createDesign(2, { assets: [createAsset('desk'), createAsset('lamp')], voteCount: 4 }));
+
+      const page = await submissionHandler.getGalleryPage(themeId, { sort: 'top', assetId: 'lamp', limit: 1 });
+      expect(page.designs.map(d => d.id)).toEqual(['design_001']);
+
+      const next = await submissionHandler.getGalleryPage(themeId, {
+        sort: 'top',
+        assetId: 'lamp',
+        limit: 1,
+        cursor: decodeGalleryCursor(page.nextCursor!)!,
+      });
+      expect(next.designs.map(d => d.id)).toEqual(['design_002']);
+      expect(next.nextCursor).toBeNull();
+    });
+
+    test('should drop assets a resubmission no longer uses', async () => {
+      const design = createDesign(0, { assets: [createAsset('desk')] });
+      await submit(design);
+      await submit({ ...design, assets: [createAsset('lamp')] });
+
+      expect((await submissionHandler.getGalleryPage(themeId, { assetId: 'desk' })).designs).toHaveLength(0);
+      expect((await submissionHandler.getGalleryPage(themeId, { assetId: 'lamp' })).designs).toHaveLength(1);
+    });
+  });
+
+  describe('Newest', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test('should list designs by when they were last submitted', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const oldDraft = createDesign(0);
+      const newDraft = createDesign(1);
+
+      vi.setSystemTime(baseTime + 86400000);
+      await submit(newDraft);
+      vi.setSystemTime(baseTime + 86460000);
+      await submit(oldDraft);
+      expect((await submissionHandler.getGalleryPage(themeId)).designs.map(d => d.id)).toEqual(['design_000', 'design_001']);
+
+      vi.setSystemTime(baseTime + 86520000);
+      await submit({ ...newDraft, assets: [createAsset('desk')] });
+      expect((await submissionHandler.getGalleryPage(themeId)).designs.map(d => d.id)).toEqual(['design_001', 'design_000']);
+      expect((await submissionHandler.getGalleryPage(themeId, { assetId: 'desk' })).designs.map(d => d.id)).toEqual(['design_001']);
+    });
+  });
+
+  test('should keep the first submission time when a design is resubmitted', async () => {
+    const design = createDesign(0);
+    await submit(design);
+    const { submittedAt } = (await storage.loadDesign(design.id))!;
+
+    await submit({ ...design, assets: [createAsset('desk')] });
+
+    expect(submittedAt).toBeGreaterThan(0);
+    expect((await storage.loadDesign(design.id))!.submittedAt).toBe(submittedAt);
+  });
+
+  test('should index submissions made before the gallery indexes existed', async () => {
+    const legacy = { ...createDesign(0, { assets: [createAsset('desk')] }), submitted: true };
+    await storage.saveDesign(legacy);
+    await redis.sAdd(`theme:${themeId}:submissions`, [legacy.id]);
+
+    const page = await submissionHandler.getGalleryPage(themeId, { assetId: 'desk' });
+
+    expect(page.designs.map(d => d.id)).toEqual(['design_000']);
+  });
+
+  test('hot score should trade a tenfold vote lead for one decay period of age', () => {
+    expect(getHotScore(10, baseTime)).toBeCloseTo(getHotScore(1, baseTime + HOT_SCORE_DECAY_MS));
+    expect(getHotScore(-10, baseTime)).toBeLessThan(getHotScore(0, baseTime));
+  });
+});
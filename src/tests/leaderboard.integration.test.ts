@@ -5,7 +5,7 @@
  */
 
 import { describe, test, expect, beforeEach } from 'vitest';
-import { LeaderboardHandler } from '../handlers/LeaderboardHandler.js';
+import { LeaderboardHandler, HOT_SCORE_DECAY_MS } from '../handlers/LeaderboardHandler.js';
 import { StorageService, RedisClient } from '../storage/StorageService.js';
 import { Design } from '../types/models.js';
 
@@ -47,6 +47,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
     if (!this.sortedSets.has(key)) {
       this.sortedSets.set(key, new Map());
@@ -94,6 +99,11 @@ class MockRedisClient implements RedisClient {
     return newScore;
   }
 
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -687,4 +697,72 @@ describe('Leaderboard Integration Tests', () => {
     const noSubmissionRank = await leaderboardHandler.getUserRank('user_nobody', themeId);
     expect(noSubmissionRank).toBe(-1);
   });
+
+  describe('Hot Ranking', () => {
+    const themeId = 'theme_hot_001';
+    const submittedAt = 1704067200000;
+
+    const createDesign = (id: string, userId: string, voteCount: number, ageInDecays: number): Design => ({
+      id,
+      userId,
+      username: userId.replace('user_', ''),
+      themeId,
+      backgroundColor: '#FFFFFF',
+      assets: [],
+      layerMode: 'depth',
+      schemaVersion: 1,
+      createdAt: submittedAt - 10 * HOT_SCORE_DECAY_MS,
+      updatedAt: submittedAt,
+      submitted: true,
+      submittedAt: submittedAt - ageInDecays * HOT_SCORE_DECAY_MS,
+      voteCount,
+    });
+
+    /**
+     * A late entry with fewer votes can lead the hot ranking while the
+     * top ranking still follows raw vote counts
+     */
+    test('hot ranking lets newer submissions surface', async () => {
+      const early = createDesign('design_hot_early', 'user_alice', 50, 3);
+      const late = createDesign('design_hot_late', 'user_bob', 5, 0);
+      for (const design of [early, late]) {
+        await storage.saveDesign(design);
+        await leaderboardHandler.addDesign(design);
+      }
+
+      const top = await leaderboardHandler.getLeaderboardByTheme(themeId);
+      const hot = await leaderboardHandler.getLeaderboardByTheme(themeId, 'hot');
+
+      expect(top.map(entry => entry.design.id)).toEqual(['design_hot_early', 'design_hot_late']);
+      expect(hot.map(entry => entry.design.id)).toEqual(['design_hot_late', 'design_hot_early']);
+      expect(await leaderboardHandler.getUserRank('user_bob', themeId, 'hot')).toBe(1);
+    });
+
+    test('hot ranking follows vote changes', async () => {
+      const first = createDesign('design_hot_001', 'user_alice', 0, 0);
+      const second = createDesign('design_hot_002', 'user_bob', 0, 0);
+      for (const design of [first, second]) {
+        await storage.saveDesign(design);
+        await leaderboardHandler.addDesign(design);
+      }
+
+      await leaderboardHandler.updateVoteCount('design_hot_002', 10);
+      const hot = await leaderboardHandler.getTopDesigns(themeId, 1, 'hot');
+
+      expect(hot.map(design => design.id)).toEqual(['design_hot_002']);
+    });
+
+    test('hot ranking is backfilled for designs ranked before it existed', async () => {
+      const early = createDesign('design_hot_early', 'user_alice', 50, 3);
+      const late = createDesign('design_hot_late', 'user_bob', 5, 0);
+      for (const design of [early, late]) {
+        await storage.saveDesign(design);
+        await redis.zAdd(`leaderboard:${themeId}`, [{ member: design.id, score: design.voteCount }]);
+      }
+
+      const hot = await leaderboardHandler.getLeaderboardByTheme(themeId, 'hot');
+
+      expect(hot.map(entry => entry.design.id)).toEqual(['design_hot_late', 'design_hot_early']);
+    });
+  });
 });
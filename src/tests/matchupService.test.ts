@@ -0,0 +1,278 @@
+/**
+ * Unit tests for head-to-head matchups and Elo ratings
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { MatchupService, MATCHUP_POOL_SIZE } from '../services/MatchupService.js';
+import { SubmissionHandler } from '../handlers/SubmissionHandler.js';
+import { LeaderboardHandler } from '../handlers/LeaderboardHandler.js';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+import { MockAuthService } from './mocks/MockAuthService.js';
+import { Design, DESIGN_SCHEMA_VERSION } from '../types/models.js';
+import { INITIAL_RATING, ELO_K_FACTOR, getExpectedScore, getEloRatings } from '../utils/elo.js';
+
+// Mock Redis client for testing
+class MockRedisClient implements RedisClient {
+  private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async sAdd(key: string, members: string[]): Promise<number> {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    const sizeBefore = set.size;
+    members.forEach(member => set.add(member));
+    return set.size - sizeBefore;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) ?? []);
+  }
+
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!sortedSet.has(member)) {
+        added++;
+      }
+      sortedSet.set(member, score);
+    }
+    return added;
+  }
+
+  async zRevRange(key: string, start: number, stop: number): Promise<string[]> {
+    const end = stop === -1 ? undefined : stop + 1;
+    return this.sortedMembers(key).slice(start, end);
+  }
+
+  async zRevRank(key: string, member: string): Promise<number | undefined> {
+    const rank = this.sortedMembers(key).indexOf(member);
+    return rank === -1 ? undefined : rank;
+  }
+
+  async zIncrBy(key: string, increment: number, member: string): Promise<number> {
+    const score = (this.sortedSets.get(key)?.get(member) ?? 0) + increment;
+    await this.zAdd(key, [{ member, score }]);
+    return score;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
+  // Highest score first, ties in reverse member order like Redis ZREVRANGE
+  private sortedMembers(key: string): string[] {
+    return Array.from(this.sortedSets.get(key)?.entries() ?? [])
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? 1 : a[0] > b[0] ? -1 : 0))
+      .map(([member]) => member);
+  }
+}
+
+describe('Matchup Unit Tests', () => {
+  const themeId = 'theme_versus';
+  const baseTime = 1704067200000;
+  const judge = { id: 'judge', username: 'judge' };
+
+  let redis: MockRedisClient;
+  let storage: StorageService;
+  let authService: MockAuthService;
+  let submissionHandler: SubmissionHandler;
+  let leaderboardHandler: LeaderboardHandler;
+  let matchupService: MatchupService;
+
+  const createDesign = (index: number, extra: Partial<Design> = {}): Design => ({
+    id: `design_${index}`,
+    userId: `user_${index}`,
+    username: `user${index}`,
+    themeId,
+    backgroundColor: '#FFFFFF',
+    assets: [],
+    createdAt: baseTime + index * 60000,
+    updatedAt: baseTime + index * 60000,
+    submitted: false,
+    voteCount: 0,
+    layerMode: 'depth',
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+    ...extra,
+  });
+
+  // Submit the way the server does, then switch back to the judging user
+  const submit = async (design: Design) => {
+    authService.setMockUser({ id: design.userId, username: design.username });
+    await submissionHandler.submitDesign(design);
+    await leaderboardHandler.addDesign((await storage.loadDesign(design.id))!);
+    authService.setMockUser(judge);
+  };
+
+  beforeEach(() => {
+    redis = new MockRedisClient();
+    storage = new StorageService(redis);
+    authService = new MockAuthService(judge);
+    submissionHandler = new SubmissionHandler(storage, authService);
+    leaderboardHandler = new LeaderboardHandler(storage);
+    matchupService = new MatchupService(storage, authService);
+  });
+
+  describe('Elo Ratings', () => {
+    test('should expect equal ratings to win half the time', () => {
+      expect(getExpectedScore(1500, 1500)).toBeCloseTo(0.5);
+      expect(getExpectedScore(1900, 1500)).toBeCloseTo(10 / 11);
+    });
+
+    test('should move ratings by the same amount in opposite directions', () => {
+      const even = getEloRatings(INITIAL_RATING, INITIAL_RATING);
+      expect(even.winner).toBeCloseTo(INITIAL_RATING + ELO_K_FACTOR / 2);
+      expect(even.loser).toBeCloseTo(INITIAL_RATING - ELO_K_FACTOR / 2);
+
+      const upset = getEloRatings(1400, 1600);
+      const expected = getEloRatings(1600, 1400);
+      expect(upset.winner - 1400).toBeGreaterThan(expected.winner - 1600);
+      expect(upset.winner + upset.loser).toBeCloseTo(3000);
+    });
+  });
+
+  describe('Matchmaking', () => {
+    test('should return null when fewer than two designs can be judged', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2, { userId: judge.id, username: judge.username }));
+
+      expect(await matchupService.createMatchup(judge.id, themeId)).toBeNull();
+    });
+
+    test('should never show the user their own design', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+      await submit(createDesign(3, { userId: judge.id, username: judge.username }));
+
+      for (let i = 0; i < 5; i++) {
+        const result = await matchupService.createMatchup(judge.id, themeId);
+        expect(result!.matchup.designIds.sort()).toEqual(['design_1', 'design_2']);
+      }
+    });
+
+    test('should include an unseen design while any remain', async () => {
+      const count = MATCHUP_POOL_SIZE + 2;
+      for (let i = 0; i < count; i++) {
+        await submit(createDesign(i));
+      }
+
+      const shown = new Set<string>();
+      while (shown.size < count) {
+        const result = await matchupService.createMatchup(judge.id, themeId);
+        const ids = result!.matchup.designIds;
+        expect(ids.some(id => !shown.has(id))).toBe(true);
+        ids.forEach(id => shown.add(id));
+      }
+    });
+
+    test('should replace the pending matchup when a new one is drawn', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+
+      const first = await matchupService.createMatchup(judge.id, themeId);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      const second = await matchupService.createMatchup(judge.id, themeId);
+
+      expect((await matchupService.getPendingMatchup(judge.id))!.id).toBe(second!.matchup.id);
+      expect(second!.matchup.id).not.toBe(first!.matchup.id);
+    });
+  });
+
+  describe('Picks', () => {
+    test('should update both ratings and the rating leaderboard', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+      await submit(createDesign(3));
+
+      const { matchup } = (await matchupService.createMatchup(judge.id, themeId))!;
+      const [winnerId, loserId] = matchup.designIds;
+      await matchupService.recordPick(judge.id, matchup.id, winnerId);
+
+      const winner = await storage.loadDesign(winnerId);
+      const loser = await storage.loadDesign(loserId);
+      expect(winner!.rating).toBeCloseTo(INITIAL_RATING + ELO_K_FACTOR / 2);
+      expect(loser!.rating).toBeCloseTo(INITIAL_RATING - ELO_K_FACTOR / 2);
+
+      const ranked = await leaderboardHandler.getTopDesigns(themeId, 10, 'rating');
+      expect(ranked.map(d => d.id)[0]).toBe(winnerId);
+      expect(ranked.map(d => d.id)[2]).toBe(loserId);
+    });
+
+    test('should count each matchup only once', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+
+      const { matchup } = (await matchupService.createMatchup(judge.id, themeId))!;
+      await matchupService.recordPick(judge.id, matchup.id, matchup.designIds[0]);
+
+      await expect(matchupService.recordPick(judge.id, matchup.id, matchup.designIds[0]))
+        .rejects.toThrow('Matchup has expired');
+      expect((await storage.loadDesign(matchup.designIds[0]))!.rating).toBeCloseTo(INITIAL_RATING + ELO_K_FACTOR / 2);
+    });
+
+    test('should keep a vote cast while the pick is recorded', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+
+      const { matchup } = (await matchupService.createMatchup(judge.id, themeId))!;
+      const [winnerId] = matchup.designIds;
+      const loadDesign = storage.loadDesign.bind(storage);
+      // The winner gets a like right after the pick has read it
+      vi.spyOn(storage, 'loadDesign').mockImplementationOnce(async (designId) => {
+        const design = (await loadDesign(designId))!;
+        await redis.set(`design:${designId}`, JSON.stringify({ ...design, voteCount: design.voteCount + 1 }));
+        return design;
+      });
+      await matchupService.recordPick(judge.id, matchup.id, winnerId);
+
+      const winner = (await storage.loadDesign(winnerId))!;
+      expect(winner.voteCount).toBe(1);
+      expect(winner.rating).toBeCloseTo(INITIAL_RATING + ELO_K_FACTOR / 2);
+    });
+
+    test('should reject designs outside the matchup', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+      await submit(createDesign(3));
+
+      const { matchup } = (await matchupService.createMatchup(judge.id, themeId))!;
+      const outsider = ['design_1', 'design_2', 'design_3'].find(id => !matchup.designIds.includes(id))!;
+
+      await expect(matchupService.recordPick(judge.id, matchup.id, outsider))
+        .rejects.toThrow('Design is not part of this matchup');
+      expect(await matchupService.getPendingMatchup(judge.id)).not.toBeNull();
+    });
+
+    test('should require authentication', async () => {
+      await submit(createDesign(1));
+      await submit(createDesign(2));
+      authService.setMockUser(null);
+
+      await expect(matchupService.createMatchup(judge.id, themeId)).rejects.toThrow('Authentication required');
+    });
+  });
+});
@@ -11,7 +11,15 @@ import {
   validateDesign,
   validateAsset,
   validateTheme,
+  validateThemeRules,
+  validateRoomColors,
   validateLeaderboardEntry,
+  normalizeRotation,
+  clampScale,
+  MIN_ASSET_SCALE,
+  MAX_ASSET_SCALE,
+  MAX_DESIGN_NAME_LENGTH,
+  DESIGN_SCHEMA_VERSION,
   AssetCategory,
   type PlacedAsset,
   type Design,
@@ -27,13 +35,15 @@ describe('Unit Tests: Type Validation Functions', () => {
       expect(isValidRotation(90)).toBe(true);
       expect(isValidRotation(180)).toBe(true);
       expect(isValidRotation(270)).toBe(true);
+      expect(isValidRotation(45)).toBe(true);
+      expect(isValidRotation(359.5)).toBe(true);
     });
 
     test('should reject invalid rotation values', () => {
-      expect(isValidRotation(45)).toBe(false);
       expect(isValidRotation(360)).toBe(false);
       expect(isValidRotation(-90)).toBe(false);
-      expect(isValidRotation(135)).toBe(false);
+      expect(isValidRotation(720)).toBe(false);
+      expect(isValidRotation(NaN)).toBe(false);
     });
   });
 
@@ -89,7 +99,9 @@ describe('Unit Tests: Type Validation Functions', () => {
         x: 150,
         y: 200,
         rotation: 90,
-        zIndex: 1
+        zIndex: 1,
+        scale: 1,
+        flipped: false
       };
       expect(validatePlacedAsset(asset)).toBe(true);
     });
@@ -100,7 +112,9 @@ describe('Unit Tests: Type Validation Functions', () => {
         x: -10,
         y: 200,
         rotation: 90,
-        zIndex: 1
+        zIndex: 1,
+        scale: 1,
+        flipped: false
       };
       expect(validatePlacedAsset(asset)).toBe(false);
     });
@@ -110,8 +124,10 @@ describe('Unit Tests: Type Validation Functions', () => {
         assetId: 'desk_01',
         x: 150,
         y: 200,
-        rotation: 45,
-        zIndex: 1
+        rotation: 405,
+        zIndex: 1,
+        scale: 1,
+        flipped: false
       };
       expect(validatePlacedAsset(asset)).toBe(false);
     });
@@ -122,7 +138,9 @@ describe('Unit Tests: Type Validation Functions', () => {
         x: 150,
         y: 200,
         rotation: 90,
-        zIndex: -1
+        zIndex: -1,
+        scale: 1,
+        flipped: false
       };
       expect(validatePlacedAsset(asset)).toBe(false);
     });
@@ -133,7 +151,9 @@ describe('Unit Tests: Type Validation Functions', () => {
         x: 801,
         y: 200,
         rotation: 0,
-        zIndex: 1
+        zIndex: 1,
+        scale: 1,
+        flipped: false
       };
       expect(validatePlacedAsset(assetOutOfBoundsX)).toBe(false);
 
@@ -142,10 +162,59 @@ describe('Unit Tests: Type Validation Functions', () => {
         x: 150,
         y: 601,
         rotation: 0,
-        zIndex: 1
+        zIndex: 1,
+        scale: 1,
+        flipped: false
       };
       expect(validatePlacedAsset(assetOutOfBoundsY)).toBe(false);
     });
+
+    test('should accept asset with scale and flip', () => {
+      const asset: PlacedAsset = {
+        assetId: 'desk_01',
+        x: 150,
+        y: 200,
+        rotation: 30,
+        zIndex: 1,
+        scale: 1.5,
+        flipped: true
+      };
+      expect(validatePlacedAsset(asset)).toBe(true);
+    });
+
+    test('should reject asset with scale outside bounds', () => {
+      const base: PlacedAsset = { assetId: 'desk_01', x: 150, y: 200, rotation: 0, zIndex: 1, scale: 1, flipped: false };
+      expect(validatePlacedAsset({ ...base, scale: MIN_ASSET_SCALE })).toBe(true);
+      expect(validatePlacedAsset({ ...base, scale: MAX_ASSET_SCALE })).toBe(true);
+      expect(validatePlacedAsset({ ...base, scale: 0 })).toBe(false);
+      expect(validatePlacedAsset({ ...base, scale: MAX_ASSET_SCALE + 0.1 })).toBe(false);
+      expect(validatePlacedAsset({ ...base, scale: NaN })).toBe(false);
+    });
+
+    test('should reject asset missing scale or flip', () => {
+      const asset = { assetId: 'desk_01', x: 150, y: 200, rotation: 0, zIndex: 1 };
+      expect(validatePlacedAsset(asset as unknown as PlacedAsset)).toBe(false);
+    });
+
+    test('should reject asset with non-boolean flip', () => {
+      const asset = { assetId: 'desk_01', x: 150, y: 200, rotation: 0, zIndex: 1, scale: 1, flipped: 'yes' };
+      expect(validatePlacedAsset(asset as unknown as PlacedAsset)).toBe(false);
+    });
+  });
+
+  describe('normalizeRotation and clampScale', () => {
+    test('should wrap angles into 0-360', () => {
+      expect(normalizeRotation(0)).toBe(0);
+      expect(normalizeRotation(360)).toBe(0);
+      expect(normalizeRotation(-90)).toBe(270);
+      expect(normalizeRotation(450)).toBe(90);
+    });
+
+    test('should clamp scale to the allowed range', () => {
+      expect(clampScale(1)).toBe(1);
+      expect(clampScale(0.01)).toBe(MIN_ASSET_SCALE);
+      expect(clampScale(10)).toBe(MAX_ASSET_SCALE);
+    });
   });
 
   describe('validateDesign', () => {
@@ -155,6 +224,7 @@ describe('Unit Tests: Type Validation Functions', () => {
         userId: 'user_456',
         username: 'testuser',
         themeId: 'theme_789',
+        roomId: 'window_left',
         backgroundColor: '#E8F4F8',
         assets: [
           {
@@ -162,13 +232,17 @@ describe('Unit Tests: Type Validation Functions', () => {
             x: 150,
             y: 200,
             rotation: 0,
-            zIndex: 1
+            zIndex: 1,
+            scale: 1,
+            flipped: false
           }
         ],
         createdAt: 1704067200000,
         updatedAt: 1704070800000,
         submitted: false,
-        voteCount: 0
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
       };
       expect(validateDesign(design)).toBe(true);
     });
@@ -179,12 +253,15 @@ describe('Unit Tests: Type Validation Functions', () => {
         userId: 'user_456',
         username: 'testuser',
         themeId: 'theme_789',
+        roomId: 'window_left',
         backgroundColor: 'invalid',
         assets: [],
         createdAt: 1704067200000,
         updatedAt: 1704070800000,
         submitted: false,
-        voteCount: 0
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
       };
       expect(validateDesign(design)).toBe(false);
     });
@@ -195,6 +272,7 @@ describe('Unit Tests: Type Validation Functions', () => {
         userId: 'user_456',
         username: 'testuser',
         themeId: 'theme_789',
+        roomId: 'window_left',
         backgroundColor: '#E8F4F8',
         assets: [
           {
@@ -202,16 +280,141 @@ describe('Unit Tests: Type Validation Functions', () => {
             x: -10,
             y: 200,
             rotation: 0,
-            zIndex: 1
+            zIndex: 1,
+            scale: 1,
+            flipped: false
           }
         ],
         createdAt: 1704067200000,
         updatedAt: 1704070800000,
         submitted: false,
-        voteCount: 0
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
       };
       expect(validateDesign(design)).toBe(false);
     });
+
+    test('should reject design from an older schema version', () => {
+      const design = {
+        id: 'design_123',
+        userId: 'user_456',
+        username: 'testuser',
+        themeId: 'theme_789',
+        roomId: 'window_left',
+        backgroundColor: '#E8F4F8',
+        assets: [],
+        createdAt: 1704067200000,
+        updatedAt: 1704070800000,
+        submitted: false,
+        voteCount: 0,
+        layerMode: 'depth'
+      };
+      expect(validateDesign(design as unknown as Design)).toBe(false);
+    });
+
+    test('should accept room colors and reject invalid ones', () => {
+      const design = {
+        id: 'design_123',
+        userId: 'user_456',
+        username: 'testuser',
+        themeId: 'theme_789',
+        roomId: 'window_left',
+        backgroundColor: '#E8F4F8',
+        assets: [],
+        createdAt: 1704067200000,
+        updatedAt: 1704070800000,
+        submitted: false,
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
+      } as Design;
+      expect(validateDesign({ ...design, roomColors: { wall: '#AABBCC', floorPattern: 'tile' } })).toBe(true);
+      expect(validateDesign({ ...design, roomColors: { trim: 'white' } })).toBe(false);
+    });
+
+    test('should accept trimmed names up to the maximum length', () => {
+      const design = {
+        id: 'design_123',
+        userId: 'user_456',
+        username: 'testuser',
+        themeId: 'theme_789',
+        roomId: 'window_left',
+        backgroundColor: '#E8F4F8',
+        assets: [],
+        createdAt: 1704067200000,
+        updatedAt: 1704070800000,
+        submitted: false,
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
+      } as Design;
+      expect(validateDesign({ ...design, name: 'Cozy corner' })).toBe(true);
+      expect(validateDesign({ ...design, name: 'x'.repeat(MAX_DESIGN_NAME_LENGTH) })).toBe(true);
+      expect(validateDesign({ ...design, name: 'x'.repeat(MAX_DESIGN_NAME_LENGTH + 1) })).toBe(false);
+      expect(validateDesign({ ...design, name: ' padded ' })).toBe(false);
+      expect(validateDesign({ ...design, name: '' })).toBe(false);
+    });
+
+    test('should accept positive whole revisions and reset times', () => {
+      const design = {
+        id: 'design_123',
+        userId: 'user_456',
+        username: 'testuser',
+        themeId: 'theme_789',
+        roomId: 'window_left',
+        backgroundColor: '#E8F4F8',
+        assets: [],
+        createdAt: 1704067200000,
+        updatedAt: 1704070800000,
+        submitted: true,
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
+      } as Design;
+      expect(validateDesign({ ...design, revision: 2, votesResetAt: 1704070800000 })).toBe(true);
+      expect(validateDesign({ ...design, revision: 0 })).toBe(false);
+      expect(validateDesign({ ...design, revision: 1.5 })).toBe(false);
+      expect(validateDesign({ ...design, votesResetAt: -1 })).toBe(false);
+    });
+
+    test('should accept remix credit and counts', () => {
+      const design = {
+        id: 'design_123',
+        userId: 'user_456',
+        username: 'testuser',
+        themeId: 'theme_789',
+        roomId: 'window_left',
+        backgroundColor: '#E8F4F8',
+        assets: [],
+        createdAt: 1704067200000,
+        updatedAt: 1704070800000,
+        submitted: false,
+        voteCount: 0,
+        layerMode: 'depth',
+        schemaVersion: DESIGN_SCHEMA_VERSION
+      } as Design;
+      const remixOf = { designId: 'design_1', userId: 'user_1', username: 'maker' };
+      expect(validateDesign({ ...design, remixOf, remixCount: 0 })).toBe(true);
+      expect(validateDesign({ ...design, remixOf: { ...remixOf, username: '' } })).toBe(false);
+      expect(validateDesign({ ...design, remixCount: -1 })).toBe(false);
+    });
+  });
+
+  describe('validateRoomColors', () => {
+    test('should accept any subset of surface colors and patterns', () => {
+      expect(validateRoomColors({})).toBe(true);
+      expect(validateRoomColors({ wall: '#FFFFFF', floor: '#8B4513', trim: '#000000' })).toBe(true);
+      expect(validateRoomColors({ floorPattern: 'wood' })).toBe(true);
+      expect(validateRoomColors({ floorPattern: 'carpet' })).toBe(true);
+    });
+
+    test('should reject invalid colors and unknown patterns', () => {
+      expect(validateRoomColors({ wall: '#FFF' })).toBe(false);
+      expect(validateRoomColors({ floor: 'red' })).toBe(false);
+      expect(validateRoomColors({ floorPattern: 'marble' } as any)).toBe(false);
+      expect(validateRoomColors(null as any)).toBe(false);
+    });
   });
 
   describe('validateAsset', () => {
@@ -266,6 +469,55 @@ describe('Unit Tests: Type Validation Functions', () => {
       };
       expect(validateTheme(theme)).toBe(false);
     });
+
+    test('should reject theme with invalid rules', () => {
+      const theme: Theme = {
+        id: 'theme_school',
+        name: 'School',
+        description: 'Design a classroom',
+        startTime: 1704067200000,
+        endTime: 1704153600000,
+        active: true,
+        rules: { maxItems: 0 }
+      };
+      expect(validateTheme(theme)).toBe(false);
+      expect(validateTheme({ ...theme, rules: { maxItems: 10 } })).toBe(true);
+    });
+
+    test('should accept known resubmission vote policies only', () => {
+      const theme: Theme = {
+        id: 'theme_school',
+        name: 'School',
+        description: 'Design a classroom',
+        startTime: 1704067200000,
+        endTime: 1704153600000,
+        active: true
+      };
+      expect(validateTheme({ ...theme, resubmitVotes: 'decay' })).toBe(true);
+      expect(validateTheme({ ...theme, resubmitVotes: 'double' as Theme['resubmitVotes'] })).toBe(false);
+    });
+  });
+
+  describe('validateThemeRules', () => {
+    test('should accept empty and complete rules', () => {
+      expect(validateThemeRules({})).toBe(true);
+      expect(validateThemeRules({
+        allowedAssetIds: ['desk', 'chair_1'],
+        requiredAssetIds: ['desk'],
+        bannedCategories: ['electronics'],
+        maxItems: 5
+      })).toBe(true);
+    });
+
+    test('should reject empty ids and non-integer limits', () => {
+      expect(validateThemeRules({ allowedAssetIds: [''] })).toBe(false);
+      expect(validateThemeRules({ bannedCategories: [42 as unknown as string] })).toBe(false);
+      expect(validateThemeRules({ maxItems: 2.5 })).toBe(false);
+    });
+
+    test('should reject more required assets than the item limit', () => {
+      expect(validateThemeRules({ requiredAssetIds: ['desk', 'lamp'], maxItems: 1 })).toBe(false);
+    });
   });
 
   describe('validateLeaderboardEntry', () => {
@@ -277,12 +529,15 @@ describe('Unit Tests: Type Validation Functions', () => {
           userId: 'user_456',
           username: 'testuser',
           themeId: 'theme_789',
+          roomId: 'window_left',
           backgroundColor: '#E8F4F8',
           assets: [],
           createdAt: 1704067200000,
           updatedAt: 1704070800000,
           submitted: true,
-          voteCount: 42
+          voteCount: 42,
+          layerMode: 'depth',
+          schemaVersion: DESIGN_SCHEMA_VERSION
         },
         username: 'testuser',
         voteCount: 42
@@ -298,12 +553,15 @@ describe('Unit Tests: Type Validation Functions', () => {
           userId: 'user_456',
           username: 'testuser',
           themeId: 'theme_789',
+          roomId: 'window_left',
           backgroundColor: '#E8F4F8',
           assets: [],
           createdAt: 1704067200000,
           updatedAt: 1704070800000,
           submitted: true,
-          voteCount: 42
+          voteCount: 42,
+          layerMode: 'depth',
+          schemaVersion: DESIGN_SCHEMA_VERSION
         },
         username: 'testuser',
         voteCount: 42
@@ -48,6 +48,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
     if (!this.sortedSets.has(key)) {
       this.sortedSets.set(key, new Map());
@@ -95,6 +100,11 @@ class MockRedisClient implements RedisClient {
     return newScore;
   }
 
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -0,0 +1,200 @@
+/**
+ * Unit tests for the Devvit web Redis adapter used by the Express server
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('@devvit/web/server', () => ({ redis: {} }));
+
+import { createRedisClient } from '../server/core/redis.js';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+import { LeaderboardHandler } from '../handlers/LeaderboardHandler.js';
+import { Design } from '../types/models.js';
+
+// Minimal in-memory stand-in for the Devvit web Redis client
+class FakeDevvitRedis {
+  private store: Map<string, string> = new Map();
+  private hashes: Map<string, Map<string, string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<string> {
+    this.store.set(key, value);
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.store.delete(key);
+      this.hashes.delete(key);
+      this.sortedSets.delete(key);
+    }
+  }
+
+  async incrBy(key: string, value: number): Promise<number> {
+    const next = parseInt(this.store.get(key) ?? '0', 10) + value;
+    this.store.set(key, next.toString());
+    return next;
+  }
+
+  async hSet(key: string, fieldValues: { [field: string]: string }): Promise<number> {
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    const hash = this.hashes.get(key)!;
+    let added = 0;
+    for (const [field, value] of Object.entries(fieldValues)) {
+      if (!hash.has(field)) {
+        added++;
+      }
+      hash.set(field, value);
+    }
+    return added;
+  }
+
+  async hDel(key: string, fields: string[]): Promise<number> {
+    const hash = this.hashes.get(key);
+    return fields.filter(field => hash?.delete(field)).length;
+  }
+
+  async hKeys(key: string): Promise<string[]> {
+    return Array.from(this.hashes.get(key)?.keys() ?? []);
+  }
+
+  async zAdd(key: string, ...members: { member: string; score: number }[]): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!sortedSet.has(member)) {
+        added++;
+      }
+      sortedSet.set(member, score);
+    }
+    return added;
+  }
+
+  async zRange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: { reverse?: boolean; by: 'score' | 'lex' | 'rank' }
+  ): Promise<{ member: string; score: number }[]> {
+    const entries = this.sorted(key);
+    if (options?.reverse) {
+      entries.reverse();
+    }
+    const end = stop < 0 ? entries.length + stop : stop;
+    return entries.slice(start, end + 1).map(([member, score]) => ({ member, score }));
+  }
+
+  async zRank(key: string, member: string): Promise<number | undefined> {
+    const rank = this.sorted(key).findIndex(([m]) => m === member);
+    return rank >= 0 ? rank : undefined;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.sortedSets.get(key)?.size ?? 0;
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    const next = (sortedSet.get(member) ?? 0) + value;
+    sortedSet.set(member, next);
+    return next;
+  }
+
+  private sorted(key: string): [string, number][] {
+    return Array.from(this.sortedSets.get(key)?.entries() ?? []).sort((a, b) => a[1] - b[1]);
+  }
+}
+
+function createDesign(id: string, userId: string, themeId: string, voteCount: number = 0): Design {
+  return {
+    id,
+    userId,
+    username: `user_${userId}`,
+    themeId,
+    backgroundColor: '#FFFFFF',
+    assets: [],
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    submitted: true,
+    voteCount,
+  };
+}
+
+describe('Devvit Redis adapter', () => {
+  let client: RedisClient;
+
+  beforeEach(() => {
+    client = createRedisClient(new FakeDevvitRedis() as any);
+  });
+
+  test('emulates sets with hashes', async () => {
+    expect(await client.sAdd('members', ['a', 'b'])).toBe(2);
+    expect(await client.sAdd('members', ['b', 'c'])).toBe(1);
+    expect(await client.sAdd('members', [])).toBe(0);
+
+    const members = await client.sMembers('members');
+    expect(members.sort()).toEqual(['a', 'b', 'c']);
+
+    expect(await client.sRem('members', ['b', 'd'])).toBe(1);
+    expect((await client.sMembers('members')).sort()).toEqual(['a', 'c']);
+  });
+
+  test('returns sorted set members highest score first', async () => {
+    await client.zAdd('scores', [
+      { member: 'low', score: 1 },
+      { member: 'high', score: 10 },
+      { member: 'mid', score: 5 },
+    ]);
+
+    expect(await client.zRevRange('scores', 0, -1)).toEqual(['high', 'mid', 'low']);
+    expect(await client.zRevRange('scores', 0, 0)).toEqual(['high']);
+  });
+
+  test('computes reverse rank from the ascending rank', async () => {
+    await client.zAdd('scores', [
+      { member: 'low', score: 1 },
+      { member: 'high', score: 10 },
+      { member: 'mid', score: 5 },
+    ]);
+
+    expect(await client.zRevRank('scores', 'high')).toBe(0);
+    expect(await client.zRevRank('scores', 'low')).toBe(2);
+    expect(await client.zRevRank('scores', 'missing')).toBeUndefined();
+  });
+
+  test('passes zIncrBy arguments in Devvit order', async () => {
+    expect(await client.zIncrBy('scores', 3, 'design')).toBe(3);
+    expect(await client.zIncrBy('scores', -1, 'design')).toBe(2);
+  });
+
+  test('backs StorageService and LeaderboardHandler end to end', async () => {
+    const storage = new StorageService(client);
+    const leaderboard = new LeaderboardHandler(storage);
+
+    const first = createDesign('design-1', 'user-1', 'theme-1', 2);
+    const second = createDesign('design-2', 'user-2', 'theme-1', 0);
+    await storage.saveDesign(first);
+    await storage.saveDesign(second);
+    await leaderboard.addDesign(first);
+    await leaderboard.addDesign(second);
+
+    await leaderboard.updateVoteCount(second.id, 5);
+
+    const top = await leaderboard.getTopDesigns('theme-1');
+    expect(top.map(d => d.id)).toEqual(['design-2', 'design-1']);
+    expect(await leaderboard.getUserRank('user-1', 'theme-1')).toBe(2);
+    expect(await storage.getUserDesigns('user-2')).toHaveLength(1);
+  });
+});
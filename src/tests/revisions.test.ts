@@ -0,0 +1,64 @@
+/**
+ * Unit tests for design revisions and carrying likes over on resubmission
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Design, DESIGN_SCHEMA_VERSION } from '../types/models.js';
+import { getNextRevision, carryOverVotes, createRevision } from '../utils/revisions.js';
+
+describe('Revision Utilities', () => {
+  const createDesign = (overrides: Partial<Design> = {}): Design => ({
+    id: 'design-1',
+    userId: 'user-1',
+    username: 'player',
+    themeId: 'theme-1',
+    roomId: 'room_1',
+    backgroundColor: '#FFFFFF',
+    assets: [],
+    layerMode: 'depth',
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+    createdAt: 1000,
+    updatedAt: 2000,
+    submitted: true,
+    voteCount: 9,
+    ...overrides,
+  });
+
+  describe('getNextRevision', () => {
+    test('should start at 1 for a first submission', () => {
+      expect(getNextRevision(null)).toBe(1);
+      expect(getNextRevision(createDesign({ submitted: false }))).toBe(1);
+    });
+
+    test('should count up from the previous revision', () => {
+      expect(getNextRevision(createDesign({ revision: 3 }))).toBe(4);
+    });
+
+    test('should treat designs submitted before revisions as revision 1', () => {
+      expect(getNextRevision(createDesign())).toBe(2);
+    });
+  });
+
+  describe('carryOverVotes', () => {
+    test('should keep likes by default', () => {
+      expect(carryOverVotes(createDesign(), undefined, 5000)).toEqual({ voteCount: 9, votesResetAt: undefined });
+      expect(carryOverVotes(createDesign({ votesResetAt: 1500 }), 'keep', 5000)).toEqual({ voteCount: 9, votesResetAt: 1500 });
+    });
+
+    test('should reset likes to zero', () => {
+      expect(carryOverVotes(createDesign(), 'reset', 5000)).toEqual({ voteCount: 0, votesResetAt: 5000 });
+    });
+
+    test('should halve likes, rounding down', () => {
+      expect(carryOverVotes(createDesign(), 'decay', 5000)).toEqual({ voteCount: 4, votesResetAt: 5000 });
+    });
+  });
+
+  describe('createRevision', () => {
+    test('should keep the submission with its number and time', () => {
+      const design = createDesign({ revision: 2 });
+      expect(createRevision(design)).toEqual({ revision: 2, submittedAt: 2000, design });
+      expect(createRevision(createDesign()).revision).toBe(1);
+    });
+  });
+});
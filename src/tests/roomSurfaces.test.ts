@@ -0,0 +1,62 @@
+/**
+ * Unit tests for room surface geometry and the floor placement grid
+ */
+
+import { describe, test, expect } from 'vitest';
+import { CANVAS_WIDTH } from '../types/models.js';
+import {
+  FLOOR_GRID_CELLS,
+  ROOM_SURFACE_POLYGONS,
+  getFloorGridLines,
+  getRoomGuides,
+  snapToFloorGrid,
+} from '../utils/roomSurfaces.js';
+
+describe('Room Surfaces Unit Tests', () => {
+  const [back, right, front, left] = ROOM_SURFACE_POLYGONS.floor[0];
+
+  describe('snapToFloorGrid', () => {
+    test('should keep the floor corners on the grid', () => {
+      expect(snapToFloorGrid(back)).toEqual(back);
+      expect(snapToFloorGrid(left)).toEqual(left);
+      expect(snapToFloorGrid(right)).toEqual(right);
+      // The traced floor is nearly, not exactly, a parallelogram
+      const [frontX, frontY] = snapToFloorGrid(front);
+      expect(Math.hypot(frontX - front[0], frontY - front[1])).toBeLessThan(5);
+    });
+
+    test('should snap to the nearest intersection along the floor axes', () => {
+      const cell: [number, number] = [(right[0] - back[0]) / FLOOR_GRID_CELLS, (right[1] - back[1]) / FLOOR_GRID_CELLS];
+      const snapped = snapToFloorGrid([back[0] + cell[0] * 3.2, back[1] + cell[1] * 3.2 + 1]);
+
+      expect(snapped[0]).toBeCloseTo(back[0] + cell[0] * 3, 1);
+      expect(snapped[1]).toBeCloseTo(back[1] + cell[1] * 3, 1);
+    });
+
+    test('should snap mirrored rooms on the mirrored grid', () => {
+      const mirroredLeft: [number, number] = [CANVAS_WIDTH - left[0], left[1]];
+
+      expect(snapToFloorGrid([mirroredLeft[0] + 2, mirroredLeft[1] - 2], true)).toEqual(mirroredLeft);
+    });
+  });
+
+  describe('getFloorGridLines', () => {
+    test('should draw the inner lines of both floor axes', () => {
+      const lines = getFloorGridLines();
+
+      expect(lines).toHaveLength(2 * (FLOOR_GRID_CELLS - 1));
+      for (const line of lines) {
+        for (const point of line) {
+          expect(snapToFloorGrid(point)).toEqual(point);
+        }
+      }
+    });
+  });
+
+  describe('getRoomGuides', () => {
+    test('should guide to the wall corner and floor corners', () => {
+      expect(getRoomGuides()).toEqual({ x: [back[0], left[0], right[0]], y: [back[1], left[1], front[1]] });
+      expect(getRoomGuides(true).x).toEqual([back[0], left[0], right[0]].map(x => CANVAS_WIDTH - x));
+    });
+  });
+});
@@ -55,6 +55,14 @@ class ErrorMockRedisClient implements RedisClient {
     return added;
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    if (this.shouldFail) {
+      throw new Error('Redis sRem operation failed');
+    }
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async sMembers(key: string): Promise<string[]> {
     if (this.shouldFail) {
       throw new Error('Redis sMembers operation failed');
@@ -182,7 +190,7 @@ describe('StorageService Error Handling', () => {
     await storage.saveDesign(mockDesign);
 
     // Manually delete the design but leave it in the user's design list
-    await storage.deleteDesign(mockDesign.id);
+    await redis.del(`design:${mockDesign.id}`);
 
     // getUserDesigns should skip the missing design
     const designs = await storage.getUserDesigns(mockDesign.userId);
@@ -190,6 +198,51 @@ describe('StorageService Error Handling', () => {
     expect(designs).toEqual([]);
   });
 
+  test('deleteDesign removes the design from its owner\'s designs', async () => {
+    await storage.saveDesign(mockDesign);
+
+    await storage.deleteDesign(mockDesign.id);
+
+    expect(await redis.sMembers(`user:${mockDesign.userId}:designs`)).toEqual([]);
+  });
+
+  test('adjustRemixCount counts remixes without going below zero', async () => {
+    await storage.saveDesign(mockDesign);
+
+    await storage.adjustRemixCount(mockDesign.id, 1);
+    await storage.adjustRemixCount(mockDesign.id, 1);
+    expect((await storage.loadDesign(mockDesign.id))!.remixCount).toBe(2);
+
+    await storage.adjustRemixCount(mockDesign.id, -3);
+    expect((await storage.loadDesign(mockDesign.id))!.remixCount).toBe(0);
+
+    await expect(storage.adjustRemixCount('deleted-design', 1)).resolves.toBeUndefined();
+  });
+
+  test('timelapses are stored with their design and deleted with it', async () => {
+    const timelapse = { steps: [{ t: 0, op: 'flip' as const, item: 0 }] };
+    await storage.saveDesign(mockDesign);
+    await storage.saveTimelapse(mockDesign.id, timelapse);
+
+    expect(await storage.loadTimelapse(mockDesign.id)).toEqual(timelapse);
+
+    await storage.deleteDesign(mockDesign.id);
+    expect(await storage.loadTimelapse(mockDesign.id)).toBeNull();
+  });
+
+  test('design revisions are kept once and loaded oldest first', async () => {
+    const first = { revision: 1, submittedAt: 1000, design: { ...mockDesign, submitted: true, revision: 1 } };
+    const third = { revision: 3, submittedAt: 3000, design: { ...mockDesign, submitted: true, revision: 3 } };
+    await storage.saveDesignRevision(third);
+    await storage.saveDesignRevision(first);
+
+    await expect(storage.saveDesignRevision({ ...first, submittedAt: 2000 })).rejects.toThrow('Revision 1 already exists');
+
+    const revisions = await storage.loadDesignRevisions(mockDesign.id, 3);
+    expect(revisions.map(r => [r.revision, r.submittedAt])).toEqual([[1, 1000], [3, 3000]]);
+    expect(revisions[0].design.schemaVersion).toBeDefined();
+  });
+
   test('saveTheme sets current theme when active is true', async () => {
     const activeTheme: Theme = { ...mockTheme, active: true };
 
@@ -9,6 +9,7 @@ import { SubmissionHandler } from '../handlers/SubmissionHandler.js';
 import { StorageService, RedisClient } from '../storage/StorageService.js';
 import { Design, PlacedAsset } from '../types/models.js';
 import { MockAuthService } from './mocks/MockAuthService.js';
+import { VotingService, VoteType } from '../services/VotingService.js';
 
 // Mock Redis client for testing
 class MockRedisClient implements RedisClient {
@@ -48,6 +49,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
     if (!this.sortedSets.has(key)) {
       this.sortedSets.set(key, new Map());
@@ -95,6 +101,11 @@ class MockRedisClient implements RedisClient {
     return newScore;
   }
 
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -437,4 +448,56 @@ describe('Design Submission Flow Integration Tests', () => {
     expect(submittedDesign).not.toBeNull();
     expect(submittedDesign!.updatedAt).toBeGreaterThanOrEqual(originalUpdatedAt);
   });
+
+  /**
+   * Test resubmission revisions and the theme's vote policy
+   */
+  test('resubmission keeps every revision and resets likes under the theme policy', async () => {
+    const design: Design = {
+      id: 'design_test_008',
+      userId: 'user_grace',
+      username: 'grace',
+      themeId: 'theme_garden_001',
+      backgroundColor: '#F5F5DC',
+      assets: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      submitted: false,
+      voteCount: 0,
+    };
+    await storage.saveTheme({
+      id: design.themeId,
+      name: 'Garden',
+      description: 'Grow something',
+      startTime: Date.now(),
+      endTime: Date.now() + 86400000,
+      active: true,
+      resubmitVotes: 'reset',
+    });
+
+    authService.setMockUser({ id: design.userId, username: design.username });
+    await handler.submitDesign(design);
+
+    // Another player likes the first revision
+    const voting = new VotingService(redis, new MockAuthService({ id: 'user_henry', username: 'henry' }));
+    await voting.castVote('user_henry', design.id, VoteType.UPVOTE);
+    expect((await handler.getDesignById(design.id))!.voteCount).toBe(1);
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const liked = (await handler.getDesignById(design.id))!;
+    await handler.submitDesign({ ...liked, backgroundColor: '#FFFFFF' });
+
+    const resubmitted = await handler.getDesignById(design.id);
+    expect(resubmitted!.revision).toBe(2);
+    expect(resubmitted!.voteCount).toBe(0);
+
+    // The earlier like no longer counts, so it can be given again
+    expect(await voting.getUserVote('user_henry', design.id)).toBeNull();
+    await voting.castVote('user_henry', design.id, VoteType.UPVOTE);
+    expect((await handler.getDesignById(design.id))!.voteCount).toBe(1);
+
+    const revisions = await handler.getRevisions(design.id);
+    expect(revisions!.map(r => [r.revision, r.design.backgroundColor])).toEqual([[1, '#F5F5DC'], [2, '#FFFFFF']]);
+    expect(await handler.getRevisions('missing_design')).toBeNull();
+  });
 });
@@ -14,6 +14,7 @@ import { MockAuthService } from './mocks/MockAuthService.js';
 class MockRedisClient implements RedisClient {
   private store: Map<string, string> = new Map();
   private sets: Map<string, Set<string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
 
   async get(key: string): Promise<string | undefined> {
     return this.store.get(key);
@@ -47,9 +48,58 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!sortedSet.has(member)) {
+        added++;
+      }
+      sortedSet.set(member, score);
+    }
+    return added;
+  }
+
+  async zRevRange(key: string, start: number, stop: number): Promise<string[]> {
+    const end = stop === -1 ? undefined : stop + 1;
+    return this.sortedMembers(key).slice(start, end);
+  }
+
+  async zRevRank(key: string, member: string): Promise<number | undefined> {
+    const rank = this.sortedMembers(key).indexOf(member);
+    return rank === -1 ? undefined : rank;
+  }
+
+  async zIncrBy(key: string, increment: number, member: string): Promise<number> {
+    const score = (this.sortedSets.get(key)?.get(member) ?? 0) + increment;
+    await this.zAdd(key, [{ member, score }]);
+    return score;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
+  // Highest score first, ties in reverse member order like Redis ZREVRANGE
+  private sortedMembers(key: string): string[] {
+    return Array.from(this.sortedSets.get(key)?.entries() ?? [])
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? 1 : a[0] > b[0] ? -1 : 0))
+      .map(([member]) => member);
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
+    this.sortedSets.clear();
   }
 }
 
@@ -0,0 +1,248 @@
+/**
+ * Unit tests for the moderator theme calendar
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { ThemeManager, ThemeDetails } from '../managers/ThemeManager.js';
+import { rotateTheme } from '../schedulers/themeRotation.js';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+import { parseCalendarDate, formatCalendarDate, parseThemeDetailsValues } from '../server/core/themeCalendar.js';
+
+// Mock Redis client for testing
+class MockRedisClient implements RedisClient {
+  private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async sAdd(key: string, members: string[]): Promise<number> {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    const sizeBefore = set.size;
+    members.forEach(member => set.add(member));
+    return set.size - sizeBefore;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return Array.from(this.sets.get(key) ?? []);
+  }
+
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!sortedSet.has(member)) {
+        added++;
+      }
+      sortedSet.set(member, score);
+    }
+    return added;
+  }
+
+  async zRevRange(key: string, start: number, stop: number): Promise<string[]> {
+    const end = stop === -1 ? undefined : stop + 1;
+    return this.sortedMembers(key).slice(start, end);
+  }
+
+  async zRevRank(key: string, member: string): Promise<number | undefined> {
+    const rank = this.sortedMembers(key).indexOf(member);
+    return rank === -1 ? undefined : rank;
+  }
+
+  async zIncrBy(key: string, increment: number, member: string): Promise<number> {
+    const score = (this.sortedSets.get(key)?.get(member) ?? 0) + increment;
+    await this.zAdd(key, [{ member, score }]);
+    return score;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
+  // Highest score first, ties in reverse member order like Redis ZREVRANGE
+  private sortedMembers(key: string): string[] {
+    return Array.from(this.sortedSets.get(key)?.entries() ?? [])
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? 1 : a[0] > b[0] ? -1 : 0))
+      .map(([member]) => member);
+  }
+}
+
+describe('Theme Calendar Unit Tests', () => {
+  const hour = 60 * 60 * 1000;
+  const day = 24 * hour;
+
+  let redis: MockRedisClient;
+  let storage: StorageService;
+  let themeManager: ThemeManager;
+
+  const details = (name: string, startTime: number, endTime: number = startTime + day): ThemeDetails => ({
+    name,
+    description: `Design a ${name.toLowerCase()}`,
+    startTime,
+    endTime,
+  });
+
+  beforeEach(() => {
+    redis = new MockRedisClient();
+    storage = new StorageService(redis);
+    themeManager = new ThemeManager(storage);
+  });
+
+  describe('Scheduling', () => {
+    test('should list scheduled themes earliest first', async () => {
+      const now = Date.now();
+      await themeManager.scheduleTheme(details('Kitchen', now + 2 * day));
+      await themeManager.scheduleTheme(details('Garage', now + day));
+
+      const themes = await themeManager.getScheduledThemes();
+
+      expect(themes.map(theme => theme.name)).toEqual(['Garage', 'Kitchen']);
+      expect(themes.every(theme => !theme.active)).toBe(true);
+    });
+
+    test('should reject overlapping, inverted and past themes', async () => {
+      const now = Date.now();
+      await themeManager.scheduleTheme(details('Kitchen', now + day));
+
+      await expect(themeManager.scheduleTheme(details('Garage', now + day + hour))).rejects.toThrow('overlaps "Kitchen"');
+      await expect(themeManager.scheduleTheme(details('Garage', now + 3 * day, now + 2 * day))).rejects.toThrow();
+      await expect(themeManager.scheduleTheme(details('Garage', now - 2 * day))).rejects.toThrow('end in the future');
+      await expect(themeManager.scheduleTheme(details(' ', now + 3 * day))).rejects.toThrow();
+    });
+
+    test('should pin a known room and reject unknown ones', async () => {
+      const now = Date.now();
+      const theme = await themeManager.scheduleTheme({ ...details('Classroom', now + day), roomId: 'classroom' });
+
+      expect(theme.roomId).toBe('classroom');
+      await expect(themeManager.scheduleTheme({ ...details('Attic', now + 3 * day), roomId: 'attic' })).rejects.toThrow('Unknown room: attic');
+    });
+
+    test('should edit a scheduled theme in place', async () => {
+      const now = Date.now();
+      const theme = await themeManager.scheduleTheme(details('Kitchen', now + day));
+
+      await themeManager.updateScheduledTheme(theme.id, { ...details('Bakery', now + day), bannerUrl: 'https://example.com/b.png' });
+
+      const [updated] = await themeManager.getScheduledThemes();
+      expect(updated.id).toBe(theme.id);
+      expect(updated.name).toBe('Bakery');
+      expect(updated.bannerUrl).toBe('https://example.com/b.png');
+    });
+
+    test('should swap time slots when reordering', async () => {
+      const now = Date.now();
+      const first = await themeManager.scheduleTheme(details('Kitchen', now + day));
+      const second = await themeManager.scheduleTheme(details('Garage', now + 2 * day, now + 4 * day));
+
+      const themes = await themeManager.moveScheduledTheme(second.id, -1);
+
+      expect(themes.map(theme => theme.name)).toEqual(['Garage', 'Kitchen']);
+      expect(themes[0].startTime).toBe(first.startTime);
+      expect(themes[1].endTime).toBe(second.endTime);
+      expect(await themeManager.moveScheduledTheme(second.id, -1)).toEqual(themes);
+    });
+
+    test('should remove themes from the calendar', async () => {
+      const theme = await themeManager.scheduleTheme(details('Kitchen', Date.now() + day));
+
+      await themeManager.unscheduleTheme(theme.id);
+
+      expect(await themeManager.getScheduledThemes()).toEqual([]);
+    });
+  });
+
+  describe('Rotation', () => {
+    test('should start a scheduled theme once its start time arrives', async () => {
+      const now = Date.now();
+      await themeManager.initializeDefaultTheme();
+      const scheduled = await themeManager.scheduleTheme(details('Kitchen', now + hour));
+
+      expect((await rotateTheme(themeManager, now)).name).toBe('School');
+
+      const current = await rotateTheme(themeManager, now + 2 * hour);
+      expect(current.id).toBe(scheduled.id);
+      expect((await themeManager.getCurrentTheme())!.active).toBe(true);
+      expect(await themeManager.getScheduledThemes()).toEqual([]);
+    });
+
+    test('should fill gaps from the rotation until the next scheduled theme', async () => {
+      const now = Date.now();
+      await storage.saveTheme({
+        id: 'theme_expired',
+        name: 'School',
+        description: 'Expired theme',
+        startTime: now - day,
+        endTime: now - 1000,
+        active: true,
+      });
+      await themeManager.scheduleTheme(details('Kitchen', now + 3 * hour));
+
+      const current = await rotateTheme(themeManager, now);
+
+      expect(current.name).toBe('Office');
+      expect(current.endTime).toBe(now + 3 * hour);
+    });
+  });
+
+  describe('Form Values', () => {
+    test('should parse UTC calendar dates', () => {
+      expect(parseCalendarDate('2025-01-31 18:30')).toBe(Date.UTC(2025, 0, 31, 18, 30));
+      expect(parseCalendarDate('2025-01-31')).toBe(Date.UTC(2025, 0, 31));
+      expect(formatCalendarDate(Date.UTC(2025, 0, 31, 18, 30))).toBe('2025-01-31 18:30');
+    });
+
+    test('should reject dates that do not exist', () => {
+      expect(parseCalendarDate('2025-02-30')).toBeNull();
+      expect(parseCalendarDate('2025-01-31 25:00')).toBeNull();
+      expect(parseCalendarDate('tomorrow')).toBeNull();
+    });
+
+    test('should keep the existing banner when none is uploaded', () => {
+      const values = { name: 'Kitchen', description: 'Cook', startTime: '2030-01-01', endTime: '2030-01-02', bannerUrl: '' };
+      const existing = { id: 't', ...details('Kitchen', 1, 2), active: false, bannerUrl: 'https://example.com/b.png' };
+
+      expect(parseThemeDetailsValues(values, existing).bannerUrl).toBe('https://example.com/b.png');
+      expect(parseThemeDetailsValues(values).bannerUrl).toBeUndefined();
+      expect(() => parseThemeDetailsValues({ ...values, endTime: 'soon' })).toThrow('End must be a date');
+    });
+
+    test('should only pin a room when one is picked', () => {
+      const values = { name: 'Kitchen', description: 'Cook', startTime: '2030-01-01', endTime: '2030-01-02' };
+
+      expect(parseThemeDetailsValues({ ...values, roomId: ['classroom'] }).roomId).toBe('classroom');
+      expect(parseThemeDetailsValues({ ...values, roomId: ['any'] }).roomId).toBeUndefined();
+      expect(parseThemeDetailsValues(values).roomId).toBeUndefined();
+    });
+
+    test('should only store a resubmission policy other than keeping likes', () => {
+      const values = { name: 'Kitchen', description: 'Cook', startTime: '2030-01-01', endTime: '2030-01-02' };
+
+      expect(parseThemeDetailsValues({ ...values, resubmitVotes: ['reset'] }).resubmitVotes).toBe('reset');
+      expect(parseThemeDetailsValues({ ...values, resubmitVotes: ['keep'] }).resubmitVotes).toBeUndefined();
+      expect(parseThemeDetailsValues(values).resubmitVotes).toBeUndefined();
+    });
+  });
+});
@@ -7,7 +7,7 @@ import { describe, test, expect, beforeEach, vi } from 'vitest';
 import fc from 'fast-check';
 import { ThemeManager } from '../managers/ThemeManager.js';
 import { StorageService, RedisClient } from '../storage/StorageService.js';
-import { Theme, Design } from '../types/models.js';
+import { Theme, Design, DESIGN_SCHEMA_VERSION } from '../types/models.js';
 
 // Mock Redis client for testing
 class MockRedisClient implements RedisClient {
@@ -46,6 +46,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -148,7 +153,9 @@ const placedAssetGen = fc.record({
   x: fc.integer({ min: 0, max: 800 }),
   y: fc.integer({ min: 0, max: 600 }),
   rotation: fc.constantFrom(0, 90, 180, 270),
-  zIndex: fc.integer({ min: 0, max: 100 })
+  zIndex: fc.integer({ min: 0, max: 100 }),
+  scale: fc.constantFrom(0.5, 1, 2),
+  flipped: fc.boolean()
 });
 
 const designGen = fc.record({
@@ -161,7 +168,9 @@ const designGen = fc.record({
   createdAt: fc.integer({ min: 1704067200000, max: 1735689600000 }),
   updatedAt: fc.integer({ min: 1704067200000, max: 1735689600000 }),
   submitted: fc.boolean(),
-  voteCount: fc.integer({ min: 0, max: 1000 })
+  voteCount: fc.integer({ min: 0, max: 1000 }),
+  layerMode: fc.constantFrom('depth' as const, 'manual' as const),
+  schemaVersion: fc.constant(DESIGN_SCHEMA_VERSION)
 });
 
 describe('ThemeManager Theme Transition Tests', () => {
@@ -45,6 +45,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async zAdd(): Promise<number> {
     return 0;
   }
@@ -61,6 +66,10 @@ class MockRedisClient implements RedisClient {
     return 0;
   }
 
+  async zRem(): Promise<number> {
+    return 0;
+  }
+
   clear(): void {
     this.store.clear();
     this.sets.clear();
@@ -0,0 +1,237 @@
+/**
+ * Unit tests for theme asset packs and restrictions
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { SubmissionHandler } from '../handlers/SubmissionHandler.js';
+import { StorageService, RedisClient } from '../storage/StorageService.js';
+import { Design, Theme, ThemeRules } from '../types/models.js';
+import { getAvailableAssets, getThemeRuleViolations, describeThemeRules } from '../utils/themeRules.js';
+import { MockAuthService } from './mocks/MockAuthService.js';
+
+// Mock Redis client for testing
+class MockRedisClient implements RedisClient {
+  private store: Map<string, string> = new Map();
+  private sets: Map<string, Set<string>> = new Map();
+  private sortedSets: Map<string, Map<string, number>> = new Map();
+
+  async get(key: string): Promise<string | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async sAdd(key: string, members: string[]): Promise<number> {
+    if (!this.sets.has(key)) {
+      this.sets.set(key, new Set());
+    }
+    const set = this.sets.get(key)!;
+    let added = 0;
+    for (const member of members) {
+      if (!set.has(member)) {
+        set.add(member);
+        added++;
+      }
+    }
+    return added;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    const set = this.sets.get(key);
+    return set ? Array.from(set) : [];
+  }
+
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
+  async zAdd(key: string, members: { member: string; score: number }[]): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    let added = 0;
+    for (const { member, score } of members) {
+      if (!sortedSet.has(member)) {
+        added++;
+      }
+      sortedSet.set(member, score);
+    }
+    return added;
+  }
+
+  async zRevRange(key: string, start: number, stop: number): Promise<string[]> {
+    const sortedSet = this.sortedSets.get(key);
+    if (!sortedSet) return [];
+    
+    const entries = Array.from(sortedSet.entries())
+      .sort((a, b) => b[1] - a[1]);
+    
+    const end = stop === -1 ? entries.length : stop + 1;
+    return entries.slice(start, end).map(([member]) => member);
+  }
+
+  async zRevRank(key: string, member: string): Promise<number | undefined> {
+    const sortedSet = this.sortedSets.get(key);
+    if (!sortedSet || !sortedSet.has(member)) return undefined;
+    
+    const entries = Array.from(sortedSet.entries())
+      .sort((a, b) => b[1] - a[1]);
+    
+    return entries.findIndex(([m]) => m === member);
+  }
+
+  async zIncrBy(key: string, increment: number, member: string): Promise<number> {
+    if (!this.sortedSets.has(key)) {
+      this.sortedSets.set(key, new Map());
+    }
+    const sortedSet = this.sortedSets.get(key)!;
+    const currentScore = sortedSet.get(member) || 0;
+    const newScore = currentScore + increment;
+    sortedSet.set(member, newScore);
+    return newScore;
+  }
+
+  async zRem(key: string, members: string[]): Promise<number> {
+    const sortedSet = this.sortedSets.get(key);
+    return members.filter(member => sortedSet?.delete(member)).length;
+  }
+
+  clear(): void {
+    this.store.clear();
+    this.sets.clear();
+    this.sortedSets.clear();
+  }
+}
+
+const placed = (...assetIds: string[]) => assetIds.map(assetId => ({ assetId }));
+
+describe('Theme Rules', () => {
+  describe('getAvailableAssets', () => {
+    test('should offer every asset without rules', () => {
+      expect(getAvailableAssets().length).toBe(getAvailableAssets({}).length);
+      expect(getAvailableAssets().some(asset => asset.id === 'laptop')).toBe(true);
+    });
+
+    test('should limit the palette to the asset pack', () => {
+      const ids = getAvailableAssets({ allowedAssetIds: ['desk', 'lamp'] }).map(asset => asset.id);
+      expect(ids).toEqual(['desk', 'lamp']);
+    });
+
+    test('should drop banned categories but keep required assets', () => {
+      const ids = getAvailableAssets({ bannedCategories: ['electronics'], requiredAssetIds: ['laptop'] }).map(asset => asset.id);
+      expect(ids).toContain('laptop');
+      expect(ids).not.toContain('mouse');
+      expect(ids).toContain('desk');
+    });
+  });
+
+  describe('getThemeRuleViolations', () => {
+    const rules: ThemeRules = {
+      allowedAssetIds: ['desk', 'chair_1', 'laptop'],
+      requiredAssetIds: ['desk'],
+      bannedCategories: ['electronics'],
+      maxItems: 3,
+    };
+
+    test('should accept a design that follows the rules', () => {
+      expect(getThemeRuleViolations(placed('desk', 'chair_1', 'chair_1'), rules)).toEqual([]);
+      expect(getThemeRuleViolations(placed('mouse'))).toEqual([]);
+    });
+
+    test('should name banned, unlisted and missing assets', () => {
+      expect(getThemeRuleViolations(placed('laptop', 'lamp'), rules)).toEqual([
+        'Electronics items are not allowed (Laptop)',
+        "Lamp is not part of this theme's asset pack",
+        'Must include a Desk',
+      ]);
+    });
+
+    test('should report assets missing from the catalog when a theme has rules', () => {
+      expect(getThemeRuleViolations(placed('desk', 'spaceship'), rules)).toEqual(['Unknown item "spaceship"']);
+      expect(getThemeRuleViolations(placed('spaceship'))).toEqual([]);
+    });
+
+    test('should report too many items', () => {
+      expect(getThemeRuleViolations(placed('desk', 'chair_1', 'chair_1', 'chair_1'), rules)).toEqual([
+        'Too many items: 4 placed, at most 3 allowed',
+      ]);
+    });
+  });
+
+  test('should describe the rules for the editor', () => {
+    expect(describeThemeRules({ requiredAssetIds: ['desk'], bannedCategories: ['decoration'], maxItems: 8 })).toEqual([
+      'Must include: Desk',
+      'No Decoration',
+      'At most 8 items',
+    ]);
+    expect(describeThemeRules()).toEqual([]);
+  });
+
+  describe('SubmissionHandler', () => {
+    let storage: StorageService;
+    let authService: MockAuthService;
+    let handler: SubmissionHandler;
+
+    const theme: Theme = {
+      id: 'theme_library',
+      name: 'Library',
+      description: 'A quiet reading room',
+      startTime: 1704067200000,
+      endTime: 1704672000000,
+      active: true,
+      rules: { requiredAssetIds: ['bookshelf_1'], bannedCategories: ['electronics'] },
+    };
+
+    const createDesign = (...assetIds: string[]): Design => ({
+      id: 'design_library_001',
+      userId: 'user_alice',
+      username: 'alice',
+      themeId: theme.id,
+      backgroundColor: '#FFFFFF',
+      assets: assetIds.map((assetId, index) => ({
+        assetId,
+        x: 100 + index * 50,
+        y: 200,
+        rotation: 0,
+        zIndex: index,
+        scale: 1,
+        flipped: false,
+      })),
+      layerMode: 'depth',
+      schemaVersion: 1,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      submitted: false,
+      voteCount: 0,
+    });
+
+    beforeEach(async () => {
+      storage = new StorageService(new MockRedisClient());
+      authService = new MockAuthService();
+      authService.setMockUser({ id: 'user_alice', username: 'alice' });
+      handler = new SubmissionHandler(storage, authService);
+      await storage.saveTheme(theme);
+    });
+
+    test('should reject a design that breaks the theme rules', async () => {
+      await expect(handler.submitDesign(createDesign('desk', 'laptop'))).rejects.toThrow(
+        'Design breaks the theme rules: Electronics items are not allowed (Laptop); Must include a Bookshelf 1'
+      );
+      expect(await handler.hasUserSubmitted('user_alice', theme.id)).toBe(false);
+    });
+
+    test('should submit a design that follows the theme rules', async () => {
+      const design = createDesign('bookshelf_1', 'desk');
+      expect(await handler.getRuleViolations(design)).toEqual([]);
+      expect(await handler.submitDesign(design)).toBe(design.id);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Unit tests for recording and replaying a design's build timelapse
+ */
+
+import { describe, test, expect } from 'vitest';
+import { BuildStep, PlacedAsset, MAX_TIMELAPSE_STEPS, validateTimelapse } from '../types/models.js';
+import {
+  BuildState,
+  EMPTY_BUILD_STATE,
+  STEP_MERGE_WINDOW_MS,
+  COMPACTED_TIMELAPSE_STEPS,
+  MIN_REPLAY_GAP_MS,
+  MAX_REPLAY_GAP_MS,
+  diffBuildStates,
+  appendBuildSteps,
+  compactBuildSteps,
+  replayBuildSteps,
+  getBuildAssets,
+  getNextBuildItem,
+  matchBuildItems,
+  getReplayDelay,
+} from '../utils/timelapse.js';
+
+describe('Timelapse Utilities', () => {
+  const createAsset = (assetId: string, x: number, y: number): PlacedAsset => ({
+    assetId,
+    x,
+    y,
+    rotation: 0,
+    zIndex: 0,
+    scale: 1,
+    flipped: false,
+  });
+
+  const chair = createAsset('chair', 100, 200);
+  const desk = createAsset('desk', 300, 400);
+
+  describe('diffBuildStates', () => {
+    test('should record placed, moved, flipped and deleted items', () => {
+      const before: BuildState = { ...EMPTY_BUILD_STATE, items: [{ item: 0, asset: chair }, { item: 1, asset: desk }] };
+      const after: BuildState = {
+        ...EMPTY_BUILD_STATE,
+        items: [{ item: 0, asset: { ...chair, x: 150, flipped: true } }, { item: 2, asset: desk }],
+      };
+
+      expect(diffBuildStates(before, after, 50)).toEqual([
+        { t: 50, op: 'delete', item: 1 },
+        { t: 50, op: 'flip', item: 0 },
+        { t: 50, op: 'move', item: 0, x: 150, y: 200, rotation: 0, scale: 1 },
+        { t: 50, op: 'place', item: 2, asset: desk },
+      ]);
+    });
+
+    test('should record background and room color changes as a recolor', () => {
+      const after: BuildState = { ...EMPTY_BUILD_STATE, roomColors: { wall: '#AABBCC' } };
+
+      expect(diffBuildStates(EMPTY_BUILD_STATE, after, 10)).toEqual([
+        { t: 10, op: 'recolor', backgroundColor: EMPTY_BUILD_STATE.backgroundColor, roomColors: { wall: '#AABBCC' } },
+      ]);
+      expect(diffBuildStates(EMPTY_BUILD_STATE, { ...EMPTY_BUILD_STATE, roomColors: {} }, 10)).toEqual([]);
+    });
+  });
+
+  describe('appendBuildSteps', () => {
+    const move = (t: number, item: number, x: number): BuildStep => ({ t, op: 'move', item, x, y: 200, rotation: 0, scale: 1 });
+
+    test('should merge a continued drag into one step', () => {
+      const steps = appendBuildSteps([move(0, 0, 100)], [move(STEP_MERGE_WINDOW_MS - 1, 0, 120)]);
+      expect(steps).toEqual([move(STEP_MERGE_WINDOW_MS - 1, 0, 120)]);
+    });
+
+    test('should keep separate moves of other items or after a pause', () => {
+      expect(appendBuildSteps([move(0, 0, 100)], [move(10, 1, 120)])).toHaveLength(2);
+      expect(appendBuildSteps([move(0, 0, 100)], [move(STEP_MERGE_WINDOW_MS, 0, 120)])).toHaveLength(2);
+    });
+
+    test('should compact a recording at the step limit and keep recording', () => {
+      const full: BuildStep[] = Array.from({ length: MAX_TIMELAPSE_STEPS }, (_, t): BuildStep => (
+        t % 2 === 0 ? { t, op: 'place', item: t, asset: chair } : { t, op: 'flip', item: t - 1 }
+      ));
+      const last: BuildStep = { t: MAX_TIMELAPSE_STEPS, op: 'flip', item: 0 };
+      const steps = appendBuildSteps(full, [last]);
+
+      expect(steps.length).toBeLessThanOrEqual(MAX_TIMELAPSE_STEPS);
+      expect(steps[steps.length - 1]).toEqual(last);
+      expect(replayBuildSteps(steps)).toEqual(replayBuildSteps([...full, last]));
+    });
+  });
+
+  describe('compactBuildSteps', () => {
+    test('should drop moves an item makes again before anything else happens to it', () => {
+      const steps: BuildStep[] = [
+        { t: 0, op: 'place', item: 0, asset: chair },
+        { t: 0, op: 'place', item: 1, asset: desk },
+        ...Array.from({ length: COMPACTED_TIMELAPSE_STEPS }, (_, t): BuildStep => (
+          { t: t + 1, op: 'move', item: t % 2, x: t, y: t, rotation: 0, scale: 1 }
+        )),
+        { t: 9998, op: 'flip', item: 0 },
+        { t: 9999, op: 'move', item: 0, x: 5, y: 5, rotation: 0, scale: 1 },
+      ];
+      const compacted = compactBuildSteps(steps);
+
+      expect(compacted.map(step => step.op)).toEqual(['place', 'place', 'move', 'move', 'flip', 'move']);
+      expect(replayBuildSteps(compacted)).toEqual(replayBuildSteps(steps));
+    });
+
+    test('should fold the oldest steps into the room they built', () => {
+      const steps: BuildStep[] = [
+        { t: 0, op: 'recolor', backgroundColor: '#000000' },
+        ...Array.from({ length: MAX_TIMELAPSE_STEPS }, (_, t): BuildStep => (
+          t % 2 === 0 ? { t, op: 'place', item: t, asset: chair } : { t, op: 'delete', item: t - 1 }
+        )),
+      ];
+      const compacted = compactBuildSteps(steps);
+
+      expect(compacted.length).toBeLessThanOrEqual(COMPACTED_TIMELAPSE_STEPS);
+      expect(compacted[0]).toEqual({ t: expect.any(Number), op: 'recolor', backgroundColor: '#000000' });
+      expect(compacted.slice(1)).toEqual(steps.slice(steps.length - compacted.length + 1));
+      expect(replayBuildSteps(compacted)).toEqual(replayBuildSteps(steps));
+    });
+
+    test('should keep a room too big to fold as its finished state', () => {
+      const steps: BuildStep[] = Array.from({ length: MAX_TIMELAPSE_STEPS + 1 }, (_, t) => ({ t, op: 'place', item: t, asset: chair }));
+      const compacted = compactBuildSteps(steps);
+
+      expect(compacted).toHaveLength(MAX_TIMELAPSE_STEPS + 1);
+      expect(compacted.every(step => step.t === MAX_TIMELAPSE_STEPS)).toBe(true);
+      expect(replayBuildSteps(compacted)).toEqual(replayBuildSteps(steps));
+    });
+  });
+
+  describe('replayBuildSteps', () => {
+    test('should rebuild the room one step at a time', () => {
+      const steps: BuildStep[] = [
+        { t: 0, op: 'place', item: 0, asset: chair },
+        { t: 10, op: 'place', item: 1, asset: desk },
+        { t: 20, op: 'move', item: 0, x: 110, y: 210, rotation: 90, scale: 2 },
+        { t: 30, op: 'flip', item: 1 },
+        { t: 40, op: 'delete', item: 0 },
+        { t: 50, op: 'recolor', backgroundColor: '#000000', roomColors: { floorPattern: 'tile' } },
+      ];
+
+      expect(getBuildAssets(replayBuildSteps(steps.slice(0, 3)))).toEqual([
+        { ...chair, x: 110, y: 210, rotation: 90, scale: 2, zIndex: 0 },
+        { ...desk, zIndex: 1 },
+      ]);
+      expect(replayBuildSteps(steps)).toEqual({
+        items: [{ item: 1, asset: { ...desk, flipped: true } }],
+        backgroundColor: '#000000',
+        roomColors: { floorPattern: 'tile' },
+      });
+    });
+
+    test('should replay what diffing recorded', () => {
+      const after: BuildState = { items: [{ item: 3, asset: desk }], backgroundColor: '#123456' };
+      expect(replayBuildSteps(diffBuildStates(EMPTY_BUILD_STATE, after, 0))).toEqual(after);
+    });
+  });
+
+  describe('resuming a recording', () => {
+    test('should number new items after every recorded one', () => {
+      expect(getNextBuildItem([])).toBe(0);
+      expect(getNextBuildItem([
+        { t: 0, op: 'place', item: 4, asset: chair },
+        { t: 1, op: 'delete', item: 4 },
+        { t: 2, op: 'recolor', backgroundColor: '#000000' },
+      ])).toBe(5);
+    });
+
+    test('should match restored assets to recorded items by asset and position', () => {
+      const items = [{ item: 0, asset: chair }, { item: 1, asset: desk }, { item: 2, asset: chair }];
+      const restored = [{ ...desk, x: 300.4 }, { ...chair, zIndex: 5 }, createAsset('lamp', 0, 0), chair, chair];
+
+      expect(matchBuildItems(items, restored)).toEqual([1, 0, undefined, 2, undefined]);
+    });
+  });
+
+  describe('getReplayDelay', () => {
+    const steps: BuildStep[] = [
+      { t: 0, op: 'delete', item: 0 },
+      { t: 10, op: 'delete', item: 1 },
+      { t: 500, op: 'delete', item: 2 },
+      { t: 60000, op: 'delete', item: 3 },
+    ];
+
+    test('should follow the recorded pace, within limits', () => {
+      expect(getReplayDelay(steps, 0, 1)).toBe(MIN_REPLAY_GAP_MS);
+      expect(getReplayDelay(steps, 1, 1)).toBe(MIN_REPLAY_GAP_MS);
+      expect(getReplayDelay(steps, 2, 1)).toBe(490);
+      expect(getReplayDelay(steps, 3, 1)).toBe(MAX_REPLAY_GAP_MS);
+    });
+
+    test('should speed up by the replay speed', () => {
+      expect(getReplayDelay(steps, 3, 4)).toBe(MAX_REPLAY_GAP_MS / 4);
+    });
+  });
+
+  describe('validateTimelapse', () => {
+    test('should accept recorded steps', () => {
+      expect(validateTimelapse({ steps: [] })).toBe(true);
+      expect(validateTimelapse({
+        steps: [
+          { t: 0, op: 'place', item: 0, asset: chair },
+          { t: 5, op: 'move', item: 0, x: 1, y: 2, rotation: 45, scale: 1.5 },
+          { t: 6, op: 'recolor', backgroundColor: '#ABCDEF' },
+        ],
+      })).toBe(true);
+    });
+
+    test('should reject malformed and oversized recordings', () => {
+      expect(validateTimelapse({ steps: [{ t: -1, op: 'flip', item: 0 }] })).toBe(false);
+      expect(validateTimelapse({ steps: [{ t: 0, op: 'flip', item: 0.5 }] })).toBe(false);
+      expect(validateTimelapse({ steps: [{ t: 0, op: 'recolor', backgroundColor: 'red' }] })).toBe(false);
+      expect(validateTimelapse({ steps: [{ t: 0, op: 'place', item: 0, asset: { ...chair, scale: 10 } }] })).toBe(false);
+      expect(validateTimelapse({ steps: [{ t: 0, op: 'spin', item: 0 }] } as never)).toBe(false);
+      expect(validateTimelapse({ steps: Array.from({ length: MAX_TIMELAPSE_STEPS + 1 }, () => ({ t: 0, op: 'flip' as const, item: 0 })) })).toBe(false);
+    });
+  });
+});
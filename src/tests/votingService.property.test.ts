@@ -47,6 +47,11 @@ class MockRedisClient implements RedisClient {
     return set ? Array.from(set) : [];
   }
 
+  async sRem(key: string, members: string[]): Promise<number> {
+    const set = this.sets.get(key);
+    return members.filter(member => set?.delete(member)).length;
+  }
+
   async incrBy(key: string, increment: number): Promise<number> {
     const current = this.store.get(key);
     const value = current ? parseInt(current, 10) : 0;
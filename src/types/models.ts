@@ -13,27 +13,131 @@ export enum AssetCategory {
   RUG = 'rug'
 }
 
+/**
+ * Version of the stored design document. Bump it together with a new entry in
+ * DESIGN_MIGRATIONS (src/utils/designMigrations.ts) whenever the shape changes.
+ */
+export const DESIGN_SCHEMA_VERSION = 2;
+
+// Design coordinates are canvas pixels; the room image fills the 4:3 canvas
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+
 export interface PlacedAsset {
   assetId: string;
-  x: number;
-  y: number;
-  rotation: number; // 0, 90, 180, 270
+  x: number; // center, 0..CANVAS_WIDTH
+  y: number; // center, 0..CANVAS_HEIGHT
+  rotation: number; // degrees clockwise, 0 <= rotation < 360
   zIndex: number;
+  scale: number; // size multiplier, MIN_ASSET_SCALE..MAX_ASSET_SCALE
+  flipped: boolean; // mirrored horizontally
+  layerOverride?: LayerOverride; // explicit bring-to-front/send-to-back
+}
+
+/**
+ * How placed assets are stacked: 'depth' sorts by isometric position,
+ * 'manual' stacks by zIndex alone (default for older designs)
+ */
+export type LayerMode = 'depth' | 'manual';
+
+export type LayerOverride = 'front' | 'back';
+
+/**
+ * Texture drawn over the room's floor
+ */
+export type FloorPattern = 'wood' | 'tile' | 'carpet';
+
+export const FLOOR_PATTERNS: FloorPattern[] = ['wood', 'tile', 'carpet'];
+
+/**
+ * Tints for the room base's surfaces; an absent color leaves that surface as
+ * drawn in the room image
+ */
+export interface RoomColors {
+  wall?: string;
+  floor?: string;
+  trim?: string;
+  floorPattern?: FloorPattern;
 }
 
+export const MIN_ASSET_SCALE = 0.25;
+export const MAX_ASSET_SCALE = 3;
+
+export const MAX_DESIGN_NAME_LENGTH = 40;
+
 export interface Design {
   id: string;
   userId: string;
   username: string;
   themeId: string;
-  backgroundColor: string;
+  // The player's name for the design, to tell their drafts apart
+  name?: string;
+  // Room base the design is built in (src/utils/roomBases.ts)
+  roomId: string;
+  backgroundColor: string; // behind the room image
+  roomColors?: RoomColors;
   assets: PlacedAsset[];
+  layerMode: LayerMode;
+  schemaVersion: number;
   createdAt: number;
   updatedAt: number;
   submitted: boolean;
+  // When the design was first submitted; hot ranking ages designs from here
+  submittedAt?: number;
   voteCount: number;
+  // Elo rating from head-to-head matchups, absent until the first one
+  rating?: number;
+  // How many times the design has been submitted; absent before the first
+  // submission (and on designs submitted before revisions were kept)
+  revision?: number;
+  // When a resubmission last reset or decayed the likes; likes cast before
+  // then no longer count as the voter's
+  votesResetAt?: number;
+  // The gallery design this one was remixed from
+  remixOf?: RemixSource;
+  // How many drafts have been remixed from this design
+  remixCount?: number;
+}
+
+/**
+ * The design a remix was copied from, and who made it
+ */
+export interface RemixSource {
+  designId: string;
+  userId: string;
+  username: string;
+}
+
+/**
+ * One submission of a design, kept unchanged when the design is resubmitted
+ */
+export interface DesignRevision {
+  revision: number;
+  submittedAt: number;
+  design: Design;
+}
+
+/**
+ * One step of a design's build history, `t` ms after recording started.
+ * Items are numbered in the order they were first placed; `move` also covers
+ * rotating and resizing, and `recolor` the background and room colors.
+ */
+export type BuildStep =
+  | { t: number; op: 'place'; item: number; asset: PlacedAsset }
+  | { t: number; op: 'move'; item: number; x: number; y: number; rotation: number; scale: number }
+  | { t: number; op: 'flip'; item: number }
+  | { t: number; op: 'delete'; item: number }
+  | { t: number; op: 'recolor'; backgroundColor: string; roomColors?: RoomColors };
+
+/**
+ * The editor's record of how a design was built, replayed in the viewer
+ */
+export interface Timelapse {
+  steps: BuildStep[];
 }
 
+export const MAX_TIMELAPSE_STEPS = 500;
+
 export interface Asset {
   id: string;
   name: string;
@@ -44,6 +148,19 @@ export interface Asset {
   height: number;
 }
 
+/**
+ * Optional limits on what a theme's designs may contain. Asset ids and
+ * categories refer to the asset catalog (src/utils/assetCatalog.ts).
+ */
+export interface ThemeRules {
+  // The theme's asset pack; absent means every catalog asset
+  allowedAssetIds?: string[];
+  // Assets every design must place at least once
+  requiredAssetIds?: string[];
+  bannedCategories?: string[];
+  maxItems?: number;
+}
+
 export interface Theme {
   id: string;
   name: string;
@@ -51,8 +168,25 @@ export interface Theme {
   startTime: number;
   endTime: number;
   active: boolean;
+  // Optional image shown above the theme name
+  bannerUrl?: string;
+  rules?: ThemeRules;
+  // Room every design for the theme is built in; absent lets players choose
+  roomId?: string;
+  // What happens to a design's likes when it is resubmitted; absent keeps them
+  resubmitVotes?: ResubmitVotePolicy;
 }
 
+/**
+ * Likes on resubmission: kept, reset to zero, or decayed by RESUBMIT_VOTE_DECAY
+ */
+export type ResubmitVotePolicy = 'keep' | 'reset' | 'decay';
+
+export const RESUBMIT_VOTE_POLICIES: ResubmitVotePolicy[] = ['keep', 'reset', 'decay'];
+
+// Share of its likes a design keeps when resubmitted under the 'decay' policy
+export const RESUBMIT_VOTE_DECAY = 0.5;
+
 export interface LeaderboardEntry {
   rank: number;
   design: Design;
@@ -60,13 +194,32 @@ export interface LeaderboardEntry {
   voteCount: number;
 }
 
+/**
+ * Gallery orderings: newest submissions, most likes, likes weighted by age,
+ * head-to-head Elo rating, and a per-viewer shuffle that gives every
+ * submission the same exposure
+ */
+export type GallerySort = 'newest' | 'top' | 'hot' | 'rating' | 'random';
+
+export const GALLERY_SORTS: GallerySort[] = ['newest', 'top', 'hot', 'rating', 'random'];
+
+export interface GalleryPage {
+  designs: Design[];
+  // Opaque token for the next page, null on the last page
+  nextCursor: string | null;
+}
+
 // Validation helper functions
 
 export function isValidRotation(rotation: number): boolean {
-  return rotation === 0 || rotation === 90 || rotation === 180 || rotation === 270;
+  return Number.isFinite(rotation) && rotation >= 0 && rotation < 360;
+}
+
+export function isValidScale(scale: number): boolean {
+  return Number.isFinite(scale) && scale >= MIN_ASSET_SCALE && scale <= MAX_ASSET_SCALE;
 }
 
-export function isValidCoordinate(x: number, y: number, canvasWidth: number = 800, canvasHeight: number = 600): boolean {
+export function isValidCoordinate(x: number, y: number, canvasWidth: number = CANVAS_WIDTH, canvasHeight: number = CANVAS_HEIGHT): boolean {
   return x >= 0 && x <= canvasWidth && y >= 0 && y <= canvasHeight;
 }
 
@@ -74,7 +227,7 @@ export function isValidHexColor(color: string): boolean {
   return /^#[0-9A-Fa-f]{6}$/.test(color);
 }
 
-export function validatePlacedAsset(asset: PlacedAsset, canvasWidth: number = 800, canvasHeight: number = 600): boolean {
+export function validatePlacedAsset(asset: PlacedAsset, canvasWidth: number = CANVAS_WIDTH, canvasHeight: number = CANVAS_HEIGHT): boolean {
   if (!asset.assetId || typeof asset.assetId !== 'string') {
     return false;
   }
@@ -87,9 +240,40 @@ export function validatePlacedAsset(asset: PlacedAsset, canvasWidth: number = 80
   if (typeof asset.zIndex !== 'number' || asset.zIndex < 0) {
     return false;
   }
+  if (typeof asset.scale !== 'number' || !isValidScale(asset.scale)) {
+    return false;
+  }
+  if (typeof asset.flipped !== 'boolean') {
+    return false;
+  }
+  if (asset.layerOverride !== undefined && asset.layerOverride !== 'front' && asset.layerOverride !== 'back') {
+    return false;
+  }
+  return true;
+}
+
+export function validateRoomColors(colors: RoomColors): boolean {
+  if (typeof colors !== 'object' || colors === null) {
+    return false;
+  }
+  for (const color of [colors.wall, colors.floor, colors.trim]) {
+    if (color !== undefined && (typeof color !== 'string' || !isValidHexColor(color))) {
+      return false;
+    }
+  }
+  if (colors.floorPattern !== undefined && !FLOOR_PATTERNS.includes(colors.floorPattern)) {
+    return false;
+  }
   return true;
 }
 
+/**
+ * Design names are trimmed, non-empty and at most MAX_DESIGN_NAME_LENGTH long
+ */
+export function isValidDesignName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim() === name && name.length > 0 && name.length <= MAX_DESIGN_NAME_LENGTH;
+}
+
 export function validateDesign(design: Design): boolean {
   if (!design.id || typeof design.id !== 'string') {
     return false;
@@ -103,9 +287,18 @@ export function validateDesign(design: Design): boolean {
   if (!design.themeId || typeof design.themeId !== 'string') {
     return false;
   }
+  if (design.name !== undefined && !isValidDesignName(design.name)) {
+    return false;
+  }
+  if (!design.roomId || typeof design.roomId !== 'string') {
+    return false;
+  }
   if (!isValidHexColor(design.backgroundColor)) {
     return false;
   }
+  if (design.roomColors !== undefined && !validateRoomColors(design.roomColors)) {
+    return false;
+  }
   if (!Array.isArray(design.assets)) {
     return false;
   }
@@ -114,6 +307,12 @@ export function validateDesign(design: Design): boolean {
       return false;
     }
   }
+  if (design.layerMode !== 'depth' && design.layerMode !== 'manual') {
+    return false;
+  }
+  if (design.schemaVersion !== DESIGN_SCHEMA_VERSION) {
+    return false;
+  }
   if (typeof design.createdAt !== 'number' || design.createdAt <= 0) {
     return false;
   }
@@ -123,12 +322,70 @@ export function validateDesign(design: Design): boolean {
   if (typeof design.submitted !== 'boolean') {
     return false;
   }
+  if (design.submittedAt !== undefined && (typeof design.submittedAt !== 'number' || design.submittedAt <= 0)) {
+    return false;
+  }
   if (typeof design.voteCount !== 'number') {
     return false;
   }
+  if (design.rating !== undefined && !Number.isFinite(design.rating)) {
+    return false;
+  }
+  if (design.revision !== undefined && (!Number.isInteger(design.revision) || design.revision < 1)) {
+    return false;
+  }
+  if (design.votesResetAt !== undefined && (typeof design.votesResetAt !== 'number' || design.votesResetAt <= 0)) {
+    return false;
+  }
+  if (design.remixOf !== undefined && !validateRemixSource(design.remixOf)) {
+    return false;
+  }
+  if (design.remixCount !== undefined && (!Number.isInteger(design.remixCount) || design.remixCount < 0)) {
+    return false;
+  }
   return true;
 }
 
+export function validateRemixSource(source: RemixSource): boolean {
+  if (typeof source !== 'object' || source === null) {
+    return false;
+  }
+  return [source.designId, source.userId, source.username].every(value => typeof value === 'string' && value.length > 0);
+}
+
+function validateBuildStep(step: BuildStep): boolean {
+  if (typeof step !== 'object' || step === null || !Number.isFinite(step.t) || step.t < 0) {
+    return false;
+  }
+  if (step.op === 'recolor') {
+    return isValidHexColor(step.backgroundColor) && (step.roomColors === undefined || validateRoomColors(step.roomColors));
+  }
+  if (!Number.isInteger(step.item) || step.item < 0) {
+    return false;
+  }
+  switch (step.op) {
+    case 'place':
+      return typeof step.asset === 'object' && step.asset !== null && validatePlacedAsset(step.asset);
+    case 'move':
+      return isValidCoordinate(step.x, step.y) && isValidRotation(step.rotation) && isValidScale(step.scale);
+    case 'flip':
+    case 'delete':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function validateTimelapse(timelapse: Timelapse): boolean {
+  if (typeof timelapse !== 'object' || timelapse === null || !Array.isArray(timelapse.steps)) {
+    return false;
+  }
+  if (timelapse.steps.length > MAX_TIMELAPSE_STEPS) {
+    return false;
+  }
+  return timelapse.steps.every(validateBuildStep);
+}
+
 export function validateAsset(asset: Asset): boolean {
   if (!asset.id || typeof asset.id !== 'string') {
     return false;
@@ -176,6 +433,43 @@ export function validateTheme(theme: Theme): boolean {
   if (typeof theme.active !== 'boolean') {
     return false;
   }
+  if (theme.bannerUrl !== undefined && (typeof theme.bannerUrl !== 'string' || !theme.bannerUrl)) {
+    return false;
+  }
+  if (theme.roomId !== undefined && (typeof theme.roomId !== 'string' || !theme.roomId)) {
+    return false;
+  }
+  if (theme.rules !== undefined && !validateThemeRules(theme.rules)) {
+    return false;
+  }
+  if (theme.resubmitVotes !== undefined && !RESUBMIT_VOTE_POLICIES.includes(theme.resubmitVotes)) {
+    return false;
+  }
+  return true;
+}
+
+const isStringList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0);
+
+export function validateThemeRules(rules: ThemeRules): boolean {
+  if (typeof rules !== 'object' || rules === null) {
+    return false;
+  }
+  if (rules.allowedAssetIds !== undefined && !isStringList(rules.allowedAssetIds)) {
+    return false;
+  }
+  if (rules.requiredAssetIds !== undefined && !isStringList(rules.requiredAssetIds)) {
+    return false;
+  }
+  if (rules.bannedCategories !== undefined && !isStringList(rules.bannedCategories)) {
+    return false;
+  }
+  if (rules.maxItems !== undefined && (!Number.isInteger(rules.maxItems) || rules.maxItems < 1)) {
+    return false;
+  }
+  if (rules.requiredAssetIds !== undefined && rules.maxItems !== undefined && rules.requiredAssetIds.length > rules.maxItems) {
+    return false;
+  }
   return true;
 }
 
@@ -199,3 +493,13 @@ export function validateLeaderboardEntry(entry: LeaderboardEntry): boolean {
 export function rotateAsset(currentRotation: number): number {
   return (currentRotation + 90) % 360;
 }
+
+// Helper function to wrap any angle into the 0 <= rotation < 360 range
+export function normalizeRotation(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+// Helper function to clamp a scale multiplier to the allowed range
+export function clampScale(scale: number): number {
+  return Math.max(MIN_ASSET_SCALE, Math.min(MAX_ASSET_SCALE, scale));
+}
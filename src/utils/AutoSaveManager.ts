@@ -4,24 +4,31 @@
  */
 
 import { Design } from '../types/models.js';
-import { StorageService } from '../storage/StorageService.js';
 
 export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
+/**
+ * Where designs are saved: StorageService on the server, the save API in the
+ * web client
+ */
+export interface DesignSaver<T = Design> {
+  saveDesign(design: T): Promise<void>;
+}
+
 export interface AutoSaveConfig {
   debounceMs?: number;
   onStatusChange?: (status: SaveStatus, error?: string) => void;
 }
 
-export class AutoSaveManager {
-  private storageService: StorageService;
+export class AutoSaveManager<T = Design> {
+  private storageService: DesignSaver<T>;
   private debounceMs: number;
-  private saveTimeout: NodeJS.Timeout | null = null;
+  private saveTimeout: ReturnType<typeof setTimeout> | null = null;
   private currentStatus: SaveStatus = 'idle';
   private onStatusChange?: (status: SaveStatus, error?: string) => void;
   private lastSaveTime: number = 0;
 
-  constructor(storageService: StorageService, config: AutoSaveConfig = {}) {
+  constructor(storageService: DesignSaver<T>, config: AutoSaveConfig = {}) {
     this.storageService = storageService;
     this.debounceMs = config.debounceMs || 2000; // Default 2 seconds
     this.onStatusChange = config.onStatusChange;
@@ -31,7 +38,7 @@ export class AutoSaveManager {
    * Schedule an auto-save for the given design
    * Debounces multiple calls within the debounce window
    */
-  scheduleAutoSave(design: Design): void {
+  scheduleAutoSave(design: T): void {
     // Clear any existing timeout
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout);
@@ -50,11 +57,11 @@ export class AutoSaveManager {
   /**
    * Perform the actual save operation
    */
-  private performSave(design: Design): void {
+  private performSave(design: T): Promise<void> {
     this.setStatus('saving');
 
-    // Use Promise to handle async save but don't await in the method
-    this.storageService.saveDesign(design)
+    // Failures are reported through the status, so callers never see a rejection
+    return this.storageService.saveDesign(design)
       .then(() => {
         this.lastSaveTime = Date.now();
         this.setStatus('saved');
@@ -83,7 +90,7 @@ export class AutoSaveManager {
   /**
    * Force an immediate save without debouncing
    */
-  async forceSave(design: Design): Promise<void> {
+  async forceSave(design: T): Promise<void> {
     // Clear any pending save
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout);
@@ -0,0 +1,74 @@
+/**
+ * CommandHistory - Bounded undo/redo stacks of editor commands
+ * Commands are plain data; callers apply and revert them against their own state
+ */
+
+export interface CommandHistoryConfig {
+  maxSize?: number;
+}
+
+export class CommandHistory<TCommand> {
+  private undoStack: TCommand[] = [];
+  private redoStack: TCommand[] = [];
+  private maxSize: number;
+
+  constructor(config: CommandHistoryConfig = {}) {
+    this.maxSize = config.maxSize || 50; // Default 50 steps
+  }
+
+  /**
+   * Record a command that has just been applied
+   * Clears the redo stack and drops the oldest command once the limit is reached
+   */
+  push(command: TCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.maxSize) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  /**
+   * Take the most recent command off the undo stack
+   * @returns The command the caller should revert, or undefined if there is nothing to undo
+   */
+  undo(): TCommand | undefined {
+    const command = this.undoStack.pop();
+    if (command !== undefined) {
+      this.redoStack.push(command);
+    }
+    return command;
+  }
+
+  /**
+   * Take the most recently undone command off the redo stack
+   * @returns The command the caller should re-apply, or undefined if there is nothing to redo
+   */
+  redo(): TCommand | undefined {
+    const command = this.redoStack.pop();
+    if (command !== undefined) {
+      this.undoStack.push(command);
+    }
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Number of commands that can currently be undone
+   */
+  size(): number {
+    return this.undoStack.length;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
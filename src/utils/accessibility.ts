@@ -0,0 +1,49 @@
+/**
+ * Accessibility Helpers
+ * Keyboard nudging and the screen-reader descriptions the editor announces
+ * as items are selected and moved
+ */
+
+import { Offset } from './arrange.js';
+
+// Offset percent moved per arrow key press, and with Shift held
+export const NUDGE_STEP = 1;
+export const LARGE_NUDGE_STEP = 5;
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/**
+ * How far an arrow key moves the selection
+ * @returns The move, or null for keys that are not arrows
+ */
+export function getNudge(key: string, large: boolean = false): Offset | null {
+  const direction = ARROW_DIRECTIONS[key];
+  if (!direction) {
+    return null;
+  }
+  const step = large ? LARGE_NUDGE_STEP : NUDGE_STEP;
+  return { xOffset: direction[0] * step, yOffset: direction[1] * step };
+}
+
+/**
+ * Where an item sits in the room, as read out to screen readers
+ * e.g. "40% across, 62% down"
+ */
+export function describePosition({ xOffset, yOffset }: Offset): string {
+  return `${Math.round(50 + xOffset)}% across, ${Math.round(50 + yOffset)}% down`;
+}
+
+/**
+ * Summary of a selection by asset name
+ */
+export function describeSelection(names: string[]): string {
+  if (names.length === 0) {
+    return 'Nothing selected';
+  }
+  return names.length === 1 ? `${names[0]} selected` : `${names.length} items selected`;
+}
@@ -0,0 +1,270 @@
+/**
+ * Arrange Utilities
+ * Editor tools that work on several placed assets at once: marquee hit
+ * testing, align / distribute, moving a selection together, smart guides,
+ * copies and reusable asset groups. Positions are editor offsets: percent of the room size from
+ * the room's center, as the editor stores them.
+ */
+
+import { LayerOverride } from '../types/models.js';
+
+// Furthest an asset's center may sit from the room center, in offset percent
+export const MAX_OFFSET = 45;
+
+export interface Offset {
+  xOffset: number;
+  yOffset: number;
+}
+
+/**
+ * A placed asset's center and half extents, all in offset percent
+ */
+export interface ArrangeItem extends Offset {
+  id: string;
+  halfWidth: number;
+  halfHeight: number;
+}
+
+export interface OffsetRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+const clampOffset = (value: number): number => Math.max(-MAX_OFFSET, Math.min(MAX_OFFSET, value));
+
+/**
+ * Whether an item's box overlaps a marquee rectangle
+ */
+export function intersectsRect(item: ArrangeItem, rect: OffsetRect): boolean {
+  return item.xOffset + item.halfWidth >= rect.left &&
+    item.xOffset - item.halfWidth <= rect.right &&
+    item.yOffset + item.halfHeight >= rect.top &&
+    item.yOffset - item.halfHeight <= rect.bottom;
+}
+
+/**
+ * Line items up on the selection's left / center / right edge (or top /
+ * middle / bottom)
+ * @returns New positions by item id
+ */
+export function alignItems(items: ArrangeItem[], mode: AlignMode): Record<string, Offset> {
+  const horizontal = mode === 'left' || mode === 'center' || mode === 'right';
+  const start = (item: ArrangeItem) => horizontal ? item.xOffset - item.halfWidth : item.yOffset - item.halfHeight;
+  const end = (item: ArrangeItem) => horizontal ? item.xOffset + item.halfWidth : item.yOffset + item.halfHeight;
+  const half = (item: ArrangeItem) => horizontal ? item.halfWidth : item.halfHeight;
+  const min = Math.min(...items.map(start));
+  const max = Math.max(...items.map(end));
+
+  return Object.fromEntries(items.map(item => {
+    const center =
+      mode === 'left' || mode === 'top' ? min + half(item) :
+      mode === 'right' || mode === 'bottom' ? max - half(item) :
+      (min + max) / 2;
+    const position = horizontal
+      ? { xOffset: clampOffset(center), yOffset: item.yOffset }
+      : { xOffset: item.xOffset, yOffset: clampOffset(center) };
+    return [item.id, position];
+  }));
+}
+
+/**
+ * Spread items evenly between the two outermost ones, keeping their order
+ * along the axis
+ * @returns New positions by item id
+ */
+export function distributeItems(items: ArrangeItem[], axis: DistributeAxis): Record<string, Offset> {
+  const key = axis === 'horizontal' ? 'xOffset' : 'yOffset';
+  const sorted = [...items].sort((a, b) => a[key] - b[key]);
+  const first = sorted[0]?.[key] ?? 0;
+  const step = sorted.length > 1 ? (sorted[sorted.length - 1][key] - first) / (sorted.length - 1) : 0;
+
+  return Object.fromEntries(sorted.map((item, index) => [
+    item.id,
+    { xOffset: item.xOffset, yOffset: item.yOffset, [key]: first + step * index },
+  ]));
+}
+
+/**
+ * Limit a drag so that every moved item stays inside the room, keeping the
+ * selection's arrangement intact
+ */
+export function clampDelta(starts: Offset[], dx: number, dy: number): Offset {
+  const limit = (delta: number, values: number[]) => Math.max(
+    Math.max(...values.map(value => -MAX_OFFSET - value)),
+    Math.min(Math.min(...values.map(value => MAX_OFFSET - value)), delta)
+  );
+  return {
+    xOffset: limit(dx, starts.map(start => start.xOffset)),
+    yOffset: limit(dy, starts.map(start => start.yOffset)),
+  };
+}
+
+// How close, in offset percent, an edge or center must be to a guide to snap to it
+export const GUIDE_SNAP_DISTANCE = 1.5;
+
+/**
+ * Lines a dragged item can snap to: x values are vertical lines, y values
+ * horizontal ones
+ */
+export interface GuideTargets {
+  x: number[];
+  y: number[];
+}
+
+/**
+ * A snapped position and the guides it snapped to, for drawing
+ */
+export interface GuideSnap extends Offset {
+  guides: { x?: number; y?: number };
+}
+
+/**
+ * The edges and centers of items, as guides
+ */
+export function getGuideTargets(items: ArrangeItem[]): GuideTargets {
+  return {
+    x: items.flatMap(item => [item.xOffset - item.halfWidth, item.xOffset, item.xOffset + item.halfWidth]),
+    y: items.flatMap(item => [item.yOffset - item.halfHeight, item.yOffset, item.yOffset + item.halfHeight]),
+  };
+}
+
+// The closest guide to any of an item's edges or its center along one axis
+const snapAxis = (center: number, half: number, targets: number[], threshold: number): { center: number; guide?: number } => {
+  let best: { center: number; guide?: number; distance: number } = { center, distance: threshold };
+  for (const anchor of [-half, 0, half]) {
+    for (const target of targets) {
+      const distance = Math.abs(target - (center + anchor));
+      if (distance <= best.distance) {
+        best = { center: target - anchor, guide: target, distance };
+      }
+    }
+  }
+  return { center: best.center, guide: best.guide };
+};
+
+/**
+ * Snap an item's edges or center to the nearest guide on each axis, if one
+ * is within the threshold
+ */
+export function snapToGuides(item: ArrangeItem, targets: GuideTargets, threshold: number = GUIDE_SNAP_DISTANCE): GuideSnap {
+  const x = snapAxis(item.xOffset, item.halfWidth, targets.x, threshold);
+  const y = snapAxis(item.yOffset, item.halfHeight, targets.y, threshold);
+  return {
+    xOffset: x.center,
+    yOffset: y.center,
+    guides: {
+      ...(x.guide !== undefined ? { x: x.guide } : {}),
+      ...(y.guide !== undefined ? { y: y.guide } : {}),
+    },
+  };
+}
+
+/**
+ * One asset in a saved group, positioned relative to the group's center
+ */
+export interface AssetGroupItem extends Offset {
+  assetId: string;
+  scale: number;
+  rotation: number;
+  flipped: boolean;
+  layerOverride?: LayerOverride;
+}
+
+/**
+ * A named selection the player can place again as a unit
+ */
+export interface AssetGroup {
+  id: string;
+  name: string;
+  items: AssetGroupItem[];
+}
+
+// How far a pasted or duplicated copy lands from its original
+export const PASTE_OFFSET: Offset = { xOffset: 3, yOffset: 3 };
+
+/**
+ * Just the group fields of a placed asset (drops editor ids and the like)
+ */
+export function toAssetGroupItem({ assetId, xOffset, yOffset, scale, rotation, flipped, layerOverride }: AssetGroupItem): AssetGroupItem {
+  return { assetId, xOffset, yOffset, scale, rotation, flipped, ...(layerOverride ? { layerOverride } : {}) };
+}
+
+/**
+ * Copies of assets, moved together by `offset` as far as the room allows;
+ * flip, scale, rotation and layer are kept
+ */
+export function offsetCopies(items: AssetGroupItem[], offset: Offset = PASTE_OFFSET): AssetGroupItem[] {
+  const delta = clampDelta(items, offset.xOffset, offset.yOffset);
+  return items.map(item => ({
+    ...toAssetGroupItem(item),
+    xOffset: item.xOffset + delta.xOffset,
+    yOffset: item.yOffset + delta.yOffset,
+  }));
+}
+
+/**
+ * Save assets as a group, re-centered on the middle of their bounds
+ */
+export function createAssetGroup(id: string, name: string, items: AssetGroupItem[]): AssetGroup {
+  const xs = items.map(item => item.xOffset);
+  const ys = items.map(item => item.yOffset);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  return {
+    id,
+    name: name.trim(),
+    items: items.map(item => ({
+      ...toAssetGroupItem(item),
+      xOffset: item.xOffset - centerX,
+      yOffset: item.yOffset - centerY,
+    })),
+  };
+}
+
+/**
+ * Positions for placing a group centered at `center`, moved as a whole to
+ * stay inside the room
+ */
+export function placeAssetGroup(group: AssetGroup, center: Offset): AssetGroupItem[] {
+  const delta = clampDelta(group.items, center.xOffset, center.yOffset);
+  return group.items.map(item => ({
+    ...item,
+    xOffset: clampOffset(item.xOffset + delta.xOffset),
+    yOffset: clampOffset(item.yOffset + delta.yOffset),
+  }));
+}
+
+/**
+ * Validate a stored group item (a saved group's or the clipboard's)
+ */
+export function isAssetGroupItem(value: unknown): value is AssetGroupItem {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const item = value as AssetGroupItem;
+  return typeof item.assetId === 'string' &&
+    Number.isFinite(item.xOffset) && Number.isFinite(item.yOffset) &&
+    Number.isFinite(item.scale) && Number.isFinite(item.rotation) &&
+    typeof item.flipped === 'boolean' &&
+    (item.layerOverride === undefined || item.layerOverride === 'front' || item.layerOverride === 'back');
+}
+
+/**
+ * Validate a stored group
+ */
+export function isAssetGroup(value: unknown): value is AssetGroup {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const group = value as AssetGroup;
+  return typeof group.id === 'string' &&
+    typeof group.name === 'string' && group.name.trim() !== '' &&
+    Array.isArray(group.items) && group.items.length > 0 &&
+    group.items.every(isAssetGroupItem);
+}
@@ -0,0 +1,78 @@
+/**
+ * Asset Catalog
+ * Every asset players can place, read from the asset manifest
+ * (src/utils/assetManifest.json) and shared by the web editor, the server and
+ * the Devvit app. Manifest files live in the project's assets/ folder.
+ */
+
+import { Asset, AssetCategory, validateAsset } from '../types/models.js';
+import type { DepthLayer } from './depthSort.js';
+import manifest from './assetManifest.json';
+
+/**
+ * A placeable asset; imageUrl is the file name in assets/, which the web
+ * client also serves from its root
+ */
+export interface CatalogAsset {
+  id: string;
+  name: string;
+  category: AssetCategory;
+  imageUrl: string;
+  sizeScale: number;
+  layer: DepthLayer;
+  tags: string[];
+}
+
+/**
+ * Pixel size of an asset with sizeScale 1 in the Devvit app
+ */
+export const ASSET_PIXEL_SIZE = 200;
+
+const DEPTH_LAYERS: readonly string[] = ['floor', 'wall', 'standing'];
+
+/**
+ * Describe a catalog asset as an Asset
+ * @param imageUrl - Where the image is served from; defaults to the file name
+ */
+export function toAsset(asset: CatalogAsset, imageUrl: string = asset.imageUrl): Asset {
+  const size = Math.round(ASSET_PIXEL_SIZE * asset.sizeScale);
+  return {
+    id: asset.id,
+    name: asset.name,
+    category: asset.category,
+    imageUrl,
+    thumbnailUrl: imageUrl,
+    width: size,
+    height: size,
+  };
+}
+
+/**
+ * Read manifest entries into catalog assets
+ * @throws Error naming the first entry that is malformed or reuses an id
+ */
+export function parseAssetManifest(entries: unknown[]): CatalogAsset[] {
+  const seen = new Set<string>();
+  return entries.map((entry, index) => {
+    const { id, name, category, file, sizeScale, layer, tags } = (entry ?? {}) as Record<string, unknown>;
+    const asset = { id, name, category, imageUrl: file, sizeScale, layer, tags } as CatalogAsset;
+    const valid = Number.isFinite(asset.sizeScale) && asset.sizeScale > 0 &&
+      DEPTH_LAYERS.includes(asset.layer) &&
+      Array.isArray(asset.tags) && asset.tags.every(tag => typeof tag === 'string' && tag.length > 0) &&
+      validateAsset(toAsset(asset));
+    if (!valid || seen.has(asset.id)) {
+      throw new Error(`Invalid asset manifest entry ${index} (${String(id)})${valid ? ': duplicate id' : ''}`);
+    }
+    seen.add(asset.id);
+    return asset;
+  });
+}
+
+export const ASSET_CATALOG: CatalogAsset[] = parseAssetManifest(manifest);
+
+/**
+ * Look up a catalog asset by id
+ */
+export function getCatalogAsset(assetId: string): CatalogAsset | undefined {
+  return ASSET_CATALOG.find(asset => asset.id === assetId);
+}
@@ -0,0 +1,72 @@
+/**
+ * Color Utilities
+ * Conversions between the hex colors stored in designs and the hue /
+ * saturation / lightness the editor's color wheel works in
+ */
+
+import { isValidHexColor } from '../types/models.js';
+
+export interface Hsl {
+  hue: number; // degrees, 0 <= hue < 360
+  saturation: number; // 0..1
+  lightness: number; // 0..1
+}
+
+export const MAX_RECENT_COLORS = 8;
+
+const toHexByte = (value: number): string => Math.round(value * 255).toString(16).padStart(2, '0');
+
+/**
+ * Convert HSL to an uppercase #RRGGBB color
+ */
+export function hslToHex({ hue, saturation, lightness }: Hsl): string {
+  const h = ((hue % 360) + 360) % 360;
+  const s = Math.max(0, Math.min(1, saturation));
+  const l = Math.max(0, Math.min(1, lightness));
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - chroma / 2;
+  const [r, g, b] =
+    h < 60 ? [chroma, x, 0] :
+    h < 120 ? [x, chroma, 0] :
+    h < 180 ? [0, chroma, x] :
+    h < 240 ? [0, x, chroma] :
+    h < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+  return `#${toHexByte(r + m)}${toHexByte(g + m)}${toHexByte(b + m)}`.toUpperCase();
+}
+
+/**
+ * Convert a #RRGGBB color to HSL
+ * @returns The color's HSL, or null if it is not a valid hex color
+ */
+export function hexToHsl(color: string): Hsl | null {
+  if (!isValidHexColor(color)) {
+    return null;
+  }
+  const [r, g, b] = [1, 3, 5].map(index => parseInt(color.slice(index, index + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) {
+    return { hue: 0, saturation: 0, lightness };
+  }
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue =
+    max === r ? 60 * (((g - b) / delta + 6) % 6) :
+    max === g ? 60 * ((b - r) / delta + 2) :
+    60 * ((r - g) / delta + 4);
+  return { hue, saturation, lightness };
+}
+
+/**
+ * Put a color at the front of a recent colors list, without duplicates
+ */
+export function addRecentColor(recent: string[], color: string, max: number = MAX_RECENT_COLORS): string[] {
+  if (!isValidHexColor(color)) {
+    return recent;
+  }
+  const normalized = color.toUpperCase();
+  return [normalized, ...recent.filter(existing => existing.toUpperCase() !== normalized)].slice(0, max);
+}
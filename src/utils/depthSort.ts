@@ -0,0 +1,98 @@
+/**
+ * Depth Sorting Utilities
+ * Draw order for the isometric room: floor items first, then wall items, then
+ * everything standing in the room, with items lower on the floor drawn in front
+ */
+
+import { Design, LayerMode, LayerOverride, PlacedAsset } from '../types/models.js';
+import { getCatalogAsset } from './assetCatalog.js';
+
+/**
+ * Coarse layer an asset is drawn in, back to front
+ */
+export type DepthLayer = 'floor' | 'wall' | 'standing';
+
+const LAYER_RANK: Record<DepthLayer, number> = {
+  floor: 0,
+  wall: 1,
+  standing: 2,
+};
+
+const OVERRIDE_RANK: Record<LayerOverride, number> = {
+  back: -1,
+  front: 1,
+};
+
+/**
+ * Everything the sort needs to know about one placed item
+ */
+export interface DepthSortItem {
+  assetId: string;
+  floorY: number; // vertical position; larger is closer to the viewer
+  order: number; // manual stacking order (zIndex or list position)
+  layerOverride?: LayerOverride;
+  category?: string;
+}
+
+/**
+ * Get the layer an asset belongs to, as listed in the asset manifest
+ * Unknown assets stand on the floor unless they are rugs.
+ */
+export function getDepthLayer(assetId: string, category?: string): DepthLayer {
+  const layer = getCatalogAsset(assetId)?.layer;
+  if (layer) {
+    return layer;
+  }
+  return category === 'rug' || assetId.startsWith('rug') ? 'floor' : 'standing';
+}
+
+/**
+ * Compare two items for drawing (negative = a is drawn first, i.e. behind b)
+ * Explicit overrides always win; in manual mode only the stacking order counts
+ */
+export function compareDepth(a: DepthSortItem, b: DepthSortItem, mode: LayerMode = 'depth'): number {
+  const overrideA = a.layerOverride ? OVERRIDE_RANK[a.layerOverride] : 0;
+  const overrideB = b.layerOverride ? OVERRIDE_RANK[b.layerOverride] : 0;
+  if (overrideA !== overrideB) {
+    return overrideA - overrideB;
+  }
+
+  if (mode === 'depth') {
+    const layerA = LAYER_RANK[getDepthLayer(a.assetId, a.category)];
+    const layerB = LAYER_RANK[getDepthLayer(b.assetId, b.category)];
+    if (layerA !== layerB) {
+      return layerA - layerB;
+    }
+    if (a.floorY !== b.floorY) {
+      return a.floorY - b.floorY;
+    }
+  }
+
+  return a.order - b.order;
+}
+
+/**
+ * Sort items into draw order without mutating the input
+ */
+export function sortByDepth<T>(items: T[], toSortItem: (item: T, index: number) => DepthSortItem, mode: LayerMode = 'depth'): T[] {
+  return items
+    .map((item, index) => ({ item, key: toSortItem(item, index) }))
+    .sort((a, b) => compareDepth(a.key, b.key, mode))
+    .map(({ item }) => item);
+}
+
+/**
+ * Draw order of a design's placed assets, keeping each asset's index in the design
+ */
+export function getDesignDrawOrder(design: Pick<Design, 'assets' | 'layerMode'>): { asset: PlacedAsset; originalIndex: number }[] {
+  return sortByDepth(
+    design.assets.map((asset, originalIndex) => ({ asset, originalIndex })),
+    ({ asset }) => ({
+      assetId: asset.assetId,
+      floorY: asset.y,
+      order: asset.zIndex,
+      layerOverride: asset.layerOverride,
+    }),
+    design.layerMode ?? 'manual'
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Design Layout Utilities
+ * The single set of rendering rules for a finished design: where the room image
+ * goes and where, how big and in what order each placed asset is drawn.
+ * Gallery previews and PNG exports both draw from this layout.
+ */
+
+import { Design, PlacedAsset, CANVAS_WIDTH } from '../types/models.js';
+import { getDesignDrawOrder } from './depthSort.js';
+import { RoomBase } from './roomBases.js';
+
+/**
+ * Edge length on the canvas of an asset with sizeScale 1 and scale 1
+ * (10% of the room width, as in the editor)
+ */
+export const BASE_ASSET_SIZE = CANVAS_WIDTH * 0.1;
+
+/**
+ * Where one placed asset is drawn, in canvas coordinates. The image is fitted
+ * (contain) into a size x size square centered on x/y, then rotated and flipped
+ * about that center.
+ */
+export interface AssetBox {
+  asset: PlacedAsset;
+  x: number;
+  y: number;
+  size: number;
+  rotation: number;
+  flipped: boolean;
+}
+
+/**
+ * Lay out a design's assets in draw order
+ * @param getSizeScale - Catalog size multiplier for an asset id (1 if unknown)
+ */
+export function layoutDesign(
+  design: Pick<Design, 'assets' | 'layerMode'>,
+  getSizeScale: (assetId: string) => number
+): AssetBox[] {
+  return getDesignDrawOrder(design).map(({ asset }) => ({
+    asset,
+    x: asset.x,
+    y: asset.y,
+    size: BASE_ASSET_SIZE * getSizeScale(asset.assetId) * asset.scale,
+    rotation: asset.rotation,
+    flipped: asset.flipped,
+  }));
+}
+
+/**
+ * SVG transform placing a box's image (drawn at -size/2, -size/2) on the canvas
+ */
+export function getAssetTransform(box: AssetBox): string {
+  return `translate(${box.x} ${box.y}) rotate(${box.rotation})${box.flipped ? ' scale(-1 1)' : ''}`;
+}
+
+/**
+ * SVG transform for a room base's image (drawn over the whole canvas), or
+ * undefined when it is drawn as is
+ */
+export function getRoomTransform(room: RoomBase): string | undefined {
+  return room.mirrored ? `translate(${CANVAS_WIDTH} 0) scale(-1 1)` : undefined;
+}
+
+/**
+ * Rectangle that fits an image of the given size inside a box, keeping its aspect ratio
+ */
+export function fitContain(
+  imageWidth: number,
+  imageHeight: number,
+  boxWidth: number,
+  boxHeight: number
+): { x: number; y: number; width: number; height: number } {
+  const ratio = Math.min(boxWidth / imageWidth, boxHeight / imageHeight);
+  const width = imageWidth * ratio;
+  const height = imageHeight * ratio;
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height };
+}
@@ -0,0 +1,119 @@
+/**
+ * Design Migrations
+ * Upgrades stored design documents of any older schema version to the current
+ * `Design` schema on read, so every historical design renders the same way
+ */
+
+import {
+  Design,
+  PlacedAsset,
+  DESIGN_SCHEMA_VERSION,
+  CANVAS_WIDTH,
+  CANVAS_HEIGHT,
+  clampScale,
+  normalizeRotation,
+} from '../types/models.js';
+import { DEFAULT_ROOM_ID } from './roomBases.js';
+
+/**
+ * A design document as stored, before migration. Nothing about its fields is
+ * known until they are checked.
+ */
+export type StoredDesign = Record<string, unknown>;
+
+/**
+ * Convert the web editor's position (percent offset from the room center)
+ * to canvas coordinates
+ */
+export function offsetToCanvas(xOffset: number, yOffset: number): { x: number; y: number } {
+  return {
+    x: CANVAS_WIDTH / 2 + (xOffset / 100) * CANVAS_WIDTH,
+    y: CANVAS_HEIGHT / 2 + (yOffset / 100) * CANVAS_HEIGHT,
+  };
+}
+
+/**
+ * Convert canvas coordinates to the web editor's percent offset from the room center
+ */
+export function canvasToOffset(x: number, y: number): { xOffset: number; yOffset: number } {
+  return {
+    xOffset: ((x - CANVAS_WIDTH / 2) / CANVAS_WIDTH) * 100,
+    yOffset: ((y - CANVAS_HEIGHT / 2) / CANVAS_HEIGHT) * 100,
+  };
+}
+
+const finiteOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+/**
+ * Upgrade one unversioned asset. The Blocks app stored absolute x/y; the web
+ * editor stored xOffset/yOffset and relied on list order instead of zIndex.
+ */
+function migrateUnversionedAsset(stored: unknown, index: number): PlacedAsset {
+  const asset: Record<string, unknown> = typeof stored === 'object' && stored !== null ? { ...stored } : {};
+  const position = typeof asset.xOffset === 'number'
+    ? offsetToCanvas(asset.xOffset, finiteOr(asset.yOffset, 0))
+    : { x: finiteOr(asset.x, 0), y: finiteOr(asset.y, 0) };
+
+  const migrated: PlacedAsset = {
+    assetId: typeof asset.assetId === 'string' ? asset.assetId : '',
+    x: Math.max(0, Math.min(position.x, CANVAS_WIDTH)),
+    y: Math.max(0, Math.min(position.y, CANVAS_HEIGHT)),
+    rotation: normalizeRotation(finiteOr(asset.rotation, 0)),
+    zIndex: typeof asset.zIndex === 'number' && asset.zIndex >= 0 ? asset.zIndex : index,
+    scale: clampScale(finiteOr(asset.scale, 1)),
+    flipped: asset.flipped === true,
+  };
+
+  if (asset.layerOverride === 'front' || asset.layerOverride === 'back') {
+    migrated.layerOverride = asset.layerOverride;
+  }
+
+  return migrated;
+}
+
+/**
+ * Migrations keyed by the schema version they upgrade from. Each one returns
+ * a document of the next version.
+ */
+export const DESIGN_MIGRATIONS: Record<number, (design: StoredDesign) => StoredDesign> = {
+  // 0 -> 1: unversioned documents from the Blocks app and the first web editor
+  0: (design) => ({
+    ...design,
+    assets: Array.isArray(design.assets) ? design.assets.map(migrateUnversionedAsset) : [],
+    layerMode: design.layerMode === 'depth' ? 'depth' : 'manual',
+    submitted: design.submitted === true,
+    voteCount: finiteOr(design.voteCount, 0),
+    schemaVersion: 1,
+  }),
+  // 1 -> 2: designs before room bases were all drawn in the default room
+  1: (design) => ({
+    ...design,
+    roomId: typeof design.roomId === 'string' && design.roomId ? design.roomId : DEFAULT_ROOM_ID,
+    schemaVersion: 2,
+  }),
+};
+
+/**
+ * Upgrade a stored design document to the current schema
+ * Documents without a schemaVersion are treated as version 0
+ */
+export function migrateDesign(design: StoredDesign): Design {
+  let current = design;
+  let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+
+  if (version > DESIGN_SCHEMA_VERSION) {
+    throw new Error(`Unsupported design schema version: ${version}`);
+  }
+
+  while (version < DESIGN_SCHEMA_VERSION) {
+    const migrate = DESIGN_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from design schema version ${version}`);
+    }
+    current = migrate(current);
+    version = current.schemaVersion as number;
+  }
+
+  return current as unknown as Design;
+}
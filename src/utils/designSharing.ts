@@ -0,0 +1,238 @@
+/**
+ * Design Sharing
+ * Moving a room between posts as a compact share code or a readable JSON
+ * file, and checking either before it becomes a new draft
+ */
+
+import {
+  Design,
+  PlacedAsset,
+  RoomColors,
+  LayerMode,
+  LayerOverride,
+  DESIGN_SCHEMA_VERSION,
+  isValidHexColor,
+  validateRoomColors,
+  validatePlacedAsset,
+  validateDesign,
+  normalizeRotation,
+} from '../types/models.js';
+import { migrateDesign } from './designMigrations.js';
+import { getCatalogAsset } from './assetCatalog.js';
+import { isRoomBaseId } from './roomBases.js';
+import { normalizeDesignName } from './drafts.js';
+
+// Share codes start with this, so the format can change without breaking
+// codes already posted
+const SHARE_CODE_PREFIX = 'room1.';
+
+// Marks a downloaded design file
+export const DESIGN_FILE_FORMAT = 'room-design';
+
+/**
+ * The part of a design that is shared: the room itself, without its owner,
+ * theme or votes
+ */
+export interface SharedDesign {
+  name?: string;
+  roomId: string;
+  backgroundColor: string;
+  roomColors?: RoomColors;
+  layerMode: LayerMode;
+  assets: PlacedAsset[];
+  schemaVersion: number;
+}
+
+/**
+ * What came of reading an import. `design` is null when anything is wrong,
+ * and `errors` lists every problem found.
+ */
+export interface DesignImport {
+  design: SharedDesign | null;
+  errors: string[];
+}
+
+// An asset in a share code: id, x, y, rotation, zIndex, scale, flipped (1/0)
+// and the layer override when it has one
+type SharedAssetTuple = [string, number, number, number, number, number, 0 | 1, LayerOverride?];
+
+interface ShareCodePayload {
+  v: number;
+  n?: string;
+  r: string;
+  b: string;
+  c?: RoomColors;
+  l: LayerMode;
+  a: SharedAssetTuple[];
+}
+
+// Positions, angles and sizes are shared to a hundredth
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export function toSharedDesign(
+  design: Pick<Design, 'roomId' | 'backgroundColor' | 'roomColors' | 'layerMode' | 'assets'> & { name?: string }
+): SharedDesign {
+  return {
+    ...(design.name ? { name: design.name } : {}),
+    roomId: design.roomId,
+    backgroundColor: design.backgroundColor,
+    ...(design.roomColors ? { roomColors: design.roomColors } : {}),
+    layerMode: design.layerMode,
+    assets: design.assets,
+    schemaVersion: DESIGN_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Encode a design as a share code of URL-safe characters only
+ */
+export function encodeShareCode(design: SharedDesign): string {
+  const payload: ShareCodePayload = {
+    v: design.schemaVersion,
+    ...(design.name ? { n: design.name } : {}),
+    r: design.roomId,
+    b: design.backgroundColor,
+    ...(design.roomColors ? { c: design.roomColors } : {}),
+    l: design.layerMode,
+    a: design.assets.map(asset => {
+      const tuple: SharedAssetTuple = [
+        asset.assetId,
+        round(asset.x),
+        round(asset.y),
+        normalizeRotation(round(asset.rotation)),
+        asset.zIndex,
+        round(asset.scale),
+        asset.flipped ? 1 : 0,
+      ];
+      if (asset.layerOverride) tuple.push(asset.layerOverride);
+      return tuple;
+    }),
+  };
+
+  // Names may hold any character, so the JSON is base64 encoded as UTF-8
+  let binary = '';
+  for (const byte of new TextEncoder().encode(JSON.stringify(payload))) {
+    binary += String.fromCharCode(byte);
+  }
+  return SHARE_CODE_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a share code into a design document, unchecked
+ * @throws If the text is not a share code
+ */
+export function decodeShareCode(code: string): Record<string, unknown> {
+  if (!code.startsWith(SHARE_CODE_PREFIX)) {
+    throw new Error('Not a share code');
+  }
+  const binary = atob(code.slice(SHARE_CODE_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+  const payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+  if (typeof payload !== 'object' || payload === null || !Array.isArray(payload.a)) {
+    throw new Error('Not a share code');
+  }
+
+  return {
+    schemaVersion: payload.v,
+    name: payload.n,
+    roomId: payload.r,
+    backgroundColor: payload.b,
+    roomColors: payload.c,
+    layerMode: payload.l,
+    assets: payload.a.map((tuple: unknown) => {
+      if (!Array.isArray(tuple)) return tuple;
+      const [assetId, x, y, rotation, zIndex, scale, flipped, layerOverride] = tuple;
+      return {
+        assetId,
+        x,
+        y,
+        rotation,
+        zIndex,
+        scale,
+        flipped: flipped === 1 ? true : flipped === 0 ? false : flipped,
+        ...(layerOverride !== undefined ? { layerOverride } : {}),
+      };
+    }),
+  };
+}
+
+/**
+ * A design as the pretty-printed JSON of a downloaded design file
+ */
+export function formatDesignFile(design: SharedDesign): string {
+  return JSON.stringify({ format: DESIGN_FILE_FORMAT, ...design }, null, 2);
+}
+
+/**
+ * Read a pasted share code or design file, checking everything a draft
+ * needs. Older design files are upgraded first; items are reported by their
+ * position in the file.
+ */
+export function readDesignImport(text: string): DesignImport {
+  const fail = (error: string): DesignImport => ({ design: null, errors: [error] });
+  const trimmed = text.trim();
+
+  let document: Record<string, unknown>;
+  try {
+    document = trimmed.startsWith('{') ? JSON.parse(trimmed) : decodeShareCode(trimmed);
+  } catch {
+    return fail('This is not a design share code or design file');
+  }
+  if (document.format !== undefined && document.format !== DESIGN_FILE_FORMAT) {
+    return fail('This is not a design file');
+  }
+  if (!Array.isArray(document.assets)) {
+    return fail('The design has no list of items');
+  }
+
+  let migrated: Design;
+  try {
+    migrated = migrateDesign(document);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+
+  const errors: string[] = [];
+  if (!isRoomBaseId(migrated.roomId)) {
+    errors.push(`Unknown room "${migrated.roomId}"`);
+  }
+  if (typeof migrated.backgroundColor !== 'string' || !isValidHexColor(migrated.backgroundColor)) {
+    errors.push('The background color is not a hex color like #F1E1D6');
+  }
+  if (migrated.roomColors !== undefined && !validateRoomColors(migrated.roomColors)) {
+    errors.push('The room colors must be hex colors, with a wood, tile or carpet floor');
+  }
+  if (migrated.layerMode !== 'depth' && migrated.layerMode !== 'manual') {
+    errors.push('The layer mode must be "depth" or "manual"');
+  }
+  migrated.assets.forEach((asset: PlacedAsset, index) => {
+    const item = `Item ${index + 1}`;
+    if (typeof asset !== 'object' || asset === null || typeof asset.assetId !== 'string' || !asset.assetId) {
+      errors.push(`${item} has no asset id`);
+    } else if (!getCatalogAsset(asset.assetId)) {
+      errors.push(`${item} is an unknown asset "${asset.assetId}"`);
+    } else if (!validatePlacedAsset(asset)) {
+      errors.push(`${item} ("${asset.assetId}") has an invalid position, rotation, size or flip`);
+    }
+  });
+  if (errors.length > 0) {
+    return { design: null, errors };
+  }
+
+  const design = toSharedDesign({ ...migrated, name: normalizeDesignName(migrated.name) });
+  // The same check the server makes when the draft is saved
+  const draft: Design = {
+    ...design,
+    id: 'import',
+    userId: 'import',
+    username: 'import',
+    themeId: 'import',
+    createdAt: 1,
+    updatedAt: 1,
+    submitted: false,
+    voteCount: 0,
+  };
+  if (!validateDesign(draft)) {
+    return fail('The design is not valid');
+  }
+  return { design, errors: [] };
+}
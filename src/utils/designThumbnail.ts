@@ -0,0 +1,85 @@
+/**
+ * Design Thumbnail Rendering
+ * Builds a small standalone SVG of a design from the shared layout rules.
+ * It draws the downscaled images the web client's build writes to
+ * THUMBNAIL_IMAGE_DIR, by root-relative references the SVG resolves against
+ * the client's root when it is served from /api/design/:id/thumbnail.
+ */
+
+import { Design, CANVAS_WIDTH, CANVAS_HEIGHT } from '../types/models.js';
+import { layoutDesign, getAssetTransform, getRoomTransform } from './designLayout.js';
+import { getRoomBase } from './roomBases.js';
+import { getSurfaceLayers, getFloorPatternLayer, toSvgPoints } from './roomSurfaces.js';
+import { getCatalogAsset } from './assetCatalog.js';
+
+export const THUMBNAIL_WIDTH = 320;
+export const THUMBNAIL_HEIGHT = 240;
+
+export const THUMBNAIL_IMAGE_DIR = 'thumbnails';
+
+// Longest side of the downscaled images: enough for the room, and for the
+// biggest asset at its largest scale (360 canvas units), at twice the
+// thumbnail's size for high-density screens
+export const THUMBNAIL_ASSET_IMAGE_SIZE = 288;
+export const THUMBNAIL_ROOM_IMAGE_SIZE = THUMBNAIL_WIDTH * 2;
+
+/**
+ * Where the downscaled copy of an asset or room image is served
+ */
+export function getThumbnailImageUrl(imageUrl: string): string {
+  return `${THUMBNAIL_IMAGE_DIR}/${imageUrl}`;
+}
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * The room colors' tinted layers and floor pattern, drawn with the room image's transform
+ */
+function renderRoomSurfaces(design: Pick<Design, 'roomColors'>, roomTransform?: string): string[] {
+  const transform = roomTransform ? ` transform="${roomTransform}"` : '';
+  const tints = getSurfaceLayers(design.roomColors).flatMap(layer =>
+    layer.polygons.map(points => `<polygon points="${toSvgPoints(points)}" fill="${escapeAttribute(layer.color)}"/>`)
+  );
+  const pattern = getFloorPatternLayer(design.roomColors?.floorPattern);
+  return [
+    ...(tints.length > 0 ? [`<g${transform} style="mix-blend-mode:multiply">${tints.join('')}</g>`] : []),
+    ...(pattern ? [
+      `<g${transform} stroke="${pattern.stroke}" stroke-width="${pattern.strokeWidth}">`
+        + pattern.lines.map(([[x1, y1], [x2, y2]]) => `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>`).join('')
+        + '</g>',
+    ] : []),
+  ];
+}
+
+/**
+ * Render a design as an SVG thumbnail
+ */
+export function renderThumbnailSvg(design: Pick<Design, 'assets' | 'layerMode' | 'backgroundColor' | 'roomId' | 'roomColors'>): string {
+  const room = getRoomBase(design.roomId);
+  const roomTransform = getRoomTransform(room);
+  const boxes = layoutDesign(design, (assetId) => getCatalogAsset(assetId)?.sizeScale ?? 1);
+
+  const images = boxes.flatMap((box) => {
+    const asset = getCatalogAsset(box.asset.assetId);
+    if (!asset) {
+      return [];
+    }
+    const half = round(box.size / 2);
+    const transform = getAssetTransform({ ...box, x: round(box.x), y: round(box.y) });
+    return [
+      `<image href="/${escapeAttribute(getThumbnailImageUrl(asset.imageUrl))}" x="${-half}" y="${-half}" width="${round(box.size)}" height="${round(box.size)}" transform="${transform}" preserveAspectRatio="xMidYMid meet"/>`,
+    ];
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_WIDTH}" height="${THUMBNAIL_HEIGHT}" viewBox="0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}" preserveAspectRatio="xMidYMid meet">`,
+    `<rect width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}" fill="${escapeAttribute(design.backgroundColor)}"/>`,
+    `<image href="/${escapeAttribute(getThumbnailImageUrl(room.imageUrl))}" width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}"${roomTransform ? ` transform="${roomTransform}"` : ''} preserveAspectRatio="xMidYMid meet"/>`,
+    ...renderRoomSurfaces(design, roomTransform),
+    ...images,
+    '</svg>',
+  ].join('');
+}
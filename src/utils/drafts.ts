@@ -0,0 +1,183 @@
+/**
+ * Draft Utilities
+ * A player's drafts for a theme, which one they resume when they come back,
+ * and the copies of unsaved drafts the web client keeps in local storage
+ * while offline
+ */
+
+import { Design, LayerMode, PlacedAsset, RoomColors, Timelapse, MAX_DESIGN_NAME_LENGTH } from '../types/models.js';
+
+/**
+ * A design as the editor sends it to the save API; the server fills in the
+ * owner and timestamps, and the id on first save, and keeps the recording of
+ * how it was built apart from the design
+ */
+export interface DraftDesign {
+  id?: string;
+  themeId: string;
+  name?: string;
+  roomId: string;
+  backgroundColor: string;
+  roomColors?: RoomColors;
+  assets: PlacedAsset[];
+  layerMode: LayerMode;
+  schemaVersion: number;
+  timelapse?: Timelapse;
+}
+
+/**
+ * A draft saved on this device that has not reached the server yet
+ */
+export interface LocalDraft {
+  design: DraftDesign;
+  savedAt: number;
+}
+
+/**
+ * A theme's drafts saved on this device that have not reached the server yet,
+ * by draft key: the design id, or a key made on this device for a draft the
+ * server has not created yet
+ */
+export type LocalDrafts = Record<string, LocalDraft>;
+
+/**
+ * Local storage key for a theme's unsynced drafts
+ */
+export function getLocalDraftKey(themeId: string): string {
+  return `draft:${themeId}`;
+}
+
+/**
+ * Draft key for a new draft, until its first save gives it a design id
+ */
+export function createNewDraftKey(now: number): string {
+  return `new:${now}`;
+}
+
+/**
+ * Whether a draft key is for a draft the server has not created yet
+ */
+export function isNewDraftKey(key: string): boolean {
+  return key.startsWith('new:');
+}
+
+/**
+ * Validate a stored local draft
+ */
+export function isLocalDraft(value: unknown): value is LocalDraft {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const draft = value as LocalDraft;
+  return Number.isFinite(draft.savedAt) &&
+    !!draft.design && typeof draft.design === 'object' &&
+    typeof draft.design.themeId === 'string' &&
+    typeof draft.design.roomId === 'string' &&
+    typeof draft.design.backgroundColor === 'string' &&
+    Array.isArray(draft.design.assets) &&
+    (draft.design.id === undefined || typeof draft.design.id === 'string');
+}
+
+/**
+ * Read a theme's stored local drafts, dropping any that are not valid. A
+ * single draft stored before drafts were kept by key is read as one entry.
+ */
+export function parseLocalDrafts(value: unknown): LocalDrafts {
+  if (isLocalDraft(value)) {
+    return { [value.design.id ?? createNewDraftKey(value.savedAt)]: value };
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+  return Object.fromEntries(Object.entries(value).filter(([, draft]) => isLocalDraft(draft)));
+}
+
+/**
+ * The most recently saved of a theme's local drafts, with its draft key
+ */
+export function findLatestLocalDraft(drafts: LocalDrafts): { key: string; draft: LocalDraft } | null {
+  let latest: { key: string; draft: LocalDraft } | null = null;
+  for (const [key, draft] of Object.entries(drafts)) {
+    if (!latest || draft.savedAt > latest.draft.savedAt) {
+      latest = { key, draft };
+    }
+  }
+  return latest;
+}
+
+/**
+ * A player's designs for a theme, most recently updated first
+ */
+export function listThemeDesigns(designs: Design[], themeId: string): Design[] {
+  return designs
+    .filter(design => design.themeId === themeId)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * The player's most recently updated design for a theme, submitted or not
+ */
+export function findLatestDesign(designs: Design[], themeId: string): Design | null {
+  return listThemeDesigns(designs, themeId)[0] ?? null;
+}
+
+/**
+ * Clean up a name typed for a design
+ * @returns The trimmed name, cut to MAX_DESIGN_NAME_LENGTH, or undefined if blank
+ */
+export function normalizeDesignName(name: unknown): string | undefined {
+  if (typeof name !== 'string') {
+    return undefined;
+  }
+  const trimmed = name.trim().slice(0, MAX_DESIGN_NAME_LENGTH).trim();
+  return trimmed || undefined;
+}
+
+/**
+ * A new, unsubmitted draft with the same room as `design`
+ */
+export function duplicateDesign(design: Design, id: string, now: number): Design {
+  const { submittedAt: _submittedAt, rating: _rating, revision: _revision, votesResetAt: _votesResetAt, remixCount: _remixCount, ...rest } = design;
+  return {
+    ...rest,
+    id,
+    ...(design.name ? { name: normalizeDesignName(`${design.name} copy`) } : {}),
+    createdAt: now,
+    updatedAt: now,
+    submitted: false,
+    voteCount: 0,
+  };
+}
+
+/**
+ * A new draft for `owner` with the room of someone else's design, crediting
+ * the original
+ */
+export function createRemix(original: Design, id: string, owner: { id: string; username: string }, now: number): Design {
+  return {
+    id,
+    userId: owner.id,
+    username: owner.username,
+    themeId: original.themeId,
+    name: normalizeDesignName(`Remix of u/${original.username}`),
+    roomId: original.roomId,
+    backgroundColor: original.backgroundColor,
+    ...(original.roomColors ? { roomColors: original.roomColors } : {}),
+    assets: original.assets,
+    layerMode: original.layerMode,
+    schemaVersion: original.schemaVersion,
+    createdAt: now,
+    updatedAt: now,
+    submitted: false,
+    voteCount: 0,
+    remixOf: { designId: original.id, userId: original.userId, username: original.username },
+  };
+}
+
+/**
+ * Whether a local draft has edits newer than the player's latest design on
+ * the server, whichever of their drafts it is
+ */
+export function isLocalDraftNewer(local: LocalDraft, latest: Design | null): boolean {
+  return !latest || local.savedAt > latest.updatedAt;
+}
@@ -0,0 +1,30 @@
+/**
+ * Elo Ratings
+ * Head-to-head "which room is better?" picks move two designs' ratings toward
+ * the observed result: beating a higher-rated room gains more than beating a lower one.
+ */
+
+// Rating of a design that has not been in a matchup yet
+export const INITIAL_RATING = 1500;
+
+// Largest rating change a single pick can cause
+export const ELO_K_FACTOR = 32;
+
+/**
+ * Probability that a design with `rating` is picked over one with `opponentRating`
+ */
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Ratings after a pick. The winner gains exactly what the loser gives up.
+ */
+export function getEloRatings(
+  winnerRating: number,
+  loserRating: number,
+  kFactor: number = ELO_K_FACTOR
+): { winner: number; loser: number } {
+  const change = kFactor * (1 - getExpectedScore(winnerRating, loserRating));
+  return { winner: winnerRating + change, loser: loserRating - change };
+}
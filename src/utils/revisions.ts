@@ -0,0 +1,46 @@
+/**
+ * Revision Utilities
+ * Numbering a design's submissions and what happens to its likes when it is
+ * resubmitted
+ */
+
+import { Design, DesignRevision, ResubmitVotePolicy, RESUBMIT_VOTE_DECAY } from '../types/models.js';
+
+/**
+ * The revision number a design's next submission gets. Designs submitted
+ * before revisions were kept count as revision 1.
+ */
+export function getNextRevision(previous: Design | null): number {
+  return (previous?.revision ?? (previous?.submitted ? 1 : 0)) + 1;
+}
+
+/**
+ * A resubmitted design's likes under the theme's policy
+ * @returns The carried over vote count, and when the likes were reset (kept
+ * as before when they carry over unchanged)
+ */
+export function carryOverVotes(
+  previous: Design,
+  policy: ResubmitVotePolicy = 'keep',
+  now: number = Date.now()
+): Pick<Design, 'voteCount' | 'votesResetAt'> {
+  switch (policy) {
+    case 'reset':
+      return { voteCount: 0, votesResetAt: now };
+    case 'decay':
+      return { voteCount: Math.floor(previous.voteCount * RESUBMIT_VOTE_DECAY), votesResetAt: now };
+    default:
+      return { voteCount: previous.voteCount, votesResetAt: previous.votesResetAt };
+  }
+}
+
+/**
+ * The stored copy of a submission
+ */
+export function createRevision(design: Design): DesignRevision {
+  return {
+    revision: design.revision ?? 1,
+    submittedAt: design.updatedAt,
+    design,
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Room Bases
+ * The empty rooms a design can be built in. Every base fills the same 4:3
+ * design canvas, so placed asset coordinates mean the same thing in each.
+ */
+
+/**
+ * A selectable room; imageUrl is served from the web client's root
+ */
+export interface RoomBase {
+  id: string;
+  name: string;
+  description: string;
+  imageUrl: string;
+  // Draw the image mirrored left to right
+  mirrored: boolean;
+}
+
+export const ROOM_BASES: RoomBase[] = [
+  {
+    id: 'window_left',
+    name: 'Window Left',
+    description: 'Bare corner room with a window on the left wall',
+    imageUrl: 'room_2.png',
+    mirrored: false,
+  },
+  {
+    id: 'window_right',
+    name: 'Window Right',
+    description: 'Bare corner room with a window on the right wall',
+    imageUrl: 'room_2.png',
+    mirrored: true,
+  },
+  {
+    id: 'classroom',
+    name: 'Classroom',
+    description: 'Corner room with a window and a built-in chalkboard',
+    imageUrl: 'room_1.png',
+    mirrored: false,
+  },
+];
+
+// Every design made before rooms were selectable used this one
+export const DEFAULT_ROOM_ID = 'window_left';
+
+export function isRoomBaseId(roomId: unknown): roomId is string {
+  return ROOM_BASES.some(room => room.id === roomId);
+}
+
+/**
+ * Look up a room base, falling back to the default room for unknown ids
+ */
+export function getRoomBase(roomId?: string): RoomBase {
+  return ROOM_BASES.find(room => room.id === roomId) ?? ROOM_BASES.find(room => room.id === DEFAULT_ROOM_ID)!;
+}
@@ -0,0 +1,169 @@
+/**
+ * Room Surfaces
+ * Where the walls, floor and trim of a room base are on the design canvas, and
+ * the tinted layers and floor patterns a design's room colors draw over them.
+ * All room bases share one corner-room layout; mirrored bases draw these layers
+ * with the room image's transform.
+ */
+
+import { CANVAS_WIDTH, CANVAS_HEIGHT, FloorPattern, RoomColors } from '../types/models.js';
+import { fitContain } from './designLayout.js';
+
+export type Point = [number, number];
+
+export type RoomSurface = 'wall' | 'floor' | 'trim';
+
+/**
+ * One tinted layer, multiplied onto the room image
+ */
+export interface SurfaceLayer {
+  surface: RoomSurface;
+  color: string;
+  polygons: Point[][];
+}
+
+/**
+ * Lines drawn over the floor for a floor pattern
+ */
+export interface FloorPatternLayer {
+  lines: [Point, Point][];
+  stroke: string;
+  strokeWidth: number;
+}
+
+// Room images are square and fitted (contain) into the canvas; surfaces are
+// traced in image pixels
+const ROOM_IMAGE_SIZE = 1024;
+const imageRect = fitContain(ROOM_IMAGE_SIZE, ROOM_IMAGE_SIZE, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toCanvas = ([x, y]: Point): Point => [
+  round(imageRect.x + (x / ROOM_IMAGE_SIZE) * imageRect.width),
+  round(imageRect.y + (y / ROOM_IMAGE_SIZE) * imageRect.height),
+];
+
+// Floor corners: back (under the wall corner), right, front, left
+const FLOOR_BACK = toCanvas([512, 437]);
+const FLOOR_RIGHT = toCanvas([940, 680]);
+const FLOOR_FRONT = toCanvas([512, 918]);
+const FLOOR_LEFT = toCanvas([88, 680]);
+
+export const ROOM_SURFACE_POLYGONS: Record<RoomSurface, Point[][]> = {
+  floor: [[FLOOR_BACK, FLOOR_RIGHT, FLOOR_FRONT, FLOOR_LEFT]],
+  wall: [
+    [toCanvas([88, 345]), toCanvas([512, 100]), FLOOR_BACK, FLOOR_LEFT],
+    [toCanvas([512, 100]), toCanvas([940, 345]), FLOOR_RIGHT, FLOOR_BACK],
+  ],
+  // The caps along the top and outer edges of both walls
+  trim: [
+    [toCanvas([60, 325]), toCanvas([512, 65]), toCanvas([512, 100]), toCanvas([88, 345]), toCanvas([88, 688]), toCanvas([62, 678])],
+    [toCanvas([512, 65]), toCanvas([962, 325]), toCanvas([962, 678]), toCanvas([940, 688]), toCanvas([940, 345]), toCanvas([512, 100])],
+  ],
+};
+
+// Back to front, so trim is tinted over the wall edges
+const SURFACE_ORDER: RoomSurface[] = ['floor', 'wall', 'trim'];
+
+/**
+ * Tinted layers for a design's room colors, in draw order
+ */
+export function getSurfaceLayers(colors?: RoomColors): SurfaceLayer[] {
+  return SURFACE_ORDER.flatMap(surface => {
+    const color = colors?.[surface];
+    return color ? [{ surface, color, polygons: ROOM_SURFACE_POLYGONS[surface] }] : [];
+  });
+}
+
+const FLOOR_PATTERN_STYLES: Record<FloorPattern, { leftLines: number; rightLines: number; stroke: string; strokeWidth: number }> = {
+  wood: { leftLines: 0, rightLines: 14, stroke: 'rgba(60, 35, 15, 0.35)', strokeWidth: 1.5 },
+  tile: { leftLines: 7, rightLines: 7, stroke: 'rgba(255, 255, 255, 0.5)', strokeWidth: 2 },
+  carpet: { leftLines: 36, rightLines: 36, stroke: 'rgba(0, 0, 0, 0.08)', strokeWidth: 0.75 },
+};
+
+const lerp = (a: Point, b: Point, t: number): Point => [round(a[0] + (b[0] - a[0]) * t), round(a[1] + (b[1] - a[1]) * t)];
+
+// Evenly spaced lines across the floor, parallel to the edge from `from` to `to`
+const floorLines = (count: number, from: Point, to: Point, across: Point, acrossTo: Point): [Point, Point][] =>
+  Array.from({ length: count }, (_, index) => {
+    const t = (index + 1) / (count + 1);
+    return [lerp(from, across, t), lerp(to, acrossTo, t)];
+  });
+
+/**
+ * Lines for a floor pattern, or null when the floor is left as drawn
+ */
+export function getFloorPatternLayer(pattern?: FloorPattern): FloorPatternLayer | null {
+  if (!pattern) {
+    return null;
+  }
+  const style = FLOOR_PATTERN_STYLES[pattern];
+  return {
+    lines: [
+      // Parallel to the left wall, then parallel to the right wall
+      ...floorLines(style.leftLines, FLOOR_BACK, FLOOR_LEFT, FLOOR_RIGHT, FLOOR_FRONT),
+      ...floorLines(style.rightLines, FLOOR_BACK, FLOOR_RIGHT, FLOOR_LEFT, FLOOR_FRONT),
+    ],
+    stroke: style.stroke,
+    strokeWidth: style.strokeWidth,
+  };
+}
+
+// Cells along each floor edge of the placement grid
+export const FLOOR_GRID_CELLS = 10;
+
+// One grid cell along each floor axis, from the back corner
+const GRID_RIGHT: Point = [(FLOOR_RIGHT[0] - FLOOR_BACK[0]) / FLOOR_GRID_CELLS, (FLOOR_RIGHT[1] - FLOOR_BACK[1]) / FLOOR_GRID_CELLS];
+const GRID_LEFT: Point = [(FLOOR_LEFT[0] - FLOOR_BACK[0]) / FLOOR_GRID_CELLS, (FLOOR_LEFT[1] - FLOOR_BACK[1]) / FLOOR_GRID_CELLS];
+
+const mirrorX = (x: number, mirrored: boolean): number => mirrored ? CANVAS_WIDTH - x : x;
+
+// A grid intersection, in whole cells from the back corner along each floor axis
+const gridPoint = (right: number, left: number): Point => [
+  round(FLOOR_BACK[0] + right * GRID_RIGHT[0] + left * GRID_LEFT[0]),
+  round(FLOOR_BACK[1] + right * GRID_RIGHT[1] + left * GRID_LEFT[1]),
+];
+
+/**
+ * Inner lines of the floor grid, drawn with the room image's transform
+ */
+export function getFloorGridLines(): [Point, Point][] {
+  return Array.from({ length: FLOOR_GRID_CELLS - 1 }, (_, index): [Point, Point][] => [
+    [gridPoint(0, index + 1), gridPoint(FLOOR_GRID_CELLS, index + 1)],
+    [gridPoint(index + 1, 0), gridPoint(index + 1, FLOOR_GRID_CELLS)],
+  ]).flat();
+}
+
+/**
+ * Snap a canvas point to the nearest floor grid intersection. The grid
+ * continues past the floor, so wall items snap along the same axes.
+ */
+export function snapToFloorGrid([x, y]: Point, mirrored: boolean = false): Point {
+  const dx = mirrorX(x, mirrored) - FLOOR_BACK[0];
+  const dy = y - FLOOR_BACK[1];
+  // Solve (dx, dy) = right * GRID_RIGHT + left * GRID_LEFT for whole cells
+  const det = GRID_RIGHT[0] * GRID_LEFT[1] - GRID_RIGHT[1] * GRID_LEFT[0];
+  const [snappedX, snappedY] = gridPoint(
+    Math.round((dx * GRID_LEFT[1] - dy * GRID_LEFT[0]) / det),
+    Math.round((dy * GRID_RIGHT[0] - dx * GRID_RIGHT[1]) / det)
+  );
+  return [round(mirrorX(snappedX, mirrored)), snappedY];
+}
+
+/**
+ * Canvas lines items can snap to: the wall corner and the floor's outer
+ * corners across, the back, side and front floor corners down
+ */
+export function getRoomGuides(mirrored: boolean = false): { x: number[]; y: number[] } {
+  return {
+    x: [FLOOR_BACK[0], FLOOR_LEFT[0], FLOOR_RIGHT[0]].map(x => mirrorX(x, mirrored)),
+    y: [FLOOR_BACK[1], FLOOR_LEFT[1], FLOOR_FRONT[1]],
+  };
+}
+
+/**
+ * A polygon as an SVG points attribute
+ */
+export function toSvgPoints(points: Point[]): string {
+  return points.map(([x, y]) => `${x},${y}`).join(' ');
+}
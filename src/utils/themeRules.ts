@@ -0,0 +1,92 @@
+/**
+ * Theme Rules
+ * Which catalog assets a theme's designs may use and must include. The editor
+ * palette and submission validation both read from here.
+ */
+
+import { PlacedAsset, ThemeRules } from '../types/models.js';
+import { ASSET_CATALOG, CatalogAsset, getCatalogAsset } from './assetCatalog.js';
+
+const formatCategory = (category: string): string => category.charAt(0).toUpperCase() + category.slice(1);
+
+const getAssetName = (assetId: string): string => getCatalogAsset(assetId)?.name ?? assetId;
+
+/**
+ * Whether a theme's asset pack and banned categories let players place an asset
+ * Required assets are always allowed.
+ */
+export function isAssetAllowed(asset: CatalogAsset, rules?: ThemeRules): boolean {
+  if (!rules || rules.requiredAssetIds?.includes(asset.id)) {
+    return true;
+  }
+  if (rules.allowedAssetIds && !rules.allowedAssetIds.includes(asset.id)) {
+    return false;
+  }
+  return !rules.bannedCategories?.includes(asset.category);
+}
+
+/**
+ * The catalog assets a theme's palette offers
+ */
+export function getAvailableAssets(rules?: ThemeRules): CatalogAsset[] {
+  return ASSET_CATALOG.filter(asset => isAssetAllowed(asset, rules));
+}
+
+/**
+ * Everything about a design's placed assets that breaks a theme's rules, as
+ * messages for the player. Empty when the design follows them.
+ */
+export function getThemeRuleViolations(assets: Pick<PlacedAsset, 'assetId'>[], rules?: ThemeRules): string[] {
+  if (!rules) {
+    return [];
+  }
+  const violations: string[] = [];
+  const placedIds = [...new Set(assets.map(asset => asset.assetId))];
+
+  for (const assetId of placedIds) {
+    const asset = getCatalogAsset(assetId);
+    // An id the catalog doesn't know could be anything, so it can't follow the rules
+    if (!asset) {
+      violations.push(`Unknown item "${assetId}"`);
+      continue;
+    }
+    if (isAssetAllowed(asset, rules)) {
+      continue;
+    }
+    violations.push(rules.bannedCategories?.includes(asset.category)
+      ? `${formatCategory(asset.category)} items are not allowed (${asset.name})`
+      : `${asset.name} is not part of this theme's asset pack`);
+  }
+
+  for (const assetId of rules.requiredAssetIds ?? []) {
+    if (!placedIds.includes(assetId)) {
+      violations.push(`Must include a ${getAssetName(assetId)}`);
+    }
+  }
+
+  if (rules.maxItems !== undefined && assets.length > rules.maxItems) {
+    violations.push(`Too many items: ${assets.length} placed, at most ${rules.maxItems} allowed`);
+  }
+
+  return violations;
+}
+
+/**
+ * Short descriptions of a theme's rules for the editor
+ */
+export function describeThemeRules(rules?: ThemeRules): string[] {
+  if (!rules) {
+    return [];
+  }
+  const descriptions: string[] = [];
+  if (rules.requiredAssetIds?.length) {
+    descriptions.push(`Must include: ${rules.requiredAssetIds.map(getAssetName).join(', ')}`);
+  }
+  if (rules.bannedCategories?.length) {
+    descriptions.push(`No ${rules.bannedCategories.map(formatCategory).join(', ')}`);
+  }
+  if (rules.maxItems !== undefined) {
+    descriptions.push(`At most ${rules.maxItems} items`);
+  }
+  return descriptions;
+}
@@ -0,0 +1,228 @@
+/**
+ * Timelapse Utilities
+ * Recording the editor's changes as build steps, and replaying them to show
+ * how a room came together
+ */
+
+import { BuildStep, PlacedAsset, RoomColors, MAX_TIMELAPSE_STEPS } from '../types/models.js';
+
+// A step replaces the one before it when it continues the same change this
+// soon after, so a drag or a sweep of the color wheel is recorded once
+export const STEP_MERGE_WINDOW_MS = 1000;
+
+// Replay pauses are cut to at most a second and shown for at least a moment,
+// before the replay speed is applied
+export const MIN_REPLAY_GAP_MS = 80;
+export const MAX_REPLAY_GAP_MS = 1000;
+
+export const REPLAY_SPEEDS = [1, 2, 4, 8] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+// A recording that outgrows MAX_TIMELAPSE_STEPS is compacted to this many
+// steps, leaving room to record on before it is compacted again
+export const COMPACTED_TIMELAPSE_STEPS = MAX_TIMELAPSE_STEPS * 3 / 4;
+
+// How far, in canvas pixels, a restored item may be from its recorded
+// position and still be the same item
+const MATCH_TOLERANCE = 1;
+
+/**
+ * A placed item, by its number in the recording
+ */
+export interface BuildItem {
+  item: number;
+  asset: PlacedAsset;
+}
+
+/**
+ * The room at one point of a recording, items in stacking order
+ */
+export interface BuildState {
+  items: BuildItem[];
+  backgroundColor: string;
+  roomColors?: RoomColors;
+}
+
+// The editor's empty room
+export const EMPTY_BUILD_STATE: BuildState = { items: [], backgroundColor: '#f1e1d6' };
+
+const sameRoomColors = (a: RoomColors = {}, b: RoomColors = {}): boolean =>
+  a.wall === b.wall && a.floor === b.floor && a.trim === b.trim && a.floorPattern === b.floorPattern;
+
+/**
+ * The steps that turn one recorded state into the next, all at time `t`
+ */
+export function diffBuildStates(previous: BuildState, next: BuildState, t: number): BuildStep[] {
+  const steps: BuildStep[] = [];
+
+  if (previous.backgroundColor !== next.backgroundColor || !sameRoomColors(previous.roomColors, next.roomColors)) {
+    const hasRoomColors = next.roomColors && !sameRoomColors(next.roomColors, {});
+    steps.push({ t, op: 'recolor', backgroundColor: next.backgroundColor, ...(hasRoomColors ? { roomColors: next.roomColors } : {}) });
+  }
+
+  const remaining = new Set(next.items.map(({ item }) => item));
+  for (const { item } of previous.items) {
+    if (!remaining.has(item)) {
+      steps.push({ t, op: 'delete', item });
+    }
+  }
+
+  const before = new Map(previous.items.map(({ item, asset }) => [item, asset]));
+  for (const { item, asset } of next.items) {
+    const old = before.get(item);
+    if (!old) {
+      steps.push({ t, op: 'place', item, asset });
+      continue;
+    }
+    if (old.flipped !== asset.flipped) {
+      steps.push({ t, op: 'flip', item });
+    }
+    if (old.x !== asset.x || old.y !== asset.y || old.rotation !== asset.rotation || old.scale !== asset.scale) {
+      steps.push({ t, op: 'move', item, x: asset.x, y: asset.y, rotation: asset.rotation, scale: asset.scale });
+    }
+  }
+
+  return steps;
+}
+
+const continuesStep = (last: BuildStep, step: BuildStep): boolean =>
+  step.t - last.t < STEP_MERGE_WINDOW_MS && (
+    (last.op === 'move' && step.op === 'move' && last.item === step.item) ||
+    (last.op === 'recolor' && step.op === 'recolor')
+  );
+
+/**
+ * Add new steps to a recording, merging continued changes into one step.
+ * A recording that grows past MAX_TIMELAPSE_STEPS is compacted.
+ */
+export function appendBuildSteps(steps: BuildStep[], added: BuildStep[]): BuildStep[] {
+  let result = [...steps];
+  for (const step of added) {
+    const last = result[result.length - 1];
+    if (last && continuesStep(last, step)) {
+      result[result.length - 1] = step;
+    } else {
+      result.push(step);
+      if (result.length > MAX_TIMELAPSE_STEPS) {
+        result = compactBuildSteps(result);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Shorten a recording to at most COMPACTED_TIMELAPSE_STEPS steps, always
+ * replaying to the same room. A move is dropped first when the same item
+ * moves again before anything else happens to it; if that is not enough, the
+ * oldest steps are replaced by the room as it stood after them. A room with
+ * more items than that is kept as just its finished state.
+ */
+export function compactBuildSteps(steps: BuildStep[]): BuildStep[] {
+  // Index of each item's latest step, while that step is a move
+  const pendingMoves = new Map<number, number>();
+  const superseded = new Set<number>();
+  steps.forEach((step, index) => {
+    if (step.op === 'recolor') return;
+    const pending = pendingMoves.get(step.item);
+    if (step.op === 'move') {
+      if (pending !== undefined) superseded.add(pending);
+      pendingMoves.set(step.item, index);
+    } else {
+      pendingMoves.delete(step.item);
+    }
+  });
+  const merged = steps.filter((_, index) => !superseded.has(index));
+  if (merged.length <= COMPACTED_TIMELAPSE_STEPS) {
+    return merged;
+  }
+
+  // Fold as few of the oldest steps as fit into a snapshot of the room
+  let state = EMPTY_BUILD_STATE;
+  let cut = 0;
+  while (cut < merged.length) {
+    state = applyBuildStep(state, merged[cut]);
+    cut++;
+    // Items, plus a recolor when the colors changed
+    if (state.items.length + 1 + merged.length - cut <= COMPACTED_TIMELAPSE_STEPS) {
+      break;
+    }
+  }
+  // The folded steps become the ones that build that room from empty
+  return [...diffBuildStates(EMPTY_BUILD_STATE, state, merged[cut - 1].t), ...merged.slice(cut)];
+}
+
+/**
+ * The room after one more step
+ */
+export function applyBuildStep(state: BuildState, step: BuildStep): BuildState {
+  switch (step.op) {
+    case 'place':
+      return { ...state, items: [...state.items, { item: step.item, asset: step.asset }] };
+    case 'move':
+      return {
+        ...state,
+        items: state.items.map(({ item, asset }) => ({
+          item,
+          asset: item === step.item ? { ...asset, x: step.x, y: step.y, rotation: step.rotation, scale: step.scale } : asset,
+        })),
+      };
+    case 'flip':
+      return {
+        ...state,
+        items: state.items.map(({ item, asset }) => ({ item, asset: item === step.item ? { ...asset, flipped: !asset.flipped } : asset })),
+      };
+    case 'delete':
+      return { ...state, items: state.items.filter(({ item }) => item !== step.item) };
+    case 'recolor': {
+      const { roomColors: _roomColors, ...rest } = state;
+      return { ...rest, backgroundColor: step.backgroundColor, ...(step.roomColors ? { roomColors: step.roomColors } : {}) };
+    }
+  }
+}
+
+/**
+ * The room after a run of steps
+ */
+export function replayBuildSteps(steps: BuildStep[], from: BuildState = EMPTY_BUILD_STATE): BuildState {
+  return steps.reduce(applyBuildStep, from);
+}
+
+/**
+ * A recorded room's assets, stacked in list order
+ */
+export function getBuildAssets(state: BuildState): PlacedAsset[] {
+  return state.items.map(({ asset }, zIndex) => ({ ...asset, zIndex }));
+}
+
+/**
+ * The number the next item placed in a recording gets
+ */
+export function getNextBuildItem(steps: BuildStep[]): number {
+  return steps.reduce((next, step) => ('item' in step ? Math.max(next, step.item + 1) : next), 0);
+}
+
+/**
+ * Find the recorded item each of a restored design's assets is, by asset and
+ * position, so recording can carry on where it stopped
+ * @returns Each asset's item number, undefined for assets the recording never saw
+ */
+export function matchBuildItems(items: BuildItem[], assets: PlacedAsset[]): Array<number | undefined> {
+  const unmatched = [...items];
+  return assets.map(asset => {
+    const index = unmatched.findIndex(({ asset: recorded }) =>
+      recorded.assetId === asset.assetId &&
+      Math.abs(recorded.x - asset.x) < MATCH_TOLERANCE &&
+      Math.abs(recorded.y - asset.y) < MATCH_TOLERANCE
+    );
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0].item;
+  });
+}
+
+/**
+ * How long the replay waits before showing step `index`
+ */
+export function getReplayDelay(steps: BuildStep[], index: number, speed: ReplaySpeed): number {
+  const gap = index > 0 ? steps[index].t - steps[index - 1].t : 0;
+  return Math.min(Math.max(gap, MIN_REPLAY_GAP_MS), MAX_REPLAY_GAP_MS) / speed;
+}